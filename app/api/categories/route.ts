@@ -0,0 +1,38 @@
+export const runtime = "nodejs";
+
+// app/api/categories/route.ts
+import { NextResponse } from 'next/server'
+import { getCategoryStatuses } from '@/app/lib/datasets'
+import type { CategoryStatus } from '@/app/lib/datasets'
+
+type CategoriesResponse =
+    | {
+        success: true
+        data: CategoryStatus[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+// A category is available once its data folder validates, so this is never cached
+export async function GET(): Promise<NextResponse<CategoriesResponse>> {
+    try {
+        const data = getCategoryStatuses()
+        console.log(`✓ Categories available: ${data.filter(c => c.available).map(c => c.id).join(', ') || 'none'}`)
+
+        return NextResponse.json(
+            { success: true, data },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,173 @@
+export const runtime = "nodejs";
+
+// app/api/classification/matrix/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getCategorySource, getSnapshotSource, loadDataset, parseCrossTab, summarizeDataset } from '@/app/lib/datasets'
+import type { DatasetSummary } from '@/app/lib/datasets'
+import {
+    OWNER_CODE_DATASETS,
+    buildOwnerCodeMatrix,
+    createOwnerHarmonizer,
+    filterOwnerCodeMatrix,
+    isClassificationScheme,
+} from '@/app/lib/owners'
+import type { ClassificationScheme } from '@/app/lib/owners'
+import {
+    DEFAULT_CLASSIFICATION_LEVEL,
+    isClassificationLevel,
+    levelOfClassification,
+} from '@/app/lib/classification'
+import type { ClassificationLevel } from '@/app/lib/classification'
+
+// Constants
+const PREFIX_PATTERN = /^[A-Z0-9/]+$/
+
+// Interfaces
+interface MatrixOwner {
+    owner: string
+    total: number
+}
+
+interface MatrixCode {
+    code: string
+    total: number
+    // Number of owners with at least one record in the code
+    owners: number
+    description: string
+}
+
+// Sparse owner x code matrix: only non-zero cells, as [owner index, code index, count]
+interface OwnerCodeMatrixData {
+    owners: MatrixOwner[]
+    codes: MatrixCode[]
+    cells: Array<[number, number, number]>
+}
+
+type MatrixResponse =
+    | {
+        success: true
+        data: OwnerCodeMatrixData
+        scheme: ClassificationScheme
+        level: ClassificationLevel
+        parent: string | null
+        prefix: string | null
+        snapshot: string | null
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+/**
+ * Every owner and every code of one owner cross-tab, not just the top N:
+ *   scheme   ipc or cpc (default cpc)
+ *   level    classification level to roll codes up to (default subgroup)
+ *   parent   only codes under this one in the hierarchy
+ *   prefix   only codes starting with this text, e.g. G06N10/4
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<MatrixResponse>> {
+    try {
+        const params = request.nextUrl.searchParams
+        const category = params.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = params.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const scheme = params.get('scheme') || 'cpc'
+        if (!isClassificationScheme(scheme)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification scheme: ${scheme}` },
+                { status: 400 }
+            )
+        }
+
+        const level = params.get('level') || DEFAULT_CLASSIFICATION_LEVEL
+        if (!isClassificationLevel(level)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification level: ${level}` },
+                { status: 400 }
+            )
+        }
+
+        const parent = params.get('parent')?.replace(/\s+/g, '').toUpperCase() || null
+        if (parent && !levelOfClassification(parent)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid parent classification: ${parent}` },
+                { status: 400 }
+            )
+        }
+
+        const prefix = params.get('prefix')?.replace(/\s+/g, '').toUpperCase() || null
+        if (prefix && !PREFIX_PATTERN.test(prefix)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid code prefix: ${prefix}` },
+                { status: 400 }
+            )
+        }
+
+        const dataset = loadDataset(OWNER_CODE_DATASETS[scheme], source)
+        let matrix = buildOwnerCodeMatrix(parseCrossTab(dataset), createOwnerHarmonizer(), { level, parent })
+        if (prefix) {
+            matrix = filterOwnerCodeMatrix(matrix, code => code.startsWith(prefix))
+        }
+
+        const codeIndex = new Map(matrix.codes.map((code, i) => [code, i]))
+        const ownerCounts = new Map<string, number>()
+        const cells: Array<[number, number, number]> = []
+        matrix.rows.forEach((row, ownerIndex) => {
+            for (const [code, count] of Object.entries(row.counts)) {
+                cells.push([ownerIndex, codeIndex.get(code)!, count])
+                ownerCounts.set(code, (ownerCounts.get(code) || 0) + 1)
+            }
+        })
+
+        const data: OwnerCodeMatrixData = {
+            owners: matrix.rows.map(row => ({ owner: row.owner, total: row.total })),
+            codes: matrix.codes.map(code => ({
+                code,
+                total: matrix.codeTotals[code],
+                owners: ownerCounts.get(code) || 0,
+                description: matrix.descriptions[code] || '',
+            })),
+            cells,
+        }
+        console.log(`✓ ${scheme.toUpperCase()} matrix: ${data.owners.length} owners x ${data.codes.length} codes, ${cells.length} non-zero cells`)
+
+        return NextResponse.json(
+            {
+                success: true,
+                data,
+                scheme,
+                level,
+                parent,
+                prefix,
+                snapshot: source.snapshot ?? null,
+                datasets: [summarizeDataset(dataset)],
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -2,23 +2,37 @@ export const runtime = "nodejs";
 
 // app/api/classification/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
-import { parse } from 'csv-parse/sync'
+import { DATASETS, getCategorySource, getExportYear, getSnapshotSource, loadDataset, loadYearTable, parseCrossTab, parseNumber, summarizeDataset } from '@/app/lib/datasets'
+import type { CrossTab, DataRow, DataSource, DatasetSummary } from '@/app/lib/datasets'
+import { ALL_YEARS, INVALID_YEAR_RANGE, isInYearRange, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
+import { CLASSIFICATION_LIMITS, EMERGENCE_LIMITS, parseLimits } from '@/app/lib/limits'
+import { createOwnerHarmonizer } from '@/app/lib/owners'
+import {
+    DEFAULT_CLASSIFICATION_LEVEL,
+    classificationTree,
+    isClassificationLevel,
+    levelOfClassification,
+    rollUpClassification,
+    splitClassificationLabel,
+} from '@/app/lib/classification'
+import type {
+    ClassificationDescriptions,
+    ClassificationHierarchy as Hierarchy,
+    ClassificationLevel,
+    ClassificationNode,
+} from '@/app/lib/classification'
+import { buildConcordance } from '@/app/lib/concordance'
+import type { ConcordanceRow } from '@/app/lib/concordance'
+import { detectEmergence } from '@/app/lib/emergence'
+import type { EmergingCode, YearCounts } from '@/app/lib/emergence'
+import { buildOwnerCodeMatrix } from '@/app/lib/owners'
+import type { OwnerHarmonizer } from '@/app/lib/owners'
+import type { LimitValues } from '@/app/lib/limits'
 
 // Constants
-const DATA_DIRS = {
-    RAW: 'raw',
-    PROCESSED: 'processed'
-} as const
-
-const LIMITS = {
-    FULL_RECORDS: 10,
-    TOP_CLASSIFICATIONS: 5,
-    TOP_OWNERS: 15,
-    MIN_YEAR: 2010,
-    MAX_YEAR: 2025
-} as const
+type ClassificationLimits = LimitValues<typeof CLASSIFICATION_LIMITS>
+type EmergenceLimits = LimitValues<typeof EMERGENCE_LIMITS>
 
 // Interfaces
 interface ClassificationItem {
@@ -26,12 +40,12 @@ interface ClassificationItem {
     total: number
 }
 
-interface OwnerClassification extends Record<string, any> {
+interface OwnerClassification extends Record<string, string | number> {
     currentOwner: string
     total: number
 }
 
-interface YearClassification extends Record<string, any> {
+interface YearClassification extends Record<string, number> {
     year: number
 }
 
@@ -42,12 +56,29 @@ interface ClassificationData {
     cpcByOwner: OwnerClassification[]
     cpcByYear: YearClassification[]
     ipcByYear: YearClassification[]
+    // Whole hierarchy under the drill-down parent, independent of level and top N
+    ipcTree: ClassificationNode[]
+    cpcTree: ClassificationNode[]
+    // Rising codes over the window ending at the range's last year, most share gained first
+    ipcEmerging: EmergingCode[]
+    cpcEmerging: EmergingCode[]
+    // CPC codes grouped under their IPC parents, at the requested level
+    concordance: ConcordanceRow[]
+    // Titles of every code the exports name, whether or not it made the top N
+    descriptions: ClassificationDescriptions
 }
 
 type ClassificationResponse =
     | {
         success: true
         data: ClassificationData
+        yearRange: YearRange
+        snapshot: string | null
+        limits: ClassificationLimits
+        emergence: EmergenceLimits
+        level: ClassificationLevel
+        parent: string | null
+        datasets: DatasetSummary[]
     }
     | {
         success: false
@@ -55,168 +86,136 @@ type ClassificationResponse =
     }
 
 // Utility Functions
-function removeBOM(content: string): string {
-    return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content
-}
-
-function cleanOwnerName(name: string | null | undefined): string {
-    if (!name) return ''
-    return String(name).replace(/^["']|["']$/g, '').trim()
-}
-
+// Remove description after colon (e.g., "G06N10/40: Description" -> "G06N10/40")
 function cleanClassificationName(name: string | null | undefined): string {
-    if (!name) return ''
-    const nameStr = typeof name === 'string' ? name : String(name)
-    const cleaned = nameStr.replace(/^["']|["']$/g, '').trim()
-
-    // Remove description after colon (e.g., "G06N10/40: Description" -> "G06N10/40")
-    if (cleaned.includes(':')) {
-        return cleaned.split(':')[0].trim()
-    }
-
-    return cleaned
-}
-
-function parseNumber(value: any): number {
-    if (typeof value === 'number') return value
-    if (!value) return 0
-    const str = String(value).replace(/[,"']/g, '').trim()
-    const num = parseInt(str, 10)
-    return isNaN(num) ? 0 : num
+    return splitClassificationLabel(name).code
 }
 
-function findCsvFile(filename: string, dir: string, alternates: string[] = []): string | null {
-    const baseDir = path.join(process.cwd(), 'data', dir)
-
-    if (!fs.existsSync(baseDir)) {
-        console.warn(`Directory does not exist: ${baseDir}`)
-        return null
-    }
-
-    // Try main filename
-    let fullPath = path.join(baseDir, filename)
-    if (fs.existsSync(fullPath)) {
-        return fullPath
-    }
-
-    // Try alternates
-    for (const altName of alternates) {
-        fullPath = path.join(baseDir, altName)
-        if (fs.existsSync(fullPath)) {
-            return fullPath
+// Collects titles from row labels and column headers; the first non-empty title per code wins
+function collectDescriptions(labels: string[], descriptions: ClassificationDescriptions): void {
+    for (const label of labels) {
+        const { code, description } = splitClassificationLabel(label)
+        if (code && description && !descriptions[code]) {
+            descriptions[code] = description
         }
     }
-
-    return null
 }
 
-async function loadCsvData(filename: string): Promise<any[]> {
-    try {
-        const fileContent = fs.readFileSync(filename, 'utf-8')
-        const content = removeBOM(fileContent)
-
-        const records = parse(content, {
-            columns: true,
-            skip_empty_lines: true,
-            trim: true,
-        })
-
-        console.log(`✓ Loaded ${records.length} records from ${path.basename(filename)}`)
-        return records
-    } catch (error) {
-        console.error(`Error loading CSV ${filename}:`, error)
-        throw error
+// Sums counts of leaf codes into their ancestors at the requested level
+function rollUpCounts(entries: Array<[string, number]>, hierarchy: Hierarchy): Map<string, number> {
+    const totals = new Map<string, number>()
+    for (const [name, count] of entries) {
+        const code = rollUpClassification(name, hierarchy)
+        if (code) totals.set(code, (totals.get(code) || 0) + count)
     }
+    return totals
 }
 
-function processFullClassification(records: any[], limit: number = LIMITS.FULL_RECORDS): ClassificationItem[] {
+function processFullClassification(records: DataRow[], limit: number, hierarchy: Hierarchy): ClassificationItem[] {
     if (records.length === 0) return []
 
-    return records.slice(0, limit).map((row: any) => {
+    const totals = rollUpCounts(records.map(row => {
         const keys = Object.keys(row)
-        return {
-            classification: cleanClassificationName(row[keys[0]]),
-            total: parseNumber(row[keys[1]])
-        }
-    }).filter(item => item.classification && item.total > 0)
+        return [row[keys[0]], parseNumber(row[keys[1]])] as [string, number]
+    }), hierarchy)
+
+    return Array.from(totals.entries())
+        .map(([classification, total]) => ({ classification, total }))
+        .filter(item => item.total > 0)
+        .sort((a, b) => b.total - a.total)
+        .slice(0, limit)
 }
 
-function processOwnerClassification(
-    records: any[],
-    ownerLimit: number = LIMITS.TOP_OWNERS,
-    classLimit: number = LIMITS.TOP_CLASSIFICATIONS
-): OwnerClassification[] {
-    if (records.length === 0) return []
-
-    // Filter valid records
-    const validRecords = records.filter((row: any) => {
-        const firstValue = Object.values(row)[0]
-        return firstValue &&
-            !String(firstValue).includes('---') &&
-            !String(firstValue).includes('Current Owner')
-    })
-
-    if (validRecords.length === 0) return []
+function processClassificationTree(records: DataRow[], hierarchy: Hierarchy): ClassificationNode[] {
+    return classificationTree(records.map(row => {
+        const keys = Object.keys(row)
+        return [cleanClassificationName(row[keys[0]]), parseNumber(row[keys[1]])] as [string, number]
+    }), hierarchy.parent)
+}
 
-    const keys = Object.keys(validRecords[0])
+function processConcordance(ipcRecords: DataRow[], cpcRecords: DataRow[], hierarchy: Hierarchy): ConcordanceRow[] {
+    const counts = (records: DataRow[]) => rollUpCounts(records.map(row => {
+        const keys = Object.keys(row)
+        return [row[keys[0]], parseNumber(row[keys[1]])] as [string, number]
+    }), hierarchy)
+    return buildConcordance(counts(ipcRecords), counts(cpcRecords))
+}
 
-    // Calculate totals for each classification (skip first 2 columns: owner and total)
-    const classificationTotals: { [key: string]: number } = {}
-    for (let i = 2; i < keys.length; i++) {
-        const classKey = keys[i]
-        let total = 0
-        validRecords.forEach((row: any) => {
-            total += parseNumber(row[classKey])
-        })
-        classificationTotals[classKey] = total
-    }
+function processOwnerClassification(
+    crossTab: CrossTab,
+    ownerLimit: number,
+    classLimit: number,
+    owners: OwnerHarmonizer,
+    hierarchy: Hierarchy
+): OwnerClassification[] {
+    const matrix = buildOwnerCodeMatrix(crossTab, owners, hierarchy)
 
     // Get top N classifications
-    const topClassifications = Object.entries(classificationTotals)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, classLimit)
-        .map(([key]) => key)
+    const topClassifications = matrix.codes.slice(0, classLimit)
 
-    console.log(`Top ${classLimit} classifications: ${topClassifications.map(k => cleanClassificationName(k)).join(', ')}`)
+    console.log(`Top ${classLimit} classifications: ${topClassifications.join(', ')}`)
 
     // Process owner records
-    return validRecords.slice(0, ownerLimit).map((row: any) => {
+    return matrix.rows.slice(0, ownerLimit).map(row => {
         const cleaned: OwnerClassification = {
-            currentOwner: cleanOwnerName(row[keys[0]]),
-            total: parseNumber(row[keys[1]])
+            currentOwner: row.owner,
+            total: row.total
         }
 
-        topClassifications.forEach((classKey) => {
-            const cleanKey = cleanClassificationName(classKey)
-            if (cleanKey) {
-                cleaned[cleanKey] = parseNumber(row[classKey])
-            }
+        topClassifications.forEach((code) => {
+            cleaned[code] = row.counts[code] || 0
         })
 
         return cleaned
     }).filter((item: OwnerClassification) => item.currentOwner && item.total > 0)
 }
 
-function processYearClassification(records: any[]): YearClassification[] {
+/**
+ * Emerging codes from the by-year export. First appearance looks at every
+ * year, so the rows are re-read without the year range; the window ends at
+ * the range's last year, or the last year with data when that is earlier.
+ * The year the export was taken is still being filed and published, so the
+ * window always ends before it.
+ */
+function processEmergence(
+    records: DataRow[],
+    yearRange: YearRange,
+    hierarchy: Hierarchy,
+    limits: EmergenceLimits,
+    exportYear: number | null
+): EmergingCode[] {
+    const rows = processYearClassification(records, ALL_YEARS, hierarchy) as YearCounts[]
+    if (rows.length === 0) return []
+
+    const lastYear = rows[rows.length - 1].year
+    const endYear = Math.min(
+        yearRange.to ?? lastYear,
+        lastYear,
+        exportYear !== null ? exportYear - 1 : lastYear
+    )
+
+    return detectEmergence(rows, { window: limits.window, endYear, minRecords: limits.minRecords })
+        .slice(0, limits.topEmerging)
+}
+
+function processYearClassification(records: DataRow[], yearRange: YearRange, hierarchy: Hierarchy): YearClassification[] {
     if (records.length === 0) return []
 
     return records
-        .map((row: any) => {
+        .map(row => {
             const keys = Object.keys(row)
             const year = parseNumber(row[keys[0]])
 
             // Filter by year range
-            if (year < LIMITS.MIN_YEAR || year > LIMITS.MAX_YEAR) return null
+            if (!isInYearRange(year, yearRange)) return null
 
             const cleaned: YearClassification = { year }
 
-            // Add classification data
-            for (let i = 1; i < keys.length; i++) {
-                const classKey = cleanClassificationName(keys[i])
-                if (classKey) {
-                    cleaned[classKey] = parseNumber(row[keys[i]])
-                }
-            }
+            // Add classification data, rolled up to the level
+            const codes = rollUpCounts(keys.slice(1).map(k => [k, parseNumber(row[k])] as [string, number]), hierarchy)
+            codes.forEach((count, code) => {
+                cleaned[code] = count
+            })
 
             return cleaned
         })
@@ -224,7 +223,35 @@ function processYearClassification(records: any[]): YearClassification[] {
         .sort((a, b) => a.year - b.year)
 }
 
-async function getClassificationData(): Promise<ClassificationResponse> {
+// The raw cross-tabs carry every code, so the chart keeps the top N over the range plus the emerging ones
+function limitYearCodes(rows: YearClassification[], limit: number, emerging: EmergingCode[]): YearClassification[] {
+    const totals = new Map<string, number>()
+    for (const row of rows) {
+        for (const [code, count] of Object.entries(row)) {
+            if (code !== 'year') totals.set(code, (totals.get(code) || 0) + count)
+        }
+    }
+    const keep = new Set([
+        ...[...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([code]) => code),
+        ...emerging.map(item => item.code).filter(code => totals.has(code)),
+    ])
+
+    return rows.map(row => {
+        const limited: YearClassification = { year: row.year }
+        keep.forEach(code => {
+            limited[code] = row[code] || 0
+        })
+        return limited
+    })
+}
+
+async function getClassificationData(
+    source: DataSource,
+    yearRange: YearRange,
+    limits: ClassificationLimits,
+    emergence: EmergenceLimits,
+    hierarchy: Hierarchy
+): Promise<ClassificationResponse> {
     try {
         console.log('=== Classification Data Processing Started ===')
 
@@ -235,95 +262,61 @@ async function getClassificationData(): Promise<ClassificationResponse> {
             cpcByOwner: [],
             cpcByYear: [],
             ipcByYear: [],
+            ipcTree: [],
+            cpcTree: [],
+            ipcEmerging: [],
+            cpcEmerging: [],
+            concordance: [],
+            descriptions: {},
         }
 
-        // === Load IPC Full data ===
-        const ipcFullFile = findCsvFile('IPC_Full.csv', DATA_DIRS.RAW, ['ipc_full.csv', 'IPC_full.csv'])
-        if (ipcFullFile) {
-            try {
-                const records = await loadCsvData(ipcFullFile)
-                data.ipcFull = processFullClassification(records)
-                console.log(`✓ Processed ${data.ipcFull.length} IPC full records`)
-            } catch (err) {
-                console.error('Error processing IPC_Full.csv:', err)
-            }
-        }
-
-        // === Load CPC Full data ===
-        const cpcFullFile = findCsvFile('CPC_Full.csv', DATA_DIRS.RAW, ['cpc_full.csv', 'CPC_full.csv'])
-        if (cpcFullFile) {
-            try {
-                const records = await loadCsvData(cpcFullFile)
-                data.cpcFull = processFullClassification(records)
-                console.log(`✓ Processed ${data.cpcFull.length} CPC full records`)
-            } catch (err) {
-                console.error('Error processing CPC_Full.csv:', err)
-            }
-        }
-
-        // === Load IPC by Owner data ===
-        const ipcOwnerFile = findCsvFile('Current-Owner_IPC-Full.csv', DATA_DIRS.RAW, [
-            'current_owner_ipc_full.csv',
-            'Current-Owner_IPC_Full.csv',
-            'IPC_Assignee.csv',
-        ])
-        if (ipcOwnerFile) {
-            try {
-                const records = await loadCsvData(ipcOwnerFile)
-                data.ipcByOwner = processOwnerClassification(records)
-                console.log(`✓ Processed ${data.ipcByOwner.length} IPC by owner records`)
-            } catch (err) {
-                console.error('Error processing Current-Owner_IPC-Full.csv:', err)
-            }
-        }
-
-        // === Load CPC by Owner data ===
-        const cpcOwnerFile = findCsvFile('Current-Owner_CPC-Full.csv', DATA_DIRS.RAW, [
-            'current_owner_cpc_full.csv',
-            'Current-Owner_CPC_Full.csv',
-            'CPC_Assignee.csv',
-        ])
-        if (cpcOwnerFile) {
-            try {
-                const records = await loadCsvData(cpcOwnerFile)
-                data.cpcByOwner = processOwnerClassification(records)
-                console.log(`✓ Processed ${data.cpcByOwner.length} CPC by owner records`)
-            } catch (err) {
-                console.error('Error processing Current-Owner_CPC-Full.csv:', err)
-            }
-        }
+        // Missing files yield empty datasets, reported in the diagnostics
+        const ipcFull = loadDataset(DATASETS.ipcFull, source)
+        const cpcFull = loadDataset(DATASETS.cpcFull, source)
+        const ipcByOwner = loadDataset(DATASETS.ipcByOwner, source)
+        const cpcByOwner = loadDataset(DATASETS.cpcByOwner, source)
+        const cpcByYear = loadYearTable('cpc', source)
+        const ipcByYear = loadYearTable('ipc', source)
+
+        // === IPC / CPC Full data ===
+        data.ipcFull = processFullClassification(ipcFull.records, limits.fullRecords, hierarchy)
+        console.log(`✓ Processed ${data.ipcFull.length} IPC full records`)
+        data.cpcFull = processFullClassification(cpcFull.records, limits.fullRecords, hierarchy)
+        console.log(`✓ Processed ${data.cpcFull.length} CPC full records`)
+        data.ipcTree = processClassificationTree(ipcFull.records, hierarchy)
+        data.cpcTree = processClassificationTree(cpcFull.records, hierarchy)
+        console.log(`✓ Built classification trees: ${data.ipcTree.length} IPC nodes, ${data.cpcTree.length} CPC nodes`)
+        data.concordance = processConcordance(ipcFull.records, cpcFull.records, hierarchy)
+        console.log(`✓ Mapped CPC codes onto ${data.concordance.length} IPC parents`)
+
+        // === IPC / CPC by Owner data ===
+        const owners = createOwnerHarmonizer()
+        data.ipcByOwner = processOwnerClassification(parseCrossTab(ipcByOwner), limits.topOwners, limits.topClassifications, owners, hierarchy)
+        console.log(`✓ Processed ${data.ipcByOwner.length} IPC by owner records`)
+        data.cpcByOwner = processOwnerClassification(parseCrossTab(cpcByOwner), limits.topOwners, limits.topClassifications, owners, hierarchy)
+        console.log(`✓ Processed ${data.cpcByOwner.length} CPC by owner records`)
+
+        // === CPC / IPC by Year data ===
+        data.cpcEmerging = processEmergence(cpcByYear.records, yearRange, hierarchy, emergence, getExportYear(cpcByYear, source))
+        data.ipcEmerging = processEmergence(ipcByYear.records, yearRange, hierarchy, emergence, getExportYear(ipcByYear, source))
+        console.log(`✓ Flagged ${data.cpcEmerging.length} emerging CPC and ${data.ipcEmerging.length} emerging IPC codes`)
+        data.cpcByYear = limitYearCodes(
+            processYearClassification(cpcByYear.records, yearRange, hierarchy), limits.fullRecords, data.cpcEmerging
+        )
+        console.log(`✓ Processed ${data.cpcByYear.length} CPC by year records`)
+        data.ipcByYear = limitYearCodes(
+            processYearClassification(ipcByYear.records, yearRange, hierarchy), limits.fullRecords, data.ipcEmerging
+        )
+        console.log(`✓ Processed ${data.ipcByYear.length} IPC by year records`)
 
-        // === Load CPC by Year data ===
-        const cpcYearFile = findCsvFile('CPC_Classifications_vs_Year.csv', DATA_DIRS.PROCESSED, [
-            'application_year_cpc_full.csv',
-            'Application-Year_CPC-Full.csv',
-            'Application-Year _CPC-Full.csv',
-        ])
-        if (cpcYearFile) {
-            try {
-                const records = await loadCsvData(cpcYearFile)
-                data.cpcByYear = processYearClassification(records)
-                console.log(`✓ Processed ${data.cpcByYear.length} CPC by year records`)
-            } catch (err) {
-                console.error('Error processing CPC_Classifications_vs_Year.csv:', err)
-            }
+        // === Code titles ===
+        for (const dataset of [ipcFull, cpcFull]) {
+            collectDescriptions(dataset.records.map(row => Object.values(row)[0] ?? ''), data.descriptions)
         }
-
-        // === Load IPC by Year data ===
-        const ipcYearFile = findCsvFile('IPC_Classifications_vs_Year.csv', DATA_DIRS.PROCESSED, [
-            'application_year_ipc_full.csv',
-            'Application-Year_IPC-Full.csv',
-            'Application-Year _IPC-Full.csv',
-        ])
-        if (ipcYearFile) {
-            try {
-                const records = await loadCsvData(ipcYearFile)
-                data.ipcByYear = processYearClassification(records)
-                console.log(`✓ Processed ${data.ipcByYear.length} IPC by year records`)
-            } catch (err) {
-                console.error('Error processing IPC_Classifications_vs_Year.csv:', err)
-            }
+        for (const dataset of [ipcByOwner, cpcByOwner, cpcByYear, ipcByYear]) {
+            collectDescriptions(dataset.columns, data.descriptions)
         }
+        console.log(`✓ Collected ${Object.keys(data.descriptions).length} classification descriptions`)
 
         console.log('=== Classification Data Processing Completed ===')
         console.log(`Summary: IPC Full: ${data.ipcFull.length}, CPC Full: ${data.cpcFull.length}, ` +
@@ -331,7 +324,8 @@ async function getClassificationData(): Promise<ClassificationResponse> {
             `IPC Year: ${data.ipcByYear.length}, CPC Year: ${data.cpcByYear.length}`)
 
         // Validate we have at least some data
-        const hasData = Object.values(data).some(arr => arr.length > 0)
+        const hasData = [data.ipcFull, data.cpcFull, data.ipcByOwner, data.cpcByOwner, data.cpcByYear, data.ipcByYear]
+            .some(arr => arr.length > 0)
         if (!hasData) {
             throw new Error('No classification data files found or all files are empty')
         }
@@ -339,6 +333,13 @@ async function getClassificationData(): Promise<ClassificationResponse> {
         return {
             success: true,
             data,
+            yearRange,
+            snapshot: source.snapshot ?? null,
+            limits,
+            emergence,
+            level: hierarchy.level,
+            parent: hierarchy.parent,
+            datasets: [ipcFull, cpcFull, ipcByOwner, cpcByOwner, cpcByYear, ipcByYear].map(summarizeDataset),
         }
     } catch (error) {
         console.error('Error getting classification data:', error)
@@ -351,12 +352,77 @@ async function getClassificationData(): Promise<ClassificationResponse> {
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
     try {
-        const result = await getClassificationData()
+        const category = request.nextUrl.searchParams.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = request.nextUrl.searchParams.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const requestedYears = parseYearRange(request.nextUrl.searchParams)
+        if (!requestedYears) {
+            return NextResponse.json(
+                { success: false, error: INVALID_YEAR_RANGE },
+                { status: 400 }
+            )
+        }
+
+        const limits = parseLimits(request.nextUrl.searchParams, CLASSIFICATION_LIMITS)
+        if (limits.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid limits: ${limits.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const emergence = parseLimits(request.nextUrl.searchParams, EMERGENCE_LIMITS)
+        if (emergence.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid emergence settings: ${emergence.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const level = request.nextUrl.searchParams.get('level') || DEFAULT_CLASSIFICATION_LEVEL
+        if (!isClassificationLevel(level)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification level: ${level}` },
+                { status: 400 }
+            )
+        }
+
+        // Drilling down: only codes under this one, e.g. parent=G06N at main-group level
+        const parent = request.nextUrl.searchParams.get('parent')?.replace(/\s+/g, '').toUpperCase() || null
+        if (parent && !levelOfClassification(parent)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid parent classification: ${parent}` },
+                { status: 400 }
+            )
+        }
+
+        const result = await getClassificationData(
+            source,
+            requestedYears,
+            limits.values,
+            emergence.values,
+            { level, parent }
+        )
 
         if (result.success) {
             return NextResponse.json(result, {
                 headers: {
-                    'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+                    'Cache-Control': 'no-store'
                 }
             })
         } else {
@@ -0,0 +1,176 @@
+export const runtime = "nodejs";
+
+// app/api/classification/similarity/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getCategorySource, getSnapshotSource, loadDataset, parseCrossTab, summarizeDataset } from '@/app/lib/datasets'
+import type { DatasetSummary } from '@/app/lib/datasets'
+import { SIMILARITY_LIMITS, parseLimits } from '@/app/lib/limits'
+import type { LimitValues } from '@/app/lib/limits'
+import {
+    OWNER_CODE_DATASETS,
+    buildOwnerCodeMatrix,
+    clusterOwners,
+    createOwnerHarmonizer,
+    findOwnerRow,
+    findSimilarOwners,
+    isClassificationScheme,
+} from '@/app/lib/owners'
+import type { ClassificationScheme, OwnerClustering, SimilarOwner } from '@/app/lib/owners'
+import {
+    DEFAULT_CLASSIFICATION_LEVEL,
+    isClassificationLevel,
+} from '@/app/lib/classification'
+import type { ClassificationDescriptions, ClassificationLevel } from '@/app/lib/classification'
+
+// Constants
+// Owners joined below this average cosine similarity stay in separate clusters
+const DEFAULT_THRESHOLD = 0.3
+
+// Interfaces
+interface SimilarityData {
+    // Every owner in the export, for picking the one to compare against
+    ownerNames: string[]
+    clustering: OwnerClustering
+    // Present when an owner was asked for
+    similar: {
+        owner: string
+        owners: SimilarOwner[]
+    } | null
+    descriptions: ClassificationDescriptions
+}
+
+type SimilarityResponse =
+    | {
+        success: true
+        data: SimilarityData
+        scheme: ClassificationScheme
+        level: ClassificationLevel
+        snapshot: string | null
+        limits: LimitValues<typeof SIMILARITY_LIMITS>
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+/**
+ * Owner similarity from classification profiles:
+ *   scheme      ipc or cpc (default cpc)
+ *   level       classification level the profiles are built at (default subgroup)
+ *   owner       also list the owners most similar to this one
+ *   threshold   similarity (0-1) at which the clusters are cut
+ *   owners, similar   how many owners to cluster and to list as similar
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<SimilarityResponse>> {
+    try {
+        const params = request.nextUrl.searchParams
+        const category = params.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = params.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const scheme = params.get('scheme') || 'cpc'
+        if (!isClassificationScheme(scheme)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification scheme: ${scheme}` },
+                { status: 400 }
+            )
+        }
+
+        const level = params.get('level') || DEFAULT_CLASSIFICATION_LEVEL
+        if (!isClassificationLevel(level)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification level: ${level}` },
+                { status: 400 }
+            )
+        }
+
+        const limits = parseLimits(params, SIMILARITY_LIMITS)
+        if (limits.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid limits: ${limits.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const rawThreshold = params.get('threshold')
+        const threshold = rawThreshold ? Number(rawThreshold) : DEFAULT_THRESHOLD
+        if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+            return NextResponse.json(
+                { success: false, error: '"threshold" must be a number between 0 and 1' },
+                { status: 400 }
+            )
+        }
+
+        const owners = createOwnerHarmonizer()
+        const dataset = loadDataset(OWNER_CODE_DATASETS[scheme], source)
+        const matrix = buildOwnerCodeMatrix(parseCrossTab(dataset), owners, { level, parent: null })
+        if (matrix.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `No owner data in ${dataset.fileName ?? OWNER_CODE_DATASETS[scheme].filename}` },
+                { status: 500 }
+            )
+        }
+
+        let similar: SimilarityData['similar'] = null
+        const ownerName = params.get('owner')?.trim()
+        if (ownerName) {
+            const target = findOwnerRow(matrix, owners, ownerName)
+            if (!target) {
+                return NextResponse.json(
+                    { success: false, error: `Unknown owner: ${ownerName}` },
+                    { status: 404 }
+                )
+            }
+            similar = { owner: target.owner, owners: findSimilarOwners(matrix, target, limits.values.similarOwners) }
+        }
+
+        const clustering = clusterOwners(matrix, limits.values.clusterOwners, threshold)
+
+        // Titles of the codes the response names
+        const descriptions: ClassificationDescriptions = {}
+        const named = [
+            ...clustering.clusters.flatMap(c => c.topCodes),
+            ...(similar?.owners.flatMap(o => o.sharedCodes) ?? []),
+        ]
+        for (const { code } of named) {
+            if (matrix.descriptions[code]) descriptions[code] = matrix.descriptions[code]
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: { ownerNames: matrix.rows.map(row => row.owner), clustering, similar, descriptions },
+                scheme,
+                level,
+                snapshot: source.snapshot ?? null,
+                limits: limits.values,
+                datasets: [summarizeDataset(dataset)],
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
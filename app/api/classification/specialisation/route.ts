@@ -0,0 +1,139 @@
+export const runtime = "nodejs";
+
+// app/api/classification/specialisation/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getCategorySource, getSnapshotSource, loadDataset, parseCrossTab, summarizeDataset } from '@/app/lib/datasets'
+import type { DatasetSummary } from '@/app/lib/datasets'
+import { SPECIALISATION_LIMITS, parseLimits } from '@/app/lib/limits'
+import type { LimitValues } from '@/app/lib/limits'
+import {
+    OWNER_CODE_DATASETS,
+    buildOwnerCodeMatrix,
+    computeSpecialisation,
+    createOwnerHarmonizer,
+    isClassificationScheme,
+} from '@/app/lib/owners'
+import type { ClassificationScheme, Specialisation } from '@/app/lib/owners'
+import {
+    DEFAULT_CLASSIFICATION_LEVEL,
+    isClassificationLevel,
+    levelOfClassification,
+} from '@/app/lib/classification'
+import type { ClassificationDescriptions, ClassificationLevel } from '@/app/lib/classification'
+
+type SpecialisationResponse =
+    | {
+        success: true
+        data: Specialisation & { descriptions: ClassificationDescriptions }
+        scheme: ClassificationScheme
+        level: ClassificationLevel
+        parent: string | null
+        snapshot: string | null
+        limits: LimitValues<typeof SPECIALISATION_LIMITS>
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+/**
+ * RTA of the largest owners in the largest codes of one owner cross-tab:
+ *   scheme   ipc or cpc (default cpc)
+ *   level    classification level to roll codes up to (default subgroup)
+ *   parent   only codes under this one
+ *   owners, codes   how many of each to return
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<SpecialisationResponse>> {
+    try {
+        const params = request.nextUrl.searchParams
+        const category = params.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = params.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const scheme = params.get('scheme') || 'cpc'
+        if (!isClassificationScheme(scheme)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification scheme: ${scheme}` },
+                { status: 400 }
+            )
+        }
+
+        const limits = parseLimits(params, SPECIALISATION_LIMITS)
+        if (limits.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid limits: ${limits.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const level = params.get('level') || DEFAULT_CLASSIFICATION_LEVEL
+        if (!isClassificationLevel(level)) {
+            return NextResponse.json(
+                { success: false, error: `Unknown classification level: ${level}` },
+                { status: 400 }
+            )
+        }
+
+        const parent = params.get('parent')?.replace(/\s+/g, '').toUpperCase() || null
+        if (parent && !levelOfClassification(parent)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid parent classification: ${parent}` },
+                { status: 400 }
+            )
+        }
+
+        const dataset = loadDataset(OWNER_CODE_DATASETS[scheme], source)
+        const matrix = buildOwnerCodeMatrix(parseCrossTab(dataset), createOwnerHarmonizer(), { level, parent })
+        if (matrix.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `No owner data in ${dataset.fileName ?? OWNER_CODE_DATASETS[scheme].filename}` },
+                { status: 500 }
+            )
+        }
+
+        const specialisation = computeSpecialisation(matrix, limits.values.topOwners, limits.values.topCodes)
+
+        const descriptions: ClassificationDescriptions = {}
+        for (const code of specialisation.codes) {
+            if (matrix.descriptions[code]) descriptions[code] = matrix.descriptions[code]
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: { ...specialisation, descriptions },
+                scheme,
+                level,
+                parent,
+                snapshot: source.snapshot ?? null,
+                limits: limits.values,
+                datasets: [summarizeDataset(dataset)],
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
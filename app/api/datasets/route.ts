@@ -0,0 +1,76 @@
+export const runtime = "nodejs";
+
+// app/api/datasets/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUpload, getCategorySource, installUpload } from '@/app/lib/datasets'
+import type { InstallResult, UploadReport } from '@/app/lib/datasets'
+
+// Constants
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024
+
+type UploadResponse =
+    | {
+        success: true
+        data: {
+            report: UploadReport
+            // null when the request only asked for validation
+            installed: InstallResult | null
+        }
+    }
+    | {
+        success: false
+        error: string
+        report?: UploadReport
+    }
+
+function failure(error: string, status: number, report?: UploadReport): NextResponse<UploadResponse> {
+    return NextResponse.json({ success: false, error, report }, { status })
+}
+
+/**
+ * Accepts one PatSeer export as multipart form data:
+ *   file      the CSV or XLSX export
+ *   category  target category (default category when omitted)
+ *   dataset   dataset id, when the header alone is ambiguous
+ *   install   "false" to validate without writing anything
+ * The file is only written once it identifies and validates cleanly.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<UploadResponse>> {
+    try {
+        const form = await request.formData()
+        const file = form.get('file')
+        const category = form.get('category')?.toString() || null
+        const datasetId = form.get('dataset')?.toString() || null
+        const install = form.get('install')?.toString() !== 'false'
+
+        if (!(file instanceof File)) {
+            return failure('No file uploaded (expected form field "file")', 400)
+        }
+        if (file.size > MAX_UPLOAD_BYTES) {
+            return failure(`${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413)
+        }
+
+        const source = getCategorySource(category)
+        if (!source) {
+            return failure(`Unknown category: ${category}`, 404)
+        }
+
+        const content = Buffer.from(await file.arrayBuffer())
+        const report = checkUpload(file.name, content, datasetId)
+
+        if (!report.valid || !report.datasetId) {
+            console.warn(`✗ Rejected upload ${file.name}: ${report.diagnostics.filter(d => d.level === 'error').length} error(s)`)
+            return failure(`${file.name} did not pass validation`, 422, report)
+        }
+
+        const installed = install ? installUpload(report.datasetId, file.name, content, source) : null
+
+        return NextResponse.json(
+            { success: true, data: { report, installed } },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return failure(error instanceof Error ? error.message : 'Internal server error', 500)
+    }
+}
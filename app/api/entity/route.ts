@@ -2,23 +2,24 @@ export const runtime = "nodejs";
 
 // app/api/entity/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
-import { parse } from 'csv-parse/sync'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, summarizeDataset } from '@/app/lib/datasets'
+import type { DataRow, DataSource, DatasetSummary } from '@/app/lib/datasets'
+import { createOwnerHarmonizer } from '@/app/lib/owners'
+import type { OwnerHarmonizer } from '@/app/lib/owners'
+import { createInventorResolver } from '@/app/lib/inventors'
+import type { NameResolver } from '@/app/lib/aliases'
+import { createTerritoryResolver, unknownCodeDiagnostic } from '@/app/lib/countries'
+import type { TerritoryResolver } from '@/app/lib/countries'
+import { INVALID_YEAR_RANGE, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
 
 // Logger
 const logger = {
-    info: (...args: any[]) => console.log(...args),
-    warn: (...args: any[]) => console.warn(...args),
-    error: (...args: any[]) => console.error(...args),
+    info: (...args: unknown[]) => console.log(...args),
+    warn: (...args: unknown[]) => console.warn(...args),
+    error: (...args: unknown[]) => console.error(...args),
 }
 
-// Constants
-const DATA_DIRS = {
-    RAW: 'raw',
-    PROCESSED: 'processed'
-} as const
-
 // Interfaces
 interface AssigneeData {
     country: string
@@ -27,9 +28,13 @@ interface AssigneeData {
 }
 
 interface InventorData {
+    // Most frequent country; all of them are in `countries`
     country: string
+    countries: string[]
     inventor: string
     count: number
+    // Spellings merged into this inventor, including the displayed one
+    variants: string[]
 }
 
 interface ProcessedEntityData {
@@ -48,6 +53,10 @@ type EntityResponse =
             inventorCountryFile: string | null
             assigneeCountryProcessedFile: string | null
         }
+        // Echoed only: the assignee and inventor exports are landscape totals without years
+        yearRange: YearRange
+        snapshot: string | null
+        datasets: DatasetSummary[]
     }
     | {
         success: false
@@ -55,155 +64,135 @@ type EntityResponse =
     }
 
 // Utility Functions
-function removeBOM(content: string): string {
-    return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content
-}
-
 function normalizeKey(key: string): string {
     return key.trim().toLowerCase()
 }
 
-function findCsvFile(filename: string, directory: string, alternates: string[] = []): string | null {
-    const baseDir = path.join(process.cwd(), 'data', directory)
-
-    // Try main filename
-    let fullPath = path.join(baseDir, filename)
-    if (fs.existsSync(fullPath)) {
-        return fullPath
-    }
-
-    // Try alternate filenames
-    for (const altName of alternates) {
-        fullPath = path.join(baseDir, altName)
-        if (fs.existsSync(fullPath)) {
-            return fullPath
-        }
-    }
-
-    return null
-}
-
-async function loadCsvData(filename: string): Promise<any[]> {
-    try {
-        const fileContent = fs.readFileSync(filename, 'utf-8')
-        const content = removeBOM(fileContent)
-
-        const records = parse(content, {
-            columns: true,
-            skip_empty_lines: true,
-            trim: true,
-        })
-
-        return records
-    } catch (error) {
-        logger.error(`Error loading CSV ${filename}:`, error)
-        throw error
-    }
-}
-
-async function loadCsvDataSafe(filePath: string | null, dataName: string): Promise<any[]> {
-    if (!filePath) {
-        logger.warn(`No file found for ${dataName}`)
-        return []
-    }
-
-    try {
-        const data = await loadCsvData(filePath)
-        logger.info(`✓ Loaded ${data.length} records from ${dataName}`)
-        return data
-    } catch (error) {
-        logger.error(`Error loading ${dataName}:`, error)
-        return []
+// Keys trimmed and lowercased, so "Country" and "country " read the same
+function normalizeRow(item: DataRow): DataRow {
+    const normalizedItem: DataRow = {}
+    for (const key in item) {
+        normalizedItem[normalizeKey(key)] = item[key]
     }
+    return normalizedItem
 }
 
-function normalizeAssigneeData(rawData: any[]): AssigneeData[] {
-    const result: AssigneeData[] = []
+// Spelling variants of one assignee in the same country are summed into a single row
+function normalizeAssigneeData(rawData: DataRow[], owners: OwnerHarmonizer, territories: TerritoryResolver): AssigneeData[] {
+    const assigneeMap = new Map<string, AssigneeData>()
 
     for (const item of rawData) {
-        // Normalize keys (handle both uppercase and lowercase)
-        const normalizedItem: any = {}
-        for (const key in item) {
-            normalizedItem[normalizeKey(key)] = item[key]
-        }
+        const normalizedItem = normalizeRow(item)
 
         const country = normalizedItem.country?.trim() || ''
         const assignee = normalizedItem.assignee?.trim() || 'Unknown'
         const count = parseInt(normalizedItem.count || '0', 10)
 
         if (assignee && !isNaN(count) && count > 0) {
-            result.push({ country, assignee, count })
+            if (country) territories.resolve(country, count)
+            const mapKey = `${country}|${owners.key(assignee)}`
+            const existing = assigneeMap.get(mapKey)
+            if (existing) {
+                existing.count += count
+            } else {
+                assigneeMap.set(mapKey, { country, assignee: owners.label(assignee), count })
+            }
         }
     }
 
     // Sort by count descending
-    return result.sort((a, b) => b.count - a.count)
+    return Array.from(assigneeMap.values()).sort((a, b) => b.count - a.count)
 }
 
-function processInventorData(rawData: any[]): InventorData[] {
-    const inventorMap = new Map<string, { country: string, count: number }>()
+// Appends a warning for country codes neither the ISO nor the patent-office table knows
+function withUnknownCodes(summary: DatasetSummary, territories: TerritoryResolver): DatasetSummary {
+    const warning = unknownCodeDiagnostic(territories.unknown())
+    return warning ? { ...summary, diagnostics: [...summary.diagnostics, warning] } : summary
+}
 
-    for (const item of rawData) {
-        // Normalize keys
-        const normalizedItem: any = {}
-        for (const key in item) {
-            normalizedItem[normalizeKey(key)] = item[key]
+/**
+ * Inventor totals come from Inventor_Count, which also lists inventors the
+ * country table leaves out; the country table adds countries, and counts one
+ * record per row for spellings the count table lacks.
+ */
+function processInventorData(countData: DataRow[], countryData: DataRow[], inventors: NameResolver, territories: TerritoryResolver): InventorData[] {
+    const inventorMap = new Map<string, { name: string, countries: Map<string, number>, count: number, variants: Set<string> }>()
+    const counted = new Set<string>()
+
+    const entry = (inventor: string) => {
+        const inventorId = inventors.key(inventor)
+        let existing = inventorMap.get(inventorId)
+        if (!existing) {
+            existing = { name: inventors.label(inventor), countries: new Map(), count: 0, variants: new Set() }
+            inventorMap.set(inventorId, existing)
         }
+        existing.variants.add(inventor)
+        return existing
+    }
+
+    for (const item of countData) {
+        const normalizedItem = normalizeRow(item)
+
+        const inventor = normalizedItem.inventor?.trim() || ''
+        const total = parseInt(String(normalizedItem.total ?? '').replace(/,/g, ''), 10)
+
+        if (inventor && !isNaN(total)) {
+            entry(inventor).count += total
+            counted.add(inventor)
+        }
+    }
+
+    for (const item of countryData) {
+        const normalizedItem = normalizeRow(item)
 
         const inventor = normalizedItem.inventor?.trim() || ''
         const country = normalizedItem.country?.trim() || ''
 
         if (inventor) {
-            const existing = inventorMap.get(inventor)
-            if (existing) {
-                existing.count += 1
-            } else {
-                inventorMap.set(inventor, { country, count: 1 })
+            const existing = entry(inventor)
+            if (!counted.has(inventor)) existing.count += 1
+            if (country) {
+                territories.resolve(country)
+                existing.countries.set(country, (existing.countries.get(country) || 0) + 1)
             }
         }
     }
 
     // Convert to array and sort
-    const result: InventorData[] = Array.from(inventorMap.entries())
-        .map(([name, data]) => ({
-            country: data.country,
-            inventor: name,
-            count: data.count
-        }))
+    const result: InventorData[] = Array.from(inventorMap.values())
+        .map(data => {
+            const countries = Array.from(data.countries.entries())
+                .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+                .map(([code]) => code)
+            return {
+                country: countries[0] || '',
+                countries,
+                inventor: data.name,
+                count: data.count,
+                variants: Array.from(data.variants).sort(),
+            }
+        })
         .sort((a, b) => b.count - a.count)
 
     return result
 }
 
-async function getEntityData(): Promise<EntityResponse> {
+async function getEntityData(source: DataSource, yearRange: YearRange): Promise<EntityResponse> {
     try {
         logger.info('=== Entity Data Processing Started ===')
 
-        // Find CSV files
-        const assigneeCountFile = findCsvFile('Assignee_Count.csv', DATA_DIRS.RAW)
-        const assigneeCountryFile = findCsvFile('Assignee_Country.csv', DATA_DIRS.RAW)
-        const inventorCountFile = findCsvFile('Inventor_Count.csv', DATA_DIRS.RAW)
-        const inventorCountryFile = findCsvFile('Inventor_Country.csv', DATA_DIRS.RAW)
-        const assigneeCountryProcessedFile = findCsvFile(
-            'Assignee_Country_Count_Updated.csv',
-            DATA_DIRS.PROCESSED,
-            ['Assignee_Country_Count.csv']
-        )
+        // Load all data (missing files yield empty datasets)
+        const assigneeCount = loadDataset(DATASETS.assigneeCount, source)
+        const assigneeCountry = loadDataset(DATASETS.assigneeCountry, source)
+        const inventorCount = loadDataset(DATASETS.inventorCount, source)
+        const inventorCountry = loadDataset(DATASETS.inventorCountry, source)
+        const assigneeCountryProcessed = loadDataset(DATASETS.assigneeCountryProcessed, source)
 
-        // Load all data safely
-        const [
-            assigneeCountData,
-            assigneeCountryData,
-            inventorCountData,
-            inventorCountryData,
-            assigneeCountryProcessedData
-        ] = await Promise.all([
-            loadCsvDataSafe(assigneeCountFile, 'Assignee Count'),
-            loadCsvDataSafe(assigneeCountryFile, 'Assignee Country'),
-            loadCsvDataSafe(inventorCountFile, 'Inventor Count'),
-            loadCsvDataSafe(inventorCountryFile, 'Inventor Country'),
-            loadCsvDataSafe(assigneeCountryProcessedFile, 'Assignee Country Processed')
-        ])
+        const assigneeCountData = assigneeCount.records
+        const assigneeCountryData = assigneeCountry.records
+        const inventorCountData = inventorCount.records
+        const inventorCountryData = inventorCountry.records
+        const assigneeCountryProcessedData = assigneeCountryProcessed.records
 
         // Validate that we have at least some data
         const hasAssigneeData = assigneeCountryProcessedData.length > 0 ||
@@ -214,7 +203,7 @@ async function getEntityData(): Promise<EntityResponse> {
 
         if (!hasAssigneeData && !hasInventorData) {
             throw new Error(
-                'No entity data files found. Please place CSV files in data/raw/ or data/processed/ directory:\n' +
+                `No entity data files found for "${source.id}". Please place CSV files in its raw/ or processed/ directory:\n` +
                 '- Assignee_Count.csv\n' +
                 '- Assignee_Country.csv\n' +
                 '- Inventor_Count.csv\n' +
@@ -224,19 +213,22 @@ async function getEntityData(): Promise<EntityResponse> {
         }
 
         // Process assignee data (prefer processed file)
+        const owners = createOwnerHarmonizer()
+        const assigneeTerritories = createTerritoryResolver()
         let assigneeData: AssigneeData[] = []
         if (assigneeCountryProcessedData.length > 0) {
-            assigneeData = normalizeAssigneeData(assigneeCountryProcessedData)
+            assigneeData = normalizeAssigneeData(assigneeCountryProcessedData, owners, assigneeTerritories)
             logger.info(`✓ Processed ${assigneeData.length} assignee records`)
         } else if (assigneeCountryData.length > 0) {
-            assigneeData = normalizeAssigneeData(assigneeCountryData)
+            assigneeData = normalizeAssigneeData(assigneeCountryData, owners, assigneeTerritories)
             logger.info(`✓ Processed ${assigneeData.length} assignee records from raw data`)
         }
 
         // Process inventor data
+        const inventorTerritories = createTerritoryResolver()
         let inventorData: InventorData[] = []
-        if (inventorCountryData.length > 0) {
-            inventorData = processInventorData(inventorCountryData)
+        if (hasInventorData) {
+            inventorData = processInventorData(inventorCountData, inventorCountryData, createInventorResolver(), inventorTerritories)
             logger.info(`✓ Processed ${inventorData.length} unique inventors`)
         }
 
@@ -249,12 +241,25 @@ async function getEntityData(): Promise<EntityResponse> {
                 inventorData
             },
             fileInfo: {
-                assigneeCountFile,
-                assigneeCountryFile,
-                inventorCountFile,
-                inventorCountryFile,
-                assigneeCountryProcessedFile,
+                assigneeCountFile: assigneeCount.filePath,
+                assigneeCountryFile: assigneeCountry.filePath,
+                inventorCountFile: inventorCount.filePath,
+                inventorCountryFile: inventorCountry.filePath,
+                assigneeCountryProcessedFile: assigneeCountryProcessed.filePath,
             },
+            yearRange,
+            snapshot: source.snapshot ?? null,
+            datasets: [
+                summarizeDataset(assigneeCount),
+                assigneeCountryProcessedData.length > 0
+                    ? summarizeDataset(assigneeCountry)
+                    : withUnknownCodes(summarizeDataset(assigneeCountry), assigneeTerritories),
+                summarizeDataset(inventorCount),
+                withUnknownCodes(summarizeDataset(inventorCountry), inventorTerritories),
+                assigneeCountryProcessedData.length > 0
+                    ? withUnknownCodes(summarizeDataset(assigneeCountryProcessed), assigneeTerritories)
+                    : summarizeDataset(assigneeCountryProcessed),
+            ],
         }
     } catch (error) {
         logger.error('Error getting entity data:', error)
@@ -267,12 +272,38 @@ async function getEntityData(): Promise<EntityResponse> {
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
     try {
-        const result = await getEntityData()
+        const category = request.nextUrl.searchParams.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = request.nextUrl.searchParams.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const yearRange = parseYearRange(request.nextUrl.searchParams)
+        if (!yearRange) {
+            return NextResponse.json(
+                { success: false, error: INVALID_YEAR_RANGE },
+                { status: 400 }
+            )
+        }
+
+        const result = await getEntityData(source, yearRange)
 
         if (result.success) {
             return NextResponse.json(result, {
                 headers: {
-                    'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+                    'Cache-Control': 'no-store'
                 }
             })
         } else {
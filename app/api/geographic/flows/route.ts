@@ -0,0 +1,151 @@
+export const runtime = "nodejs";
+
+// app/api/geographic/flows/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, summarizeDataset } from '@/app/lib/datasets'
+import type { DatasetSummary } from '@/app/lib/datasets'
+import { FLOW_LIMITS, parseLimits } from '@/app/lib/limits'
+import type { LimitValues } from '@/app/lib/limits'
+import { buildFamilyFlows, groupMinorOffices, unconfirmedOrigins } from '@/app/lib/familyFlows'
+import type { FamilyFlow, FamilyFlows } from '@/app/lib/familyFlows'
+import { INVALID_YEAR_RANGE, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
+
+// Interfaces
+interface FlowData extends Omit<FamilyFlows, 'flows'> {
+    // Top origins and destinations, the rest grouped as "Other"
+    flows: FamilyFlow[]
+    // Origins with no filings in the priority-country export
+    unconfirmedOrigins: FamilyFlows['origins']
+}
+
+type FlowResponse =
+    | {
+        success: true
+        data: FlowData
+        origin: string | null
+        yearRange: YearRange
+        snapshot: string | null
+        limits: LimitValues<typeof FLOW_LIMITS>
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+// "Priority Country" -> total, to check the origins read from publications against
+function priorityTotals(records: Array<Record<string, string>>): Map<string, number> {
+    const totals = new Map<string, number>()
+    for (const row of records) {
+        const code = row['Priority Country']?.trim().toUpperCase()
+        const total = parseInt(String(row.Total ?? '').replace(/,/g, ''), 10)
+        if (code && !isNaN(total)) totals.set(code, (totals.get(code) || 0) + total)
+    }
+    return totals
+}
+
+/**
+ * Priority-to-family flows from the record-level result table:
+ *   origin   only families first filed at this office (two-letter code)
+ *   from, to   only families whose earliest priority date falls in these years
+ *   origins, destinations   offices shown on each side before the rest are grouped
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<FlowResponse>> {
+    try {
+        const params = request.nextUrl.searchParams
+        const category = params.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = params.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const origin = params.get('origin')?.trim().toUpperCase() || null
+        if (origin && !/^[A-Z]{2}$/.test(origin)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid origin office: ${origin}` },
+                { status: 400 }
+            )
+        }
+
+        const yearRange = parseYearRange(params)
+        if (!yearRange) {
+            return NextResponse.json(
+                { success: false, error: INVALID_YEAR_RANGE },
+                { status: 400 }
+            )
+        }
+
+        const limits = parseLimits(params, FLOW_LIMITS)
+        if (limits.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid limits: ${limits.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const dataset = loadDataset(DATASETS.resultTable, source)
+        if (dataset.records.length === 0) {
+            const reason = dataset.diagnostics.find(d => d.level === 'error')?.message
+            return NextResponse.json(
+                { success: false, error: reason || `No records in ${dataset.fileName ?? DATASETS.resultTable.filename}` },
+                { status: 500 }
+            )
+        }
+        if (!dataset.columns.includes('Simple Family Members')) {
+            return NextResponse.json(
+                { success: false, error: `${dataset.fileName} has no "Simple Family Members" column to link families by` },
+                { status: 500 }
+            )
+        }
+
+        const flows = buildFamilyFlows(dataset.records.map(row => ({
+            recordNumber: row['Record Number'],
+            applicationNumber: row['Application No.'],
+            members: row['Simple Family Members'] ?? '',
+            dates: row['Simple Family Publication Dates'] ?? '',
+            priorityNumbers: row['Priority Numbers (All)'],
+            priorityDates: row['Priority Dates (All)'],
+        })), yearRange)
+        const priorityDataset = loadDataset(DATASETS.priorityCountry, source)
+        const selected = origin ? flows.flows.filter(flow => flow.origin === origin) : flows.flows
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: {
+                    ...flows,
+                    flows: groupMinorOffices(selected, limits.values.topOrigins, limits.values.topDestinations),
+                    unconfirmedOrigins: unconfirmedOrigins(flows.origins, priorityTotals(priorityDataset.records)),
+                },
+                origin,
+                yearRange,
+                snapshot: source.snapshot ?? null,
+                limits: limits.values,
+                datasets: [summarizeDataset(dataset), summarizeDataset(priorityDataset)],
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,93 @@
+export const runtime = "nodejs";
+
+// app/api/geographic/regions/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { loadCustomRegions, setCustomRegion } from '@/app/lib/customRegions'
+import { BUILT_IN_REGIONS, customRegionDefinitions, normalizeRegionMembers } from '@/app/lib/regions'
+import type { RegionDefinition } from '@/app/lib/regions'
+
+// Interfaces
+type RegionsResponse =
+    | {
+        success: true
+        data: { regions: RegionDefinition[] }
+    }
+    | {
+        success: false
+        error: string
+    }
+
+function listRegions(): RegionDefinition[] {
+    return [...BUILT_IN_REGIONS, ...customRegionDefinitions(loadCustomRegions())]
+}
+
+export async function GET(): Promise<NextResponse<RegionsResponse>> {
+    try {
+        // Custom regions change under analysts' hands, so this is never cached
+        return NextResponse.json(
+            { success: true, data: { regions: listRegions() } },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * Defines or replaces a custom region: { label, members } with members as
+ * ISO 3166 alpha-2 or alpha-3 codes. An empty members list removes the
+ * region. Built-in region names cannot be reused.
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<RegionsResponse>> {
+    try {
+        const body = await request.json().catch(() => null)
+        const label = typeof body?.label === 'string' ? body.label.trim() : ''
+        const codes = Array.isArray(body?.members) ? body.members.filter((m: unknown) => typeof m === 'string') : null
+
+        if (!label || !codes) {
+            return NextResponse.json(
+                { success: false, error: 'Expected a JSON body { label: string, members: string[] }' },
+                { status: 400 }
+            )
+        }
+
+        if (BUILT_IN_REGIONS.some(region => region.label.toLowerCase() === label.toLowerCase())) {
+            return NextResponse.json(
+                { success: false, error: `"${label}" is a built-in region` },
+                { status: 400 }
+            )
+        }
+
+        const { members, errors } = normalizeRegionMembers(codes)
+        if (errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid region members: ${errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const regions = setCustomRegion(label, members)
+        console.log(`✓ Custom region "${label}": ${regions[label]?.join(', ') || 'removed'}`)
+
+        return NextResponse.json(
+            { success: true, data: { regions: listRegions() } },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
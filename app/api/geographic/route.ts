@@ -2,102 +2,32 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
-import { parse } from 'csv-parse/sync'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, summarizeDataset } from '@/app/lib/datasets'
+import type { DataRow, DataSource, DatasetSummary } from '@/app/lib/datasets'
+import { INVALID_YEAR_RANGE, isInYearRange, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
+import { createTerritoryResolver, findCountry, unknownCodeDiagnostic } from '@/app/lib/countries'
+import type { CountryInfo, UnknownCode } from '@/app/lib/countries'
+import { loadCustomRegions } from '@/app/lib/customRegions'
+import { BUILT_IN_REGIONS, aggregateRegions, customRegionDefinitions } from '@/app/lib/regions'
+import type { RegionDefinition, RegionTotal } from '@/app/lib/regions'
+import { REGIONAL_MODES, allocateDesignations, buildRegionalOverlays, findDesignationColumn, isRegionalMode } from '@/app/lib/regionalFilings'
+import type { DesignationAllocation, RegionalMode, RegionalOverlay } from '@/app/lib/regionalFilings'
 
 // Constants
 const CSV_COLUMNS = {
   FAMILY_COUNTRY: 'All Family Country',
   PRIORITY_COUNTRY: 'Priority Country',
+  PUBLICATION_COUNTRY: 'Publication Country',
+  TREND_YEAR: 'Patenting Trends',
   TOTAL: 'Total'
 } as const
 
-// Country Information Structure
-interface CountryInfo {
-  iso2: string
-  iso3: string
-  name: string
-}
-
-// Complete country mapping with ISO-2, ISO-3, and full names
-const COUNTRY_DATA: { [key: string]: CountryInfo } = {
-  'US': { iso2: 'US', iso3: 'USA', name: 'United States' },
-  'GB': { iso2: 'GB', iso3: 'GBR', name: 'United Kingdom' },
-  'FR': { iso2: 'FR', iso3: 'FRA', name: 'France' },
-  'DE': { iso2: 'DE', iso3: 'DEU', name: 'Germany' },
-  'JP': { iso2: 'JP', iso3: 'JPN', name: 'Japan' },
-  'CN': { iso2: 'CN', iso3: 'CHN', name: 'China' },
-  'IN': { iso2: 'IN', iso3: 'IND', name: 'India' },
-  'CA': { iso2: 'CA', iso3: 'CAN', name: 'Canada' },
-  'AU': { iso2: 'AU', iso3: 'AUS', name: 'Australia' },
-  'NO': { iso2: 'NO', iso3: 'NOR', name: 'Norway' },
-  'SE': { iso2: 'SE', iso3: 'SWE', name: 'Sweden' },
-  'CH': { iso2: 'CH', iso3: 'CHE', name: 'Switzerland' },
-  'NL': { iso2: 'NL', iso3: 'NLD', name: 'Netherlands' },
-  'KR': { iso2: 'KR', iso3: 'KOR', name: 'South Korea' },
-  'BR': { iso2: 'BR', iso3: 'BRA', name: 'Brazil' },
-  'MX': { iso2: 'MX', iso3: 'MEX', name: 'Mexico' },
-  'RU': { iso2: 'RU', iso3: 'RUS', name: 'Russia' },
-  'ES': { iso2: 'ES', iso3: 'ESP', name: 'Spain' },
-  'IT': { iso2: 'IT', iso3: 'ITA', name: 'Italy' },
-  'BE': { iso2: 'BE', iso3: 'BEL', name: 'Belgium' },
-  'SG': { iso2: 'SG', iso3: 'SGP', name: 'Singapore' },
-  'HK': { iso2: 'HK', iso3: 'HKG', name: 'Hong Kong' },
-  'TW': { iso2: 'TW', iso3: 'TWN', name: 'Taiwan' },
-  'IL': { iso2: 'IL', iso3: 'ISR', name: 'Israel' },
-  'IE': { iso2: 'IE', iso3: 'IRL', name: 'Ireland' },
-  'DK': { iso2: 'DK', iso3: 'DNK', name: 'Denmark' },
-  'FI': { iso2: 'FI', iso3: 'FIN', name: 'Finland' },
-  'IS': { iso2: 'IS', iso3: 'ISL', name: 'Iceland' },
-  'PL': { iso2: 'PL', iso3: 'POL', name: 'Poland' },
-  'TH': { iso2: 'TH', iso3: 'THA', name: 'Thailand' },
-  'MY': { iso2: 'MY', iso3: 'MYS', name: 'Malaysia' },
-  'PH': { iso2: 'PH', iso3: 'PHL', name: 'Philippines' },
-  'ID': { iso2: 'ID', iso3: 'IDN', name: 'Indonesia' },
-  'VN': { iso2: 'VN', iso3: 'VNM', name: 'Vietnam' },
-  'NZ': { iso2: 'NZ', iso3: 'NZL', name: 'New Zealand' },
-  'ZA': { iso2: 'ZA', iso3: 'ZAF', name: 'South Africa' },
-  'TR': { iso2: 'TR', iso3: 'TUR', name: 'Turkey' },
-  'GR': { iso2: 'GR', iso3: 'GRC', name: 'Greece' },
-  'PT': { iso2: 'PT', iso3: 'PRT', name: 'Portugal' },
-  'CZ': { iso2: 'CZ', iso3: 'CZE', name: 'Czechia' },
-  'HU': { iso2: 'HU', iso3: 'HUN', name: 'Hungary' },
-  'RO': { iso2: 'RO', iso3: 'ROU', name: 'Romania' },
-  'BG': { iso2: 'BG', iso3: 'BGR', name: 'Bulgaria' },
-  'UA': { iso2: 'UA', iso3: 'UKR', name: 'Ukraine' },
-  'AE': { iso2: 'AE', iso3: 'ARE', name: 'United Arab Emirates' },
-  'SA': { iso2: 'SA', iso3: 'SAU', name: 'Saudi Arabia' },
-  // Special patent office codes (not ISO standard)
-  'EP': { iso2: 'EP', iso3: 'EPO', name: 'European Patent Office' },
-  'WO': { iso2: 'WO', iso3: 'WO', name: 'International (PCT)' },
-}
-
-// Special patent office/regional codes (not country-specific)
-const SPECIAL_REGIONS = ['EP', 'WO', 'PCT']
-
-function isSpecialRegion(code: string): boolean {
-  return SPECIAL_REGIONS.includes(code.toUpperCase())
-}
-
-function getCountryInfo(code: string): CountryInfo {
-  const upperCode = code.toUpperCase()
-  return COUNTRY_DATA[upperCode] || {
-    iso2: upperCode,
-    iso3: upperCode,
-    name: upperCode
-  }
-}
-
 function parseTotal(value: string | undefined): number {
   const parsed = parseInt(value || '0', 10)
   return isNaN(parsed) ? 0 : parsed
 }
 
-function removeBOM(content: string): string {
-  return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content
-}
-
 interface CountryData {
   country: string
   total: number
@@ -120,56 +50,67 @@ interface SpecialRegionData {
   total: number
 }
 
+interface DesignationSummary {
+  office: string
+  column: string
+  families: number
+  // Member states at least one family was allocated to
+  states: number
+}
+
 interface GeographicData {
   familyData: Dataset
   priorityData: Dataset
+  // Where the documents were published; empty when the export is missing
+  publicationData: Dataset
   // Special regions (non-country codes like EPO, WO, etc.)
   familySpecialRegions: SpecialRegionData[]
   prioritySpecialRegions: SpecialRegionData[]
+  publicationSpecialRegions: SpecialRegionData[]
+  // Codes neither a country nor a patent office; listed but not mapped
+  familyUnknownCodes: UnknownCode[]
+  priorityUnknownCodes: UnknownCode[]
+  publicationUnknownCodes: UnknownCode[]
+  // Built-in and custom regions with their members' totals
+  familyRegions: RegionTotal[]
+  priorityRegions: RegionTotal[]
+  publicationRegions: RegionTotal[]
+  // Mode actually applied; "designated" falls back to "overlay" without designation data
+  regionalMode: RegionalMode
+  // Regional offices drawn over their member states (empty when listed separately)
+  familyOverlays: RegionalOverlay[]
+  priorityOverlays: RegionalOverlay[]
+  publicationOverlays: RegionalOverlay[]
+  // EP families allocated to designated states, family data only
+  familyDesignations: DesignationSummary | null
   // Legacy fields for backward compatibility
   countries: CountryData[]
   worldMap: WorldMapData[]
-  filingTrends: any[]
+  filingTrends: DataRow[]
 }
 
 type GeographicResponse =
-  | { success: true; data: GeographicData }
+  | { success: true; data: GeographicData; yearRange: YearRange; regional: RegionalMode; snapshot: string | null; datasets: DatasetSummary[] }
   | { success: false; error: string }
 
-function loadCsvData(filename: string, dir: string = 'raw'): any[] {
-  try {
-    const filePath = path.join(process.cwd(), 'data', dir, filename)
-    console.log(`Loading CSV: ${filePath}`)
-
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`Required file not found: ${filename}`)
-    }
-
-    const fileContent = fs.readFileSync(filePath, 'utf-8')
-    const content = removeBOM(fileContent)
-
-    const records = parse(content, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-    })
-
-    console.log(`✓ Loaded ${records.length} records from ${filename}`)
-    return records
-  } catch (error) {
-    console.error(`Error loading ${filename}:`, error)
-    throw error
-  }
-}
-
 interface ProcessedData {
   dataset: Dataset
   specialRegions: SpecialRegionData[]
+  unknownCodes: UnknownCode[]
+  // Totals by ISO alpha-2 code, for the region groupings
+  countryTotals: Map<string, number>
 }
 
-function processCountryData(records: any[], codeKey: string, totalKey: string): ProcessedData {
+function processCountryData(
+  records: DataRow[],
+  codeKey: string,
+  totalKey: string,
+  allocation: DesignationAllocation | null = null
+): ProcessedData {
+  const territories = createTerritoryResolver()
   const validRecords: Array<{ countryInfo: CountryInfo; total: number }> = []
   const specialRegions: SpecialRegionData[] = []
+  const unknownRecords: CountryData[] = []
 
   for (const row of records) {
     const code = row[codeKey]?.trim()
@@ -180,73 +121,160 @@ function processCountryData(records: any[], codeKey: string, totalKey: string):
       continue
     }
 
-    const countryInfo = getCountryInfo(code)
+    const territory = territories.resolve(code, total)
 
-    // Separate special regions from countries
-    if (isSpecialRegion(code)) {
+    // Separate patent offices from countries
+    if (territory?.type === 'office') {
       specialRegions.push({
-        code: countryInfo.iso2,
-        name: countryInfo.name,
+        code: territory.code,
+        name: territory.name,
         total
       })
+    } else if (territory) {
+      validRecords.push({ countryInfo: territory, total })
     } else {
-      validRecords.push({ countryInfo, total })
+      unknownRecords.push({ country: code.toUpperCase(), total })
     }
   }
 
-  const mapData: WorldMapData[] = validRecords.map(({ countryInfo, total }) => ({
+  // Designated EP families count towards their states and leave the EP total
+  if (allocation) {
+    for (const [iso2, families] of allocation.states) {
+      const countryInfo = findCountry(iso2)
+      if (countryInfo) validRecords.push({ countryInfo, total: families })
+    }
+    const office = specialRegions.find(region => region.code === allocation.office)
+    if (office) office.total = Math.max(0, office.total - allocation.families)
+  }
+
+  // Aliases such as UK and GB, and designated states, land on the same country
+  const countries = new Map<string, { countryInfo: CountryInfo; total: number }>()
+  for (const { countryInfo, total } of validRecords) {
+    const entry = countries.get(countryInfo.iso2)
+    if (entry) entry.total += total
+    else countries.set(countryInfo.iso2, { countryInfo, total })
+  }
+
+  const mapData: WorldMapData[] = Array.from(countries.values()).map(({ countryInfo, total }) => ({
     country: countryInfo.name,
     code: countryInfo.iso3,
     total
   }))
 
-  const listData: CountryData[] = validRecords
+  // Unknown codes stay in the list so the totals still add up
+  const listData: CountryData[] = Array.from(countries.values())
     .map(({ countryInfo, total }) => ({
       country: countryInfo.name,
       total
     }))
+    .concat(unknownRecords)
     .sort((a, b) => b.total - a.total)
 
   // Sort special regions by total
   specialRegions.sort((a, b) => b.total - a.total)
 
+  const countryTotals = new Map(Array.from(countries.entries()).map(([iso2, { total }]) => [iso2, total]))
+
+  const unknownCodes = territories.unknown()
+  if (unknownCodes.length > 0) {
+    console.warn(`Unrecognised country codes: ${unknownCodes.map(u => u.code).join(', ')}`)
+  }
   console.log(`✓ Processed ${mapData.length} country records and ${specialRegions.length} special regions`)
 
   return {
     dataset: { map: mapData, list: listData },
-    specialRegions
+    specialRegions,
+    unknownCodes,
+    countryTotals
   }
 }
 
-async function getGeographicData(): Promise<GeographicResponse> {
+// Appends the unknown-code warning to the dataset's own diagnostics
+function withUnknownCodes(summary: DatasetSummary, unknownCodes: UnknownCode[]): DatasetSummary {
+  const warning = unknownCodeDiagnostic(unknownCodes)
+  return warning ? { ...summary, diagnostics: [...summary.diagnostics, warning] } : summary
+}
+
+/**
+ * Reads EP designations from the result table. Without a designation column
+ * the allocation is null and the dataset summary says why.
+ */
+function loadDesignations(source: DataSource): { allocation: DesignationAllocation | null; summary: DatasetSummary } {
+  const dataset = loadDataset(DATASETS.resultTable, source)
+  const summary = summarizeDataset(dataset)
+  const column = findDesignationColumn(dataset.columns)
+
+  if (!column) {
+    const message = `${dataset.fileName ?? DATASETS.resultTable.filename} has no designated or validated states column; EP filings are shown as an overlay instead`
+    return { allocation: null, summary: { ...summary, diagnostics: [...summary.diagnostics, { level: 'warning', message }] } }
+  }
+
+  const allocation = allocateDesignations(dataset.records.map(row => ({
+    recordNumber: row['Record Number'],
+    members: row['Simple Family Members'] ?? '',
+    dates: row['Simple Family Publication Dates'] ?? '',
+    designations: row[column] ?? '',
+  })), column)
+  const message = `Allocated ${allocation.families} EP families to ${allocation.states.size} designated states from "${column}"`
+  return { allocation, summary: { ...summary, diagnostics: [...summary.diagnostics, { level: 'info', message }] } }
+}
+
+async function getGeographicData(source: DataSource, yearRange: YearRange, regional: RegionalMode): Promise<GeographicResponse> {
   try {
     console.log('=== Geographic Data Processing Started ===')
 
+    const designations = regional === 'designated' ? loadDesignations(source) : null
+    const allocation = designations?.allocation ?? null
+    const regionalMode: RegionalMode = regional === 'designated' && !allocation ? 'overlay' : regional
+
     // Load and process Family Data
-    const familyRecords = loadCsvData('All_Family_Country_Map.csv', 'raw')
-    const familyProcessed = processCountryData(familyRecords, CSV_COLUMNS.FAMILY_COUNTRY, CSV_COLUMNS.TOTAL)
+    const familyDataset = loadDataset(DATASETS.familyCountry, source)
+    const familyProcessed = processCountryData(familyDataset.records, CSV_COLUMNS.FAMILY_COUNTRY, CSV_COLUMNS.TOTAL, allocation)
 
     // Load and process Priority Data
-    const priorityRecords = loadCsvData('Priority_Country_Map.csv', 'raw')
-    const priorityProcessed = processCountryData(priorityRecords, CSV_COLUMNS.PRIORITY_COUNTRY, CSV_COLUMNS.TOTAL)
-
-    // Load Filing Trends (Optional - returns empty array if missing)
-    let trendRecords: any[] = []
-    try {
-      trendRecords = loadCsvData('Patenting_Trends.csv', 'raw')
-    } catch (error) {
-      console.warn('Filing trends data not available:', error)
-    }
+    const priorityDataset = loadDataset(DATASETS.priorityCountry, source)
+    const priorityProcessed = processCountryData(priorityDataset.records, CSV_COLUMNS.PRIORITY_COUNTRY, CSV_COLUMNS.TOTAL)
+
+    // Load and process Publication Data (Optional - empty if missing)
+    const publicationDataset = loadDataset(DATASETS.publicationCountry, source)
+    const publicationProcessed = processCountryData(publicationDataset.records, CSV_COLUMNS.PUBLICATION_COUNTRY, CSV_COLUMNS.TOTAL)
+
+    // Load Filing Trends (Optional - empty if missing). The country exports are
+    // landscape totals without a year dimension, so only the trends follow the range
+    const trendsDataset = loadDataset(DATASETS.patentingTrends, source)
+    const filingTrends = trendsDataset.records.filter(row =>
+      isInYearRange(parseInt(row[CSV_COLUMNS.TREND_YEAR], 10), yearRange)
+    )
+
+    const regions: RegionDefinition[] = [...BUILT_IN_REGIONS, ...customRegionDefinitions(loadCustomRegions())]
 
     const data: GeographicData = {
       familyData: familyProcessed.dataset,
       priorityData: priorityProcessed.dataset,
+      publicationData: publicationProcessed.dataset,
       familySpecialRegions: familyProcessed.specialRegions,
       prioritySpecialRegions: priorityProcessed.specialRegions,
+      publicationSpecialRegions: publicationProcessed.specialRegions,
+      familyUnknownCodes: familyProcessed.unknownCodes,
+      priorityUnknownCodes: priorityProcessed.unknownCodes,
+      publicationUnknownCodes: publicationProcessed.unknownCodes,
+      familyRegions: aggregateRegions(familyProcessed.countryTotals, regions),
+      priorityRegions: aggregateRegions(priorityProcessed.countryTotals, regions),
+      publicationRegions: aggregateRegions(publicationProcessed.countryTotals, regions),
+      regionalMode,
+      familyOverlays: regionalMode === 'separate' ? [] : buildRegionalOverlays(familyProcessed.specialRegions),
+      priorityOverlays: regionalMode === 'separate' ? [] : buildRegionalOverlays(priorityProcessed.specialRegions),
+      publicationOverlays: regionalMode === 'separate' ? [] : buildRegionalOverlays(publicationProcessed.specialRegions),
+      familyDesignations: allocation && {
+        office: allocation.office,
+        column: allocation.column,
+        families: allocation.families,
+        states: allocation.states.size
+      },
       // Legacy fields for backward compatibility - to be deprecated
       countries: familyProcessed.dataset.list,
       worldMap: familyProcessed.dataset.map,
-      filingTrends: trendRecords
+      filingTrends
     }
 
     console.log('=== Geographic Data Processing Completed ===')
@@ -254,6 +282,16 @@ async function getGeographicData(): Promise<GeographicResponse> {
     return {
       success: true,
       data,
+      yearRange,
+      regional,
+      snapshot: source.snapshot ?? null,
+      datasets: [
+        withUnknownCodes(summarizeDataset(familyDataset), familyProcessed.unknownCodes),
+        withUnknownCodes(summarizeDataset(priorityDataset), priorityProcessed.unknownCodes),
+        withUnknownCodes(summarizeDataset(publicationDataset), publicationProcessed.unknownCodes),
+        summarizeDataset(trendsDataset),
+        ...(designations ? [designations.summary] : []),
+      ],
     }
   } catch (error) {
     console.error('Error getting geographic data:', error)
@@ -266,12 +304,47 @@ async function getGeographicData(): Promise<GeographicResponse> {
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const result = await getGeographicData()
+    const category = request.nextUrl.searchParams.get('category')
+    const categorySource = getCategorySource(category)
+    if (!categorySource) {
+      return NextResponse.json(
+        { success: false, error: `Unknown category: ${category}` },
+        { status: 404 }
+      )
+    }
+
+    const snapshot = request.nextUrl.searchParams.get('snapshot')
+    const source = getSnapshotSource(categorySource, snapshot)
+    if (!source) {
+      return NextResponse.json(
+        { success: false, error: `Unknown snapshot: ${snapshot}` },
+        { status: 404 }
+      )
+    }
+
+    const yearRange = parseYearRange(request.nextUrl.searchParams)
+    if (!yearRange) {
+      return NextResponse.json(
+        { success: false, error: INVALID_YEAR_RANGE },
+        { status: 400 }
+      )
+    }
+
+    const regional = request.nextUrl.searchParams.get('regional') || 'separate'
+    if (!isRegionalMode(regional)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid regional mode: ${regional} (expected ${REGIONAL_MODES.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    const result = await getGeographicData(source, yearRange, regional)
 
     if (result.success) {
+      // Custom regions are edited by analysts, so the groupings must not be served stale
       return NextResponse.json(result, {
         headers: {
-          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+          'Cache-Control': 'no-store'
         }
       })
     } else {
@@ -0,0 +1,147 @@
+export const runtime = "nodejs";
+
+// app/api/inventors/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASETS, getCategorySource, loadDataset } from '@/app/lib/datasets'
+import type { DataSource } from '@/app/lib/datasets'
+import { createInventorResolver, findInventorMergeCandidates, loadInventorAliases, setInventorAlias } from '@/app/lib/inventors'
+import type { InventorAliases, InventorMergeCandidate, InventorNameCount } from '@/app/lib/inventors'
+
+// Interfaces
+interface InventorReviewData {
+    aliases: InventorAliases
+    candidates: InventorMergeCandidate[]
+    // Distinct spellings in the export, and the people they resolve to
+    rawNames: number
+    resolvedInventors: number
+}
+
+type InventorsResponse =
+    | {
+        success: true
+        data: InventorReviewData
+    }
+    | {
+        success: false
+        error: string
+    }
+
+/**
+ * One entry per spelling with its record count and every country it was
+ * listed with. Inventor_Count carries the counts and names the country table
+ * never lists; the country table adds countries, and counts one record per
+ * row for names the count table lacks.
+ */
+function collectInventorNames(source: DataSource): InventorNameCount[] {
+    const names = new Map<string, { count: number, countries: Set<string>, counted: boolean }>()
+    const entry = (name: string) => {
+        const existing = names.get(name) || { count: 0, countries: new Set<string>(), counted: false }
+        names.set(name, existing)
+        return existing
+    }
+
+    for (const row of loadDataset(DATASETS.inventorCount, source).records) {
+        const name = String(row.Inventor ?? '').trim()
+        const total = parseInt(String(row.Total ?? '').replace(/,/g, ''), 10)
+        if (!name || isNaN(total)) continue
+
+        const existing = entry(name)
+        existing.count += total
+        existing.counted = true
+    }
+
+    for (const row of loadDataset(DATASETS.inventorCountry, source).records) {
+        const name = String(row.Inventor ?? '').trim()
+        if (!name) continue
+        const country = String(row.Country ?? '').trim()
+
+        const existing = entry(name)
+        if (!existing.counted) existing.count += 1
+        if (country) existing.countries.add(country)
+    }
+
+    return Array.from(names.entries()).map(([name, { count, countries }]) => ({
+        name,
+        count,
+        countries: Array.from(countries),
+    }))
+}
+
+function getInventorReviewData(source: DataSource): InventorsResponse {
+    try {
+        const aliases = loadInventorAliases()
+        const resolver = createInventorResolver(aliases)
+        const names = collectInventorNames(source)
+
+        if (names.length === 0) {
+            throw new Error(`No inventor data found for "${source.id}"`)
+        }
+
+        return {
+            success: true,
+            data: {
+                aliases,
+                candidates: findInventorMergeCandidates(names, resolver),
+                rawNames: names.length,
+                resolvedInventors: new Set(names.map(n => resolver.key(n.name))).size,
+            },
+        }
+    } catch (error) {
+        console.error('Error getting inventor review data:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        }
+    }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const category = request.nextUrl.searchParams.get('category')
+    const source = getCategorySource(category)
+    if (!source) {
+        return NextResponse.json(
+            { success: false, error: `Unknown category: ${category}` },
+            { status: 404 }
+        )
+    }
+
+    const result = getInventorReviewData(source)
+    // Merges change under analysts' hands, so this is never cached
+    return NextResponse.json(result, {
+        status: result.success ? 200 : 500,
+        headers: { 'Cache-Control': 'no-store' },
+    })
+}
+
+// Confirms (or, with an empty list, undoes) merges: { canonical, variants }
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => null)
+        const canonical = typeof body?.canonical === 'string' ? body.canonical.trim() : ''
+        const variants = Array.isArray(body?.variants) ? body.variants.filter((v: unknown) => typeof v === 'string') : null
+
+        if (!canonical || !variants) {
+            return NextResponse.json(
+                { success: false, error: 'Expected a JSON body { canonical: string, variants: string[] }' },
+                { status: 400 }
+            )
+        }
+
+        const aliases = setInventorAlias(canonical, variants)
+        console.log(`✓ Inventor merges for "${canonical}": ${aliases[canonical]?.join(', ') || 'removed'}`)
+
+        return NextResponse.json(
+            { success: true, data: { aliases } },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,375 @@
+export const runtime = "nodejs";
+
+// app/api/norway/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, parseNumber, summarizeDataset } from '@/app/lib/datasets'
+import type { DataRow, DataSource, DatasetSummary } from '@/app/lib/datasets'
+import { createOwnerHarmonizer } from '@/app/lib/owners'
+import type { OwnerHarmonizer } from '@/app/lib/owners'
+import { parsePartyList } from '@/app/lib/parties'
+import type { Party } from '@/app/lib/parties'
+import { INVALID_YEAR_RANGE, isInYearRange, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
+
+// Constants
+const NORWAY_CODE = 'NO'
+
+const NORDIC_COUNTRIES = [
+    { code: 'FI', name: 'Finland' },
+    { code: 'SE', name: 'Sweden' },
+    { code: 'NO', name: 'Norway' },
+    { code: 'DK', name: 'Denmark' },
+    { code: 'IS', name: 'Iceland' },
+] as const
+
+// Interfaces
+interface NorwayRecord {
+    recordNumber: string
+    title: string
+    currentOwner: string
+    publicationDate: string
+    filingDate: string
+    applicants: Party[]
+    norwegianApplicants: string[]
+    norwegianInventors: string[]
+}
+
+interface ApplicantCount {
+    applicant: string
+    // Norwegian records in the year range listing the applicant
+    records: number
+    // Count in the landscape-wide assignee export; null when it does not list
+    // the applicant or a year range is selected, as the export has no years
+    landscapeCount: number | null
+}
+
+interface InventorCount {
+    inventor: string
+    count: number
+    records: string[]
+}
+
+interface PriorityStats {
+    total: number
+    share: number
+    // Position among all priority countries, null when Norway has no priority filings
+    rank: number | null
+}
+
+interface NordicCountryStats {
+    code: string
+    country: string
+    familyFilings: number
+    priorityFilings: number
+    assignees: number
+    inventors: number
+}
+
+interface SummaryStats {
+    totalRecords: number
+    norwegianApplicants: number
+    norwegianInventors: number
+    noPriorityFilings: number
+}
+
+interface NorwayData {
+    records: NorwayRecord[]
+    applicants: ApplicantCount[]
+    inventors: InventorCount[]
+    priorityFilings: PriorityStats
+    nordicComparison: NordicCountryStats[]
+    summaryStats: SummaryStats
+}
+
+type NorwayResponse =
+    | {
+        success: true
+        data: NorwayData
+        yearRange: YearRange
+        snapshot: string | null
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+// Utility Functions
+function sortByCount<T extends { count: number }>(items: T[]): T[] {
+    return items.sort((a, b) => b.count - a.count)
+}
+
+// "Country" -> total for a two-column PatSeer country export
+function countryTotals(records: DataRow[], codeKey: string): Map<string, number> {
+    const totals = new Map<string, number>()
+    for (const row of records) {
+        const code = row[codeKey]?.trim().toUpperCase()
+        if (code) {
+            totals.set(code, (totals.get(code) || 0) + parseNumber(row.Total))
+        }
+    }
+    return totals
+}
+
+function processRecords(records: DataRow[], inventorsByRecord: Map<string, Party[]>): NorwayRecord[] {
+    return records
+        .filter(row => row['Record Number'])
+        .map(row => {
+            const recordNumber = row['Record Number']
+            const applicants = parsePartyList(row.Assignee)
+            const inventors = inventorsByRecord.get(recordNumber) || []
+
+            return {
+                recordNumber,
+                title: row.Title || '',
+                currentOwner: row['Current Owner'] || '',
+                publicationDate: row['Publication/Issue Date'] || '',
+                filingDate: row['Filing/Application Date'] || '',
+                applicants,
+                norwegianApplicants: applicants.filter(p => p.country === NORWAY_CODE).map(p => p.name),
+                norwegianInventors: inventors.filter(p => p.country === NORWAY_CODE).map(p => p.name),
+            }
+        })
+}
+
+// The landscape-wide assignee and inventor exports have no years, so callers
+// pass them only when no year range is selected. Spellings of one owner are
+// merged, so the record and landscape counts line up per applicant.
+function processApplicants(records: NorwayRecord[], assigneeRecords: DataRow[], owners: OwnerHarmonizer): ApplicantCount[] {
+    const applicants = new Map<string, ApplicantCount>()
+
+    const get = (name: string) => {
+        const key = owners.key(name)
+        let entry = applicants.get(key)
+        if (!entry) {
+            entry = { applicant: owners.label(name), records: 0, landscapeCount: null }
+            applicants.set(key, entry)
+        }
+        return entry
+    }
+
+    for (const record of records) {
+        // A record naming two spellings of one applicant counts once
+        const named = new Set(record.norwegianApplicants.map(get))
+        for (const entry of named) entry.records += 1
+    }
+
+    // Landscape-wide assignees registered in Norway
+    for (const row of assigneeRecords) {
+        if (row.Country?.trim().toUpperCase() === NORWAY_CODE && row.Assignee?.trim()) {
+            const entry = get(row.Assignee.trim())
+            entry.landscapeCount = (entry.landscapeCount ?? 0) + parseNumber(row.Count)
+        }
+    }
+
+    return Array.from(applicants.values())
+        .sort((a, b) => b.records - a.records || (b.landscapeCount ?? 0) - (a.landscapeCount ?? 0))
+}
+
+function processInventors(records: NorwayRecord[], inventorRecords: DataRow[]): InventorCount[] {
+    const inventors = new Map<string, InventorCount>()
+
+    const get = (name: string) => {
+        let entry = inventors.get(name)
+        if (!entry) {
+            entry = { inventor: name, count: 0, records: [] }
+            inventors.set(name, entry)
+        }
+        return entry
+    }
+
+    for (const row of inventorRecords) {
+        if (row.Country?.trim().toUpperCase() === NORWAY_CODE && row.Inventor) {
+            get(row.Inventor.trim()).count += 1
+        }
+    }
+
+    for (const record of records) {
+        for (const name of record.norwegianInventors) {
+            const entry = get(name)
+            entry.records.push(record.recordNumber)
+            entry.count = Math.max(entry.count, entry.records.length)
+        }
+    }
+
+    return sortByCount(Array.from(inventors.values()))
+}
+
+function calculatePriorityStats(priorityTotals: Map<string, number>): PriorityStats {
+    const total = priorityTotals.get(NORWAY_CODE) || 0
+    const allFilings = Array.from(priorityTotals.values()).reduce((sum, n) => sum + n, 0)
+    const ranking = Array.from(priorityTotals.entries()).sort((a, b) => b[1] - a[1])
+    const position = ranking.findIndex(([code]) => code === NORWAY_CODE)
+
+    return {
+        total,
+        share: allFilings > 0 ? total / allFilings : 0,
+        rank: total > 0 && position !== -1 ? position + 1 : null,
+    }
+}
+
+function calculateNordicComparison(
+    familyTotals: Map<string, number>,
+    priorityTotals: Map<string, number>,
+    assigneeRecords: DataRow[],
+    inventorRecords: DataRow[]
+): NordicCountryStats[] {
+    const distinctByCountry = (records: DataRow[], nameKey: string) => {
+        const names = new Map<string, Set<string>>()
+        for (const row of records) {
+            const code = row.Country?.trim().toUpperCase()
+            if (code && row[nameKey]) {
+                if (!names.has(code)) names.set(code, new Set())
+                names.get(code)!.add(row[nameKey].trim())
+            }
+        }
+        return names
+    }
+
+    const assignees = distinctByCountry(assigneeRecords, 'Assignee')
+    const inventors = distinctByCountry(inventorRecords, 'Inventor')
+
+    return NORDIC_COUNTRIES.map(({ code, name }) => ({
+        code,
+        country: name,
+        familyFilings: familyTotals.get(code) || 0,
+        priorityFilings: priorityTotals.get(code) || 0,
+        assignees: assignees.get(code)?.size || 0,
+        inventors: inventors.get(code)?.size || 0,
+    }))
+}
+
+async function getNorwayData(source: DataSource, yearRange: YearRange): Promise<NorwayResponse> {
+    try {
+        console.log('=== Norway Data Processing Started ===')
+
+        const norwayDataset = loadDataset(DATASETS.norwayRecords, source)
+        if (norwayDataset.records.length === 0) {
+            const reason = norwayDataset.diagnostics.find(d => d.level === 'error')?.message
+            throw new Error(reason || `No data found in ${norwayDataset.fileName}`)
+        }
+
+        // Supporting datasets (optional)
+        const resultDataset = loadDataset(DATASETS.resultTable, source)
+        const inventorDataset = loadDataset(DATASETS.inventorCountry, source)
+        const assigneeDataset = loadDataset(DATASETS.assigneeCountryProcessed, source)
+        const familyDataset = loadDataset(DATASETS.familyCountry, source)
+        const priorityDataset = loadDataset(DATASETS.priorityCountry, source)
+
+        // Norsk_data has no inventor column, so inventors come from the result table
+        const inventorsByRecord = new Map<string, Party[]>()
+        for (const row of resultDataset.records) {
+            inventorsByRecord.set(row['Record Number'], parsePartyList(row.Inventors))
+        }
+
+        // Records are placed in time by their filing date; the country and
+        // inventor exports have no year dimension, so with a range selected
+        // they are left out of the applicant and inventor counts and only feed
+        // the Nordic comparison, which stays landscape-wide
+        const records = processRecords(norwayDataset.records, inventorsByRecord)
+            .filter(r => isInYearRange(parseInt(r.filingDate.slice(0, 4), 10), yearRange))
+        const ranged = yearRange.from !== null || yearRange.to !== null
+        const applicants = processApplicants(records, ranged ? [] : assigneeDataset.records, createOwnerHarmonizer())
+        const inventors = processInventors(records, ranged ? [] : inventorDataset.records)
+
+        const familyTotals = countryTotals(familyDataset.records, 'All Family Country')
+        const priorityTotals = countryTotals(priorityDataset.records, 'Priority Country')
+        const priorityFilings = calculatePriorityStats(priorityTotals)
+        const nordicComparison = calculateNordicComparison(
+            familyTotals,
+            priorityTotals,
+            assigneeDataset.records,
+            inventorDataset.records
+        )
+
+        const summaryStats: SummaryStats = {
+            totalRecords: records.length,
+            norwegianApplicants: applicants.length,
+            norwegianInventors: inventors.length,
+            noPriorityFilings: priorityFilings.total,
+        }
+
+        console.log('=== Norway Data Processing Completed ===')
+        console.log(`✓ Records: ${summaryStats.totalRecords}, applicants: ${summaryStats.norwegianApplicants}, ` +
+            `inventors: ${summaryStats.norwegianInventors}, NO priority: ${summaryStats.noPriorityFilings}`)
+
+        return {
+            success: true,
+            data: {
+                records,
+                applicants,
+                inventors,
+                priorityFilings,
+                nordicComparison,
+                summaryStats,
+            },
+            yearRange,
+            snapshot: source.snapshot ?? null,
+            datasets: [
+                norwayDataset,
+                resultDataset,
+                inventorDataset,
+                assigneeDataset,
+                familyDataset,
+                priorityDataset,
+            ].map(summarizeDataset),
+        }
+    } catch (error) {
+        console.error('Error getting Norway data:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        }
+    }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    try {
+        const category = request.nextUrl.searchParams.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = request.nextUrl.searchParams.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const yearRange = parseYearRange(request.nextUrl.searchParams)
+        if (!yearRange) {
+            return NextResponse.json(
+                { success: false, error: INVALID_YEAR_RANGE },
+                { status: 400 }
+            )
+        }
+
+        const result = await getNorwayData(source, yearRange)
+
+        if (result.success) {
+            return NextResponse.json(result, {
+                headers: {
+                    'Cache-Control': 'no-store'
+                }
+            })
+        } else {
+            return NextResponse.json(result, { status: 500 })
+        }
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,145 @@
+export const runtime = "nodejs";
+
+// app/api/owners/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASETS, getCategorySource, loadDataset, parseNumber } from '@/app/lib/datasets'
+import type { DataSource, DatasetDefinition } from '@/app/lib/datasets'
+import { createOwnerHarmonizer, loadOwnerAliases, setOwnerAlias, suggestOwnerAliases } from '@/app/lib/owners'
+import type { AliasSuggestion, OwnerAliases, OwnerNameCount } from '@/app/lib/owners'
+
+// Constants
+// Every dataset whose rows are keyed by an owner or assignee name
+const OWNER_DATASETS = [
+    DATASETS.timelineOwner,
+    DATASETS.assigneeCount,
+    DATASETS.assigneeCountryProcessed,
+    DATASETS.cpcByOwner,
+    DATASETS.ipcByOwner,
+] as DatasetDefinition[]
+
+// Interfaces
+interface OwnerNamesData {
+    aliases: OwnerAliases
+    suggestions: AliasSuggestion[]
+    // Distinct names before harmonisation, and the owners they collapse to
+    rawNames: number
+    harmonizedOwners: number
+}
+
+type OwnersResponse =
+    | {
+        success: true
+        data: OwnerNamesData
+    }
+    | {
+        success: false
+        error: string
+    }
+
+/**
+ * Owner name and patent count per row. Assignee tables carry an explicit
+ * Count or Total column; year tables are summed across their columns.
+ */
+function collectOwnerCounts(source: DataSource): OwnerNameCount[] {
+    const names: OwnerNameCount[] = []
+
+    for (const definition of OWNER_DATASETS) {
+        const { records } = loadDataset(definition, source)
+        if (records.length === 0) continue
+
+        const keys = Object.keys(records[0])
+        const nameKey = keys.find(k => /assignee|owner/i.test(k)) || keys[0]
+        const countKey = keys.find(k => /^(count|total)$/i.test(k.trim()))
+
+        for (const row of records) {
+            const name = String(row[nameKey] ?? '').trim()
+            if (!name || name.includes('---') || /^current owner$/i.test(name)) continue
+
+            const count = countKey
+                ? parseNumber(row[countKey])
+                : keys.filter(k => k !== nameKey).reduce((sum, k) => sum + parseNumber(row[k]), 0)
+            names.push({ name, count })
+        }
+    }
+
+    return names
+}
+
+function getOwnerNamesData(source: DataSource): OwnersResponse {
+    try {
+        const aliases = loadOwnerAliases()
+        const owners = createOwnerHarmonizer(aliases)
+        const names = collectOwnerCounts(source)
+
+        return {
+            success: true,
+            data: {
+                aliases,
+                suggestions: suggestOwnerAliases(names, owners),
+                rawNames: new Set(names.map(n => n.name)).size,
+                harmonizedOwners: new Set(names.map(n => owners.key(n.name))).size,
+            },
+        }
+    } catch (error) {
+        console.error('Error getting owner names:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        }
+    }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const category = request.nextUrl.searchParams.get('category')
+    const source = getCategorySource(category)
+    if (!source) {
+        return NextResponse.json(
+            { success: false, error: `Unknown category: ${category}` },
+            { status: 404 }
+        )
+    }
+
+    const result = getOwnerNamesData(source)
+    // Aliases change under analysts' hands, so this is never cached
+    return NextResponse.json(result, {
+        status: result.success ? 200 : 500,
+        headers: { 'Cache-Control': 'no-store' },
+    })
+}
+
+/**
+ * Sets the variants of one canonical owner name: { canonical, variants }.
+ * An empty variants list removes the entry. The dictionary is shared by all
+ * categories.
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => null)
+        const canonical = typeof body?.canonical === 'string' ? body.canonical.trim() : ''
+        const variants = Array.isArray(body?.variants) ? body.variants.filter((v: unknown) => typeof v === 'string') : null
+
+        if (!canonical || !variants) {
+            return NextResponse.json(
+                { success: false, error: 'Expected a JSON body { canonical: string, variants: string[] }' },
+                { status: 400 }
+            )
+        }
+
+        const aliases = setOwnerAlias(canonical, variants)
+        console.log(`✓ Owner aliases for "${canonical}": ${aliases[canonical]?.join(', ') || 'removed'}`)
+
+        return NextResponse.json(
+            { success: true, data: { aliases } },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
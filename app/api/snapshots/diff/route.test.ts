@@ -0,0 +1,98 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GET } from './route'
+
+const SNAPSHOT = '2025-01-15'
+
+let cwd: string
+
+// The default category reads data/ directly, snapshots from data/snapshots/<label>
+function writeExport(side: 'live' | 'snapshot', fileName: string, content: string) {
+    const dir = side === 'live'
+        ? path.join(cwd, 'data', 'raw')
+        : path.join(cwd, 'data', 'snapshots', SNAPSHOT, 'raw')
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, fileName), content)
+}
+
+async function diff(query: string) {
+    const response = await GET(new NextRequest(`http://localhost/api/snapshots/diff?${query}`))
+    return { status: response.status, body: await response.json() }
+}
+
+beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-diff-'))
+    vi.spyOn(process, 'cwd').mockReturnValue(cwd)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    writeExport('snapshot', 'Timeline_Current_Owner_Count.csv', 'Current Owner,2023,2024\nIBM,4,5\n')
+    writeExport('live', 'Timeline_Current_Owner_Count.csv', 'Current Owner,2023,2024\nIBM,5,6\n')
+    writeExport('snapshot', 'Assignee_Count.csv', 'Assignee,Count\nIBM,10\nD-WAVE SYSTEMS INC,4\n')
+    writeExport('snapshot', 'All_Family_Country_Map.csv', 'All Family Country,Total\nUS,20\nNO,2\n')
+    writeExport('live', 'Assignee_Count.csv', 'Assignee,Count\nIBM,12\nIQM FINLAND OY,3\n')
+    writeExport('live', 'All_Family_Country_Map.csv', 'All Family Country,Total\nUS,24\nNO,2\nFI,3\n')
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(cwd, { recursive: true, force: true })
+})
+
+describe('GET /api/snapshots/diff', () => {
+    it('reports owners and family countries that changed since the snapshot', async () => {
+        const { status, body } = await diff(`base=${SNAPSHOT}`)
+
+        expect(status).toBe(200)
+        expect(body.data.base).toBe(SNAPSHOT)
+        expect(body.data.target).toBe('current')
+        expect(body.data.newOwners).toEqual([{ owner: 'IQM FINLAND OY', count: 3 }])
+        expect(body.data.droppedOwners).toEqual([{ owner: 'D-WAVE SYSTEMS INC', count: 4 }])
+        expect(body.data.countryChanges).toEqual([
+            { country: 'US', base: 20, target: 24, change: 4 },
+            { country: 'FI', base: 0, target: 3, change: 3 },
+        ])
+        expect(body.data.summary).toEqual({ baseFamilies: 22, targetFamilies: 29, baseOwners: 2, targetOwners: 2 })
+    })
+
+    it('reads new CPC codes from the year cross-tab when both sides have it', async () => {
+        const header = 'CPC Full,G06N10/20 : Algorithms,G06N10/40 : Physical realisations'
+        writeExport('snapshot', 'Application-Year _CPC-Full.csv', `${header},Total\nApplication Year,,,\n2021,2,1,3\n`)
+        writeExport('live', 'Application-Year _CPC-Full.csv',
+            `${header},G06N10/60 : Quantum machine learning,Total\nApplication Year,,,,\n2021,2,1,0,3\n2022,1,0,5,6\n`)
+
+        const { body } = await diff(`base=${SNAPSHOT}&target=current`)
+
+        expect(body.data.cpcSource).toBe('Application-Year _CPC-Full.csv')
+        expect(body.data.warnings).toEqual([])
+        expect(body.data.newCpcCodes).toEqual([{ code: 'G06N10/60', description: 'Quantum machine learning', total: 5 }])
+    })
+
+    it('falls back to the owner cross-tab with a warning when one side lacks the year cross-tab', async () => {
+        writeExport('live', 'Application-Year _CPC-Full.csv', 'CPC Full,G06N10/20,Total\nApplication Year,,\n2021,2,2\n')
+        writeExport('snapshot', 'Current-Owner_CPC-Full.csv', 'CPC Full,G06N10/20,Total\nCurrent Owner,,\nIBM,2,2\n')
+        writeExport('live', 'Current-Owner_CPC-Full.csv', 'CPC Full,G06N10/20,G06N10/40,Total\nCurrent Owner,,,\nIBM,2,1,3\n')
+
+        const { body } = await diff(`base=${SNAPSHOT}`)
+
+        expect(body.data.cpcSource).toBe('Current-Owner_CPC-Full.csv')
+        expect(body.data.warnings).toHaveLength(1)
+        expect(body.data.newCpcCodes.map((c: { code: string }) => c.code)).toEqual(['G06N10/40'])
+    })
+
+    it('warns instead of comparing codes when no cross-tab is on both sides', async () => {
+        const { body } = await diff(`base=${SNAPSHOT}`)
+
+        expect(body.data.cpcSource).toBeNull()
+        expect(body.data.newCpcCodes).toEqual([])
+        expect(body.data.warnings[0]).toContain('in both snapshots')
+    })
+
+    it('rejects a missing base and unknown snapshots', async () => {
+        expect((await diff('')).status).toBe(400)
+        expect((await diff('base=2024-01-01')).status).toBe(404)
+        expect((await diff(`base=${SNAPSHOT}&target=yesterday`)).status).toBe(404)
+    })
+})
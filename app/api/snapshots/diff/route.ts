@@ -0,0 +1,282 @@
+export const runtime = "nodejs";
+
+// app/api/snapshots/diff/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, parseCrossTab, parseNumber, summarizeDataset } from '@/app/lib/datasets'
+import type { DataSource, DatasetSummary, LoadedDataset } from '@/app/lib/datasets'
+import { createOwnerHarmonizer } from '@/app/lib/owners'
+import type { OwnerHarmonizer } from '@/app/lib/owners'
+
+// Constants
+// Label used for the live exports on either side of a comparison
+const CURRENT_LABEL = 'current'
+
+// Interfaces
+interface OwnerChange {
+    owner: string
+    count: number
+}
+
+interface CountryChange {
+    country: string
+    base: number
+    target: number
+    change: number
+}
+
+interface NewCode {
+    code: string
+    description: string
+    total: number
+}
+
+interface SnapshotDiff {
+    base: string
+    target: string
+    newOwners: OwnerChange[]
+    droppedOwners: OwnerChange[]
+    countryChanges: CountryChange[]
+    newCpcCodes: NewCode[]
+    // Export the new codes were read from on both sides; null when the sides share none
+    cpcSource: string | null
+    // Why part of the comparison may be incomplete
+    warnings: string[]
+    summary: {
+        baseFamilies: number
+        targetFamilies: number
+        baseOwners: number
+        targetOwners: number
+    }
+}
+
+type DiffResponse =
+    | {
+        success: true
+        data: SnapshotDiff
+        datasets: DatasetSummary[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+// Utility Functions
+// The exports a comparison reads, loaded once per side. CPC_Full lists only
+// the top codes, so new codes come from a cross-tab with a column per code
+function loadSide(source: DataSource) {
+    return {
+        assigneeCount: loadDataset(DATASETS.assigneeCount, source),
+        timelineOwner: loadDataset(DATASETS.timelineOwner, source),
+        familyCountry: loadDataset(DATASETS.familyCountry, source),
+        cpcYearCrossTab: loadDataset(DATASETS.cpcYearCrossTab, source),
+        cpcByOwner: loadDataset(DATASETS.cpcByOwner, source),
+    }
+}
+
+type Side = ReturnType<typeof loadSide>
+
+/**
+ * Patent count per harmonised owner. The assignee and timeline exports
+ * overlap, so each owner takes its larger count rather than the sum.
+ */
+function ownerCounts(side: Side, owners: OwnerHarmonizer): Map<string, OwnerChange> {
+    const counts = new Map<string, OwnerChange>()
+    const record = (name: string, count: number) => {
+        const key = owners.key(name)
+        if (!key) return
+        const existing = counts.get(key)
+        if (!existing || count > existing.count) {
+            counts.set(key, { owner: owners.label(name), count })
+        }
+    }
+
+    for (const row of side.assigneeCount.records) {
+        record(row.Assignee, parseNumber(row.Count))
+    }
+
+    const timeline = side.timelineOwner
+    const yearColumns = timeline.columns.filter(column => /^\d{4}$/.test(column))
+    for (const row of timeline.records) {
+        record(row['Current Owner'], yearColumns.reduce((sum, year) => sum + parseNumber(row[year]), 0))
+    }
+
+    return counts
+}
+
+function countryTotals(side: Side): Map<string, number> {
+    const totals = new Map<string, number>()
+    for (const row of side.familyCountry.records) {
+        const country = row['All Family Country']?.trim()
+        if (country) totals.set(country, (totals.get(country) || 0) + parseNumber(row.Total))
+    }
+    return totals
+}
+
+/**
+ * Picks the cross-tab both sides have, so codes are never compared across
+ * different exports: the year one, which lists every code, or else the owner
+ * one, which may cover only the top owners' codes.
+ */
+function chooseCodeExport(base: Side, target: Side): { key: 'cpcYearCrossTab' | 'cpcByOwner' | null, warnings: string[] } {
+    const present = (key: 'cpcYearCrossTab' | 'cpcByOwner') => base[key].records.length > 0 && target[key].records.length > 0
+
+    if (present('cpcYearCrossTab')) return { key: 'cpcYearCrossTab', warnings: [] }
+    if (present('cpcByOwner')) {
+        return {
+            key: 'cpcByOwner',
+            warnings: [`New CPC codes are read from ${DATASETS.cpcByOwner.filename}, which may list only the top owners' codes`],
+        }
+    }
+    return {
+        key: null,
+        warnings: [
+            `New CPC codes need ${DATASETS.cpcYearCrossTab.filename} or ${DATASETS.cpcByOwner.filename} in both snapshots`,
+        ],
+    }
+}
+
+/**
+ * Every code column of the cross-tab, "G06N10/40 : Physical realisations..."
+ * split into code and description. The total sums the column, which counts
+ * each family once in the year cross-tab but once per owner in the owner one.
+ */
+function cpcCodes(dataset: LoadedDataset): Map<string, NewCode> {
+    const crossTab = parseCrossTab(dataset)
+    const codes = new Map<string, NewCode>()
+    crossTab.columnLabels.forEach((label, column) => {
+        const [code, ...rest] = label.split(':')
+        if (!code.trim()) return
+        const total = crossTab.counts.reduce((sum, row) => sum + row[column], 0)
+        const existing = codes.get(code.trim())
+        codes.set(code.trim(), {
+            code: code.trim(),
+            description: rest.join(':').trim(),
+            total: total + (existing?.total ?? 0),
+        })
+    })
+    return codes
+}
+
+function diffOwners(from: Map<string, OwnerChange>, to: Map<string, OwnerChange>): OwnerChange[] {
+    return Array.from(to.entries())
+        .filter(([key]) => !from.has(key))
+        .map(([, owner]) => owner)
+        .sort((a, b) => b.count - a.count)
+}
+
+function getSnapshotDiff(base: DataSource, target: DataSource): DiffResponse {
+    try {
+        const owners = createOwnerHarmonizer()
+        const baseSide = loadSide(base)
+        const targetSide = loadSide(target)
+
+        const baseOwners = ownerCounts(baseSide, owners)
+        const targetOwners = ownerCounts(targetSide, owners)
+        const baseCountries = countryTotals(baseSide)
+        const targetCountries = countryTotals(targetSide)
+        const codeExport = chooseCodeExport(baseSide, targetSide)
+        const baseCodes = codeExport.key ? cpcCodes(baseSide[codeExport.key]) : new Map<string, NewCode>()
+        const targetCodes = codeExport.key ? cpcCodes(targetSide[codeExport.key]) : new Map<string, NewCode>()
+
+        const countries = new Set([...baseCountries.keys(), ...targetCountries.keys()])
+        const countryChanges = Array.from(countries)
+            .map(country => {
+                const from = baseCountries.get(country) || 0
+                const to = targetCountries.get(country) || 0
+                return { country, base: from, target: to, change: to - from }
+            })
+            .filter(c => c.change !== 0)
+            .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.country.localeCompare(b.country))
+
+        const newCpcCodes = Array.from(targetCodes.values())
+            .filter(code => !baseCodes.has(code.code))
+            .sort((a, b) => b.total - a.total)
+
+        const sum = (totals: Map<string, number>) => Array.from(totals.values()).reduce((s, v) => s + v, 0)
+
+        console.log(`✓ Diffed ${base.snapshot ?? CURRENT_LABEL} -> ${target.snapshot ?? CURRENT_LABEL}: ` +
+            `${countryChanges.length} country changes, ${newCpcCodes.length} new CPC codes`)
+
+        return {
+            success: true,
+            data: {
+                base: base.snapshot ?? CURRENT_LABEL,
+                target: target.snapshot ?? CURRENT_LABEL,
+                newOwners: diffOwners(baseOwners, targetOwners),
+                droppedOwners: diffOwners(targetOwners, baseOwners),
+                countryChanges,
+                newCpcCodes,
+                cpcSource: codeExport.key && DATASETS[codeExport.key].filename,
+                warnings: codeExport.warnings,
+                summary: {
+                    baseFamilies: sum(baseCountries),
+                    targetFamilies: sum(targetCountries),
+                    baseOwners: baseOwners.size,
+                    targetOwners: targetOwners.size,
+                },
+            },
+            datasets: [...Object.values(baseSide), ...Object.values(targetSide)].map(summarizeDataset),
+        }
+    } catch (error) {
+        console.error('Error diffing snapshots:', error)
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        }
+    }
+}
+
+/**
+ * Compares two snapshots of a category: ?category=&base=&target=. Either
+ * side may be "current" for the live exports; target defaults to it.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    try {
+        const params = request.nextUrl.searchParams
+        const category = params.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const resolve = (label: string | null) =>
+            !label || label === CURRENT_LABEL ? categorySource : getSnapshotSource(categorySource, label)
+
+        const baseLabel = params.get('base')
+        const targetLabel = params.get('target')
+        if (!baseLabel) {
+            return NextResponse.json(
+                { success: false, error: 'Missing "base" snapshot to compare against' },
+                { status: 400 }
+            )
+        }
+
+        const base = resolve(baseLabel)
+        const target = resolve(targetLabel)
+        if (!base || !target) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${!base ? baseLabel : targetLabel}` },
+                { status: 404 }
+            )
+        }
+
+        const result = getSnapshotDiff(base, target)
+        // Live data can change at any time, so a comparison involving it is never cached
+        return NextResponse.json(result, {
+            status: result.success ? 200 : 500,
+            headers: { 'Cache-Control': 'no-store' },
+        })
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,84 @@
+export const runtime = "nodejs";
+
+// app/api/snapshots/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { SnapshotError, createSnapshot, getCategorySource, listSnapshots } from '@/app/lib/datasets'
+import type { SnapshotInfo } from '@/app/lib/datasets'
+
+type SnapshotsResponse =
+    | {
+        success: true
+        data: SnapshotInfo[]
+    }
+    | {
+        success: false
+        error: string
+    }
+
+// Snapshots of one category, oldest first
+export async function GET(request: NextRequest): Promise<NextResponse<SnapshotsResponse>> {
+    try {
+        const category = request.nextUrl.searchParams.get('category')
+        const source = getCategorySource(category)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(
+            { success: true, data: listSnapshots(source) },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * Freezes the category's current exports: { category, label? }, where the
+ * label is a YYYY-MM-DD date and defaults to today. Existing snapshots are
+ * never overwritten.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<SnapshotsResponse>> {
+    try {
+        const body = await request.json().catch(() => ({}))
+        const category = typeof body?.category === 'string' ? body.category : null
+        const label = typeof body?.label === 'string' && body.label.trim() ? body.label.trim() : undefined
+
+        const source = getCategorySource(category)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        createSnapshot(source, label)
+
+        return NextResponse.json(
+            { success: true, data: listSnapshots(source) },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        if (error instanceof SnapshotError) {
+            return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+        }
+        console.error('API error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -2,23 +2,23 @@ export const runtime = "nodejs";
 
 // app/api/timeline/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import fs from 'fs'
-import path from 'path'
-import { parse } from 'csv-parse/sync'
+import { DATASETS, getCategorySource, getSnapshotSource, loadDataset, summarizeDataset } from '@/app/lib/datasets'
+import type { DataRow, DataSource, DatasetSummary } from '@/app/lib/datasets'
+import { INVALID_YEAR_RANGE, isInYearRange, parseYearRange } from '@/app/lib/yearRange'
+import type { YearRange } from '@/app/lib/yearRange'
+import { TIMELINE_LIMITS, parseLimits } from '@/app/lib/limits'
+import { createOwnerHarmonizer } from '@/app/lib/owners'
+import type { OwnerHarmonizer } from '@/app/lib/owners'
+import type { LimitValues } from '@/app/lib/limits'
 
 // Constants
+// Plausible year columns; the analyst's range is applied on top of this
 const YEAR_RANGE = {
     MIN: 2000,
     MAX: 2030
 } as const
 
-const TOP_OWNERS_LIMIT = 8
-const DISPLAY_ROWS_LIMIT = 10
-
-const DATA_DIRS = {
-    RAW: 'raw',
-    PROCESSED: 'processed'
-} as const
+type TimelineLimits = LimitValues<typeof TIMELINE_LIMITS>
 
 // Interfaces
 interface LongFormatData {
@@ -47,21 +47,29 @@ interface SummaryStats {
 
 interface ProcessedTimelineData {
     rawData: {
-        data: any[]
+        data: DataRow[]
         years: string[]
         ownerKey: string
-        displayData: any[]
+        displayData: DataRow[]
     }
     longFormatData: LongFormatData[]
     yearTotals: YearTotal[]
     topOwners: OwnerTotal[]
     summaryStats: SummaryStats
+    // Applications filed (Patenting Trends) and documents published per year, for
+    // comparing the two; empty when the export is missing
+    filingYears: YearTotal[]
+    publicationYears: YearTotal[]
 }
 
 type TimelineResponse =
     | {
         success: true
         data: ProcessedTimelineData
+        yearRange: YearRange
+        snapshot: string | null
+        limits: TimelineLimits
+        datasets: DatasetSummary[]
     }
     | {
         success: false
@@ -69,49 +77,13 @@ type TimelineResponse =
     }
 
 // Utility Functions
-function removeBOM(content: string): string {
-    return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content
-}
-
 function isValidOwnerName(owner: string | null | undefined): boolean {
     if (!owner) return false
     const normalized = owner.trim().toLowerCase()
     return normalized !== '' && normalized !== 'none' && normalized !== 'null' && normalized !== 'unknown'
 }
 
-function truncateOwnerName(name: string): string {
-    const words = name.split(' ')
-    if (words.length <= 2) return name
-    return words.slice(0, 2).join(' ') + '...'
-}
-
-function loadCsvData(filename: string, dir: string = DATA_DIRS.RAW): any[] {
-    try {
-        const filePath = path.join(process.cwd(), 'data', dir, filename)
-        console.log(`Loading CSV: ${filePath}`)
-
-        if (!fs.existsSync(filePath)) {
-            throw new Error(`Required file not found: ${filename}`)
-        }
-
-        const fileContent = fs.readFileSync(filePath, 'utf-8')
-        const content = removeBOM(fileContent)
-
-        const records = parse(content, {
-            columns: true,
-            skip_empty_lines: true,
-            trim: true,
-        })
-
-        console.log(`✓ Loaded ${records.length} records from ${filename}`)
-        return records
-    } catch (error) {
-        console.error(`Error loading ${filename}:`, error)
-        throw error
-    }
-}
-
-function extractYearsAndOwnerKey(firstRow: any): { years: string[], ownerKey: string } {
+function extractYearsAndOwnerKey(firstRow: DataRow): { years: string[], ownerKey: string } {
     const allKeys = Object.keys(firstRow)
 
     // Get year columns (numeric columns within valid range)
@@ -140,30 +112,41 @@ function extractYearsAndOwnerKey(firstRow: any): { years: string[], ownerKey: st
     return { years: yearKeys, ownerKey }
 }
 
+// Rows for spelling variants of one owner are summed per year under its harmonised name
 function convertToLongFormat(
-    records: any[],
+    records: DataRow[],
     years: string[],
-    ownerKey: string
+    ownerKey: string,
+    owners: OwnerHarmonizer
 ): LongFormatData[] {
-    const longData: LongFormatData[] = []
+    const pointMap = new Map<string, LongFormatData>()
 
     for (const row of records) {
-        const owner = row[ownerKey]?.toString().replace(/"/g, '').trim()
+        const rawOwner = row[ownerKey]?.toString().replace(/"/g, '').trim()
 
-        if (!isValidOwnerName(owner)) {
+        if (!isValidOwnerName(rawOwner)) {
             continue
         }
 
+        const owner = owners.label(rawOwner)
+
         for (const yearStr of years) {
             const count = parseInt(row[yearStr] || '0', 10)
             const year = parseInt(yearStr, 10)
 
             if (!isNaN(count) && count > 0 && !isNaN(year)) {
-                longData.push({ owner, year, count })
+                const pointKey = `${owners.key(rawOwner)}|${year}`
+                const existing = pointMap.get(pointKey)
+                if (existing) {
+                    existing.count += count
+                } else {
+                    pointMap.set(pointKey, { owner, year, count })
+                }
             }
         }
     }
 
+    const longData = Array.from(pointMap.values())
     console.log(`✓ Converted to ${longData.length} long-format data points`)
     return longData
 }
@@ -180,7 +163,7 @@ function calculateYearTotals(longData: LongFormatData[]): YearTotal[] {
         .sort((a, b) => a.year - b.year)
 }
 
-function calculateTopOwners(longData: LongFormatData[], limit: number = TOP_OWNERS_LIMIT): OwnerTotal[] {
+function calculateTopOwners(longData: LongFormatData[], limit: number): OwnerTotal[] {
     const ownerMap = new Map<string, number>()
 
     for (const item of longData) {
@@ -194,6 +177,11 @@ function calculateTopOwners(longData: LongFormatData[], limit: number = TOP_OWNE
 }
 
 function calculateSummaryStats(longData: LongFormatData[]): SummaryStats {
+    // A year range can exclude every data point
+    if (longData.length === 0) {
+        return { totalPatents: 0, uniqueOwners: 0, dateRange: '—', peakYear: '—', peakCount: 0 }
+    }
+
     const totalPatents = longData.reduce((sum, item) => sum + item.count, 0)
     const uniqueOwners = new Set(longData.map(d => d.owner)).size
 
@@ -225,9 +213,31 @@ function calculateSummaryStats(longData: LongFormatData[]): SummaryStats {
     }
 }
 
-function prepareDisplayData(records: any[], ownerKey: string): any[] {
-    return records.slice(0, DISPLAY_ROWS_LIMIT).map(row => {
-        const cleanRow: any = {}
+// Year/count exports, skipping rows whose year is not a number (totals, separators)
+function readYearSeries(records: DataRow[], yearKey: string, countKey: string, yearRange: YearRange): YearTotal[] {
+    return records
+        .map(row => ({ year: parseInt(row[yearKey], 10), total: parseInt(row[countKey] || '0', 10) }))
+        .filter(item => !isNaN(item.year) && !isNaN(item.total) && isInYearRange(item.year, yearRange))
+        .sort((a, b) => a.year - b.year)
+}
+
+// Rows with only the requested year columns, dropping owners with no filings in them
+function restrictToYears(records: DataRow[], allYears: string[], years: string[]): DataRow[] {
+    const excluded = new Set(allYears.filter(year => !years.includes(year)))
+    return records
+        .filter(row => years.some(year => parseInt(row[year] || '0', 10) > 0))
+        .map(row => {
+            const restricted: DataRow = {}
+            for (const key in row) {
+                if (!excluded.has(key)) restricted[key] = row[key]
+            }
+            return restricted
+        })
+}
+
+function prepareDisplayData(records: DataRow[], ownerKey: string, limit: number): DataRow[] {
+    return records.slice(0, limit).map(row => {
+        const cleanRow: DataRow = {}
         for (const key in row) {
             const value = row[key]
             cleanRow[key] = (value === null || value === 'None' || value === 'none' || value === '')
@@ -238,38 +248,52 @@ function prepareDisplayData(records: any[], ownerKey: string): any[] {
     })
 }
 
-async function getTimelineData(): Promise<TimelineResponse> {
+async function getTimelineData(
+    source: DataSource,
+    yearRange: YearRange,
+    limits: TimelineLimits
+): Promise<TimelineResponse> {
     try {
         console.log('=== Timeline Data Processing Started ===')
 
         // Load the main timeline data
-        const records = loadCsvData('Timeline_Current_Owner_Count.csv', DATA_DIRS.RAW)
+        const timelineDataset = loadDataset(DATASETS.timelineOwner, source)
+        const records = timelineDataset.records
 
         if (records.length === 0) {
-            throw new Error('No data found in Timeline_Current_Owner_Count.csv')
+            throw new Error(`No data found in ${timelineDataset.fileName}`)
         }
 
         // Extract structure
-        const { years, ownerKey } = extractYearsAndOwnerKey(records[0])
+        const { years: allYears, ownerKey } = extractYearsAndOwnerKey(records[0])
 
         // Convert to long format for easier processing
-        const longFormatData = convertToLongFormat(records, years, ownerKey)
+        const allLongFormatData = convertToLongFormat(records, allYears, ownerKey, createOwnerHarmonizer())
 
-        if (longFormatData.length === 0) {
+        if (allLongFormatData.length === 0) {
             throw new Error('No valid data points found after processing')
         }
 
+        // Restrict to the requested years
+        const years = allYears.filter(y => isInYearRange(parseInt(y, 10), yearRange))
+        const longFormatData = allLongFormatData.filter(d => isInYearRange(d.year, yearRange))
+        const rangeRecords = restrictToYears(records, allYears, years)
+
         // Calculate aggregates
         const yearTotals = calculateYearTotals(longFormatData)
-        const topOwners = calculateTopOwners(longFormatData)
+        const topOwners = calculateTopOwners(longFormatData, limits.topOwners)
         const summaryStats = calculateSummaryStats(longFormatData)
 
         // Prepare display data
-        const displayData = prepareDisplayData(records, ownerKey)
+        const displayData = prepareDisplayData(rangeRecords, ownerKey, limits.displayRows)
+
+        // Filing vs publication activity (Optional - empty if missing)
+        const trendsDataset = loadDataset(DATASETS.patentingTrends, source)
+        const publicationDataset = loadDataset(DATASETS.publicationYear, source)
 
         const data: ProcessedTimelineData = {
             rawData: {
-                data: records,
+                data: rangeRecords,
                 years,
                 ownerKey,
                 displayData
@@ -277,7 +301,9 @@ async function getTimelineData(): Promise<TimelineResponse> {
             longFormatData,
             yearTotals,
             topOwners,
-            summaryStats
+            summaryStats,
+            filingYears: readYearSeries(trendsDataset.records, 'Patenting Trends', 'Applications Filed', yearRange),
+            publicationYears: readYearSeries(publicationDataset.records, 'Publication Year', 'Total', yearRange)
         }
 
         console.log('=== Timeline Data Processing Completed ===')
@@ -288,6 +314,14 @@ async function getTimelineData(): Promise<TimelineResponse> {
         return {
             success: true,
             data,
+            yearRange,
+            snapshot: source.snapshot ?? null,
+            limits,
+            datasets: [
+                summarizeDataset(timelineDataset),
+                summarizeDataset(trendsDataset),
+                summarizeDataset(publicationDataset),
+            ],
         }
     } catch (error) {
         console.error('Error getting timeline data:', error)
@@ -300,12 +334,46 @@ async function getTimelineData(): Promise<TimelineResponse> {
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
     try {
-        const result = await getTimelineData()
+        const category = request.nextUrl.searchParams.get('category')
+        const categorySource = getCategorySource(category)
+        if (!categorySource) {
+            return NextResponse.json(
+                { success: false, error: `Unknown category: ${category}` },
+                { status: 404 }
+            )
+        }
+
+        const snapshot = request.nextUrl.searchParams.get('snapshot')
+        const source = getSnapshotSource(categorySource, snapshot)
+        if (!source) {
+            return NextResponse.json(
+                { success: false, error: `Unknown snapshot: ${snapshot}` },
+                { status: 404 }
+            )
+        }
+
+        const yearRange = parseYearRange(request.nextUrl.searchParams)
+        if (!yearRange) {
+            return NextResponse.json(
+                { success: false, error: INVALID_YEAR_RANGE },
+                { status: 400 }
+            )
+        }
+
+        const limits = parseLimits(request.nextUrl.searchParams, TIMELINE_LIMITS)
+        if (limits.errors.length > 0) {
+            return NextResponse.json(
+                { success: false, error: `Invalid limits: ${limits.errors.join('; ')}` },
+                { status: 400 }
+            )
+        }
+
+        const result = await getTimelineData(source, yearRange, limits.values)
 
         if (result.success) {
             return NextResponse.json(result, {
                 headers: {
-                    'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+                    'Cache-Control': 'no-store'
                 }
             })
         } else {
@@ -2,15 +2,16 @@
 
 import React from 'react'
 import dynamic from 'next/dynamic'
+import type { Config, Data, Layout } from 'plotly.js'
 
 const Plot = dynamic(async () => {
     const plotly = await import('plotly.js-dist-min')
     const createPlotlyComponent = (await import('react-plotly.js/factory')).default
     return createPlotlyComponent(plotly.default)
-}, { ssr: false }) as any
+}, { ssr: false })
 
 interface BarChartProps {
-    data: Array<{ [key: string]: any }>
+    data: Array<Record<string, string | number>>
     xField: string
     yField: string
     title: string
@@ -28,15 +29,15 @@ export default function BarChart({
 }: BarChartProps) {
     // Sort and limit data
     const sortedData = [...data]
-        .sort((a, b) => b[yField] - a[yField])
+        .sort((a, b) => Number(b[yField]) - Number(a[yField]))
         .slice(0, limit)
 
     // For horizontal charts, reverse the order so largest is at the top
     const displayData = orientation === 'horizontal' ? [...sortedData].reverse() : sortedData
 
-    const plotData = [
+    const plotData: Data[] = [
         {
-            type: 'bar' as const,
+            type: 'bar',
             x: orientation === 'horizontal' ? displayData.map(d => d[yField]) : displayData.map(d => d[xField]),
             y: orientation === 'horizontal' ? displayData.map(d => d[xField]) : displayData.map(d => d[yField]),
             orientation: orientation === 'horizontal' ? 'h' : 'v',
@@ -50,19 +51,19 @@ export default function BarChart({
         },
     ]
 
-    const layout = {
+    const layout: Partial<Layout> = {
         title: {
             text: title,
             font: { size: 16, color: '#1f2937' },
         },
         xaxis: {
-            title: orientation === 'horizontal' ? yField : xField,
+            title: { text: orientation === 'horizontal' ? yField : xField },
             tickangle: orientation === 'vertical' ? -45 : 0,
             automargin: true,
             rangemode: orientation === 'horizontal' ? 'tozero' : undefined,
         },
         yaxis: {
-            title: orientation === 'horizontal' ? xField : yField,
+            title: { text: orientation === 'horizontal' ? xField : yField },
             automargin: true,
             ticksuffix: orientation === 'horizontal' ? '       ' : '',  // Add spaces after labels for padding
         },
@@ -78,7 +79,7 @@ export default function BarChart({
         bargap: 0.3,  // Gap between bars
     }
 
-    const config = {
+    const config: Partial<Config> = {
         responsive: true,
         displayModeBar: true,
         displaylogo: false,
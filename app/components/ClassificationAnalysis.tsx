@@ -1,6 +1,8 @@
 'use client'
 
 import React, { useEffect, useState } from 'react'
+import dynamic from 'next/dynamic'
+import type { Data, PlotDatum, PlotMouseEvent } from 'plotly.js'
 import {
     BarChart,
     Bar,
@@ -12,11 +14,61 @@ import {
     ResponsiveContainer,
     LineChart,
     Line,
+    ReferenceArea,
+    ReferenceDot,
 } from 'recharts'
+import { categoryQuery } from '../lib/categories'
+import { withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+import { CLASSIFICATION_LIMITS, EMERGENCE_LIMITS, GROUPED_CHART_LIMIT, defaultLimits, withLimits } from '../lib/limits'
+import type { LimitValues } from '../lib/limits'
+import LimitControl from './LimitControl'
+import SpecialisationHeatmap from './SpecialisationHeatmap'
+import { CONCORDANCE_KIND_LABELS } from '../lib/concordance'
+import type { ConcordanceKind, ConcordanceRow } from '../lib/concordance'
+import { MIN_EMERGING_CAGR } from '../lib/emergence'
+import type { EmergingCode } from '../lib/emergence'
+import {
+    CLASSIFICATION_LEVELS,
+    CLASSIFICATION_LEVEL_LABELS,
+    DEFAULT_CLASSIFICATION_LEVEL,
+    classificationTitle,
+    levelOfClassification,
+    nextClassificationLevel,
+    parentClassification,
+    withClassificationLevel,
+} from '../lib/classification'
+import type { ClassificationDescriptions, ClassificationLevel, ClassificationNode } from '../lib/classification'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
 
 // Constants
 const CHART_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#0088fe', '#00C49F', '#FFBB28', '#FF8042']
-const GROUPED_CHART_LIMIT = 8
+// Legend entries show the start of the title; tooltips show all of it
+const LEGEND_TITLE_LENGTH = 40
+// Rings/nesting levels visible at once; deeper levels appear on drill-down
+const HIERARCHY_MAX_DEPTH = 3
+const HIERARCHY_CHART_HEIGHT = 520
+// Badge colours for how a CPC code relates to IPC; anything but shared is CPC-only
+const CONCORDANCE_KIND_STYLES: Record<ConcordanceKind, string> = {
+    shared: 'bg-gray-100 text-gray-700',
+    refinement: 'bg-purple-100 text-purple-800',
+    indexing: 'bg-indigo-100 text-indigo-800',
+    tagging: 'bg-amber-100 text-amber-800',
+}
+
+type HierarchyView = 'treemap' | 'sunburst'
 
 // Interfaces
 interface ClassificationItem {
@@ -24,12 +76,12 @@ interface ClassificationItem {
     total: number
 }
 
-interface OwnerClassification extends Record<string, any> {
+interface OwnerClassification extends Record<string, string | number> {
     currentOwner: string
     total: number
 }
 
-interface YearClassification extends Record<string, any> {
+interface YearClassification extends Record<string, number> {
     year: number
 }
 
@@ -40,6 +92,12 @@ interface ClassificationData {
     cpcByOwner: OwnerClassification[]
     cpcByYear: YearClassification[]
     ipcByYear: YearClassification[]
+    ipcTree: ClassificationNode[]
+    cpcTree: ClassificationNode[]
+    ipcEmerging: EmergingCode[]
+    cpcEmerging: EmergingCode[]
+    concordance: ConcordanceRow[]
+    descriptions: ClassificationDescriptions
 }
 
 interface ClassificationResponse {
@@ -48,36 +106,82 @@ interface ClassificationResponse {
     error?: string
 }
 
-export default function ClassificationAnalysis() {
+interface ClassificationAnalysisProps {
+    category: string
+    snapshot: string | null
+    yearRange: YearRange
+}
+
+export default function ClassificationAnalysis({ category, snapshot, yearRange }: ClassificationAnalysisProps) {
     const [data, setData] = useState<ClassificationData | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
-    const [activeTab, setActiveTab] = useState<'ipc' | 'cpc'>('ipc')
+    const [activeTab, setActiveTab] = useState<'ipc' | 'cpc' | 'concordance'>('ipc')
+    const [limits, setLimits] = useState<LimitValues<typeof CLASSIFICATION_LIMITS>>(defaultLimits(CLASSIFICATION_LIMITS))
+    const [chartOwners, setChartOwners] = useState(GROUPED_CHART_LIMIT.defaultValue)
+    const [emergenceLimits, setEmergenceLimits] = useState<LimitValues<typeof EMERGENCE_LIMITS>>(defaultLimits(EMERGENCE_LIMITS))
+    const [level, setLevel] = useState<ClassificationLevel>(DEFAULT_CLASSIFICATION_LEVEL)
+    // Code being drilled into; only its descendants are shown
+    const [parent, setParent] = useState<string | null>(null)
+    const [hierarchyView, setHierarchyView] = useState<HierarchyView>('treemap')
+    // Bumped by the Retry buttons to fetch again with the same settings
+    const [attempt, setAttempt] = useState(0)
 
     useEffect(() => {
-        fetchClassificationData()
-    }, [])
+        const fetchClassificationData = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+
+                const response = await fetch(
+                    `/api/classification?${withClassificationLevel(
+                        withLimits(
+                            withLimits(withYearRange(categoryQuery(category, snapshot), yearRange), CLASSIFICATION_LIMITS, limits),
+                            EMERGENCE_LIMITS,
+                            emergenceLimits
+                        ),
+                        level,
+                        parent
+                    )}`
+                )
+                const result: ClassificationResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setData(result.data)
+                } else {
+                    setError(result.error || 'Failed to load classification data')
+                }
+            } catch (err) {
+                const errorMsg = err instanceof Error ? err.message : 'An error occurred'
+                console.error('Fetch Error:', err)
+                setError(errorMsg)
+            } finally {
+                setLoading(false)
+            }
+        }
 
-    const fetchClassificationData = async () => {
-        try {
-            setLoading(true)
-            setError(null)
+        fetchClassificationData()
+    }, [category, snapshot, yearRange, limits, emergenceLimits, level, parent, attempt])
+
+    const drillInto = (code: string) => {
+        const codeLevel = levelOfClassification(code)
+        const next = codeLevel && nextClassificationLevel(codeLevel)
+        if (!next) return
+        setParent(code)
+        setLevel(next)
+    }
 
-            const response = await fetch('/api/classification')
-            const result: ClassificationResponse = await response.json()
+    // Back to the siblings of the current parent
+    const drillOut = () => {
+        if (!parent) return
+        setLevel(levelOfClassification(parent) ?? DEFAULT_CLASSIFICATION_LEVEL)
+        setParent(parentClassification(parent))
+    }
 
-            if (result.success && result.data) {
-                setData(result.data)
-            } else {
-                setError(result.error || 'Failed to load classification data')
-            }
-        } catch (err) {
-            const errorMsg = err instanceof Error ? err.message : 'An error occurred'
-            console.error('Fetch Error:', err)
-            setError(errorMsg)
-        } finally {
-            setLoading(false)
-        }
+    // Clicking the outermost box of a drilled-down tree goes back up a level
+    const selectNode = (code: string) => {
+        if (code === parent) drillOut()
+        else drillInto(code)
     }
 
     if (loading) {
@@ -97,7 +201,7 @@ export default function ClassificationAnalysis() {
                 <h3 className="text-xl font-bold text-red-700 mb-2">⚠️ Error Loading Data</h3>
                 <p className="text-red-600 mb-4">{error}</p>
                 <button
-                    onClick={fetchClassificationData}
+                    onClick={() => setAttempt(n => n + 1)}
                     className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
                 >
                     Retry
@@ -111,7 +215,7 @@ export default function ClassificationAnalysis() {
             <div className="card border-l-4 border-yellow-500 bg-yellow-50">
                 <p className="text-yellow-800 mb-4">No classification data available.</p>
                 <button
-                    onClick={fetchClassificationData}
+                    onClick={() => setAttempt(n => n + 1)}
                     className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
                 >
                     Retry
@@ -134,6 +238,51 @@ export default function ClassificationAnalysis() {
                 <p className="text-gray-600 text-lg">
                     Analyze patent classification data for current owners
                 </p>
+
+                <div className="flex flex-wrap gap-6 mt-4">
+                    {(Object.keys(CLASSIFICATION_LIMITS) as Array<keyof typeof CLASSIFICATION_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={CLASSIFICATION_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => setLimits(prev => ({ ...prev, [key]: value }))}
+                        />
+                    ))}
+                    <LimitControl spec={GROUPED_CHART_LIMIT} value={chartOwners} onChange={setChartOwners} />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 mt-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Level</span>
+                        <select
+                            value={level}
+                            onChange={e => setLevel(e.target.value as ClassificationLevel)}
+                            className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                        >
+                            {CLASSIFICATION_LEVELS.map(l => (
+                                <option key={l} value={l}>{CLASSIFICATION_LEVEL_LABELS[l]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {parent && (
+                        <span className="inline-flex items-center gap-2 rounded-full bg-blue-100 px-3 py-1 text-sm text-blue-800">
+                            Within <strong>{parent}</strong>
+                            <button
+                                onClick={() => setParent(null)}
+                                className="text-blue-500 hover:text-blue-800"
+                                aria-label="Show all classifications"
+                            >
+                                ×
+                            </button>
+                        </span>
+                    )}
+                    <span className="text-xs text-gray-500 italic">
+                        {nextClassificationLevel(level)
+                            ? 'Click a box in the landscape chart or a code in the top classifications table to drill down. '
+                            : ''}
+                        Counts above subgroup level add up classification assignments, so a patent with two codes in one group counts twice.
+                    </span>
+                </div>
             </div>
 
             {/* Educational Info */}
@@ -183,6 +332,16 @@ export default function ClassificationAnalysis() {
                 >
                     CPC Analysis
                 </button>
+                <button
+                    onClick={() => setActiveTab('concordance')}
+                    className={`px-6 py-3 font-bold text-sm transition-all rounded-t-lg ${activeTab === 'concordance'
+                            ? 'bg-blue-600 text-white shadow-md'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200 hover:text-gray-800'
+                        }`}
+                    aria-current={activeTab === 'concordance' ? 'page' : undefined}
+                >
+                    IPC ↔ CPC
+                </button>
             </div>
 
             {/* IPC Tab Content */}
@@ -194,10 +353,24 @@ export default function ClassificationAnalysis() {
                         </div>
                     )}
 
-                    {/* Top 10 IPC Classifications */}
+                    {/* IPC Landscape */}
+                    {data.ipcTree.length > 0 && (
+                        <section className="card">
+                            <HierarchyChart
+                                nodes={data.ipcTree}
+                                descriptions={data.descriptions}
+                                view={hierarchyView}
+                                onViewChange={setHierarchyView}
+                                onSelect={selectNode}
+                                type="IPC"
+                            />
+                        </section>
+                    )}
+
+                    {/* Top IPC Classifications */}
                     {data.ipcFull.length > 0 && (
                         <section className="card">
-                            <h2 className="text-2xl font-bold text-gray-900 mb-6">📋 Top 10 IPC Classifications</h2>
+                            <h2 className="text-2xl font-bold text-gray-900 mb-6">📋 Top {data.ipcFull.length} IPC Classifications ({CLASSIFICATION_LEVEL_LABELS[level]})</h2>
 
                             {/* Data Table */}
                             <div className="overflow-x-auto mb-6">
@@ -207,6 +380,9 @@ export default function ClassificationAnalysis() {
                                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                                 Classification
                                             </th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Description
+                                            </th>
                                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                                 Total Records
                                             </th>
@@ -214,8 +390,13 @@ export default function ClassificationAnalysis() {
                                     </thead>
                                     <tbody className="bg-white divide-y divide-gray-200">
                                         {data.ipcFull.map((item, idx) => (
-                                            <tr key={idx} className="hover:bg-gray-50">
+                                            <tr
+                                                key={idx}
+                                                className={`hover:bg-gray-50 ${nextClassificationLevel(level) ? 'cursor-pointer' : ''}`}
+                                                onClick={() => drillInto(item.classification)}
+                                            >
                                                 <td className="px-6 py-4 text-sm text-gray-900">{item.classification}</td>
+                                                <td className="px-6 py-4 text-sm text-gray-600">{data.descriptions[item.classification] || '—'}</td>
                                                 <td className="px-6 py-4 text-sm text-gray-900">{item.total.toLocaleString()}</td>
                                             </tr>
                                         ))}
@@ -239,7 +420,7 @@ export default function ClassificationAnalysis() {
                                             width={180}
                                             tick={{ fontSize: 12 }}
                                         />
-                                        <Tooltip />
+                                        <Tooltip labelFormatter={code => classificationTitle(String(code), data.descriptions)} />
                                         <Bar dataKey="total" fill="#8884d8" />
                                     </BarChart>
                                 </ResponsiveContainer>
@@ -247,38 +428,49 @@ export default function ClassificationAnalysis() {
                         </section>
                     )}
 
-                    {/* Top 15 Owners - IPC */}
+                    {/* Top Owners - IPC */}
                     {data.ipcByOwner.length > 0 && (
                         <section className="card">
                             <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                                Top 15 Current Owners - Top 5 IPC Classifications
+                                Top {data.ipcByOwner.length} Current Owners - Top {limits.topClassifications} IPC Classifications
                             </h2>
 
-                            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
-                                <h3 className="text-gray-900 font-semibold mb-2">IPC Classification Descriptions:</h3>
-                                <ul className="space-y-2 text-sm text-gray-700">
-                                    <li><strong>G06N10/40:</strong> Physical realisations or architectures of quantum processors or components for manipulating qubits</li>
-                                    <li><strong>G06N10/00:</strong> Quantum computing, i.e. information processing based on quantum-mechanical phenomena</li>
-                                    <li><strong>H10N69/00:</strong> Integrated devices comprising at least one superconducting element</li>
-                                    <li><strong>G06N10/20:</strong> Models of quantum computing, e.g. quantum circuits or universal quantum computers</li>
-                                    <li><strong>B82Y10/00:</strong> Nanotechnology for information processing, storage or transmission</li>
-                                </ul>
-                            </div>
+                            <CodeLegend data={data.ipcByOwner} descriptions={data.descriptions} type="IPC" />
 
-                            <OwnerClassificationTable data={data.ipcByOwner} type="IPC" />
+                            <OwnerClassificationTable data={data.ipcByOwner} descriptions={data.descriptions} />
 
-                            {data.ipcByOwner.length >= GROUPED_CHART_LIMIT && (
+                            {data.ipcByOwner.length > 0 && (
                                 <div className="mt-8">
-                                    <GroupedBarChart data={data.ipcByOwner.slice(0, GROUPED_CHART_LIMIT)} type="IPC" />
+                                    <GroupedBarChart data={data.ipcByOwner.slice(0, chartOwners)} descriptions={data.descriptions} />
                                 </div>
                             )}
 
                             <div className="mt-8">
-                                <Heatmap data={data.ipcByOwner} type="IPC" />
+                                <Heatmap data={data.ipcByOwner} descriptions={data.descriptions} />
                             </div>
                         </section>
                     )}
 
+                    {/* Specialisation - IPC */}
+                    {data.ipcByOwner.length > 0 && (
+                        <section className="card">
+                            <SpecialisationHeatmap category={category} snapshot={snapshot} scheme="ipc" level={level} parent={parent} />
+                        </section>
+                    )}
+
+                    {/* Emerging Codes - IPC */}
+                    {data.ipcByYear.length > 0 && (
+                        <section className="card">
+                            <EmergingCodes
+                                emerging={data.ipcEmerging}
+                                descriptions={data.descriptions}
+                                limits={emergenceLimits}
+                                onLimitsChange={setEmergenceLimits}
+                                type="IPC"
+                            />
+                        </section>
+                    )}
+
                     {/* Temporal Analysis - IPC */}
                     {data.ipcByYear.length > 0 && (
                         <section className="card">
@@ -286,7 +478,7 @@ export default function ClassificationAnalysis() {
                                 Temporal Analysis - IPC Classifications Over Time
                             </h2>
 
-                            <TemporalChart data={data.ipcByYear} />
+                            <TemporalChart data={data.ipcByYear} emerging={data.ipcEmerging} descriptions={data.descriptions} />
 
                             <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
                                 <p className="text-sm text-blue-800">
@@ -309,10 +501,24 @@ export default function ClassificationAnalysis() {
                         </div>
                     )}
 
-                    {/* Top 10 CPC Classifications */}
+                    {/* CPC Landscape */}
+                    {data.cpcTree.length > 0 && (
+                        <section className="card">
+                            <HierarchyChart
+                                nodes={data.cpcTree}
+                                descriptions={data.descriptions}
+                                view={hierarchyView}
+                                onViewChange={setHierarchyView}
+                                onSelect={selectNode}
+                                type="CPC"
+                            />
+                        </section>
+                    )}
+
+                    {/* Top CPC Classifications */}
                     {data.cpcFull.length > 0 && (
                         <section className="card">
-                            <h2 className="text-2xl font-bold text-gray-900 mb-6">🏷️ Top 10 CPC Classifications</h2>
+                            <h2 className="text-2xl font-bold text-gray-900 mb-6">🏷️ Top {data.cpcFull.length} CPC Classifications ({CLASSIFICATION_LEVEL_LABELS[level]})</h2>
 
                             {/* Data Table */}
                             <div className="overflow-x-auto mb-6">
@@ -322,6 +528,9 @@ export default function ClassificationAnalysis() {
                                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                                 Classification
                                             </th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                Description
+                                            </th>
                                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                                 Total Records
                                             </th>
@@ -329,8 +538,13 @@ export default function ClassificationAnalysis() {
                                     </thead>
                                     <tbody className="bg-white divide-y divide-gray-200">
                                         {data.cpcFull.map((item, idx) => (
-                                            <tr key={idx} className="hover:bg-gray-50">
+                                            <tr
+                                                key={idx}
+                                                className={`hover:bg-gray-50 ${nextClassificationLevel(level) ? 'cursor-pointer' : ''}`}
+                                                onClick={() => drillInto(item.classification)}
+                                            >
                                                 <td className="px-6 py-4 text-sm text-gray-900">{item.classification}</td>
+                                                <td className="px-6 py-4 text-sm text-gray-600">{data.descriptions[item.classification] || '—'}</td>
                                                 <td className="px-6 py-4 text-sm text-gray-900">{item.total.toLocaleString()}</td>
                                             </tr>
                                         ))}
@@ -354,7 +568,7 @@ export default function ClassificationAnalysis() {
                                             width={180}
                                             tick={{ fontSize: 12 }}
                                         />
-                                        <Tooltip />
+                                        <Tooltip labelFormatter={code => classificationTitle(String(code), data.descriptions)} />
                                         <Bar dataKey="total" fill="#ff6b6b" />
                                     </BarChart>
                                 </ResponsiveContainer>
@@ -362,27 +576,36 @@ export default function ClassificationAnalysis() {
                         </section>
                     )}
 
-                    {/* Top 15 Owners - CPC */}
+                    {/* Top Owners - CPC */}
                     {data.cpcByOwner.length > 0 && (
                         <section className="card">
                             <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                                Top 15 Current Owners - Top 5 CPC Classifications
+                                Top {data.cpcByOwner.length} Current Owners - Top {limits.topClassifications} CPC Classifications
                             </h2>
 
-                            <OwnerClassificationTable data={data.cpcByOwner} type="CPC" />
+                            <CodeLegend data={data.cpcByOwner} descriptions={data.descriptions} type="CPC" />
 
-                            {data.cpcByOwner.length >= GROUPED_CHART_LIMIT && (
+                            <OwnerClassificationTable data={data.cpcByOwner} descriptions={data.descriptions} />
+
+                            {data.cpcByOwner.length > 0 && (
                                 <div className="mt-8">
-                                    <GroupedBarChart data={data.cpcByOwner.slice(0, GROUPED_CHART_LIMIT)} type="CPC" />
+                                    <GroupedBarChart data={data.cpcByOwner.slice(0, chartOwners)} descriptions={data.descriptions} />
                                 </div>
                             )}
 
                             <div className="mt-8">
-                                <Heatmap data={data.cpcByOwner} type="CPC" />
+                                <Heatmap data={data.cpcByOwner} descriptions={data.descriptions} />
                             </div>
                         </section>
                     )}
 
+                    {/* Specialisation - CPC */}
+                    {data.cpcByOwner.length > 0 && (
+                        <section className="card">
+                            <SpecialisationHeatmap category={category} snapshot={snapshot} scheme="cpc" level={level} parent={parent} />
+                        </section>
+                    )}
+
                     {/* Example Analysis - Top Company */}
                     <section className="card bg-green-50 border-2 border-green-200">
                         <h3 className="text-lg font-bold text-green-900 mb-4">📋 Example Analysis - Top Company</h3>
@@ -423,6 +646,19 @@ export default function ClassificationAnalysis() {
                         </div>
                     </section>
 
+                    {/* Emerging Codes - CPC */}
+                    {data.cpcByYear.length > 0 && (
+                        <section className="card">
+                            <EmergingCodes
+                                emerging={data.cpcEmerging}
+                                descriptions={data.descriptions}
+                                limits={emergenceLimits}
+                                onLimitsChange={setEmergenceLimits}
+                                type="CPC"
+                            />
+                        </section>
+                    )}
+
                     {/* Temporal Analysis - CPC */}
                     {data.cpcByYear.length > 0 && (
                         <section className="card">
@@ -430,7 +666,7 @@ export default function ClassificationAnalysis() {
                                 Temporal Analysis - CPC Classifications Over Time
                             </h2>
 
-                            <TemporalChart data={data.cpcByYear} />
+                            <TemporalChart data={data.cpcByYear} emerging={data.cpcEmerging} descriptions={data.descriptions} />
 
                             <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
                                 <p className="text-sm text-blue-800">
@@ -443,12 +679,108 @@ export default function ClassificationAnalysis() {
                     )}
                 </div>
             )}
+
+            {/* Concordance Tab Content */}
+            {activeTab === 'concordance' && (
+                <section className="card">
+                    <ConcordanceView rows={data.concordance} descriptions={data.descriptions} level={level} />
+                </section>
+            )}
+        </div>
+    )
+}
+
+// Treemap or sunburst of the whole code hierarchy; clicking a box drills the page into it
+function HierarchyChart({ nodes, descriptions, view, onViewChange, onSelect, type }: {
+    nodes: ClassificationNode[]
+    descriptions: ClassificationDescriptions
+    view: HierarchyView
+    onViewChange: (view: HierarchyView) => void
+    onSelect: (code: string) => void
+    type: string
+}) {
+    const plotData: Data[] = [{
+        type: view,
+        ids: nodes.map(n => n.id),
+        labels: nodes.map(n => n.id),
+        parents: nodes.map(n => n.parent),
+        values: nodes.map(n => n.value),
+        text: nodes.map(n => descriptions[n.id] || ''),
+        branchvalues: 'total',
+        maxdepth: HIERARCHY_MAX_DEPTH,
+        hovertemplate: '<b>%{label}</b><br>%{text}<br>%{value:,} records<extra></extra>',
+    }]
+
+    const layout = {
+        height: HIERARCHY_CHART_HEIGHT,
+        margin: { t: 10, r: 10, b: 10, l: 10 },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+    }
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h2 className="text-2xl font-bold text-gray-900">🌳 {type} Landscape</h2>
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                    {(['treemap', 'sunburst'] as HierarchyView[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onViewChange(option)}
+                            className={`px-3 py-1 font-medium ${view === option
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-gray-700 hover:bg-gray-50'
+                            }`}
+                        >
+                            {option === 'treemap' ? 'Treemap' : 'Sunburst'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-gray-600 mb-4 text-sm italic">
+                Box size is the number of records classified in the code or below it. Click a box to filter the owner
+                and year charts to it; click the outermost box to go back up.
+            </p>
+            <Plot
+                data={plotData}
+                layout={layout}
+                config={{ responsive: true, displaylogo: false }}
+                style={{ width: '100%' }}
+                onClick={(event: Readonly<PlotMouseEvent>) => {
+                    // Treemap and sunburst points carry the node id, which the typings leave out
+                    const id = (event.points[0] as (PlotDatum & { id?: string }) | undefined)?.id
+                    if (id) onSelect(id)
+                }}
+            />
+        </>
+    )
+}
+
+function legendTitle(code: string, descriptions: ClassificationDescriptions): string {
+    const title = classificationTitle(code, descriptions)
+    return title.length > LEGEND_TITLE_LENGTH ? `${title.slice(0, LEGEND_TITLE_LENGTH - 1)}…` : title
+}
+
+// Titles of the codes shown in the owner table and charts below it
+function CodeLegend({ data, descriptions, type }: { data: OwnerClassification[], descriptions: ClassificationDescriptions, type: string }) {
+    const codes = Object.keys(data[0] || {}).filter(key => key !== 'currentOwner' && key !== 'total')
+    if (codes.length === 0) return null
+
+    return (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+            <h3 className="text-gray-900 font-semibold mb-2">{type} Classification Descriptions:</h3>
+            <ul className="space-y-2 text-sm text-gray-700">
+                {codes.map(code => (
+                    <li key={code}>
+                        <strong>{code}:</strong> {descriptions[code] || <span className="italic text-gray-500">No title in the export</span>}
+                    </li>
+                ))}
+            </ul>
         </div>
     )
 }
 
 // Owner Classification Table Component
-function OwnerClassificationTable({ data, type }: { data: OwnerClassification[], type: string }) {
+function OwnerClassificationTable({ data, descriptions }: { data: OwnerClassification[], descriptions: ClassificationDescriptions }) {
     if (!data || data.length === 0) return null
 
     const classificationKeys = Object.keys(data[0] || {}).filter(
@@ -478,6 +810,7 @@ function OwnerClassificationTable({ data, type }: { data: OwnerClassification[],
                             <th
                                 key={key}
                                 className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                                title={classificationTitle(key, descriptions)}
                             >
                                 {key}
                             </th>
@@ -503,7 +836,7 @@ function OwnerClassificationTable({ data, type }: { data: OwnerClassification[],
 }
 
 // Grouped Bar Chart Component
-function GroupedBarChart({ data, type }: { data: OwnerClassification[], type: string }) {
+function GroupedBarChart({ data, descriptions }: { data: OwnerClassification[], descriptions: ClassificationDescriptions }) {
     if (!data || data.length === 0) return null
 
     const classificationKeys = Object.keys(data[0] || {}).filter(
@@ -511,7 +844,7 @@ function GroupedBarChart({ data, type }: { data: OwnerClassification[], type: st
     )
 
     const chartData = data.map(row => {
-        const newRow: any = { name: row.currentOwner }
+        const newRow: Record<string, string | number> = { name: row.currentOwner }
         classificationKeys.forEach(key => {
             newRow[key] = row[key] || 0
         })
@@ -529,8 +862,8 @@ function GroupedBarChart({ data, type }: { data: OwnerClassification[], type: st
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="name" tick={{ fontSize: 10 }} interval={0} angle={-45} textAnchor="end" height={80} />
                     <YAxis />
-                    <Tooltip />
-                    <Legend />
+                    <Tooltip formatter={(value, code) => [value, classificationTitle(String(code), descriptions)]} />
+                    <Legend formatter={code => legendTitle(String(code), descriptions)} />
                     {classificationKeys.map((key, index) => (
                         <Bar key={key} dataKey={key} fill={CHART_COLORS[index % CHART_COLORS.length]} />
                     ))}
@@ -541,7 +874,7 @@ function GroupedBarChart({ data, type }: { data: OwnerClassification[], type: st
 }
 
 // Heatmap Component
-function Heatmap({ data, type }: { data: OwnerClassification[], type: string }) {
+function Heatmap({ data, descriptions }: { data: OwnerClassification[], descriptions: ClassificationDescriptions }) {
     if (!data || data.length === 0) return null
 
     const classificationKeys = Object.keys(data[0] || {}).filter(
@@ -552,7 +885,7 @@ function Heatmap({ data, type }: { data: OwnerClassification[], type: string })
     let maxValue = 0
     data.forEach(row => {
         classificationKeys.forEach(key => {
-            const value = row[key] || 0
+            const value = Number(row[key]) || 0
             if (value > maxValue) maxValue = value
         })
     })
@@ -575,7 +908,7 @@ function Heatmap({ data, type }: { data: OwnerClassification[], type: string })
                     {/* Header Row */}
                     <div className="p-2 font-medium text-gray-500 text-xs">Owner</div>
                     {classificationKeys.map(key => (
-                        <div key={key} className="p-2 font-medium text-gray-500 text-xs text-center break-all">
+                        <div key={key} className="p-2 font-medium text-gray-500 text-xs text-center break-all" title={classificationTitle(key, descriptions)}>
                             {key}
                         </div>
                     ))}
@@ -587,7 +920,7 @@ function Heatmap({ data, type }: { data: OwnerClassification[], type: string })
                                 {row.currentOwner}
                             </div>
                             {classificationKeys.map(key => {
-                                const value = row[key] || 0
+                                const value = Number(row[key]) || 0
                                 return (
                                     <div
                                         key={key}
@@ -596,7 +929,7 @@ function Heatmap({ data, type }: { data: OwnerClassification[], type: string })
                                             backgroundColor: getColor(value),
                                             color: value > maxValue / 2 ? 'white' : 'black'
                                         }}
-                                        title={`${row.currentOwner} - ${key}: ${value}`}
+                                        title={`${row.currentOwner} - ${classificationTitle(key, descriptions)}: ${value}`}
                                     >
                                         {value}
                                     </div>
@@ -610,13 +943,202 @@ function Heatmap({ data, type }: { data: OwnerClassification[], type: string })
     )
 }
 
-// Temporal Chart Component
-function TemporalChart({ data }: { data: YearClassification[] }) {
+// Ranked list of rising codes with the window settings they were found with
+function EmergingCodes({ emerging, descriptions, limits, onLimitsChange, type }: {
+    emerging: EmergingCode[]
+    descriptions: ClassificationDescriptions
+    limits: LimitValues<typeof EMERGENCE_LIMITS>
+    onLimitsChange: (limits: LimitValues<typeof EMERGENCE_LIMITS>) => void
+    type: string
+}) {
+    const window = emerging[0] ? `${emerging[0].startYear}–${emerging[0].endYear}` : null
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                <h2 className="text-2xl font-bold text-gray-900">🚀 Emerging {type} Codes{window ? ` (${window})` : ''}</h2>
+                <div className="flex flex-wrap gap-4">
+                    {(Object.keys(EMERGENCE_LIMITS) as Array<keyof typeof EMERGENCE_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={EMERGENCE_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => onLimitsChange({ ...limits, [key]: value })}
+                        />
+                    ))}
+                </div>
+            </div>
+            <p className="text-gray-600 mb-6 text-sm italic">
+                Codes that gained share of all classifications and grew by at least {Math.round(MIN_EMERGING_CAGR * 100)}%
+                a year over the window, measured from their first year with records in it, which is later than the
+                window&apos;s first year for codes that are new or returning after a gap (CAGR to the window&apos;s
+                last year). The window ends at the last year of the selected range, and never includes
+                the year the export was taken, which is still being filed and published.
+            </p>
+
+            {emerging.length === 0 ? (
+                <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-500">
+                    <p>No codes meet the emergence criteria for this window</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                {['#', 'Classification', 'Description', 'First Year', 'Records in Window', 'CAGR', 'Share', 'Share Gain'].map(header => (
+                                    <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {header}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {emerging.map((item, idx) => (
+                                <tr key={item.code} className="hover:bg-gray-50">
+                                    <td className="px-4 py-3 text-sm text-gray-500">{idx + 1}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-900 font-medium whitespace-nowrap">
+                                        {item.code}
+                                        {item.isNew && (
+                                            <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">New</span>
+                                        )}
+                                        {item.isReemerging && (
+                                            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                                                Re-emerging since {item.growthFrom}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-gray-600">{descriptions[item.code] || '—'}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-900">{item.firstYear}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-900">{item.windowTotal.toLocaleString()}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-900">
+                                        {Math.round(item.cagr * 100)}%
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                                        {(item.startShare * 100).toFixed(1)}% → {(item.endShare * 100).toFixed(1)}%
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-green-700 font-medium">
+                                        +{(item.shareGain * 100).toFixed(1)} pts
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </>
+    )
+}
+
+// IPC and CPC counts side by side per IPC parent, with the CPC codes behind each and the CPC-only ones flagged
+function ConcordanceView({ rows, descriptions, level }: {
+    rows: ConcordanceRow[]
+    descriptions: ClassificationDescriptions
+    level: ClassificationLevel
+}) {
+    if (rows.length === 0) {
+        return (
+            <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-500">
+                <p>No IPC or CPC totals available to compare</p>
+            </div>
+        )
+    }
+
+    const chartData = rows.map(row => ({
+        code: row.ipcCode ?? 'Y tags',
+        IPC: row.ipcCount,
+        CPC: row.cpcCount,
+    }))
+    const cpcOnly = rows.flatMap(row => row.cpcCodes).filter(code => code.kind !== 'shared')
+
+    return (
+        <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">🔗 IPC ↔ CPC Concordance ({CLASSIFICATION_LEVEL_LABELS[level]})</h2>
+            <p className="text-gray-600 mb-6 text-sm italic">
+                CPC extends IPC, so every CPC code outside the Y section sits under an IPC code with the same prefix.
+                CPC counts are summed over the codes mapped to each IPC parent, so records classified in several of
+                them count more than once. {cpcOnly.length} of the CPC codes have no IPC counterpart in the exports.
+            </p>
+
+            <div className="h-96 mb-6">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 60 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="code" angle={-45} textAnchor="end" interval={0} height={80} />
+                        <YAxis />
+                        <Tooltip labelFormatter={code => classificationTitle(String(code), descriptions)} />
+                        <Legend verticalAlign="top" />
+                        <Bar dataKey="IPC" fill={CHART_COLORS[4]} />
+                        <Bar dataKey="CPC" fill={CHART_COLORS[1]} />
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                {(Object.keys(CONCORDANCE_KIND_LABELS) as ConcordanceKind[]).map(kind => (
+                    <span key={kind} className={`rounded-full px-2 py-0.5 ${CONCORDANCE_KIND_STYLES[kind]}`}>
+                        {CONCORDANCE_KIND_LABELS[kind]}
+                    </span>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            {['IPC Parent', 'Description', 'IPC Records', 'CPC Records', 'CPC Codes'].map(header => (
+                                <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    {header}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rows.map(row => (
+                            <tr key={row.ipcCode ?? 'Y'} className={row.ipcCode === null ? 'bg-amber-50' : 'hover:bg-gray-50'}>
+                                <td className="px-4 py-3 text-sm text-gray-900 font-medium whitespace-nowrap">
+                                    {row.ipcCode ?? 'None (Y section)'}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-600">
+                                    {row.ipcCode ? descriptions[row.ipcCode] || '—' : 'Cross-sectional CPC tags with no IPC equivalent'}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-900">{row.ipcCount.toLocaleString()}</td>
+                                <td className="px-4 py-3 text-sm text-gray-900">{row.cpcCount.toLocaleString()}</td>
+                                <td className="px-4 py-3 text-sm">
+                                    <div className="flex flex-wrap gap-1">
+                                        {row.cpcCodes.length === 0 && <span className="text-gray-400">—</span>}
+                                        {row.cpcCodes.map(code => (
+                                            <span
+                                                key={code.code}
+                                                title={`${classificationTitle(code.code, descriptions)} (${CONCORDANCE_KIND_LABELS[code.kind]})`}
+                                                className={`rounded-full px-2 py-0.5 text-xs whitespace-nowrap ${CONCORDANCE_KIND_STYLES[code.kind]}`}
+                                            >
+                                                {code.code} · {code.count.toLocaleString()}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    )
+}
+
+// Temporal Chart Component; emerging codes are drawn heavier, their window shaded and first appearances marked
+function TemporalChart({ data, emerging, descriptions }: {
+    data: YearClassification[]
+    emerging: EmergingCode[]
+    descriptions: ClassificationDescriptions
+}) {
     if (!data || data.length === 0) return null
 
     const classificationKeys = Object.keys(data[0] || {}).filter(
         key => key !== 'year' && key !== 'total'
     )
+    const emergingByCode = new Map(emerging.map(item => [item.code, item]))
+    const years = new Set(data.map(row => row.year))
 
     return (
         <div className="h-96">
@@ -628,17 +1150,42 @@ function TemporalChart({ data }: { data: YearClassification[] }) {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="year" />
                     <YAxis />
-                    <Tooltip />
-                    <Legend />
+                    <Tooltip formatter={(value, code) => [value, classificationTitle(String(code), descriptions)]} />
+                    <Legend
+                        formatter={code => `${emergingByCode.has(String(code)) ? '▲ ' : ''}${legendTitle(String(code), descriptions)}`}
+                    />
+                    {emerging[0] && years.has(emerging[0].startYear) && years.has(emerging[0].endYear) && (
+                        <ReferenceArea
+                            x1={emerging[0].startYear}
+                            x2={emerging[0].endYear}
+                            fill="#22c55e"
+                            fillOpacity={0.06}
+                            label={{ value: 'Emergence window', position: 'insideTop', fontSize: 11, fill: '#15803d' }}
+                        />
+                    )}
                     {classificationKeys.map((key, index) => (
                         <Line
                             key={key}
                             type="monotone"
                             dataKey={key}
                             stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                            strokeWidth={emergingByCode.has(key) ? 3 : 1.5}
                             activeDot={{ r: 8 }}
                         />
                     ))}
+                    {emerging
+                        .filter(item => item.isNew && years.has(item.firstYear) && classificationKeys.includes(item.code))
+                        .map(item => (
+                            <ReferenceDot
+                                key={item.code}
+                                x={item.firstYear}
+                                y={data.find(row => row.year === item.firstYear)?.[item.code] ?? 0}
+                                r={6}
+                                fill="#16a34a"
+                                stroke="#ffffff"
+                                label={{ value: `${item.code} new`, position: 'top', fontSize: 10, fill: '#15803d' }}
+                            />
+                        ))}
                 </LineChart>
             </ResponsiveContainer>
         </div>
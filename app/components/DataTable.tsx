@@ -5,7 +5,7 @@ import * as XLSX from 'xlsx'
 import { Download } from 'lucide-react'
 
 interface DataTableProps {
-    data: Array<{ [key: string]: any }>
+    data: Array<Record<string, unknown>>
     title: string
     filename?: string
     maxRows?: number
@@ -0,0 +1,250 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Upload } from 'lucide-react'
+import { QUANTUM_CATEGORIES } from '../lib/categories'
+import { DATASETS } from '../lib/datasets/registry'
+
+// Interfaces
+interface ParseDiagnostic {
+    level: 'info' | 'warning' | 'error'
+    message: string
+    line?: number
+}
+
+interface UploadReport {
+    fileName: string
+    datasetId: string | null
+    datasetLabel: string | null
+    candidates: Array<{ id: string, label: string, score: number }>
+    columns: string[]
+    rowCount: number
+    diagnostics: ParseDiagnostic[]
+    valid: boolean
+}
+
+interface InstallResult {
+    datasetId: string
+    fileName: string
+    replaced: string[]
+}
+
+interface UploadResponse {
+    success: boolean
+    data?: {
+        report: UploadReport
+        installed: InstallResult | null
+    }
+    error?: string
+    report?: UploadReport
+}
+
+interface DatasetUploadProps {
+    category: string
+    // Called after a file is installed so category availability can be refreshed
+    onInstalled?: () => void
+}
+
+const LEVEL_STYLES: Record<ParseDiagnostic['level'], string> = {
+    error: 'bg-red-50 text-red-700',
+    warning: 'bg-amber-50 text-amber-700',
+    info: 'bg-gray-50 text-gray-600',
+}
+
+const DATASET_OPTIONS = Object.values(DATASETS).map(d => ({ id: d.id, label: d.label }))
+
+export default function DatasetUpload({ category, onInstalled }: DatasetUploadProps) {
+    const [targetCategory, setTargetCategory] = useState(category)
+    const [datasetId, setDatasetId] = useState('')
+    const [file, setFile] = useState<File | null>(null)
+    const [report, setReport] = useState<UploadReport | null>(null)
+    const [installed, setInstalled] = useState<InstallResult | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [busy, setBusy] = useState(false)
+
+    const resetResult = () => {
+        setReport(null)
+        setInstalled(null)
+        setError(null)
+    }
+
+    const submit = async (install: boolean) => {
+        if (!file) return
+
+        const form = new FormData()
+        form.append('file', file)
+        form.append('category', targetCategory)
+        form.append('install', String(install))
+        if (datasetId) form.append('dataset', datasetId)
+
+        try {
+            setBusy(true)
+            resetResult()
+            const response = await fetch('/api/datasets', { method: 'POST', body: form })
+            const result: UploadResponse = await response.json()
+
+            if (result.success && result.data) {
+                setReport(result.data.report)
+                setInstalled(result.data.installed)
+                if (result.data.installed) onInstalled?.()
+            } else {
+                setReport(result.report || null)
+                setError(result.error || 'Upload failed')
+            }
+        } catch (err) {
+            setError('Failed to upload file')
+            console.error('Upload error:', err)
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">📤</span>
+                    Upload Data
+                </h1>
+
+                <div className="info-box bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                    <p className="text-blue-900 font-medium mb-2">
+                        Adding PatSeer exports:
+                    </p>
+                    <p className="text-blue-800 text-sm">
+                        Upload a CSV or XLSX export. The dataset is recognised from its header and every
+                        row is checked before anything is saved; validate first to see the problems, then
+                        install. A category becomes available once all of its required exports are installed.
+                    </p>
+                </div>
+            </div>
+
+            {/* Form */}
+            <div className="card space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">Category</span>
+                        <select
+                            value={targetCategory}
+                            onChange={e => { setTargetCategory(e.target.value); resetResult() }}
+                            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        >
+                            {QUANTUM_CATEGORIES.map(c => (
+                                <option key={c.id} value={c.id}>{c.label} ({c.class})</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">Dataset</span>
+                        <select
+                            value={datasetId}
+                            onChange={e => { setDatasetId(e.target.value); resetResult() }}
+                            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        >
+                            <option value="">Detect from header</option>
+                            {DATASET_OPTIONS.map(d => (
+                                <option key={d.id} value={d.id}>{d.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={e => { setFile(e.target.files?.[0] || null); resetResult() }}
+                    className="block w-full text-sm text-gray-700"
+                />
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => submit(false)}
+                        disabled={!file || busy}
+                        className="px-4 py-2 rounded-lg border border-blue-600 text-blue-700 text-sm font-medium hover:bg-blue-50 disabled:opacity-50"
+                    >
+                        Validate
+                    </button>
+                    <button
+                        onClick={() => submit(true)}
+                        disabled={!file || busy || !report?.valid}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-medium disabled:opacity-50"
+                    >
+                        <Upload size={16} />
+                        Install
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {installed && (
+                <div className="card border-l-4 border-green-500 bg-green-50">
+                    <p className="text-green-800 font-medium">
+                        Installed as <code>{installed.fileName}</code>
+                        {installed.replaced.length > 0 && ` (replacing ${installed.replaced.join(', ')})`}
+                    </p>
+                </div>
+            )}
+
+            {/* Validation Report */}
+            {report && (
+                <div className="card">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-4">Validation Report</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                            <p className="text-sm text-blue-600 font-medium uppercase">Dataset</p>
+                            <p className="text-lg font-bold text-blue-900">{report.datasetLabel || 'Not identified'}</p>
+                            {report.candidates.length > 1 && (
+                                <p className="text-xs text-blue-700 mt-1">
+                                    Also matched: {report.candidates.filter(c => c.id !== report.datasetId).map(c => c.label).join(', ')}
+                                </p>
+                            )}
+                        </div>
+                        <div className="bg-purple-50 rounded-lg p-4 border border-purple-100">
+                            <p className="text-sm text-purple-600 font-medium uppercase">Rows / Columns</p>
+                            <p className="text-lg font-bold text-purple-900">
+                                {report.rowCount.toLocaleString()} / {report.columns.length.toLocaleString()}
+                            </p>
+                        </div>
+                        <div className={`rounded-lg p-4 border ${report.valid ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'}`}>
+                            <p className={`text-sm font-medium uppercase ${report.valid ? 'text-green-600' : 'text-red-600'}`}>Status</p>
+                            <p className={`text-lg font-bold ${report.valid ? 'text-green-900' : 'text-red-900'}`}>
+                                {report.valid ? 'Ready to install' : 'Rejected'}
+                            </p>
+                        </div>
+                    </div>
+
+                    {report.diagnostics.length === 0 ? (
+                        <p className="text-sm text-gray-600">No problems found.</p>
+                    ) : (
+                        <div className="overflow-x-auto rounded-lg border border-gray-200">
+                            <table className="w-full text-sm border-collapse">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Level</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Line</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Problem</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.diagnostics.map((d, idx) => (
+                                        <tr key={idx} className={LEVEL_STYLES[d.level]}>
+                                            <td className="px-4 py-2 font-medium uppercase text-xs">{d.level}</td>
+                                            <td className="px-4 py-2">{d.line ?? ''}</td>
+                                            <td className="px-4 py-2">{d.message}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -3,6 +3,12 @@
 import React, { useEffect, useState } from 'react'
 import dynamic from 'next/dynamic'
 import DataTable from './DataTable'
+import { categoryQuery } from '../lib/categories'
+import { describeYearRange, withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+import { ENTITY_CHART_LIMIT } from '../lib/limits'
+import { territoryName } from '../lib/countries'
+import LimitControl from './LimitControl'
 
 const BarChart = dynamic(
     () => import('./BarChart'),
@@ -10,7 +16,6 @@ const BarChart = dynamic(
 )
 
 // Constants
-const CHART_LIMIT = 20
 const TABLE_MAX_ROWS = 20
 
 // Interfaces
@@ -22,8 +27,10 @@ interface AssigneeData {
 
 interface InventorData {
     country: string
+    countries: string[]
     inventor: string
     count: number
+    variants: string[]
 }
 
 interface ProcessedEntityData {
@@ -44,17 +51,24 @@ interface EntityResponse {
     }
 }
 
-export default function EntityAnalysis() {
+interface EntityAnalysisProps {
+    category: string
+    snapshot: string | null
+    yearRange: YearRange
+}
+
+export default function EntityAnalysis({ category, snapshot, yearRange }: EntityAnalysisProps) {
     const [activeTab, setActiveTab] = useState<'assignee' | 'inventor'>('assignee')
     const [entityData, setEntityData] = useState<ProcessedEntityData | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [chartLimit, setChartLimit] = useState(ENTITY_CHART_LIMIT.defaultValue)
 
     useEffect(() => {
         const fetchData = async () => {
             try {
                 setLoading(true)
-                const response = await fetch('/api/entity')
+                const response = await fetch(`/api/entity?${withYearRange(categoryQuery(category, snapshot), yearRange)}`)
                 const result: EntityResponse = await response.json()
 
                 if (result.success && result.data) {
@@ -71,7 +85,7 @@ export default function EntityAnalysis() {
         }
 
         fetchData()
-    }, [])
+    }, [category, snapshot, yearRange])
 
     if (loading) {
         return (
@@ -95,43 +109,25 @@ export default function EntityAnalysis() {
 
     // Prepare assignee data for display
     const assigneeTableData = entityData.assigneeData.map(item => ({
-        'Country': item.country || 'Unknown',
+        'Country': item.country ? territoryName(item.country) : 'Unknown',
         'Assignee': item.assignee,
         'Patent Count': item.count
     }))
 
-    const assigneeChartData = assigneeTableData.slice(0, CHART_LIMIT)
+    const assigneeChartData = assigneeTableData.slice(0, chartLimit)
     const hasAssigneeData = assigneeTableData.length > 0
 
     // Prepare inventor data for display
     const inventorTableData = entityData.inventorData.map(item => ({
-        'Country': item.country || 'Unknown',
+        'Country': item.countries.map(territoryName).join(', ') || 'Unknown',
         'Inventor': item.inventor,
-        'Patent Count': item.count
+        'Patent Count': item.count,
+        'Name Variants': item.variants.filter(v => v !== item.inventor).join('; ') || '—'
     }))
 
-    const inventorChartData = inventorTableData.slice(0, CHART_LIMIT)
+    const inventorChartData = inventorTableData.slice(0, chartLimit)
     const hasInventorData = inventorTableData.length > 0
 
-    // Empty state component
-    const EmptyState = ({ type }: { type: 'assignee' | 'inventor' }) => (
-        <div className="card border-2 border-dashed border-gray-300 bg-gray-50">
-            <div className="text-center py-12">
-                <span className="text-6xl mb-4 block opacity-50">
-                    {type === 'assignee' ? '🏢' : '👨‍🔬'}
-                </span>
-                <h3 className="text-xl font-semibold text-gray-700 mb-2">
-                    No {type === 'assignee' ? 'Assignee' : 'Inventor'} Data Available
-                </h3>
-                <p className="text-gray-500">
-                    {type === 'assignee'
-                        ? 'No assignee data found in the dataset.'
-                        : 'No inventor data found in the dataset.'}
-                </p>
-            </div>
-        </div>
-    )
-
     return (
         <div className="space-y-6">
             <div className="card">
@@ -149,6 +145,12 @@ export default function EntityAnalysis() {
                         and <strong>inventors</strong> (individuals who created the inventions). The data shows
                         the most active entities in the quantum computing patent landscape.
                     </p>
+                    {(yearRange.from !== null || yearRange.to !== null) && (
+                        <p className="text-blue-700 text-xs mt-2 italic">
+                            The assignee and inventor exports are totals for the whole landscape, so the
+                            selected year range ({describeYearRange(yearRange)}) does not apply here.
+                        </p>
+                    )}
                 </div>
 
                 {/* Tabs */}
@@ -176,6 +178,8 @@ export default function EntityAnalysis() {
                         Inventors (Individuals)
                     </button>
                 </div>
+
+                <LimitControl spec={ENTITY_CHART_LIMIT} value={chartLimit} onChange={setChartLimit} />
             </div>
 
             {/* Assignee Tab Content */}
@@ -200,7 +204,7 @@ export default function EntityAnalysis() {
                             {/* Assignee Bar Chart */}
                             <div className="chart-container">
                                 <h3 className="text-xl font-semibold text-gray-800 mb-4">
-                                    📊 Top {CHART_LIMIT} Assignees - Patent Portfolio
+                                    📊 Top {chartLimit} Assignees - Patent Portfolio
                                 </h3>
                                 <BarChart
                                     data={assigneeChartData}
@@ -208,7 +212,7 @@ export default function EntityAnalysis() {
                                     yField="Patent Count"
                                     title="Top Patent Assignees by Country"
                                     orientation="horizontal"
-                                    limit={CHART_LIMIT}
+                                    limit={chartLimit}
                                 />
                             </div>
                         </div>
@@ -240,7 +244,7 @@ export default function EntityAnalysis() {
                             {/* Inventor Bar Chart */}
                             <div className="chart-container">
                                 <h3 className="text-xl font-semibold text-gray-800 mb-4">
-                                    📊 Top {CHART_LIMIT} Inventors - Patent Portfolio
+                                    📊 Top {chartLimit} Inventors - Patent Portfolio
                                 </h3>
                                 <BarChart
                                     data={inventorChartData}
@@ -248,7 +252,7 @@ export default function EntityAnalysis() {
                                     yField="Patent Count"
                                     title="Top Patent Inventors by Country"
                                     orientation="horizontal"
-                                    limit={CHART_LIMIT}
+                                    limit={chartLimit}
                                 />
                             </div>
                         </div>
@@ -259,4 +263,25 @@ export default function EntityAnalysis() {
             )}
         </div>
     )
-}
\ No newline at end of file
+}
+
+// Shown in place of a tab's table and chart when its export is missing
+function EmptyState({ type }: { type: 'assignee' | 'inventor' }) {
+    return (
+        <div className="card border-2 border-dashed border-gray-300 bg-gray-50">
+            <div className="text-center py-12">
+                <span className="text-6xl mb-4 block opacity-50">
+                    {type === 'assignee' ? '🏢' : '👨‍🔬'}
+                </span>
+                <h3 className="text-xl font-semibold text-gray-700 mb-2">
+                    No {type === 'assignee' ? 'Assignee' : 'Inventor'} Data Available
+                </h3>
+                <p className="text-gray-500">
+                    {type === 'assignee'
+                        ? 'No assignee data found in the dataset.'
+                        : 'No inventor data found in the dataset.'}
+                </p>
+            </div>
+        </div>
+    )
+}
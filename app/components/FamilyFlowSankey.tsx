@@ -0,0 +1,226 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
+import DataTable from './DataTable'
+import LimitControl from './LimitControl'
+import { categoryQuery } from '../lib/categories'
+import { FLOW_LIMITS, defaultLimits, withLimits } from '../lib/limits'
+import type { LimitValues } from '../lib/limits'
+import { territoryName } from '../lib/countries'
+import { OTHER_OFFICES } from '../lib/familyFlows'
+import type { FamilyFlow } from '../lib/familyFlows'
+import { withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
+
+// Constants
+const SANKEY_HEIGHT = 560
+const ORIGIN_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777']
+const OTHER_COLOR = '#9ca3af'
+
+// Interfaces
+interface FlowData {
+    flows: FamilyFlow[]
+    origins: Array<{ office: string, families: number }>
+    families: number
+    originSources: { priorityNumbers: number, earliestPublication: number }
+    skipped: number
+    outOfRange: number
+    unconfirmedOrigins: Array<{ office: string, families: number }>
+}
+
+interface FlowResponse {
+    success: boolean
+    data?: FlowData
+    error?: string
+}
+
+interface FamilyFlowSankeyProps {
+    category: string
+    snapshot: string | null
+    yearRange: YearRange
+}
+
+// Without priority numbers the origin is only where a family was published first, and is labelled so
+function originLabels(data: FlowData | null): { title: string, office: string } {
+    return data && data.originSources.priorityNumbers === 0
+        ? { title: 'Earliest Publication', office: 'Earliest publication office' }
+        : { title: 'Priority', office: 'Priority office' }
+}
+
+function officeLabel(office: string): string {
+    return office === OTHER_OFFICES ? OTHER_OFFICES : `${office} · ${territoryName(office)}`
+}
+
+// Plotly wants rgba for translucent links
+function withAlpha(hex: string, alpha: number): string {
+    const value = parseInt(hex.slice(1), 16)
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`
+}
+
+export default function FamilyFlowSankey({ category, snapshot, yearRange }: FamilyFlowSankeyProps) {
+    const [data, setData] = useState<FlowData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [limits, setLimits] = useState<LimitValues<typeof FLOW_LIMITS>>(defaultLimits(FLOW_LIMITS))
+    // Office whose families are followed; all origins when null
+    const [origin, setOrigin] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchFlows = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+                const query = withLimits(withYearRange(categoryQuery(category, snapshot), yearRange), FLOW_LIMITS, limits)
+                const response = await fetch(`/api/geographic/flows?${query}${origin ? `&origin=${origin}` : ''}`)
+                const result: FlowResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setData(result.data)
+                } else {
+                    setData(null)
+                    setError(result.error || 'Failed to load family flows')
+                }
+            } catch (err) {
+                setError('Failed to fetch family flows')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchFlows()
+    }, [category, snapshot, yearRange, limits, origin])
+
+    const sankeyData = useMemo(() => {
+        if (!data || data.flows.length === 0) return null
+
+        // Origins on the left, destinations on the right; the same office can be both
+        const origins = Array.from(new Set(data.flows.map(flow => flow.origin)))
+        const destinations = Array.from(new Set(data.flows.map(flow => flow.destination)))
+        const colorOf = (office: string) => office === OTHER_OFFICES
+            ? OTHER_COLOR
+            : ORIGIN_COLORS[origins.indexOf(office) % ORIGIN_COLORS.length]
+
+        return {
+            type: 'sankey' as const,
+            arrangement: 'snap' as const,
+            node: {
+                label: [...origins.map(officeLabel), ...destinations.map(officeLabel)],
+                color: [...origins.map(colorOf), ...destinations.map(() => '#6b7280')],
+                pad: 14,
+                thickness: 18,
+                hovertemplate: '%{label}<br>%{value} families<extra></extra>',
+            },
+            link: {
+                source: data.flows.map(flow => origins.indexOf(flow.origin)),
+                target: data.flows.map(flow => origins.length + destinations.indexOf(flow.destination)),
+                value: data.flows.map(flow => flow.families),
+                color: data.flows.map(flow => withAlpha(colorOf(flow.origin), 0.35)),
+                hovertemplate: '%{source.label} → %{target.label}<br>%{value} families<extra></extra>',
+            },
+        }
+    }, [data])
+
+    const tableData = useMemo(() => (data?.flows || []).map(flow => ({
+        [originLabels(data).office]: officeLabel(flow.origin),
+        'Family Office': officeLabel(flow.destination),
+        'Families': flow.families,
+    })), [data])
+
+    const unconfirmed = data?.unconfirmedOrigins || []
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                <h2 className="text-xl font-bold text-gray-800">{originLabels(data).title} → Family Flows</h2>
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">{originLabels(data).office}</span>
+                        <select
+                            value={origin ?? ''}
+                            onChange={e => setOrigin(e.target.value || null)}
+                            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        >
+                            <option value="">All</option>
+                            {(data?.origins || []).map(item => (
+                                <option key={item.office} value={item.office}>
+                                    {officeLabel(item.office)} ({item.families})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {(Object.keys(FLOW_LIMITS) as Array<keyof typeof FLOW_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={FLOW_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => setLimits(prev => ({ ...prev, [key]: value }))}
+                        />
+                    ))}
+                </div>
+            </div>
+            <p className="text-gray-600 mb-6 text-sm italic">
+                Each family is counted once, linking its origin to every office it is published in, so a family runs to
+                several destinations. The origin is the office of first filing when the export has priority numbers;
+                without them it is only the family&apos;s earliest national publication office, or the receiving office
+                for families published only under the PCT, which can differ from where it was first filed
+                {data ? ` (${data.originSources.earliestPublication} of ${data.families} families)` : ''}.
+            </p>
+
+            {unconfirmed.length > 0 && (
+                <div className="border-l-4 border-yellow-500 bg-yellow-50 p-4 mb-4">
+                    <p className="text-yellow-800 text-sm">
+                        The priority country export lists no first filings at{' '}
+                        {unconfirmed.map(item => `${officeLabel(item.office)} (${item.families} families)`).join(', ')},
+                        so those families were first filed elsewhere and published at these offices first.
+                    </p>
+                </div>
+            )}
+
+            {error && (
+                <div className="border-l-4 border-red-500 bg-red-50 p-4 mb-4">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+                </div>
+            ) : sankeyData && (
+                <>
+                    <div className="w-full" style={{ height: `${SANKEY_HEIGHT}px` }}>
+                        <Plot
+                            data={[sankeyData]}
+                            layout={{
+                                height: SANKEY_HEIGHT,
+                                margin: { l: 10, t: 10, r: 10, b: 10 },
+                                font: { size: 12 },
+                                paper_bgcolor: '#ffffff',
+                            }}
+                            config={{ responsive: true, displaylogo: false }}
+                            style={{ width: '100%', height: '100%' }}
+                        />
+                    </div>
+                    <div className="mt-6">
+                        <DataTable data={tableData} title={`${originLabels(data).title} to Family Flows`} filename="family_flows.xlsx" maxRows={15} />
+                    </div>
+                </>
+            )}
+        </>
+    )
+}
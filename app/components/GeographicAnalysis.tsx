@@ -3,6 +3,16 @@
 import React, { useEffect, useState } from 'react'
 import dynamic from 'next/dynamic'
 import DataTable from './DataTable'
+import { categoryQuery } from '../lib/categories'
+import { describeYearRange, withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+import { COUNTRY_CHART_LIMIT } from '../lib/limits'
+import LimitControl from './LimitControl'
+import type { UnknownCode } from '../lib/countries'
+import { DEFAULT_REGION } from '../lib/regions'
+import type { RegionTotal } from '../lib/regions'
+import { REGIONAL_MODES, REGIONAL_MODE_LABELS } from '../lib/regionalFilings'
+import type { RegionalMode, RegionalOverlay } from '../lib/regionalFilings'
 
 const GeographicChart = dynamic(
   () => import('./GeographicChart'),
@@ -12,6 +22,14 @@ const BarChart = dynamic(
   () => import('./BarChart'),
   { ssr: false }
 )
+const FamilyFlowSankey = dynamic(
+  () => import('./FamilyFlowSankey'),
+  { ssr: false }
+)
+const RegionEditor = dynamic(
+  () => import('./RegionEditor'),
+  { ssr: false }
+)
 
 interface CountryData {
   country: string
@@ -38,25 +56,59 @@ interface SpecialRegionData {
 interface GeographicData {
   familyData: Dataset
   priorityData: Dataset
+  publicationData: Dataset
   familySpecialRegions: SpecialRegionData[]
   prioritySpecialRegions: SpecialRegionData[]
+  publicationSpecialRegions: SpecialRegionData[]
+  familyUnknownCodes: UnknownCode[]
+  priorityUnknownCodes: UnknownCode[]
+  publicationUnknownCodes: UnknownCode[]
+  familyRegions: RegionTotal[]
+  priorityRegions: RegionTotal[]
+  publicationRegions: RegionTotal[]
+  regionalMode: RegionalMode
+  familyOverlays: RegionalOverlay[]
+  priorityOverlays: RegionalOverlay[]
+  publicationOverlays: RegionalOverlay[]
+  familyDesignations: { office: string; column: string; families: number; states: number } | null
   // Legacy
   countries: CountryData[]
   worldMap: WorldMapData[]
-  filingTrends: any[]
+  filingTrends: Record<string, string>[]
+}
+
+type GeographicTab = 'family' | 'priority' | 'publication'
+
+// Wording per tab: the tab itself, the filings it counts, the short form for chart titles and what the bar chart ranks by
+const TAB_LABELS: Record<GeographicTab, { tab: string; filings: string; short: string; ranking: string }> = {
+  family: { tab: 'Patent Families', filings: 'Patent Family', short: 'Families', ranking: 'Family Size' },
+  priority: { tab: 'Priority Country', filings: 'Priority Country', short: 'Priority', ranking: 'Priority Filings' },
+  publication: { tab: 'Publication Country', filings: 'Publication Country', short: 'Publications', ranking: 'Publications' },
 }
 
-export default function GeographicAnalysis() {
+interface GeographicAnalysisProps {
+  category: string
+  snapshot: string | null
+  yearRange: YearRange
+}
+
+export default function GeographicAnalysis({ category, snapshot, yearRange }: GeographicAnalysisProps) {
   const [geoData, setGeoData] = useState<GeographicData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'family' | 'priority'>('family')
+  const [activeTab, setActiveTab] = useState<GeographicTab>('family')
+  const [countryLimit, setCountryLimit] = useState(COUNTRY_CHART_LIMIT.defaultValue)
+  const [regionId, setRegionId] = useState(DEFAULT_REGION)
+  // Bumped after a custom region is saved, to refetch the groupings
+  const [regionsVersion, setRegionsVersion] = useState(0)
+  const [regionalMode, setRegionalMode] = useState<RegionalMode>('separate')
 
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true)
-        const response = await fetch('/api/geographic')
+        const query = withYearRange(categoryQuery(category, snapshot), yearRange)
+        const response = await fetch(`/api/geographic?${query}${regionalMode !== 'separate' ? `&regional=${regionalMode}` : ''}`)
         const result = await response.json()
 
         if (result.success) {
@@ -73,9 +125,10 @@ export default function GeographicAnalysis() {
     }
 
     fetchData()
-  }, [])
+  }, [category, snapshot, yearRange, regionsVersion, regionalMode])
 
-  if (loading) {
+  // Keep the page up while refetching after a region edit or mode change
+  if (loading && !geoData) {
     return (
       <div className="flex items-center justify-center h-96">
         <div className="text-center">
@@ -95,8 +148,22 @@ export default function GeographicAnalysis() {
     )
   }
 
-  const currentData = activeTab === 'family' ? geoData.familyData : geoData.priorityData
-  const currentSpecialRegions = activeTab === 'family' ? geoData.familySpecialRegions : geoData.prioritySpecialRegions
+  const labels = TAB_LABELS[activeTab]
+  const currentData = { family: geoData.familyData, priority: geoData.priorityData, publication: geoData.publicationData }[activeTab]
+  const currentSpecialRegions = {
+    family: geoData.familySpecialRegions,
+    priority: geoData.prioritySpecialRegions,
+    publication: geoData.publicationSpecialRegions
+  }[activeTab]
+  const currentUnknownCodes = {
+    family: geoData.familyUnknownCodes,
+    priority: geoData.priorityUnknownCodes,
+    publication: geoData.publicationUnknownCodes
+  }[activeTab]
+  const currentOverlays = { family: geoData.familyOverlays, priority: geoData.priorityOverlays, publication: geoData.publicationOverlays }[activeTab]
+  const designations = activeTab === 'family' ? geoData.familyDesignations : null
+  // The publication country export is optional
+  const tabs: GeographicTab[] = geoData.publicationData.list.length > 0 ? ['family', 'priority', 'publication'] : ['family', 'priority']
 
   // Transform map data
   const mapData = currentData.map.map(item => ({
@@ -106,35 +173,36 @@ export default function GeographicAnalysis() {
     total: item.total
   }))
 
-  // Filter for Nordic Map
-  const nordicCodes = ['FIN', 'SWE', 'NOR', 'DNK', 'ISL', 'FI', 'SE', 'NO', 'DK', 'IS']
-  const nordicMapData = mapData.filter(item => nordicCodes.includes(item.iso3) || nordicCodes.includes(item.countryCode))
-
   // Prepare table data
   const countryTableData = currentData.list.map(item => ({
     'Country': item.country,
     'Patents': item.total
   }))
 
-  // Prepare Nordic Table Data (including 0 counts)
-  const nordicList = [
-    { name: 'Finland', codes: ['FI', 'FIN'] },
-    { name: 'Sweden', codes: ['SE', 'SWE'] },
-    { name: 'Norway', codes: ['NO', 'NOR'] },
-    { name: 'Denmark', codes: ['DK', 'DNK'] },
-    { name: 'Iceland', codes: ['IS', 'ISL'] },
-  ]
-
-  const nordicTableData = nordicList.map(n => {
-    const found = currentData.list.find(c =>
-      c.country === n.name ||
-      currentData.map.find(m => m.country === c.country && n.codes.includes(m.code))
-    )
-    return {
-      'Country': n.name,
-      'Patents': found ? found.total : 0
-    }
-  }).sort((a, b) => b.Patents - a.Patents)
+  // Selected region; falls back to the first when a custom region was removed
+  const currentRegions = { family: geoData.familyRegions, priority: geoData.priorityRegions, publication: geoData.publicationRegions }[activeTab]
+  const region = currentRegions.find(r => r.id === regionId) ?? currentRegions[0]
+
+  const regionTotalsData = currentRegions.map(r => ({
+    'Region': r.label,
+    'Countries': r.members.length,
+    'Patents': r.total
+  }))
+
+  const regionMapData = region.countries
+    .filter(c => c.total > 0)
+    .map(c => ({
+      countryCode: c.code,
+      countryName: c.name,
+      iso3: c.iso3,
+      total: c.total
+    }))
+
+  // All members, including 0 counts
+  const regionTableData = region.countries.map(c => ({
+    'Country': c.name,
+    'Patents': c.total
+  }))
 
   return (
     <div className="space-y-6 fade-in">
@@ -152,6 +220,11 @@ export default function GeographicAnalysis() {
           <p className="text-blue-800 text-sm">
             This patent landscape analysis is designed to provide insights and examples of analytical approaches specifically for Class G06N10 (quantum computing technologies). This is just a draft before final analysis.
           </p>
+          {(yearRange.from !== null || yearRange.to !== null) && (
+            <p className="text-blue-700 text-xs mt-2 italic">
+              Country totals have no year dimension; only the filing trends and family flows follow the selected years ({describeYearRange(yearRange)}).
+            </p>
+          )}
         </div>
 
         <div className="mb-8">
@@ -164,6 +237,11 @@ export default function GeographicAnalysis() {
             <p className="text-gray-700 mb-4 text-sm leading-relaxed">
               That is why some countries have many priority filings but fewer family filings - most applications start in the priority country, but they are not filed again in that same country when the applicant expands internationally.
             </p>
+            {geoData.publicationData.list.length > 0 && (
+              <p className="text-gray-700 mb-4 text-sm leading-relaxed">
+                The publication country table counts the documents in the result set by the office that published them, rather than every office their families reach, so it sits between the two: it shows where publication activity happens, as opposed to where inventions are first filed.
+              </p>
+            )}
             <div className="bg-white p-4 rounded border border-gray-200">
               <p className="text-gray-800 text-sm">
                 <strong>Example:</strong> Finland (FI) has many priority filings because many inventions originate there, but FI appears less often in the family table since an invention that starts in FI is usually filed later in EP, US, or WO, and not again in FI. As a result, FI ranks high in the Priority Countries tab but low in the family table.
@@ -174,24 +252,18 @@ export default function GeographicAnalysis() {
 
         {/* Tab Navigation */}
         <div className="flex gap-2 border-b border-gray-200 mb-8">
-          <button
-            onClick={() => setActiveTab('family')}
-            className={`px-6 py-3 font-bold text-sm transition-all rounded-t-lg ${activeTab === 'family'
-              ? 'bg-blue-600 text-white shadow-md'
-              : 'bg-gray-100 text-gray-600 hover:bg-gray-200 hover:text-gray-800'
-              }`}
-          >
-            Patent Families
-          </button>
-          <button
-            onClick={() => setActiveTab('priority')}
-            className={`px-6 py-3 font-bold text-sm transition-all rounded-t-lg ${activeTab === 'priority'
-              ? 'bg-blue-600 text-white shadow-md'
-              : 'bg-gray-100 text-gray-600 hover:bg-gray-200 hover:text-gray-800'
-              }`}
-          >
-            Priority Country
-          </button>
+          {tabs.map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-6 py-3 font-bold text-sm transition-all rounded-t-lg ${activeTab === tab
+                ? 'bg-blue-600 text-white shadow-md'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200 hover:text-gray-800'
+                }`}
+            >
+              {TAB_LABELS[tab].tab}
+            </button>
+          ))}
         </div>
 
         {/* Tab Content */}
@@ -200,11 +272,11 @@ export default function GeographicAnalysis() {
           {/* 1. Data Table (Top) */}
           <div>
             <h2 className="text-xl font-bold text-gray-800 mb-4">
-              {activeTab === 'family' ? 'Patent Families Analysis' : 'Priority Country Analysis'}
+              {labels.tab} Analysis
             </h2>
             <DataTable
               data={countryTableData}
-              title={`${activeTab === 'family' ? 'Patent Family' : 'Priority Country'} Filings by Country`}
+              title={`${labels.filings} Filings by Country`}
               filename={`${activeTab}_country_data.xlsx`}
               maxRows={15}
             />
@@ -212,9 +284,39 @@ export default function GeographicAnalysis() {
 
           {/* 2. World Map with Special Regions Legend */}
           <div>
-            <h2 className="text-xl font-bold text-gray-800 mb-4">
-              Global Distribution
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold text-gray-800">
+                Global Distribution
+              </h2>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <span className="font-medium">Regional filings</span>
+                <select
+                  value={regionalMode}
+                  onChange={e => setRegionalMode(e.target.value as RegionalMode)}
+                  className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                >
+                  {REGIONAL_MODES.map(mode => (
+                    <option key={mode} value={mode}>{REGIONAL_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {regionalMode === 'designated' && geoData.regionalMode !== 'designated' && (
+              <div className="mb-6 bg-yellow-50 border border-yellow-300 rounded-lg p-4">
+                <p className="text-sm text-yellow-800">
+                  ⚠️ The result table has no designated or validated states column, so EP filings are shown as an
+                  overlay on the EPO member states instead.
+                </p>
+              </div>
+            )}
+
+            {designations && (
+              <p className="text-gray-600 mb-4 text-sm italic">
+                {designations.families} {designations.office} families allocated to {designations.states} designated
+                states from &quot;{designations.column}&quot;; a family counts once in every state it designates.
+              </p>
+            )}
 
             {/* Special Regions Legend */}
             {currentSpecialRegions && currentSpecialRegions.length > 0 && (
@@ -254,28 +356,48 @@ export default function GeographicAnalysis() {
 
                 <div className="mt-4 pt-4 border-t border-purple-200">
                   <p className="text-xs text-purple-600">
-                    💡 <strong>Note:</strong> These filings are not included in the country-specific map below, as they represent regional or international patent applications rather than national filings.
+                    💡 <strong>Note:</strong> {currentOverlays.length > 0
+                      ? 'Regional offices are shaded over their member states on the map below, without being added to the country totals. PCT (WO) filings cover no state until they enter the national phase, so they stay off the map.'
+                      : 'These filings are not included in the country-specific map below, as they represent regional or international patent applications rather than national filings.'}
                   </p>
                 </div>
               </div>
             )}
 
+            {currentUnknownCodes.length > 0 && (
+              <div className="mb-6 bg-yellow-50 border border-yellow-300 rounded-lg p-4">
+                <p className="text-sm text-yellow-800">
+                  ⚠️ <strong>Data quality:</strong> {currentUnknownCodes.length} code(s) in the export are neither an
+                  ISO 3166 country nor a known patent office, so they are listed in the table but not shown on the map:{' '}
+                  {currentUnknownCodes.map(({ code, records }) => `${code} (${records.toLocaleString()})`).join(', ')}
+                </p>
+              </div>
+            )}
+
             <div className="chart-container">
               <GeographicChart
                 key={`global-${activeTab}`}
                 data={mapData}
-                title={`Global Patent Filings (${activeTab === 'family' ? 'Families' : 'Priority'})`}
+                title={`Global Patent Filings (${labels.short})`}
                 colorscale="OrRd"
                 scope="world"
+                overlays={currentOverlays.map(overlay => ({
+                  label: `${overlay.office} · ${overlay.name}`,
+                  locations: overlay.members,
+                  total: overlay.total
+                }))}
               />
             </div>
           </div>
 
           {/* 3. Horizontal Bar Chart */}
           <div>
-            <h2 className="text-xl font-bold text-gray-800 mb-4">
-              {activeTab === 'family' ? 'Patent Family' : 'Priority Country'} Filings by Country
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold text-gray-800">
+                {labels.filings} Filings by Country
+              </h2>
+              <LimitControl spec={COUNTRY_CHART_LIMIT} value={countryLimit} onChange={setCountryLimit} />
+            </div>
             <div className="chart-container">
               <BarChart
                 data={currentData.list.map(item => ({
@@ -284,62 +406,104 @@ export default function GeographicAnalysis() {
                 }))}
                 xField="Country"
                 yField="Count"
-                title={`Top Countries by ${activeTab === 'family' ? 'Family Size' : 'Priority Filings'}`}
+                title={`Top Countries by ${labels.ranking}`}
                 orientation="horizontal"
-                limit={15}
+                limit={countryLimit}
               />
             </div>
           </div>
 
-          {/* 4. Nordic Data Section */}
+          {/* 4. Regional Breakdown */}
           <div className="space-y-12">
-            <h2 className="text-xl font-bold text-gray-800 mb-4">
-              Nordic Data – {activeTab === 'family' ? 'Patent Family' : 'Priority Country'} Filings
-            </h2>
+            <div>
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h2 className="text-xl font-bold text-gray-800">
+                  Regional Breakdown – {labels.filings} Filings
+                </h2>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <span className="font-medium">Region</span>
+                  <select
+                    value={region.id}
+                    onChange={e => setRegionId(e.target.value)}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    {currentRegions.map(r => (
+                      <option key={r.id} value={r.id}>
+                        {r.label}{r.custom ? ' (custom)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <p className="text-gray-600 mb-4 text-sm italic">
+                A country counts towards every region it belongs to, so overlapping regions such as EU27 and the
+                EPO member states should not be added together. Filings at the EPO or under the PCT are not
+                assigned to any region.
+              </p>
+              <DataTable
+                data={regionTotalsData}
+                title="Region Totals"
+                filename={`${activeTab}_region_totals.xlsx`}
+                maxRows={10}
+              />
+            </div>
 
-            {/* Nordic Map */}
+            {/* Region Map */}
             <div>
-              <h3 className="text-lg font-semibold text-gray-800 mb-4">Nordic Region Map</h3>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">{region.label} Map</h3>
               <div className="chart-container">
                 <GeographicChart
-                  key={`nordic-${activeTab}`}
-                  data={nordicMapData}
-                  title={`Nordic Distribution (${activeTab === 'family' ? 'Families' : 'Priority'})`}
+                  key={`region-${region.id}-${activeTab}`}
+                  data={regionMapData}
+                  title={`${region.label} Distribution (${labels.short})`}
                   colorscale="Blues"
-                  scope="europe"
+                  scope={region.scope}
                 />
               </div>
             </div>
 
-            {/* Nordic Table */}
+            {/* Region Table */}
             <div>
               <DataTable
-                data={nordicTableData}
-                title="Nordic Countries Data"
-                filename={`${activeTab}_nordic_data.xlsx`}
+                data={regionTableData}
+                title={`${region.label} Countries Data`}
+                filename={`${activeTab}_${region.id.replace(/[^a-z0-9]+/gi, '_')}_data.xlsx`}
                 maxRows={10}
               />
             </div>
 
-            {/* Nordic Bar Chart */}
+            {/* Region Bar Chart */}
             <div className="chart-container">
               <BarChart
-                data={nordicTableData.map(item => ({
+                data={regionTableData.map(item => ({
                   Country: item.Country,
                   Count: item.Patents
                 }))}
                 xField="Country"
                 yField="Count"
-                title="Nordic Countries Comparison"
+                title={`${region.label} Countries Comparison`}
                 orientation="horizontal"
-                limit={10}
+                limit={countryLimit}
               />
             </div>
+
+            <RegionEditor
+              regions={currentRegions.filter(r => r.custom)}
+              onSaved={id => {
+                if (id) setRegionId(id)
+                setRegionsVersion(v => v + 1)
+              }}
+            />
           </div>
 
         </div>
 
       </div>
+
+      {/* Priority to family flows, linked per family from the record-level export */}
+      <div className="card">
+        <FamilyFlowSankey category={category} snapshot={snapshot} yearRange={yearRange} />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -13,11 +13,20 @@ interface CountryData {
   total: number
 }
 
+// Filings at a regional office, shaded over its member states
+interface MapOverlay {
+  label: string
+  // ISO-3 codes of the member states
+  locations: string[]
+  total: number
+}
+
 interface GeographicChartProps {
   data: CountryData[]
   title: string
   colorscale?: 'OrRd' | 'Purples' | 'Blues' | 'Viridis'
   scope?: 'world' | 'europe'
+  overlays?: MapOverlay[]
 }
 
 interface GeoLayout {
@@ -43,14 +52,19 @@ const COLORSCALES: { [key: string]: string } = {
   Viridis: 'Viridis',
 }
 
+const OVERLAY_COLORS = ['124, 58, 237', '8, 145, 178', '202, 138, 4', '219, 39, 119']
+// Stable default, as the overlays are an effect dependency
+const NO_OVERLAYS: MapOverlay[] = []
+
 const GeographicChartComponent = memo(function GeographicChart({
   data,
   title,
   colorscale = 'OrRd',
   scope = 'world',
+  overlays = NO_OVERLAYS,
 }: GeographicChartProps) {
   const [plotData, setPlotData] = useState<Data[]>([])
-  const [layout, setLayout] = useState<GeoLayout | {}>({})
+  const [layout, setLayout] = useState<Partial<GeoLayout>>({})
   const [error, setError] = useState<string | null>(null)
 
   const processedGeoData = useMemo(() => {
@@ -119,7 +133,23 @@ const GeographicChartComponent = memo(function GeographicChart({
         responsive: true,
       }
 
-      setPlotData([choroplethData as Data])
+      // One flat translucent layer per office, so the national shading still shows through
+      const overlayData = overlays.map((overlay, i) => {
+        const rgb = OVERLAY_COLORS[i % OVERLAY_COLORS.length]
+        return {
+          type: 'choropleth',
+          locationmode: 'ISO-3',
+          locations: overlay.locations,
+          z: overlay.locations.map(() => 1),
+          colorscale: [[0, `rgba(${rgb}, 0.3)`], [1, `rgba(${rgb}, 0.3)`]],
+          showscale: false,
+          marker: { line: { color: `rgb(${rgb})`, width: 1 } },
+          name: overlay.label,
+          hovertemplate: `${overlay.label}<br>Filings: ${overlay.total}<extra></extra>`,
+        } as Partial<Data>
+      })
+
+      setPlotData([choroplethData as Data, ...(overlayData as Data[])])
       setLayout(mapLayout)
       setError(null)
     } catch (err) {
@@ -128,7 +158,7 @@ const GeographicChartComponent = memo(function GeographicChart({
       )
       setPlotData([])
     }
-  }, [processedGeoData, title, colorscale, scope])
+  }, [processedGeoData, title, colorscale, scope, overlays])
 
   if (error) {
     return (
@@ -170,7 +200,7 @@ const GeographicChartComponent = memo(function GeographicChart({
         }}
         style={{
           width: '100%',
-          height: `${(layout as any)?.height || 500}px`,
+          height: `${layout.height || 500}px`,
         }}
       />
     </div>
@@ -0,0 +1,250 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { categoryQuery } from '../lib/categories'
+
+// Interfaces
+type MergeReason = 'transliteration' | 'initials' | 'spelling'
+
+interface InventorMergeCandidate {
+    canonical: string
+    variant: string
+    reason: MergeReason
+    score: number
+    canonicalCountries: string[]
+    variantCountries: string[]
+}
+
+interface InventorReviewData {
+    aliases: Record<string, string[]>
+    candidates: InventorMergeCandidate[]
+    rawNames: number
+    resolvedInventors: number
+}
+
+interface InventorsResponse {
+    success: boolean
+    data?: InventorReviewData
+    error?: string
+}
+
+interface InventorReviewProps {
+    category: string
+}
+
+const REASON_LABELS: Record<MergeReason, string> = {
+    transliteration: 'Umlaut spelling',
+    initials: 'Initials / middle name',
+    spelling: 'Similar spelling',
+}
+
+export default function InventorReview({ category }: InventorReviewProps) {
+    const [reviewData, setReviewData] = useState<InventorReviewData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+    // Bumped after each save so the candidates are fetched again
+    const [reloads, setReloads] = useState(0)
+
+    useEffect(() => {
+        const fetchCandidates = async () => {
+            try {
+                setLoading(true)
+                const response = await fetch(`/api/inventors?${categoryQuery(category)}`)
+                const result: InventorsResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setReviewData(result.data)
+                    setError(null)
+                } else {
+                    setError(result.error || 'Failed to load inventor names')
+                }
+            } catch (err) {
+                setError('Failed to fetch inventor names')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchCandidates()
+    }, [category, reloads])
+
+    const saveMerge = async (canonical: string, variants: string[]) => {
+        try {
+            setSaving(true)
+            const response = await fetch('/api/inventors', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ canonical, variants }),
+            })
+            const result: InventorsResponse = await response.json()
+            if (!result.success) {
+                setError(result.error || 'Failed to save merge')
+                return
+            }
+            setReloads(n => n + 1)
+        } catch (err) {
+            setError('Failed to save merge')
+            console.error('Save error:', err)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const acceptCandidate = (candidate: InventorMergeCandidate) => {
+        const existing = reviewData?.aliases[candidate.canonical] || []
+        saveMerge(candidate.canonical, [...existing, candidate.variant])
+    }
+
+    const undoMerge = (canonical: string, variant: string) => {
+        const existing = reviewData?.aliases[canonical] || []
+        saveMerge(canonical, existing.filter(v => v !== variant))
+    }
+
+    if (loading && !reviewData) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-center">
+                    <div className="inline-block animate-spin rounded-full h-16 w-16 border-4 border-blue-200 border-t-blue-600 mb-4"></div>
+                    <p className="text-gray-600 font-medium">Loading inventor names...</p>
+                </div>
+            </div>
+        )
+    }
+
+    if (!reviewData) {
+        return (
+            <div className="card border-l-4 border-red-500 bg-red-50">
+                <h3 className="text-xl font-bold text-red-700 mb-2">⚠️ Error Loading Data</h3>
+                <p className="text-red-600">{error || 'No data available'}</p>
+            </div>
+        )
+    }
+
+    const mergeEntries = Object.entries(reviewData.aliases).sort(([a], [b]) => a.localeCompare(b))
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">👨‍🔬</span>
+                    Inventor Review
+                </h1>
+
+                <div className="info-box bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                    <p className="text-blue-900 font-medium mb-2">
+                        Disambiguating inventors:
+                    </p>
+                    <p className="text-blue-800 text-sm">
+                        Spellings that differ only in accents, punctuation or word order (LÄHTEENMÄKI /
+                        LAHTEENMAKI) are merged automatically. Umlaut transliterations, initials and near
+                        spellings could also be different people, so they are listed here for review;
+                        confirmed merges apply to the entity analysis in every category.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                    <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                        <p className="text-sm text-blue-600 font-medium uppercase">Distinct Spellings</p>
+                        <p className="text-2xl font-bold text-blue-900">{reviewData.rawNames.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-green-50 rounded-lg p-4 border border-green-100">
+                        <p className="text-sm text-green-600 font-medium uppercase">Inventors After Merging</p>
+                        <p className="text-2xl font-bold text-green-900">{reviewData.resolvedInventors.toLocaleString()}</p>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {/* Candidates */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Merge Candidates</h2>
+                <p className="text-gray-600 mb-4 text-sm italic">
+                    Compare the countries before merging: the same name in unrelated countries is often two people.
+                </p>
+
+                {reviewData.candidates.length === 0 ? (
+                    <p className="text-sm text-gray-600">No merge candidates found.</p>
+                ) : (
+                    <div className="overflow-x-auto rounded-lg border border-gray-200">
+                        <table className="w-full text-sm border-collapse">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Keep</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Merge In</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Similarity</th>
+                                    <th className="px-4 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {reviewData.candidates.map(c => (
+                                    <tr key={`${c.canonical}|${c.variant}`} className="border-t border-gray-100">
+                                        <td className="px-4 py-2">
+                                            <p className="font-medium text-gray-900">{c.canonical}</p>
+                                            <p className="text-xs text-gray-500">{c.canonicalCountries.join(', ') || 'No country'}</p>
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <p className="text-gray-700">{c.variant}</p>
+                                            <p className="text-xs text-gray-500">{c.variantCountries.join(', ') || 'No country'}</p>
+                                        </td>
+                                        <td className="px-4 py-2 text-gray-700">{REASON_LABELS[c.reason]}</td>
+                                        <td className="px-4 py-2 text-gray-700">{(c.score * 100).toFixed(0)}%</td>
+                                        <td className="px-4 py-2 text-right">
+                                            <button
+                                                onClick={() => acceptCandidate(c)}
+                                                disabled={saving}
+                                                className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-medium disabled:opacity-50"
+                                            >
+                                                Merge
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Confirmed Merges */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-4">Confirmed Merges</h2>
+
+                {mergeEntries.length === 0 ? (
+                    <p className="text-sm text-gray-600">No merges confirmed yet.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {mergeEntries.map(([name, variants]) => (
+                            <div key={name} className="rounded-lg border border-gray-200 p-4">
+                                <p className="font-semibold text-gray-900 mb-2">{name}</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {variants.map(variant => (
+                                        <span key={variant} className="inline-flex items-center gap-2 rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700">
+                                            {variant}
+                                            <button
+                                                onClick={() => undoMerge(name, variant)}
+                                                disabled={saving}
+                                                className="text-gray-400 hover:text-red-600"
+                                                aria-label={`Undo merge of ${variant}`}
+                                            >
+                                                ×
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import React, { useState } from 'react'
+import { clampLimit } from '../lib/limits'
+import type { LimitSpec } from '../lib/limits'
+
+interface LimitControlProps {
+    spec: LimitSpec
+    value: number
+    onChange: (value: number) => void
+}
+
+// Number input that only commits on blur or Enter, so typing "25" is one refetch, not two
+export default function LimitControl({ spec, value, onChange }: LimitControlProps) {
+    const [draft, setDraft] = useState(String(value))
+    // A new value from the parent replaces whatever is being typed
+    const [followed, setFollowed] = useState(value)
+    if (followed !== value) {
+        setFollowed(value)
+        setDraft(String(value))
+    }
+
+    const commit = () => {
+        const next = clampLimit(Number(draft), spec)
+        setDraft(String(next))
+        if (next !== value) onChange(next)
+    }
+
+    return (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+            <span className="font-medium">{spec.label}</span>
+            <input
+                type="number"
+                min={spec.min}
+                max={spec.max}
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => { if (e.key === 'Enter') commit() }}
+                className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                aria-label={`${spec.label} (${spec.min}-${spec.max})`}
+            />
+        </label>
+    )
+}
@@ -0,0 +1,355 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
+import type { Datum } from 'plotly.js'
+import DataTable from './DataTable'
+import LimitControl from './LimitControl'
+import { categoryQuery } from '../lib/categories'
+import { MATRIX_COLUMN_LIMIT } from '../lib/limits'
+import {
+    CLASSIFICATION_LEVELS,
+    CLASSIFICATION_LEVEL_LABELS,
+    DEFAULT_CLASSIFICATION_LEVEL,
+    withClassificationLevel,
+} from '../lib/classification'
+import type { ClassificationLevel } from '../lib/classification'
+import { buildDendrogram, dendrogramOrder } from '../lib/similarity'
+import type { SparseVector } from '../lib/similarity'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
+
+// Constants
+const HEATMAP_MIN_HEIGHT = 360
+const HEATMAP_ROW_HEIGHT = 18
+const OWNER_LABEL_LENGTH = 30
+const TABLE_MAX_ROWS = 25
+
+type Scheme = 'ipc' | 'cpc'
+type RowOrder = 'total' | 'name' | 'cluster'
+type ColumnOrder = 'total' | 'niche' | 'code'
+
+const ROW_ORDER_LABELS: Record<RowOrder, string> = {
+    total: 'Largest owners first',
+    name: 'Owner name',
+    cluster: 'Cluster similar owners',
+}
+
+const COLUMN_ORDER_LABELS: Record<ColumnOrder, string> = {
+    total: 'Largest codes first',
+    niche: 'Fewest owners first',
+    code: 'Code',
+}
+
+// Interfaces
+interface MatrixOwner {
+    owner: string
+    total: number
+}
+
+interface MatrixCode {
+    code: string
+    total: number
+    owners: number
+    description: string
+}
+
+interface OwnerCodeMatrixData {
+    owners: MatrixOwner[]
+    codes: MatrixCode[]
+    cells: Array<[number, number, number]>
+}
+
+interface MatrixResponse {
+    success: boolean
+    data?: OwnerCodeMatrixData
+    error?: string
+}
+
+interface MatrixExplorerProps {
+    category: string
+    snapshot: string | null
+}
+
+function truncateOwnerName(name: string): string {
+    return name.length > OWNER_LABEL_LENGTH ? `${name.slice(0, OWNER_LABEL_LENGTH - 1)}…` : name
+}
+
+export default function MatrixExplorer({ category, snapshot }: MatrixExplorerProps) {
+    const [matrix, setMatrix] = useState<OwnerCodeMatrixData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [scheme, setScheme] = useState<Scheme>('cpc')
+    const [level, setLevel] = useState<ClassificationLevel>(DEFAULT_CLASSIFICATION_LEVEL)
+    // Sent to the route on Enter or blur; the searches below filter locally as you type
+    const [prefixDraft, setPrefixDraft] = useState('')
+    const [prefix, setPrefix] = useState('')
+    const [ownerSearch, setOwnerSearch] = useState('')
+    const [codeSearch, setCodeSearch] = useState('')
+    const [rowOrder, setRowOrder] = useState<RowOrder>('total')
+    const [columnOrder, setColumnOrder] = useState<ColumnOrder>('total')
+    const [columnLimit, setColumnLimit] = useState(MATRIX_COLUMN_LIMIT.defaultValue)
+
+    useEffect(() => {
+        const fetchMatrix = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+                const params = new URLSearchParams({ scheme })
+                if (prefix) params.set('prefix', prefix)
+                const query = withClassificationLevel(`${categoryQuery(category, snapshot)}&${params}`, level, null)
+                const response = await fetch(`/api/classification/matrix?${query}`)
+                const result: MatrixResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setMatrix(result.data)
+                } else {
+                    setMatrix(null)
+                    setError(result.error || 'Failed to load classification matrix')
+                }
+            } catch (err) {
+                setError('Failed to fetch classification matrix')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchMatrix()
+    }, [category, snapshot, scheme, level, prefix])
+
+    // Owners and codes left after the searches, with each owner's counts as a sparse vector
+    const filtered = useMemo(() => {
+        if (!matrix) return null
+
+        const ownerQuery = ownerSearch.trim().toLowerCase()
+        const codeQuery = codeSearch.trim().toLowerCase()
+        const codeMatches = matrix.codes.map(c => !codeQuery ||
+            c.code.toLowerCase().includes(codeQuery) ||
+            c.description.toLowerCase().includes(codeQuery))
+
+        const vectors = new Map<number, SparseVector>()
+        for (const [ownerIndex, codeIndex, count] of matrix.cells) {
+            if (!codeMatches[codeIndex]) continue
+            if (ownerQuery && !matrix.owners[ownerIndex].owner.toLowerCase().includes(ownerQuery)) continue
+            const vector = vectors.get(ownerIndex) ?? {}
+            vector[matrix.codes[codeIndex].code] = count
+            vectors.set(ownerIndex, vector)
+        }
+
+        // Only codes that still have a record among the remaining owners
+        const usedCodes = new Set<string>()
+        vectors.forEach(vector => Object.keys(vector).forEach(code => usedCodes.add(code)))
+
+        return {
+            owners: Array.from(vectors.keys()).map(i => ({ ...matrix.owners[i], vector: vectors.get(i)! })),
+            codes: matrix.codes.filter(c => usedCodes.has(c.code)),
+        }
+    }, [matrix, ownerSearch, codeSearch])
+
+    const orderedOwners = useMemo(() => {
+        if (!filtered) return []
+        const owners = [...filtered.owners]
+        if (rowOrder === 'name') return owners.sort((a, b) => a.owner.localeCompare(b.owner))
+        if (rowOrder === 'cluster') {
+            const order = dendrogramOrder(buildDendrogram(owners.map(o => o.vector)), owners.length)
+            return order.map(i => owners[i])
+        }
+        return owners.sort((a, b) => b.total - a.total)
+    }, [filtered, rowOrder])
+
+    const orderedCodes = useMemo(() => {
+        if (!filtered) return []
+        const codes = [...filtered.codes]
+        if (columnOrder === 'code') codes.sort((a, b) => a.code.localeCompare(b.code))
+        else if (columnOrder === 'niche') codes.sort((a, b) => a.owners - b.owners || b.total - a.total)
+        else codes.sort((a, b) => b.total - a.total)
+        return codes
+    }, [filtered, columnOrder])
+
+    const shownCodes = orderedCodes.slice(0, columnLimit)
+
+    const heatmapData = useMemo(() => {
+        if (orderedOwners.length === 0 || shownCodes.length === 0) return null
+
+        return {
+            type: 'heatmap' as const,
+            x: shownCodes.map(c => c.code),
+            y: orderedOwners.map(o => truncateOwnerName(o.owner)),
+            // Empty cells stay blank rather than drawn as zero
+            z: orderedOwners.map(o => shownCodes.map(c => o.vector[c.code] ?? null)),
+            // Three hover values per cell; the plotly typings allow only one
+            customdata: orderedOwners.map(o => shownCodes.map(c => [
+                o.owner,
+                c.description ? `${c.code}: ${c.description}` : c.code,
+                c.owners,
+            ])) as unknown as Datum[][],
+            hovertemplate: '<b>%{customdata[0]}</b><br>%{customdata[1]}<br>' +
+                'Records: %{z}<br>Owners in code: %{customdata[2]}<extra></extra>',
+            colorscale: 'YlGnBu',
+            reversescale: true,
+            hoverongaps: false,
+            xgap: 1,
+            ygap: 1,
+        }
+    }, [orderedOwners, shownCodes])
+
+    const heatmapHeight = Math.max(HEATMAP_MIN_HEIGHT, orderedOwners.length * HEATMAP_ROW_HEIGHT + 160)
+
+    // Long format of the visible cells, in the chosen code order
+    const tableData = useMemo(() => shownCodes.flatMap(c => orderedOwners
+        .filter(o => o.vector[c.code])
+        .map(o => ({
+            'Code': c.code,
+            'Description': c.description,
+            'Owner': o.owner,
+            'Records': o.vector[c.code],
+            'Owners in Code': c.owners,
+        }))
+    ), [orderedOwners, shownCodes])
+
+    const selectClass = 'rounded-lg border border-gray-300 px-2 py-1 text-sm'
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">🧮</span>
+                    Owner × Classification Matrix
+                </h1>
+                <p className="text-gray-600 text-sm mb-4">
+                    Every current owner against every classification code in the owner exports, not just the top codes.
+                    Sort codes by fewest owners to surface niche entrants in the long tail, or cluster owners to line up
+                    similar technology profiles.
+                </p>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Scheme</span>
+                        <select value={scheme} onChange={e => setScheme(e.target.value as Scheme)} className={selectClass}>
+                            <option value="cpc">CPC</option>
+                            <option value="ipc">IPC</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Level</span>
+                        <select value={level} onChange={e => setLevel(e.target.value as ClassificationLevel)} className={selectClass}>
+                            {CLASSIFICATION_LEVELS.map(l => (
+                                <option key={l} value={l}>{CLASSIFICATION_LEVEL_LABELS[l]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Code prefix</span>
+                        <input
+                            type="text"
+                            value={prefixDraft}
+                            placeholder="e.g. G06N10"
+                            onChange={e => setPrefixDraft(e.target.value)}
+                            onBlur={() => setPrefix(prefixDraft.trim())}
+                            onKeyDown={e => { if (e.key === 'Enter') setPrefix(prefixDraft.trim()) }}
+                            className={`${selectClass} w-32`}
+                        />
+                    </label>
+                    <LimitControl spec={MATRIX_COLUMN_LIMIT} value={columnLimit} onChange={setColumnLimit} />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 mt-4">
+                    <input
+                        type="search"
+                        value={ownerSearch}
+                        placeholder="Find owner"
+                        onChange={e => setOwnerSearch(e.target.value)}
+                        className={selectClass}
+                    />
+                    <input
+                        type="search"
+                        value={codeSearch}
+                        placeholder="Find code or description"
+                        onChange={e => setCodeSearch(e.target.value)}
+                        className={selectClass}
+                    />
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Owners</span>
+                        <select value={rowOrder} onChange={e => setRowOrder(e.target.value as RowOrder)} className={selectClass}>
+                            {(Object.keys(ROW_ORDER_LABELS) as RowOrder[]).map(o => (
+                                <option key={o} value={o}>{ROW_ORDER_LABELS[o]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Codes</span>
+                        <select value={columnOrder} onChange={e => setColumnOrder(e.target.value as ColumnOrder)} className={selectClass}>
+                            {(Object.keys(COLUMN_ORDER_LABELS) as ColumnOrder[]).map(o => (
+                                <option key={o} value={o}>{COLUMN_ORDER_LABELS[o]}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {loading && (
+                <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+                </div>
+            )}
+
+            {!loading && matrix && (
+                <>
+                    <div className="card">
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                            {orderedOwners.length} Owners × {shownCodes.length} of {orderedCodes.length} Codes
+                        </h2>
+                        <p className="text-gray-600 mb-6 text-sm italic">
+                            {matrix.owners.length} owners and {matrix.codes.length} codes in the export
+                            {prefix ? ` under ${prefix.toUpperCase()}` : ''}; blank cells have no records.
+                        </p>
+
+                        {heatmapData ? (
+                            <div className="w-full" style={{ height: `${heatmapHeight}px` }}>
+                                <Plot
+                                    data={[heatmapData]}
+                                    layout={{
+                                        height: heatmapHeight,
+                                        xaxis: { side: 'top' as const, tickangle: -60, type: 'category' as const },
+                                        yaxis: { autorange: 'reversed' as const, automargin: true, type: 'category' as const },
+                                        margin: { l: 200, t: 120, r: 20, b: 20 },
+                                        paper_bgcolor: '#ffffff',
+                                    }}
+                                    config={{ responsive: true, displaylogo: false }}
+                                    style={{ width: '100%', height: '100%' }}
+                                />
+                            </div>
+                        ) : (
+                            <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-500">
+                                <p>No owners or codes match the current filters</p>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="card">
+                        <DataTable data={tableData} title={`${scheme.toUpperCase()} Owner Matrix`} maxRows={TABLE_MAX_ROWS} />
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
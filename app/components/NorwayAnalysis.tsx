@@ -0,0 +1,352 @@
+'use client'
+
+import React, { useEffect, useState, useMemo } from 'react'
+import dynamic from 'next/dynamic'
+import DataTable from './DataTable'
+import { categoryQuery } from '../lib/categories'
+import { describeYearRange, withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
+
+// Constants
+const TABLE_MAX_ROWS = 20
+
+const NORDIC_METRICS = [
+    { key: 'familyFilings', label: 'Family Filings', color: '#3b82f6' },
+    { key: 'priorityFilings', label: 'Priority Filings', color: '#10b981' },
+    { key: 'assignees', label: 'Assignees', color: '#f59e0b' },
+    { key: 'inventors', label: 'Inventors', color: '#8b5cf6' },
+] as const
+
+// Interfaces
+interface Party {
+    name: string
+    country: string | null
+}
+
+interface NorwayRecord {
+    recordNumber: string
+    title: string
+    currentOwner: string
+    publicationDate: string
+    filingDate: string
+    applicants: Party[]
+    norwegianApplicants: string[]
+    norwegianInventors: string[]
+}
+
+interface ApplicantCount {
+    applicant: string
+    records: number
+    // Null when the landscape export does not list the applicant or a year range is set
+    landscapeCount: number | null
+}
+
+interface InventorCount {
+    inventor: string
+    count: number
+    records: string[]
+}
+
+interface PriorityStats {
+    total: number
+    share: number
+    rank: number | null
+}
+
+interface NordicCountryStats {
+    code: string
+    country: string
+    familyFilings: number
+    priorityFilings: number
+    assignees: number
+    inventors: number
+}
+
+interface SummaryStats {
+    totalRecords: number
+    norwegianApplicants: number
+    norwegianInventors: number
+    noPriorityFilings: number
+}
+
+interface NorwayData {
+    records: NorwayRecord[]
+    applicants: ApplicantCount[]
+    inventors: InventorCount[]
+    priorityFilings: PriorityStats
+    nordicComparison: NordicCountryStats[]
+    summaryStats: SummaryStats
+}
+
+interface NorwayResponse {
+    success: boolean
+    data?: NorwayData
+    error?: string
+}
+
+interface NorwayAnalysisProps {
+    category: string
+    snapshot: string | null
+    yearRange: YearRange
+}
+
+export default function NorwayAnalysis({ category, snapshot, yearRange }: NorwayAnalysisProps) {
+    const [norwayData, setNorwayData] = useState<NorwayData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                setLoading(true)
+                const response = await fetch(`/api/norway?${withYearRange(categoryQuery(category, snapshot), yearRange)}`)
+                const result: NorwayResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setNorwayData(result.data)
+                } else {
+                    setError(result.error || 'Failed to load Norway data')
+                }
+            } catch (err) {
+                setError('Failed to fetch Norway data')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchData()
+    }, [category, snapshot, yearRange])
+
+    // Table rows
+    const recordTableData = useMemo(() => {
+        if (!norwayData) return []
+        return norwayData.records.map(r => ({
+            'Record Number': r.recordNumber,
+            'Title': r.title,
+            'Current Owner': r.currentOwner,
+            'Norwegian Applicants': r.norwegianApplicants.join('; '),
+            'Norwegian Inventors': r.norwegianInventors.join('; '),
+            'Filing Date': r.filingDate,
+            'Publication Date': r.publicationDate,
+        }))
+    }, [norwayData])
+
+    const applicantTableData = useMemo(() => {
+        if (!norwayData) return []
+        return norwayData.applicants.map(a => ({
+            'Applicant': a.applicant,
+            'Norwegian Records': a.records,
+            'Landscape Count': a.landscapeCount ?? '—',
+        }))
+    }, [norwayData])
+
+    const inventorTableData = useMemo(() => {
+        if (!norwayData) return []
+        return norwayData.inventors.map(i => ({
+            'Inventor': i.inventor,
+            'Patent Count': i.count,
+            'Norwegian Records': i.records.join(', '),
+        }))
+    }, [norwayData])
+
+    const nordicTableData = useMemo(() => {
+        if (!norwayData) return []
+        return norwayData.nordicComparison.map(c => ({
+            'Country': `${c.country} (${c.code})`,
+            'Family Filings': c.familyFilings,
+            'Priority Filings': c.priorityFilings,
+            'Assignees': c.assignees,
+            'Inventors': c.inventors,
+        }))
+    }, [norwayData])
+
+    // Nordic comparison grouped bar chart
+    const nordicChartData = useMemo(() => {
+        if (!norwayData) return []
+
+        const countries = norwayData.nordicComparison.map(c => c.country)
+        return NORDIC_METRICS.map(metric => ({
+            type: 'bar' as const,
+            name: metric.label,
+            x: countries,
+            y: norwayData.nordicComparison.map(c => c[metric.key]),
+            marker: { color: metric.color },
+            hovertemplate: `<b>%{x}</b><br>${metric.label}: %{y}<extra></extra>`,
+        }))
+    }, [norwayData])
+
+    const nordicLayout = useMemo(() => ({
+        title: { text: 'Nordic Comparison' },
+        barmode: 'group' as const,
+        xaxis: { title: { text: 'Country' } },
+        yaxis: { title: { text: 'Count' } },
+        height: 450,
+        plot_bgcolor: '#f9fafb',
+        paper_bgcolor: '#ffffff',
+        legend: { orientation: 'h' as const, y: -0.2 },
+    }), [])
+
+    const defaultConfig = useMemo(() => ({
+        responsive: true,
+        displayModeBar: true,
+        displaylogo: false,
+    }), [])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-center">
+                    <div className="inline-block animate-spin rounded-full h-16 w-16 border-4 border-red-200 border-t-red-600 mb-4"></div>
+                    <p className="text-gray-600 font-medium">Loading Norway data...</p>
+                </div>
+            </div>
+        )
+    }
+
+    if (error || !norwayData) {
+        return (
+            <div className="card border-l-4 border-red-500 bg-red-50">
+                <h3 className="text-xl font-bold text-red-700 mb-2">⚠️ Error Loading Data</h3>
+                <p className="text-red-600">{error || 'No data available'}</p>
+            </div>
+        )
+    }
+
+    const { summaryStats, priorityFilings } = norwayData
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">🇳🇴</span>
+                    Norway Analysis
+                </h1>
+
+                <div className="info-box bg-red-50 border border-red-200 p-4 rounded-lg">
+                    <p className="text-red-900 font-medium mb-2">
+                        Understanding Norway Analysis:
+                    </p>
+                    <p className="text-red-800 text-sm">
+                        This section looks at Norwegian participation in the landscape: filings with a
+                        Norwegian applicant or inventor, inventions first filed in Norway, and how Norway
+                        compares with the other Nordic countries.
+                    </p>
+                </div>
+            </div>
+
+            {/* Summary Stats */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">Data Summary</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                    <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                        <p className="text-sm text-blue-600 font-medium uppercase">Norwegian Records</p>
+                        <p className="text-2xl font-bold text-blue-900">
+                            {summaryStats.totalRecords.toLocaleString()}
+                        </p>
+                    </div>
+                    <div className="bg-purple-50 rounded-lg p-4 border border-purple-100">
+                        <p className="text-sm text-purple-600 font-medium uppercase">Norwegian Applicants</p>
+                        <p className="text-2xl font-bold text-purple-900">
+                            {summaryStats.norwegianApplicants.toLocaleString()}
+                        </p>
+                    </div>
+                    <div className="bg-green-50 rounded-lg p-4 border border-green-100">
+                        <p className="text-sm text-green-600 font-medium uppercase">Norwegian Inventors</p>
+                        <p className="text-2xl font-bold text-green-900">
+                            {summaryStats.norwegianInventors.toLocaleString()}
+                        </p>
+                    </div>
+                    <div className="bg-amber-50 rounded-lg p-4 border border-amber-100">
+                        <p className="text-sm text-amber-600 font-medium uppercase">NO Priority Filings</p>
+                        <p className="text-2xl font-bold text-amber-900">
+                            {priorityFilings.total.toLocaleString()}
+                        </p>
+                        <p className="text-xs text-amber-700 mt-1">
+                            {(priorityFilings.share * 100).toFixed(1)}% of all priority filings
+                            {priorityFilings.rank !== null && ` · rank #${priorityFilings.rank}`}
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Records */}
+            <div className="card">
+                <DataTable
+                    data={recordTableData}
+                    title="Patent Records with Norwegian Involvement"
+                    maxRows={TABLE_MAX_ROWS}
+                />
+            </div>
+
+            {/* Applicants & Inventors */}
+            <p className="text-gray-600 text-sm italic">
+                Norwegian Records counts the records above that name the applicant; Landscape Count is the applicant&apos;s
+                total in the landscape-wide assignee export, which is counted separately and has no years.
+            </p>
+            {(yearRange.from !== null || yearRange.to !== null) && (
+                <p className="text-gray-600 text-sm italic">
+                    Applicants and inventors are counted from the Norwegian records filed in the selected years ({describeYearRange(yearRange)});
+                    the landscape-wide assignee and inventor exports have no years and only feed the Nordic comparison.
+                </p>
+            )}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="card">
+                    <DataTable
+                        data={applicantTableData}
+                        title="Norwegian Applicants"
+                        maxRows={TABLE_MAX_ROWS}
+                    />
+                </div>
+                <div className="card">
+                    <DataTable
+                        data={inventorTableData}
+                        title="Norwegian Inventors"
+                        maxRows={TABLE_MAX_ROWS}
+                    />
+                </div>
+            </div>
+
+            {/* Nordic Comparison */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                    Nordic Comparison
+                </h2>
+                <p className="text-gray-600 mb-6 text-sm italic">
+                    Family filings, first filings, distinct assignees and distinct inventors per Nordic country
+                </p>
+
+                <div className="w-full" style={{ height: '450px' }}>
+                    <Plot
+                        data={nordicChartData}
+                        layout={nordicLayout}
+                        style={{ width: '100%', height: '100%' }}
+                        config={defaultConfig}
+                    />
+                </div>
+
+                <div className="mt-6">
+                    <DataTable
+                        data={nordicTableData}
+                        title="Nordic Comparison Table"
+                        maxRows={TABLE_MAX_ROWS}
+                    />
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,271 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { categoryQuery } from '../lib/categories'
+
+// Interfaces
+interface AliasSuggestion {
+    canonical: string
+    variant: string
+    score: number
+}
+
+interface OwnerNamesData {
+    aliases: Record<string, string[]>
+    suggestions: AliasSuggestion[]
+    rawNames: number
+    harmonizedOwners: number
+}
+
+interface OwnersResponse {
+    success: boolean
+    data?: OwnerNamesData
+    error?: string
+}
+
+interface OwnerAliasesProps {
+    category: string
+}
+
+// Splits the manual form's variants field: one name per line or separated by semicolons
+function parseVariants(text: string): string[] {
+    return text.split(/[;\n]/).map(v => v.trim()).filter(Boolean)
+}
+
+export default function OwnerAliases({ category }: OwnerAliasesProps) {
+    const [ownerData, setOwnerData] = useState<OwnerNamesData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+    // Bumped after each save so the names and suggestions are fetched again
+    const [reloads, setReloads] = useState(0)
+    const [canonical, setCanonical] = useState('')
+    const [variantsText, setVariantsText] = useState('')
+
+    useEffect(() => {
+        const fetchOwners = async () => {
+            try {
+                setLoading(true)
+                const response = await fetch(`/api/owners?${categoryQuery(category)}`)
+                const result: OwnersResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setOwnerData(result.data)
+                    setError(null)
+                } else {
+                    setError(result.error || 'Failed to load owner names')
+                }
+            } catch (err) {
+                setError('Failed to fetch owner names')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchOwners()
+    }, [category, reloads])
+
+    const saveAlias = async (name: string, variants: string[]) => {
+        try {
+            setSaving(true)
+            const response = await fetch('/api/owners', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ canonical: name, variants }),
+            })
+            const result: OwnersResponse = await response.json()
+            if (!result.success) {
+                setError(result.error || 'Failed to save alias')
+                return
+            }
+            setReloads(n => n + 1)
+        } catch (err) {
+            setError('Failed to save alias')
+            console.error('Save error:', err)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const acceptSuggestion = (suggestion: AliasSuggestion) => {
+        const existing = ownerData?.aliases[suggestion.canonical] || []
+        saveAlias(suggestion.canonical, [...existing, suggestion.variant])
+    }
+
+    const removeVariant = (name: string, variant: string) => {
+        const existing = ownerData?.aliases[name] || []
+        saveAlias(name, existing.filter(v => v !== variant))
+    }
+
+    const submitManual = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const variants = parseVariants(variantsText)
+        if (!canonical.trim() || variants.length === 0) return
+
+        const existing = ownerData?.aliases[canonical.trim()] || []
+        await saveAlias(canonical.trim(), [...existing, ...variants])
+        setCanonical('')
+        setVariantsText('')
+    }
+
+    if (loading && !ownerData) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-center">
+                    <div className="inline-block animate-spin rounded-full h-16 w-16 border-4 border-blue-200 border-t-blue-600 mb-4"></div>
+                    <p className="text-gray-600 font-medium">Loading owner names...</p>
+                </div>
+            </div>
+        )
+    }
+
+    if (!ownerData) {
+        return (
+            <div className="card border-l-4 border-red-500 bg-red-50">
+                <h3 className="text-xl font-bold text-red-700 mb-2">⚠️ Error Loading Data</h3>
+                <p className="text-red-600">{error || 'No data available'}</p>
+            </div>
+        )
+    }
+
+    const aliasEntries = Object.entries(ownerData.aliases).sort(([a], [b]) => a.localeCompare(b))
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">🏢</span>
+                    Owner Names
+                </h1>
+
+                <div className="info-box bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                    <p className="text-blue-900 font-medium mb-2">
+                        Harmonising owner names:
+                    </p>
+                    <p className="text-blue-800 text-sm">
+                        PatSeer exports spell the same company differently. Names are compared without
+                        punctuation, accents or trailing legal forms (OY, AB, LTD…), and the aliases below
+                        merge the remaining variants so each owner is counted once in the entity, timeline
+                        and classification analyses. Aliases apply to every category.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                    <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                        <p className="text-sm text-blue-600 font-medium uppercase">Distinct Names in Exports</p>
+                        <p className="text-2xl font-bold text-blue-900">{ownerData.rawNames.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-green-50 rounded-lg p-4 border border-green-100">
+                        <p className="text-sm text-green-600 font-medium uppercase">Owners After Harmonisation</p>
+                        <p className="text-2xl font-bold text-green-900">{ownerData.harmonizedOwners.toLocaleString()}</p>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {/* Suggestions */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Suggested Merges</h2>
+                <p className="text-gray-600 mb-4 text-sm italic">
+                    Similar names that are not merged yet. The more frequent spelling is proposed as the canonical name.
+                </p>
+
+                {ownerData.suggestions.length === 0 ? (
+                    <p className="text-sm text-gray-600">No further similar names found.</p>
+                ) : (
+                    <div className="overflow-x-auto rounded-lg border border-gray-200">
+                        <table className="w-full text-sm border-collapse">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Canonical</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Similarity</th>
+                                    <th className="px-4 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ownerData.suggestions.map(s => (
+                                    <tr key={`${s.canonical}|${s.variant}`} className="border-t border-gray-100">
+                                        <td className="px-4 py-2 font-medium text-gray-900">{s.canonical}</td>
+                                        <td className="px-4 py-2 text-gray-700">{s.variant}</td>
+                                        <td className="px-4 py-2 text-gray-700">{(s.score * 100).toFixed(0)}%</td>
+                                        <td className="px-4 py-2 text-right">
+                                            <button
+                                                onClick={() => acceptSuggestion(s)}
+                                                disabled={saving}
+                                                className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-medium disabled:opacity-50"
+                                            >
+                                                Merge
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Alias Dictionary */}
+            <div className="card">
+                <h2 className="text-2xl font-bold text-gray-900 mb-4">Alias Dictionary</h2>
+
+                <form onSubmit={submitManual} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <input
+                        value={canonical}
+                        onChange={e => setCanonical(e.target.value)}
+                        placeholder="Canonical name"
+                        className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                    />
+                    <input
+                        value={variantsText}
+                        onChange={e => setVariantsText(e.target.value)}
+                        placeholder="Variants, separated by ;"
+                        className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                    />
+                    <button
+                        type="submit"
+                        disabled={saving || !canonical.trim() || parseVariants(variantsText).length === 0}
+                        className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50"
+                    >
+                        Add Aliases
+                    </button>
+                </form>
+
+                {aliasEntries.length === 0 ? (
+                    <p className="text-sm text-gray-600">No aliases defined.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {aliasEntries.map(([name, variants]) => (
+                            <div key={name} className="rounded-lg border border-gray-200 p-4">
+                                <p className="font-semibold text-gray-900 mb-2">{name}</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {variants.map(variant => (
+                                        <span key={variant} className="inline-flex items-center gap-2 rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700">
+                                            {variant}
+                                            <button
+                                                onClick={() => removeVariant(name, variant)}
+                                                disabled={saving}
+                                                className="text-gray-400 hover:text-red-600"
+                                                aria-label={`Remove ${variant}`}
+                                            >
+                                                ×
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
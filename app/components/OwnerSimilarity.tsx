@@ -0,0 +1,344 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
+import type { Datum } from 'plotly.js'
+import DataTable from './DataTable'
+import LimitControl from './LimitControl'
+import { categoryQuery } from '../lib/categories'
+import { SIMILARITY_LIMITS, defaultLimits, withLimits } from '../lib/limits'
+import type { LimitValues } from '../lib/limits'
+import {
+    CLASSIFICATION_LEVELS,
+    CLASSIFICATION_LEVEL_LABELS,
+    classificationTitle,
+    withClassificationLevel,
+} from '../lib/classification'
+import type { ClassificationDescriptions, ClassificationLevel } from '../lib/classification'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
+
+// Constants
+const THRESHOLDS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]
+const DEFAULT_THRESHOLD = 0.3
+// Profiles at main-group level group owners by technology rather than by exact subgroup
+const DEFAULT_LEVEL: ClassificationLevel = 'mainGroup'
+const HEATMAP_MIN_HEIGHT = 420
+const HEATMAP_ROW_HEIGHT = 16
+const OWNER_LABEL_LENGTH = 28
+const CLUSTER_COLORS = ['#dbeafe', '#dcfce7', '#fef3c7', '#fce7f3', '#ede9fe', '#ffedd5', '#cffafe', '#f3f4f6']
+
+type Scheme = 'ipc' | 'cpc'
+
+// Interfaces
+interface ProfileCode {
+    code: string
+    count: number
+}
+
+interface SimilarOwner {
+    owner: string
+    total: number
+    similarity: number
+    sharedCodes: ProfileCode[]
+}
+
+interface OwnerCluster {
+    id: number
+    owners: string[]
+    total: number
+    topCodes: ProfileCode[]
+}
+
+interface SimilarityData {
+    ownerNames: string[]
+    clustering: {
+        threshold: number
+        clusters: OwnerCluster[]
+        order: string[]
+        similarity: number[][]
+    }
+    similar: {
+        owner: string
+        owners: SimilarOwner[]
+    } | null
+    descriptions: ClassificationDescriptions
+}
+
+interface SimilarityResponse {
+    success: boolean
+    data?: SimilarityData
+    error?: string
+}
+
+interface OwnerSimilarityProps {
+    category: string
+    snapshot: string | null
+}
+
+function truncateOwnerName(name: string): string {
+    return name.length > OWNER_LABEL_LENGTH ? `${name.slice(0, OWNER_LABEL_LENGTH - 1)}…` : name
+}
+
+export default function OwnerSimilarity({ category, snapshot }: OwnerSimilarityProps) {
+    const [data, setData] = useState<SimilarityData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [scheme, setScheme] = useState<Scheme>('cpc')
+    const [level, setLevel] = useState<ClassificationLevel>(DEFAULT_LEVEL)
+    const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+    const [limits, setLimits] = useState<LimitValues<typeof SIMILARITY_LIMITS>>(defaultLimits(SIMILARITY_LIMITS))
+    // Typed name, committed to `owner` on Enter, blur or when picked from the list
+    const [ownerDraft, setOwnerDraft] = useState('')
+    const [owner, setOwner] = useState('')
+
+    useEffect(() => {
+        const fetchSimilarity = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+                const params = new URLSearchParams({ scheme })
+                if (owner) params.set('owner', owner)
+                if (threshold !== DEFAULT_THRESHOLD) params.set('threshold', String(threshold))
+                const query = withClassificationLevel(
+                    withLimits(`${categoryQuery(category, snapshot)}&${params}`, SIMILARITY_LIMITS, limits),
+                    level,
+                    null
+                )
+                const response = await fetch(`/api/classification/similarity?${query}`)
+                const result: SimilarityResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setData(result.data)
+                } else {
+                    setError(result.error || 'Failed to load owner similarity')
+                }
+            } catch (err) {
+                setError('Failed to fetch owner similarity')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchSimilarity()
+    }, [category, snapshot, scheme, level, threshold, limits, owner])
+
+    const selectOwner = (name: string) => {
+        setOwnerDraft(name)
+        setOwner(name)
+    }
+
+    const similarTableData = useMemo(() => (data?.similar?.owners || []).map(o => ({
+        'Owner': o.owner,
+        'Records': o.total,
+        'Similarity': `${Math.round(o.similarity * 100)}%`,
+        'Shared Codes': o.sharedCodes.map(c => c.code).join(', '),
+    })), [data])
+
+    const groupedClusters = (data?.clustering.clusters || []).filter(c => c.owners.length > 1)
+    const distinctOwners = (data?.clustering.clusters || []).filter(c => c.owners.length === 1).map(c => c.owners[0])
+
+    const heatmapData = useMemo(() => {
+        if (!data || data.clustering.order.length === 0) return null
+        const labels = data.clustering.order.map(truncateOwnerName)
+
+        return {
+            type: 'heatmap' as const,
+            x: labels,
+            y: labels,
+            z: data.clustering.similarity,
+            // A pair of full names per cell, which the plotly typings do not allow for
+            customdata: data.clustering.order.map(a => data.clustering.order.map(b => [a, b])) as unknown as Datum[][],
+            hovertemplate: '<b>%{customdata[0]}</b><br>%{customdata[1]}<br>Similarity: %{z:.2f}<extra></extra>',
+            colorscale: 'Blues',
+            zmin: 0,
+            zmax: 1,
+        }
+    }, [data])
+
+    const heatmapHeight = Math.max(HEATMAP_MIN_HEIGHT, (data?.clustering.order.length || 0) * HEATMAP_ROW_HEIGHT + 200)
+    const selectClass = 'rounded-lg border border-gray-300 px-2 py-1 text-sm'
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">🧬</span>
+                    Similar Owners
+                </h1>
+                <p className="text-gray-600 text-sm mb-4">
+                    Owners are compared by the mix of classification codes they file in (cosine similarity of their
+                    code counts), regardless of size. Look up the owners closest to a client to find competitors that
+                    never make the top-N lists, or browse the technology strategy clusters below.
+                </p>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Most similar to</span>
+                        <input
+                            type="text"
+                            list="similarity-owner-names"
+                            value={ownerDraft}
+                            placeholder="Owner name"
+                            onChange={e => {
+                                setOwnerDraft(e.target.value)
+                                if (data?.ownerNames.includes(e.target.value)) setOwner(e.target.value)
+                            }}
+                            onBlur={() => setOwner(ownerDraft.trim())}
+                            onKeyDown={e => { if (e.key === 'Enter') setOwner(ownerDraft.trim()) }}
+                            className={`${selectClass} w-64`}
+                        />
+                        <datalist id="similarity-owner-names">
+                            {(data?.ownerNames || []).map(name => <option key={name} value={name} />)}
+                        </datalist>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Scheme</span>
+                        <select value={scheme} onChange={e => setScheme(e.target.value as Scheme)} className={selectClass}>
+                            <option value="cpc">CPC</option>
+                            <option value="ipc">IPC</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Level</span>
+                        <select value={level} onChange={e => setLevel(e.target.value as ClassificationLevel)} className={selectClass}>
+                            {CLASSIFICATION_LEVELS.map(l => (
+                                <option key={l} value={l}>{CLASSIFICATION_LEVEL_LABELS[l]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <span className="font-medium">Cluster at similarity</span>
+                        <select value={threshold} onChange={e => setThreshold(Number(e.target.value))} className={selectClass}>
+                            {THRESHOLDS.map(t => <option key={t} value={t}>{t.toFixed(1)}</option>)}
+                        </select>
+                    </label>
+                    {(Object.keys(SIMILARITY_LIMITS) as Array<keyof typeof SIMILARITY_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={SIMILARITY_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => setLimits(prev => ({ ...prev, [key]: value }))}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {loading && (
+                <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+                </div>
+            )}
+
+            {!loading && data && (
+                <>
+                    {data.similar && (
+                        <div className="card">
+                            <DataTable
+                                data={similarTableData}
+                                title={`Owners Most Similar to ${data.similar.owner}`}
+                                maxRows={limits.similarOwners}
+                            />
+                        </div>
+                    )}
+
+                    {/* Clusters */}
+                    <div className="card">
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                            {groupedClusters.length} Technology Clusters
+                        </h2>
+                        <p className="text-gray-600 mb-6 text-sm italic">
+                            Top {limits.clusterOwners} owners grouped while their average similarity stays at or
+                            above {data.clustering.threshold.toFixed(1)}. Click an owner to list its closest matches.
+                        </p>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                            {groupedClusters.map((cluster, i) => (
+                                <div
+                                    key={cluster.id}
+                                    className="rounded-lg border border-gray-200 p-4"
+                                    style={{ backgroundColor: CLUSTER_COLORS[i % CLUSTER_COLORS.length] }}
+                                >
+                                    <p className="font-semibold text-gray-900 mb-2">
+                                        Cluster {i + 1} · {cluster.owners.length} owners · {cluster.total.toLocaleString()} records
+                                    </p>
+                                    <ul className="text-sm text-gray-800 mb-3 space-y-1">
+                                        {cluster.owners.map(name => (
+                                            <li key={name}>
+                                                <button onClick={() => selectOwner(name)} className="hover:underline text-left">
+                                                    {name}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <p className="text-xs font-medium text-gray-600 uppercase mb-1">Defining codes</p>
+                                    <ul className="text-xs text-gray-700 space-y-1">
+                                        {cluster.topCodes.map(c => (
+                                            <li key={c.code} title={classificationTitle(c.code, data.descriptions)}>
+                                                <strong>{c.code}</strong> ({c.count}) {data.descriptions[c.code] || ''}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+
+                        {distinctOwners.length > 0 && (
+                            <p className="text-sm text-gray-600 mt-6">
+                                <span className="font-medium">Distinct profiles:</span>{' '}
+                                {distinctOwners.map((name, i) => (
+                                    <React.Fragment key={name}>
+                                        {i > 0 && ', '}
+                                        <button onClick={() => selectOwner(name)} className="hover:underline">{name}</button>
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        )}
+                    </div>
+
+                    {heatmapData && (
+                        <div className="card">
+                            <h2 className="text-2xl font-bold text-gray-900 mb-2">Owner Similarity Matrix</h2>
+                            <p className="text-gray-600 mb-6 text-sm italic">
+                                Owners in cluster order; dark blocks along the diagonal are the clusters above.
+                            </p>
+                            <div className="w-full" style={{ height: `${heatmapHeight}px` }}>
+                                <Plot
+                                    data={[heatmapData]}
+                                    layout={{
+                                        height: heatmapHeight,
+                                        xaxis: { tickangle: -60, automargin: true, type: 'category' as const },
+                                        yaxis: { autorange: 'reversed' as const, automargin: true, type: 'category' as const },
+                                        margin: { l: 180, t: 20, r: 20, b: 180 },
+                                        paper_bgcolor: '#ffffff',
+                                    }}
+                                    config={{ responsive: true, displaylogo: false }}
+                                    style={{ width: '100%', height: '100%' }}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
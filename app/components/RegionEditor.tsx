@@ -0,0 +1,124 @@
+'use client'
+
+import React, { useState } from 'react'
+import { customRegionId } from '../lib/regions'
+import type { RegionDefinition } from '../lib/regions'
+
+// Interfaces
+interface RegionsResponse {
+    success: boolean
+    error?: string
+}
+
+interface RegionEditorProps {
+    // Custom regions only; built-in ones cannot be edited
+    regions: RegionDefinition[]
+    // Called with the id of the region just saved, or null after a removal
+    onSaved: (regionId: string | null) => void
+}
+
+// Splits the members field: codes separated by commas, semicolons or spaces
+function parseCodes(text: string): string[] {
+    return text.split(/[,;\s]+/).map(code => code.trim()).filter(Boolean)
+}
+
+export default function RegionEditor({ regions, onSaved }: RegionEditorProps) {
+    const [label, setLabel] = useState('')
+    const [codesText, setCodesText] = useState('')
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const saveRegion = async (name: string, members: string[]) => {
+        try {
+            setSaving(true)
+            setError(null)
+            const response = await fetch('/api/geographic/regions', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ label: name, members }),
+            })
+            const result: RegionsResponse = await response.json()
+            if (!result.success) {
+                setError(result.error || 'Failed to save region')
+                return false
+            }
+            onSaved(members.length > 0 ? customRegionId(name) : null)
+            return true
+        } catch (err) {
+            setError('Failed to save region')
+            console.error('Save error:', err)
+            return false
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const codes = parseCodes(codesText)
+        if (!label.trim() || codes.length === 0) return
+
+        if (await saveRegion(label.trim(), codes)) {
+            setLabel('')
+            setCodesText('')
+        }
+    }
+
+    return (
+        <div className="rounded-lg border border-gray-200 p-4">
+            <h3 className="text-lg font-semibold text-gray-800 mb-1">Custom Regions</h3>
+            <p className="text-sm text-gray-600 mb-4">
+                Group countries for a client report, e.g. &quot;Norway + partners&quot; as NO, SE, DE, US. Codes are
+                ISO 3166 alpha-2 or alpha-3; saving an existing name replaces its members. Regions apply to every category.
+            </p>
+
+            <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <input
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    placeholder="Region name"
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                />
+                <input
+                    value={codesText}
+                    onChange={e => setCodesText(e.target.value)}
+                    placeholder="Country codes, e.g. NO, SE, DE"
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                />
+                <button
+                    type="submit"
+                    disabled={saving || !label.trim() || parseCodes(codesText).length === 0}
+                    className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50"
+                >
+                    Save Region
+                </button>
+            </form>
+
+            {error && (
+                <p className="text-sm text-red-600 mb-4">{error}</p>
+            )}
+
+            {regions.length === 0 ? (
+                <p className="text-sm text-gray-600">No custom regions defined.</p>
+            ) : (
+                <div className="space-y-2">
+                    {regions.map(region => (
+                        <div key={region.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-gray-50 px-3 py-2">
+                            <div className="text-sm">
+                                <span className="font-semibold text-gray-900">{region.label}</span>
+                                <span className="ml-2 text-gray-600">{region.members.join(', ')}</span>
+                            </div>
+                            <button
+                                onClick={() => saveRegion(region.label, [])}
+                                disabled={saving}
+                                className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
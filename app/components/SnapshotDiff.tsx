@@ -0,0 +1,312 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import DataTable from './DataTable'
+import { categoryQuery } from '../lib/categories'
+
+// Constants
+const CURRENT_LABEL = 'current'
+const TABLE_MAX_ROWS = 20
+
+// Interfaces
+interface SnapshotInfo {
+    label: string
+    datasets: string[]
+}
+
+interface OwnerChange {
+    owner: string
+    count: number
+}
+
+interface CountryChange {
+    country: string
+    base: number
+    target: number
+    change: number
+}
+
+interface NewCode {
+    code: string
+    description: string
+    total: number
+}
+
+interface SnapshotDiffData {
+    base: string
+    target: string
+    newOwners: OwnerChange[]
+    droppedOwners: OwnerChange[]
+    countryChanges: CountryChange[]
+    newCpcCodes: NewCode[]
+    cpcSource: string | null
+    warnings: string[]
+    summary: {
+        baseFamilies: number
+        targetFamilies: number
+        baseOwners: number
+        targetOwners: number
+    }
+}
+
+interface SnapshotsResponse {
+    success: boolean
+    data?: SnapshotInfo[]
+    error?: string
+}
+
+interface DiffResponse {
+    success: boolean
+    data?: SnapshotDiffData
+    error?: string
+}
+
+interface SnapshotDiffProps {
+    category: string
+    // Called after a snapshot is created so the sidebar's snapshot list can be refreshed
+    onCreated?: () => void
+}
+
+function formatChange(value: number): string {
+    return value > 0 ? `+${value.toLocaleString()}` : value.toLocaleString()
+}
+
+export default function SnapshotDiff({ category, onCreated }: SnapshotDiffProps) {
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+    const [base, setBase] = useState('')
+    const [target, setTarget] = useState(CURRENT_LABEL)
+    const [newLabel, setNewLabel] = useState(() => new Date().toISOString().slice(0, 10))
+    const [diff, setDiff] = useState<SnapshotDiffData | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchSnapshots = async () => {
+            try {
+                const response = await fetch(`/api/snapshots?${categoryQuery(category)}`)
+                const result: SnapshotsResponse = await response.json()
+                if (result.success && result.data) {
+                    setSnapshots(result.data)
+                    // Default to the latest snapshot against the live exports
+                    setBase(result.data[result.data.length - 1]?.label || '')
+                    setTarget(CURRENT_LABEL)
+                } else {
+                    setError(result.error || 'Failed to load snapshots')
+                }
+            } catch (err) {
+                setError('Failed to fetch snapshots')
+                console.error('Fetch error:', err)
+            }
+        }
+
+        fetchSnapshots()
+    }, [category])
+
+    useEffect(() => {
+        if (!base) return
+
+        const fetchDiff = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+                const params = new URLSearchParams({ base, target })
+                const response = await fetch(`/api/snapshots/diff?${categoryQuery(category)}&${params}`)
+                const result: DiffResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setDiff(result.data)
+                } else {
+                    setDiff(null)
+                    setError(result.error || 'Failed to compare snapshots')
+                }
+            } catch (err) {
+                setError('Failed to fetch comparison')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchDiff()
+    }, [category, base, target])
+
+    const createSnapshot = async () => {
+        try {
+            setError(null)
+            const response = await fetch('/api/snapshots', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ category, label: newLabel }),
+            })
+            const result: SnapshotsResponse = await response.json()
+            if (result.success && result.data) {
+                setSnapshots(result.data)
+                onCreated?.()
+            } else {
+                setError(result.error || 'Failed to create snapshot')
+            }
+        } catch (err) {
+            setError('Failed to create snapshot')
+            console.error('Snapshot error:', err)
+        }
+    }
+
+    const countryTableData = useMemo(() => (diff?.countryChanges || []).map(c => ({
+        'Country': c.country,
+        [diff!.base]: c.base,
+        [diff!.target]: c.target,
+        'Change': formatChange(c.change),
+    })), [diff])
+
+    const newOwnerTableData = useMemo(() => (diff?.newOwners || []).map(o => ({
+        'Owner': o.owner,
+        'Patent Count': o.count,
+    })), [diff])
+
+    const droppedOwnerTableData = useMemo(() => (diff?.droppedOwners || []).map(o => ({
+        'Owner': o.owner,
+        'Patent Count': o.count,
+    })), [diff])
+
+    const newCodeTableData = useMemo(() => (diff?.newCpcCodes || []).map(c => ({
+        'CPC Code': c.code,
+        'Description': c.description,
+        'Total': c.total,
+    })), [diff])
+
+    const options = [...snapshots.map(s => s.label), CURRENT_LABEL]
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="card">
+                <h1 className="text-3xl font-bold text-gray-900 mb-4 flex items-center gap-3">
+                    <span className="text-4xl">🔄</span>
+                    What Changed
+                </h1>
+
+                <div className="info-box bg-blue-50 border border-blue-200 p-4 rounded-lg">
+                    <p className="text-blue-900 font-medium mb-2">
+                        Comparing data refreshes:
+                    </p>
+                    <p className="text-blue-800 text-sm">
+                        Take a dated snapshot before replacing the PatSeer exports, then compare it with the
+                        refreshed data: owners that entered or left the landscape, family-country totals that
+                        moved and CPC codes that appear for the first time. Any analysis module can also be
+                        pointed at a snapshot from the sidebar.
+                    </p>
+                </div>
+            </div>
+
+            {/* Controls */}
+            <div className="card">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">Compare</span>
+                        <select
+                            value={base}
+                            onChange={e => setBase(e.target.value)}
+                            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        >
+                            {snapshots.length === 0 && <option value="">No snapshots yet</option>}
+                            {options.map(label => <option key={label} value={label}>{label}</option>)}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">With</span>
+                        <select
+                            value={target}
+                            onChange={e => setTarget(e.target.value)}
+                            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        >
+                            {options.map(label => <option key={label} value={label}>{label}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex gap-2">
+                        <input
+                            type="date"
+                            value={newLabel}
+                            onChange={e => setNewLabel(e.target.value)}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                            aria-label="Snapshot date"
+                        />
+                        <button
+                            onClick={createSnapshot}
+                            disabled={!newLabel}
+                            className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-medium disabled:opacity-50"
+                        >
+                            Take Snapshot
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="card border-l-4 border-red-500 bg-red-50">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {loading && (
+                <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+                </div>
+            )}
+
+            {!loading && base && diff && (
+                <>
+                    {/* Summary */}
+                    <div className="card">
+                        <h2 className="text-2xl font-bold text-gray-900 mb-6">
+                            {diff.base} → {diff.target}
+                        </h2>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                            <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
+                                <p className="text-sm text-blue-600 font-medium uppercase">Family Filings</p>
+                                <p className="text-2xl font-bold text-blue-900">{diff.summary.targetFamilies.toLocaleString()}</p>
+                                <p className="text-xs text-blue-700 mt-1">
+                                    {formatChange(diff.summary.targetFamilies - diff.summary.baseFamilies)} since {diff.base}
+                                </p>
+                            </div>
+                            <div className="bg-purple-50 rounded-lg p-4 border border-purple-100">
+                                <p className="text-sm text-purple-600 font-medium uppercase">Owners</p>
+                                <p className="text-2xl font-bold text-purple-900">{diff.summary.targetOwners.toLocaleString()}</p>
+                                <p className="text-xs text-purple-700 mt-1">
+                                    {formatChange(diff.summary.targetOwners - diff.summary.baseOwners)} since {diff.base}
+                                </p>
+                            </div>
+                            <div className="bg-green-50 rounded-lg p-4 border border-green-100">
+                                <p className="text-sm text-green-600 font-medium uppercase">New Owners</p>
+                                <p className="text-2xl font-bold text-green-900">{diff.newOwners.length.toLocaleString()}</p>
+                            </div>
+                            <div className="bg-amber-50 rounded-lg p-4 border border-amber-100">
+                                <p className="text-sm text-amber-600 font-medium uppercase">New CPC Codes</p>
+                                <p className="text-2xl font-bold text-amber-900">{diff.newCpcCodes.length.toLocaleString()}</p>
+                            </div>
+                        </div>
+                        {diff.warnings.map(warning => (
+                            <p key={warning} className="text-sm text-amber-700 mt-4">{warning}</p>
+                        ))}
+                    </div>
+
+                    <div className="card">
+                        <DataTable data={countryTableData} title="Family Country Changes" maxRows={TABLE_MAX_ROWS} />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div className="card">
+                            <DataTable data={newOwnerTableData} title="New Owners" maxRows={TABLE_MAX_ROWS} />
+                        </div>
+                        <div className="card">
+                            <DataTable data={droppedOwnerTableData} title="Owners No Longer Present" maxRows={TABLE_MAX_ROWS} />
+                        </div>
+                    </div>
+
+                    <div className="card">
+                        <DataTable data={newCodeTableData} title="New CPC Codes" maxRows={TABLE_MAX_ROWS} />
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
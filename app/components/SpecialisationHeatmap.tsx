@@ -0,0 +1,205 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
+import type { Datum } from 'plotly.js'
+import DataTable from './DataTable'
+import LimitControl from './LimitControl'
+import { categoryQuery } from '../lib/categories'
+import { SPECIALISATION_LIMITS, defaultLimits, withLimits } from '../lib/limits'
+import type { LimitValues } from '../lib/limits'
+import { classificationTitle, withClassificationLevel } from '../lib/classification'
+import type { ClassificationDescriptions, ClassificationLevel } from '../lib/classification'
+
+// Dynamically import Plot with no SSR to prevent hydration errors
+const Plot = dynamic(
+    () => import('react-plotly.js'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="flex items-center justify-center h-96">
+                <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+            </div>
+        )
+    }
+)
+
+// Constants
+const HEATMAP_MIN_HEIGHT = 360
+const HEATMAP_ROW_HEIGHT = 26
+const OWNER_LABEL_LENGTH = 30
+// Blue below the landscape average, white at it, red above
+const DIVERGING_SCALE: Array<[number, string]> = [
+    [0, '#2166ac'],
+    [0.5, '#f7f7f7'],
+    [1, '#b2182b'],
+]
+
+// Interfaces
+interface SpecialisationRow {
+    owner: string
+    total: number
+    assignments: number
+    counts: Record<string, number>
+    rta: Record<string, number>
+    symmetric: Record<string, number>
+    strongest: string | null
+}
+
+interface SpecialisationData {
+    codes: string[]
+    landscapeShares: Record<string, number>
+    rows: SpecialisationRow[]
+    descriptions: ClassificationDescriptions
+}
+
+interface SpecialisationResponse {
+    success: boolean
+    data?: SpecialisationData
+    error?: string
+}
+
+interface SpecialisationHeatmapProps {
+    category: string
+    snapshot: string | null
+    scheme: 'ipc' | 'cpc'
+    level: ClassificationLevel
+    parent: string | null
+}
+
+function truncateOwnerName(name: string): string {
+    return name.length > OWNER_LABEL_LENGTH ? `${name.slice(0, OWNER_LABEL_LENGTH - 1)}…` : name
+}
+
+export default function SpecialisationHeatmap({ category, snapshot, scheme, level, parent }: SpecialisationHeatmapProps) {
+    const [data, setData] = useState<SpecialisationData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [limits, setLimits] = useState<LimitValues<typeof SPECIALISATION_LIMITS>>(defaultLimits(SPECIALISATION_LIMITS))
+
+    useEffect(() => {
+        const fetchSpecialisation = async () => {
+            try {
+                setLoading(true)
+                setError(null)
+                const query = withClassificationLevel(
+                    withLimits(`${categoryQuery(category, snapshot)}&scheme=${scheme}`, SPECIALISATION_LIMITS, limits),
+                    level,
+                    parent
+                )
+                const response = await fetch(`/api/classification/specialisation?${query}`)
+                const result: SpecialisationResponse = await response.json()
+
+                if (result.success && result.data) {
+                    setData(result.data)
+                } else {
+                    setData(null)
+                    setError(result.error || 'Failed to load specialisation data')
+                }
+            } catch (err) {
+                setError('Failed to fetch specialisation data')
+                console.error('Fetch error:', err)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchSpecialisation()
+    }, [category, snapshot, scheme, level, parent, limits])
+
+    const heatmapData = useMemo(() => {
+        if (!data || data.rows.length === 0) return null
+
+        return {
+            type: 'heatmap' as const,
+            x: data.codes,
+            y: data.rows.map(row => truncateOwnerName(row.owner)),
+            z: data.rows.map(row => data.codes.map(code => row.symmetric[code])),
+            customdata: data.rows.map(row => data.codes.map(code => [
+                row.owner,
+                classificationTitle(code, data.descriptions),
+                row.counts[code],
+                row.rta[code].toFixed(2),
+            ])) as unknown as Datum[][],
+            hovertemplate: '<b>%{customdata[0]}</b><br>%{customdata[1]}<br>' +
+                'Records: %{customdata[2]}<br>RTA: %{customdata[3]}<extra></extra>',
+            colorscale: DIVERGING_SCALE,
+            zmin: -1,
+            zmid: 0,
+            zmax: 1,
+            colorbar: {
+                title: { text: 'Specialisation' },
+                tickvals: [-1, 0, 1],
+                ticktext: ['Absent', 'Average', 'Specialised'],
+            },
+            xgap: 1,
+            ygap: 1,
+        }
+    }, [data])
+
+    const heatmapHeight = Math.max(HEATMAP_MIN_HEIGHT, (data?.rows.length || 0) * HEATMAP_ROW_HEIGHT + 160)
+
+    const tableData = useMemo(() => (data?.rows || []).map(row => ({
+        'Owner': row.owner,
+        'Records': row.total,
+        'Most Specialised In': row.strongest ? classificationTitle(row.strongest, data!.descriptions) : '—',
+        'RTA': row.strongest ? Number(row.rta[row.strongest].toFixed(2)) : 0,
+    })), [data])
+
+    const label = scheme.toUpperCase()
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                <h2 className="text-2xl font-bold text-gray-900">🎯 {label} Specialisation by Owner</h2>
+                <div className="flex flex-wrap gap-4">
+                    {(Object.keys(SPECIALISATION_LIMITS) as Array<keyof typeof SPECIALISATION_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={SPECIALISATION_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => setLimits(prev => ({ ...prev, [key]: value }))}
+                        />
+                    ))}
+                </div>
+            </div>
+            <p className="text-gray-600 mb-6 text-sm italic">
+                Revealed technological advantage: an owner&apos;s share of its classifications in a code divided by
+                that code&apos;s share across all owners. Red cells mark codes an owner concentrates on more than the
+                landscape does (RTA above 1), blue cells codes it under-represents.
+            </p>
+
+            {error && (
+                <div className="border-l-4 border-red-500 bg-red-50 p-4 mb-4">
+                    <p className="text-red-700 font-medium">{error}</p>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex items-center justify-center h-48">
+                    <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600"></div>
+                </div>
+            ) : heatmapData && (
+                <>
+                    <div className="w-full overflow-x-auto" style={{ height: `${heatmapHeight}px` }}>
+                        <Plot
+                            data={[heatmapData]}
+                            layout={{
+                                height: heatmapHeight,
+                                xaxis: { side: 'top' as const, tickangle: -45 },
+                                yaxis: { autorange: 'reversed' as const, automargin: true },
+                                margin: { l: 200, t: 120, r: 20, b: 20 },
+                                paper_bgcolor: '#ffffff',
+                            }}
+                            config={{ responsive: true, displaylogo: false }}
+                            style={{ width: '100%', height: '100%' }}
+                        />
+                    </div>
+                    <div className="mt-6">
+                        <DataTable data={tableData} title={`${label} Specialisation`} maxRows={limits.topOwners} />
+                    </div>
+                </>
+            )}
+        </>
+    )
+}
@@ -2,9 +2,14 @@
 
 import React, { useEffect, useState, useMemo } from 'react'
 import dynamic from 'next/dynamic'
+import { categoryQuery } from '../lib/categories'
+import { withYearRange } from '../lib/yearRange'
+import type { YearRange } from '../lib/yearRange'
+import { TIMELINE_LIMITS, defaultLimits, withLimits } from '../lib/limits'
+import type { LimitValues } from '../lib/limits'
+import LimitControl from './LimitControl'
 
 // Dynamically import Plot with no SSR to prevent hydration errors
-// Note: 'as any' is required due to plotly-react type limitations
 const Plot = dynamic(
     () => import('react-plotly.js'),
     {
@@ -15,10 +20,11 @@ const Plot = dynamic(
             </div>
         )
     }
-) as any
+)
 
 // Constants
-const TOP_OWNERS_CHART_LIMIT = 8
+const HEATMAP_MIN_HEIGHT = 320
+const HEATMAP_ROW_HEIGHT = 24
 const BUBBLE_SIZE_MULTIPLIER = 8
 const MIN_BUBBLE_SIZE = 8
 
@@ -49,15 +55,17 @@ interface SummaryStats {
 
 interface ProcessedTimelineData {
     rawData: {
-        data: any[]
+        data: Record<string, string>[]
         years: string[]
         ownerKey: string
-        displayData: any[]
+        displayData: Record<string, string>[]
     }
     longFormatData: LongFormatData[]
     yearTotals: YearTotal[]
     topOwners: OwnerTotal[]
     summaryStats: SummaryStats
+    filingYears: YearTotal[]
+    publicationYears: YearTotal[]
 }
 
 interface TimelineResponse {
@@ -73,24 +81,25 @@ function truncateOwnerName(name: string): string {
     return words.slice(0, 2).join(' ') + '...'
 }
 
-export default function TimelineAnalysis() {
+interface TimelineAnalysisProps {
+    category: string
+    snapshot: string | null
+    yearRange: YearRange
+}
+
+export default function TimelineAnalysis({ category, snapshot, yearRange }: TimelineAnalysisProps) {
     const [timelineData, setTimelineData] = useState<ProcessedTimelineData | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
-    const [mounted, setMounted] = useState(false)
-
-    // Only render on client
-    useEffect(() => {
-        setMounted(true)
-    }, [])
+    const [limits, setLimits] = useState<LimitValues<typeof TIMELINE_LIMITS>>(defaultLimits(TIMELINE_LIMITS))
 
     useEffect(() => {
-        if (!mounted) return
-
         const fetchData = async () => {
             try {
                 setLoading(true)
-                const response = await fetch('/api/timeline')
+                const response = await fetch(
+                    `/api/timeline?${withLimits(withYearRange(categoryQuery(category, snapshot), yearRange), TIMELINE_LIMITS, limits)}`
+                )
                 const result: TimelineResponse = await response.json()
 
                 if (result.success && result.data) {
@@ -107,7 +116,7 @@ export default function TimelineAnalysis() {
         }
 
         fetchData()
-    }, [mounted])
+    }, [category, snapshot, yearRange, limits])
 
     // 1. Overall timeline chart data
     const overallTimelineData = useMemo(() => {
@@ -126,6 +135,28 @@ export default function TimelineAnalysis() {
         ]
     }, [timelineData])
 
+    // Filing vs publication activity, grouped bars per year
+    const activityData = useMemo(() => {
+        if (!timelineData || timelineData.publicationYears.length === 0) return []
+
+        return [
+            {
+                type: 'bar' as const,
+                x: timelineData.filingYears.map(yt => yt.year),
+                y: timelineData.filingYears.map(yt => yt.total),
+                marker: { color: '#10b981' },
+                name: 'Applications Filed',
+            },
+            {
+                type: 'bar' as const,
+                x: timelineData.publicationYears.map(yt => yt.year),
+                y: timelineData.publicationYears.map(yt => yt.total),
+                marker: { color: '#6366f1' },
+                name: 'Documents Published',
+            },
+        ]
+    }, [timelineData])
+
     // 2. Top owners bubble chart data
     const topOwnersTimelineData = useMemo(() => {
         if (!timelineData) return []
@@ -170,7 +201,7 @@ export default function TimelineAnalysis() {
                     colorscale: 'Viridis',
                     showscale: true,
                     colorbar: {
-                        title: 'Patents',
+                        title: { text: 'Patents' },
                         thickness: 15,
                         len: 0.7,
                     },
@@ -216,31 +247,42 @@ export default function TimelineAnalysis() {
             colorscale: [
                 [0, '#ffffff'],
                 [1, '#0c4a6e']
-            ],
+            ] as Array<[number, string]>,
             hoverongaps: false,
         }
     }, [timelineData])
 
     // Chart layouts (memoized)
     const overallLayout = useMemo(() => ({
-        title: 'Total Patent Applications by Year (All Current Owners)',
-        xaxis: { title: 'Year' },
-        yaxis: { title: 'Number of Patent Applications' },
+        title: { text: 'Total Patent Applications by Year (All Current Owners)' },
+        xaxis: { title: { text: 'Year' } },
+        yaxis: { title: { text: 'Number of Patent Applications' } },
+        height: 400,
+        plot_bgcolor: '#f9fafb',
+        paper_bgcolor: '#ffffff',
+    }), [])
+
+    const activityLayout = useMemo(() => ({
+        title: { text: 'Applications Filed vs Documents Published by Year' },
+        barmode: 'group' as const,
+        xaxis: { title: { text: 'Year' }, tickmode: 'linear' as const, dtick: 1 },
+        yaxis: { title: { text: 'Count' } },
         height: 400,
         plot_bgcolor: '#f9fafb',
         paper_bgcolor: '#ffffff',
+        legend: { orientation: 'h' as const, y: -0.2 },
     }), [])
 
     const topOwnersLayout = useMemo(() => ({
-        title: 'Patent Applications Timeline by Top Current Owners',
+        title: { text: 'Patent Applications Timeline by Top Current Owners' },
         xaxis: {
-            title: 'Year',
+            title: { text: 'Year' },
             tickmode: 'linear' as const,
             dtick: 1,
             side: 'bottom' as const,
         },
         yaxis: {
-            title: 'Current Owner',
+            title: { text: 'Current Owner' },
             automargin: true,
             side: 'left' as const,
         },
@@ -251,23 +293,25 @@ export default function TimelineAnalysis() {
         margin: { t: 80, b: 80, r: 20, l: 150 },
     }), [])
 
+    const heatmapHeight = Math.max(HEATMAP_MIN_HEIGHT, (heatmapData?.y.length || 0) * HEATMAP_ROW_HEIGHT + 150)
+
     const heatmapLayout = useMemo(() => ({
-        title: 'Patent Applications Heatmap (Top Owners)',
+        title: { text: 'Patent Applications Heatmap (Top Owners)' },
         xaxis: {
-            title: 'Year',
+            title: { text: 'Year' },
             side: 'top' as const,
             tickangle: -45,
         },
         yaxis: {
-            title: 'Current Owner',
+            title: { text: 'Current Owner' },
             side: 'left' as const,
             autorange: 'reversed' as const,
         },
-        height: 320,
+        height: heatmapHeight,
         plot_bgcolor: '#ffffff',
         paper_bgcolor: '#ffffff',
         margin: { l: 120, b: 50, t: 100 },
-    }), [])
+    }), [heatmapHeight])
 
     const defaultConfig = useMemo(() => ({
         responsive: true,
@@ -275,10 +319,6 @@ export default function TimelineAnalysis() {
         displaylogo: false,
     }), [])
 
-    if (!mounted) {
-        return null
-    }
-
     if (loading) {
         return (
             <div className="flex items-center justify-center h-96">
@@ -324,6 +364,17 @@ export default function TimelineAnalysis() {
                         activity for different organizations.
                     </p>
                 </div>
+
+                <div className="flex flex-wrap gap-6 mt-4">
+                    {(Object.keys(TIMELINE_LIMITS) as Array<keyof typeof TIMELINE_LIMITS>).map(key => (
+                        <LimitControl
+                            key={key}
+                            spec={TIMELINE_LIMITS[key]}
+                            value={limits[key]}
+                            onChange={value => setLimits(prev => ({ ...prev, [key]: value }))}
+                        />
+                    ))}
+                </div>
             </div>
 
             {/* Summary Stats */}
@@ -363,7 +414,7 @@ export default function TimelineAnalysis() {
             {/* Data Table */}
             <div className="card">
                 <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                    Sample Timeline Data (First 10 Owners)
+                    Sample Timeline Data (First {limits.displayRows} Owners)
                 </h2>
                 <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-gray-200">
@@ -423,11 +474,32 @@ export default function TimelineAnalysis() {
                 </div>
             )}
 
+            {/* Filing vs Publication Activity */}
+            {activityData.length > 0 && (
+                <div className="card">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                        Filing vs Publication Activity
+                    </h2>
+                    <p className="text-gray-600 mb-6 text-sm italic">
+                        Applications filed per year against documents published per year. Applications are published
+                        about 18 months after filing, so the latest filing years look low next to their publications.
+                    </p>
+
+                    <div className="w-full h-96">
+                        <Plot
+                            data={activityData}
+                            layout={activityLayout}
+                            config={defaultConfig}
+                        />
+                    </div>
+                </div>
+            )}
+
             {/* Top Owners Bubble Chart */}
             {topOwnersTimelineData.length > 0 && (
                 <div className="card">
                     <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                        Timeline by Top {TOP_OWNERS_CHART_LIMIT} Current Owners
+                        Timeline by Top {timelineData.topOwners.length} Current Owners
                     </h2>
                     <p className="text-gray-600 mb-6 text-sm italic">
                         Bubble size and color represents patent count
@@ -451,10 +523,10 @@ export default function TimelineAnalysis() {
                         Patent Activity Heatmap
                     </h2>
                     <p className="text-gray-600 mb-6 text-sm italic">
-                        Top {TOP_OWNERS_CHART_LIMIT} owners patent activity intensity over time
+                        Top {timelineData.topOwners.length} owners patent activity intensity over time
                     </p>
 
-                    <div className="w-full h-80 max-w-2xl mx-auto">
+                    <div className="w-full max-w-2xl mx-auto" style={{ height: `${heatmapHeight}px` }}>
                         <Plot
                             data={[heatmapData]}
                             layout={heatmapLayout}
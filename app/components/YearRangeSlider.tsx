@@ -0,0 +1,88 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { ALL_YEARS, describeYearRange } from '../lib/yearRange'
+import type { YearExtent, YearRange } from '../lib/yearRange'
+
+// Constants
+// Dragging emits a value per step; wait for the handle to settle before refetching
+const COMMIT_DELAY_MS = 300
+
+interface YearRangeSliderProps {
+    extent: YearExtent
+    value: YearRange
+    onChange: (range: YearRange) => void
+}
+
+export default function YearRangeSlider({ extent, value, onChange }: YearRangeSliderProps) {
+    const [from, setFrom] = useState(value.from ?? extent.min)
+    const [to, setTo] = useState(value.to ?? extent.max)
+
+    // Follow resets from the parent (e.g. a category switch)
+    const [followed, setFollowed] = useState({ value, extent })
+    if (followed.value !== value || followed.extent !== extent) {
+        setFollowed({ value, extent })
+        setFrom(value.from ?? extent.min)
+        setTo(value.to ?? extent.max)
+    }
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            // The full extent is sent as an open range so queries stay unfiltered
+            const next: YearRange = {
+                from: from > extent.min ? from : null,
+                to: to < extent.max ? to : null,
+            }
+            if (next.from !== value.from || next.to !== value.to) {
+                onChange(next)
+            }
+        }, COMMIT_DELAY_MS)
+
+        return () => clearTimeout(timer)
+    }, [from, to, extent, value, onChange])
+
+    const isFiltered = value.from !== null || value.to !== null
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-700">Years</span>
+                <span className="text-xs font-medium text-blue-700">
+                    {describeYearRange({ from, to })}
+                </span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="w-8">From</span>
+                <input
+                    type="range"
+                    min={extent.min}
+                    max={extent.max}
+                    value={from}
+                    onChange={e => setFrom(Math.min(Number(e.target.value), to))}
+                    className="flex-1 accent-blue-600"
+                    aria-label="First year"
+                />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="w-8">To</span>
+                <input
+                    type="range"
+                    min={extent.min}
+                    max={extent.max}
+                    value={to}
+                    onChange={e => setTo(Math.max(Number(e.target.value), from))}
+                    className="flex-1 accent-blue-600"
+                    aria-label="Last year"
+                />
+            </label>
+            {isFiltered && (
+                <button
+                    onClick={() => onChange(ALL_YEARS)}
+                    className="text-xs text-blue-600 hover:underline"
+                >
+                    Show all years ({extent.min} - {extent.max})
+                </button>
+            )}
+        </div>
+    )
+}
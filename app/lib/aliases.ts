@@ -0,0 +1,127 @@
+// app/lib/aliases.ts
+// Analyst-maintained name dictionaries under data/, shared by every category
+import fs from 'fs'
+import path from 'path'
+
+// Canonical name -> other spellings of the same owner or person
+export type AliasDictionary = Record<string, string[]>
+
+// Normalises a name into the key two spellings must share to be merged automatically
+export type NameKeyFunction = (name: string | null | undefined) => string
+
+export interface NameResolver {
+    // Grouping key: the canonical name's key when aliased, the name's own key otherwise
+    key: (name: string | null | undefined) => string
+    // Display name: the canonical name, or the first spelling seen for the key
+    label: (name: string | null | undefined) => string
+}
+
+function aliasFilePath(fileName: string): string {
+    return path.join(process.cwd(), 'data', fileName)
+}
+
+export function loadAliasFile(fileName: string): AliasDictionary {
+    const filePath = aliasFilePath(fileName)
+    if (!fs.existsSync(filePath)) return {}
+
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Could not read data/${fileName}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`data/${fileName} must map each canonical name to a list of variants`)
+    }
+
+    const aliases: AliasDictionary = {}
+    for (const [canonical, variants] of Object.entries(parsed as Record<string, unknown>)) {
+        aliases[canonical] = Array.isArray(variants) ? variants.map(String) : []
+    }
+    return aliases
+}
+
+export function saveAliasFile(fileName: string, aliases: AliasDictionary): void {
+    const sorted = Object.fromEntries(
+        Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b))
+    )
+    fs.writeFileSync(aliasFilePath(fileName), JSON.stringify(sorted, null, 2) + '\n')
+}
+
+/**
+ * Sets the variants of one canonical name; an empty list removes it. A
+ * variant already listed under another canonical name moves here, so every
+ * name resolves to exactly one entry.
+ */
+export function setAlias(
+    fileName: string,
+    keyOf: NameKeyFunction,
+    canonical: string,
+    variants: string[]
+): AliasDictionary {
+    const aliases = loadAliasFile(fileName)
+    const name = canonical.trim()
+    const keys = new Set(variants.map(keyOf).filter(Boolean))
+    keys.delete(keyOf(name))
+
+    for (const [other, otherVariants] of Object.entries(aliases)) {
+        if (other === name) continue
+        aliases[other] = otherVariants.filter(v => !keys.has(keyOf(v)))
+        if (keys.has(keyOf(other))) {
+            // The old canonical name itself becomes a variant of the new one
+            delete aliases[other]
+        }
+    }
+
+    const unique = variants
+        .map(v => v.trim())
+        .filter((v, idx, all) => v && keyOf(v) !== keyOf(name) && all.findIndex(o => keyOf(o) === keyOf(v)) === idx)
+
+    if (unique.length === 0) {
+        delete aliases[name]
+    } else {
+        aliases[name] = unique
+    }
+
+    saveAliasFile(fileName, aliases)
+    return aliases
+}
+
+/**
+ * Builds the name mapping one request uses across all its datasets. Labels
+ * are remembered per key, so the spelling shown is stable within a response.
+ */
+export function createNameResolver(aliases: AliasDictionary, keyOf: NameKeyFunction): NameResolver {
+    const canonicalByKey = new Map<string, string>()
+    for (const [canonical, variants] of Object.entries(aliases)) {
+        const canonicalKey = keyOf(canonical)
+        if (!canonicalKey) continue
+        canonicalByKey.set(canonicalKey, canonical)
+        for (const variant of variants) {
+            const variantKey = keyOf(variant)
+            if (variantKey) canonicalByKey.set(variantKey, canonical)
+        }
+    }
+
+    const labels = new Map<string, string>()
+
+    const key = (name: string | null | undefined): string => {
+        const own = keyOf(name)
+        const canonical = canonicalByKey.get(own)
+        return canonical ? keyOf(canonical) : own
+    }
+
+    const label = (name: string | null | undefined): string => {
+        const own = keyOf(name)
+        const canonical = canonicalByKey.get(own)
+        if (canonical) return canonical
+
+        const trimmed = String(name ?? '').replace(/["']/g, '').trim()
+        if (!own) return trimmed
+        if (!labels.has(own)) labels.set(own, trimmed)
+        return labels.get(own)!
+    }
+
+    return { key, label }
+}
@@ -0,0 +1,33 @@
+// app/lib/categories.ts
+// Shared by the page and the API routes, so this module must stay free of Node imports.
+
+export interface QuantumCategory {
+    id: string
+    label: string
+    class: string
+    // Folder under data/ holding the category's raw/ and processed/ exports
+    dataDir: string
+}
+
+export const DEFAULT_CATEGORY = 'kvantealgoritmer'
+
+// Quantum category configurations
+export const QUANTUM_CATEGORIES: QuantumCategory[] = [
+    { id: 'kvantedatamaskinvare', label: 'Kvantedatamaskinvare', class: 'G06N10/00', dataDir: 'categories/kvantedatamaskinvare' },
+    // The original landscape lives directly in data/raw and data/processed
+    { id: 'kvantealgoritmer', label: 'Kvantealgoritmer', class: 'G06N10/20', dataDir: '' },
+    { id: 'quantum-sensors', label: 'Quantum Sensors', class: 'G01N', dataDir: 'categories/quantum-sensors' },
+    { id: 'quantum-materials', label: 'Quantum Materials', class: 'C01B', dataDir: 'categories/quantum-materials' },
+    { id: 'kvanteenheter', label: 'Kvanteenheter', class: 'G06N10/40', dataDir: 'categories/kvanteenheter' },
+    { id: 'optiske-kvanteteknologier', label: 'Optiske kvanteteknologier', class: 'G02F', dataDir: 'categories/optiske-kvanteteknologier' },
+]
+
+export function findCategory(id: string | null | undefined): QuantumCategory | undefined {
+    return QUANTUM_CATEGORIES.find(category => category.id === (id || DEFAULT_CATEGORY))
+}
+
+// Query string used by the analysis modules when calling the API routes; no snapshot means the live exports
+export function categoryQuery(categoryId: string, snapshot?: string | null): string {
+    const query = `category=${encodeURIComponent(categoryId)}`
+    return snapshot ? `${query}&snapshot=${encodeURIComponent(snapshot)}` : query
+}
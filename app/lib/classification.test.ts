@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import {
+    classificationAtLevel,
+    classificationTree,
+    isWithinClassification,
+    levelOfClassification,
+    parentClassification,
+    rollUpClassification,
+    splitClassificationLabel,
+} from './classification'
+
+describe('classificationAtLevel', () => {
+    it('rolls a subgroup up to each broader level', () => {
+        expect(classificationAtLevel('G06N10/40', 'section')).toBe('G')
+        expect(classificationAtLevel('G06N10/40', 'class')).toBe('G06')
+        expect(classificationAtLevel('G06N10/40', 'subclass')).toBe('G06N')
+        expect(classificationAtLevel('G06N10/40', 'mainGroup')).toBe('G06N10/00')
+        expect(classificationAtLevel('G06N10/40', 'subgroup')).toBe('G06N10/40')
+    })
+
+    it('keeps codes already broader than the level and codes that do not parse', () => {
+        expect(classificationAtLevel('G06N', 'subgroup')).toBe('G06N')
+        expect(classificationAtLevel('H01L', 'mainGroup')).toBe('H01L')
+        expect(classificationAtLevel('Total', 'subclass')).toBe('Total')
+    })
+
+    it('ignores spacing and case', () => {
+        expect(classificationAtLevel('g06n 10/40', 'mainGroup')).toBe('G06N10/00')
+    })
+})
+
+describe('levelOfClassification', () => {
+    it('reads main groups from their "/00" suffix', () => {
+        expect(levelOfClassification('G06N10/00')).toBe('mainGroup')
+        expect(levelOfClassification('G06N10/40')).toBe('subgroup')
+        expect(levelOfClassification('G06N')).toBe('subclass')
+        expect(levelOfClassification('Application Year')).toBeNull()
+    })
+})
+
+describe('parentClassification', () => {
+    it('walks one level up at a time', () => {
+        expect(parentClassification('G06N10/40')).toBe('G06N10/00')
+        expect(parentClassification('G06N10/00')).toBe('G06N')
+        expect(parentClassification('G06N')).toBe('G06')
+        expect(parentClassification('G')).toBeNull()
+    })
+})
+
+describe('isWithinClassification', () => {
+    it('matches descendants of the parent and the parent itself', () => {
+        expect(isWithinClassification('G06N10/40', 'G06N')).toBe(true)
+        expect(isWithinClassification('G06N10/40', 'G06N10/00')).toBe(true)
+        expect(isWithinClassification('G06N', 'G06N')).toBe(true)
+        expect(isWithinClassification('G06N20/00', 'G06N10/00')).toBe(false)
+        expect(isWithinClassification('H01L39/22', 'G06N')).toBe(false)
+    })
+})
+
+describe('splitClassificationLabel', () => {
+    it('splits PatSeer labels at the first colon', () => {
+        expect(splitClassificationLabel('"G06N10/40 : Physical realisations: superconducting"')).toEqual({
+            code: 'G06N10/40',
+            description: 'Physical realisations: superconducting',
+        })
+        expect(splitClassificationLabel('G06N10/40')).toEqual({ code: 'G06N10/40', description: '' })
+        expect(splitClassificationLabel(null)).toEqual({ code: '', description: '' })
+    })
+})
+
+describe('rollUpClassification', () => {
+    it('reports labels at the requested level', () => {
+        const hierarchy = { level: 'subclass' as const, parent: null }
+
+        expect(rollUpClassification('G06N10/40 : Physical realisations', hierarchy)).toBe('G06N')
+        expect(rollUpClassification('H01L39/22 : Josephson devices', hierarchy)).toBe('H01L')
+        expect(rollUpClassification('', hierarchy)).toBeNull()
+    })
+
+    it('drops labels outside the drill-down parent', () => {
+        const hierarchy = { level: 'mainGroup' as const, parent: 'G06N' }
+
+        expect(rollUpClassification('G06N10/40 : Physical realisations', hierarchy)).toBe('G06N10/00')
+        expect(rollUpClassification('G06N20/00 : Machine learning', hierarchy)).toBe('G06N20/00')
+        expect(rollUpClassification('H01L39/22 : Josephson devices', hierarchy)).toBeNull()
+    })
+})
+
+describe('classificationTree', () => {
+    it('adds each leaf count to every ancestor', () => {
+        const nodes = classificationTree([['G06N10/40', 3], ['G06N10/20', 2], ['H01L39/22', 1], ['Total', 6]])
+        const values = Object.fromEntries(nodes.map(node => [node.id, node.value]))
+
+        expect(values).toEqual({
+            'G06N10/40': 3,
+            'G06N10/20': 2,
+            'G06N10/00': 5,
+            'G06N': 5,
+            'G06': 5,
+            'G': 5,
+            'H01L39/22': 1,
+            'H01L39/00': 1,
+            'H01L': 1,
+            'H01': 1,
+            'H': 1,
+        })
+        expect(nodes.find(node => node.id === 'G')?.parent).toBe('')
+        expect(nodes.find(node => node.id === 'G06N10/40')?.parent).toBe('G06N10/00')
+    })
+
+    it('keeps only codes under the root and makes it the outermost node', () => {
+        const nodes = classificationTree([['G06N10/40', 3], ['G06N20/00', 4], ['H01L39/22', 1]], 'G06N10')
+
+        expect(nodes).toEqual([
+            { id: 'G06N10/40', parent: 'G06N10/00', value: 3 },
+            { id: 'G06N10/00', parent: '', value: 3 },
+        ])
+    })
+})
@@ -0,0 +1,183 @@
+// app/lib/classification.ts
+// IPC/CPC code hierarchy shared by the classification route and its component, so no Node imports here
+
+// Constants
+// From broadest to narrowest: G / G06 / G06N / G06N10/00 / G06N10/40
+export const CLASSIFICATION_LEVELS = ['section', 'class', 'subclass', 'mainGroup', 'subgroup'] as const
+
+export type ClassificationLevel = typeof CLASSIFICATION_LEVELS[number]
+
+export const DEFAULT_CLASSIFICATION_LEVEL: ClassificationLevel = 'subgroup'
+
+export const CLASSIFICATION_LEVEL_LABELS: Record<ClassificationLevel, string> = {
+    section: 'Section',
+    class: 'Class',
+    subclass: 'Subclass',
+    mainGroup: 'Main group',
+    subgroup: 'Subgroup',
+}
+
+// Level to report codes at, optionally restricted to the descendants of one code
+export interface ClassificationHierarchy {
+    level: ClassificationLevel
+    parent: string | null
+}
+
+// One box of a treemap/sunburst; `parent` is '' for the outermost nodes
+export interface ClassificationNode {
+    id: string
+    parent: string
+    // Records of the code and everything under it
+    value: number
+}
+
+// Code -> title, as PatSeer writes it after the code in headers and row labels
+export type ClassificationDescriptions = Record<string, string>
+
+// Section letter, class digits, subclass letter, main group, subgroup: "G 06 N 10 / 40"
+const CODE_PATTERN = /^([A-HY])(\d{2})?([A-Z])?(\d{1,4})?(?:\/(\d{2,6}))?$/
+
+interface CodeParts {
+    section: string
+    classDigits?: string
+    subclassLetter?: string
+    group?: string
+    subgroup?: string
+}
+
+function parseCode(code: string): CodeParts | null {
+    const match = code.replace(/\s+/g, '').toUpperCase().match(CODE_PATTERN)
+    if (!match) return null
+    return {
+        section: match[1],
+        classDigits: match[2],
+        subclassLetter: match[3],
+        group: match[4],
+        subgroup: match[5],
+    }
+}
+
+export function isClassificationLevel(value: string | null | undefined): value is ClassificationLevel {
+    return CLASSIFICATION_LEVELS.includes(value as ClassificationLevel)
+}
+
+/**
+ * The ancestor of a code at the given level: `G06N10/40` is `G06N` at
+ * subclass level and `G06N10/00` at main-group level. Codes that do not parse
+ * are returned unchanged, as are codes already broader than the level.
+ */
+export function classificationAtLevel(code: string, level: ClassificationLevel): string {
+    const parts = parseCode(code)
+    if (!parts) return code
+
+    const cls = parts.section + (parts.classDigits ?? '')
+    const subclass = cls + (parts.subclassLetter ?? '')
+    const mainGroup = parts.group ? `${subclass}${parts.group}/00` : subclass
+
+    switch (level) {
+        case 'section': return parts.section
+        case 'class': return parts.classDigits ? cls : parts.section
+        case 'subclass': return parts.subclassLetter ? subclass : cls
+        case 'mainGroup': return mainGroup
+        case 'subgroup': return parts.group ? `${subclass}${parts.group}/${parts.subgroup ?? '00'}` : mainGroup
+    }
+}
+
+// The narrowest level a code spells out; main groups are written with "/00"
+export function levelOfClassification(code: string): ClassificationLevel | null {
+    const parts = parseCode(code)
+    if (!parts) return null
+    if (parts.group) return parts.subgroup && !/^0+$/.test(parts.subgroup) ? 'subgroup' : 'mainGroup'
+    if (parts.subclassLetter) return 'subclass'
+    if (parts.classDigits) return 'class'
+    return 'section'
+}
+
+// Whether a code sits under (or is) the given ancestor, e.g. G06N10/40 under G06N
+export function isWithinClassification(code: string, parent: string): boolean {
+    const parentLevel = levelOfClassification(parent)
+    if (!parentLevel) return false
+    return classificationAtLevel(code, parentLevel) === classificationAtLevel(parent, parentLevel)
+}
+
+// The level one step narrower, or null at subgroup level
+export function nextClassificationLevel(level: ClassificationLevel): ClassificationLevel | null {
+    return CLASSIFICATION_LEVELS[CLASSIFICATION_LEVELS.indexOf(level) + 1] ?? null
+}
+
+// The code one level up (G06N10/40 -> G06N10/00 -> G06N), or null for a section
+export function parentClassification(code: string): string | null {
+    const level = levelOfClassification(code)
+    if (!level) return null
+    for (let i = CLASSIFICATION_LEVELS.indexOf(level) - 1; i >= 0; i--) {
+        const ancestor = classificationAtLevel(code, CLASSIFICATION_LEVELS[i])
+        if (ancestor !== code) return ancestor
+    }
+    return null
+}
+
+/**
+ * Builds the section > class > subclass > group tree over leaf code counts,
+ * each node carrying its own count plus its descendants'. With a root, only
+ * codes under it are kept and the root is the single outermost node.
+ */
+export function classificationTree(counts: Array<[string, number]>, root: string | null = null): ClassificationNode[] {
+    const nodes = new Map<string, ClassificationNode>()
+    // Spell the root the way ancestors are spelled, e.g. G06N10 as G06N10/00
+    const rootLevel = root ? levelOfClassification(root) : null
+    if (root && rootLevel) root = classificationAtLevel(root, rootLevel)
+
+    for (const [code, count] of counts) {
+        if (!levelOfClassification(code) || count <= 0) continue
+        if (root && !isWithinClassification(code, root)) continue
+
+        let current: string | null = code
+        while (current) {
+            const parent: string | null = current === root ? null : parentClassification(current)
+            const node = nodes.get(current) ?? { id: current, parent: parent ?? '', value: 0 }
+            node.value += count
+            nodes.set(current, node)
+            current = parent
+        }
+    }
+
+    return Array.from(nodes.values())
+}
+
+// Appends a non-default level and any drill-down parent to an existing query string
+export function withClassificationLevel(query: string, level: ClassificationLevel, parent: string | null): string {
+    const params = new URLSearchParams()
+    if (level !== DEFAULT_CLASSIFICATION_LEVEL) params.set('level', level)
+    if (parent) params.set('parent', parent)
+    return [query, params.toString()].filter(Boolean).join('&')
+}
+
+/**
+ * Splits a PatSeer label into code and title:
+ * `"G06N10/40 : Physical realisations..."` -> `G06N10/40` and the title.
+ * Labels without a title have an empty description.
+ */
+export function splitClassificationLabel(label: string | null | undefined): { code: string, description: string } {
+    if (!label) return { code: '', description: '' }
+    const cleaned = String(label).replace(/^["']|["']$/g, '').trim()
+    const separator = cleaned.indexOf(':')
+    if (separator === -1) return { code: cleaned, description: '' }
+    return {
+        code: cleaned.slice(0, separator).trim(),
+        description: cleaned.slice(separator + 1).trim(),
+    }
+}
+
+// Code of a header or row label at the hierarchy's level, or null when outside its parent
+export function rollUpClassification(label: string | null | undefined, hierarchy: ClassificationHierarchy): string | null {
+    const { code } = splitClassificationLabel(label)
+    if (!code) return null
+    if (hierarchy.parent && !isWithinClassification(code, hierarchy.parent)) return null
+    return classificationAtLevel(code, hierarchy.level)
+}
+
+// "G06N10/40: Physical realisations..." for tooltips and legends; the bare code when untitled
+export function classificationTitle(code: string, descriptions: ClassificationDescriptions): string {
+    const description = descriptions[code]
+    return description ? `${code}: ${description}` : code
+}
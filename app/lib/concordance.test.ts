@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { buildConcordance } from './concordance'
+
+const ipcCounts = new Map([['G06N10/00', 10], ['H01L39/22', 3], ['B82Y10/00', 2]])
+
+describe('buildConcordance', () => {
+    it('maps CPC codes to the IPC code itself or its nearest IPC ancestor', () => {
+        const rows = buildConcordance(ipcCounts, new Map([['G06N10/00', 8], ['G06N10/40', 5]]))
+
+        expect(rows[0]).toEqual({
+            ipcCode: 'G06N10/00',
+            ipcCount: 10,
+            cpcCount: 13,
+            cpcCodes: [
+                { code: 'G06N10/00', count: 8, kind: 'shared' },
+                { code: 'G06N10/40', count: 5, kind: 'refinement' },
+            ],
+        })
+    })
+
+    it('recognises 2000-series indexing codes and anchors codes without IPC records structurally', () => {
+        const rows = buildConcordance(ipcCounts, new Map([['H01L2224/48091', 2], ['G06F15/78', 4], ['G06F', 1]]))
+        const byIpc = new Map(rows.map(row => [row.ipcCode, row]))
+
+        expect(byIpc.get('H01L2224/00')?.cpcCodes).toEqual([{ code: 'H01L2224/48091', count: 2, kind: 'indexing' }])
+        expect(byIpc.get('G06F15/00')).toMatchObject({ ipcCount: 0, cpcCount: 4 })
+        expect(byIpc.get('G06F')?.cpcCodes).toEqual([{ code: 'G06F', count: 1, kind: 'refinement' }])
+    })
+
+    it('groups Y-section tags on their own after the IPC rows', () => {
+        const rows = buildConcordance(ipcCounts, new Map([['Y10S977/00', 20], ['G06N10/40', 1]]))
+
+        expect(rows[rows.length - 1]).toEqual({
+            ipcCode: null,
+            ipcCount: 0,
+            cpcCount: 20,
+            cpcCodes: [{ code: 'Y10S977/00', count: 20, kind: 'tagging' }],
+        })
+    })
+
+    it('keeps IPC codes nothing maps to and orders rows by the larger count', () => {
+        const rows = buildConcordance(ipcCounts, new Map([['G06F15/78', 4], ['G06N10/40', 1]]))
+
+        expect(rows.map(row => [row.ipcCode, row.ipcCount, row.cpcCount])).toEqual([
+            ['G06N10/00', 10, 1],
+            ['G06F15/00', 0, 4],
+            ['H01L39/22', 3, 0],
+            ['B82Y10/00', 2, 0],
+        ])
+    })
+})
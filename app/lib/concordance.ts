@@ -0,0 +1,91 @@
+// app/lib/concordance.ts
+// IPC <-> CPC concordance shared by the classification route and its component, so no Node imports here
+import { levelOfClassification, parentClassification } from './classification'
+
+// Interfaces
+// How a CPC code relates to IPC:
+//   shared      the same code is in the IPC counts
+//   refinement  CPC subdivides an IPC code further; counted under its nearest IPC ancestor
+//   indexing    CPC 2000-series indexing code (e.g. H01L2224/48091), IPC has no equivalent
+//   tagging     Y section cross-sectional tag, no IPC parent at all
+export type ConcordanceKind = 'shared' | 'refinement' | 'indexing' | 'tagging'
+
+export interface ConcordanceCode {
+    code: string
+    count: number
+    kind: ConcordanceKind
+}
+
+export interface ConcordanceRow {
+    // IPC parent the CPC codes map to; null for the Y-section tags
+    ipcCode: string | null
+    ipcCount: number
+    // Sum over the mapped CPC codes, so a record classified in two of them counts twice
+    cpcCount: number
+    cpcCodes: ConcordanceCode[]
+}
+
+export const CONCORDANCE_KIND_LABELS: Record<ConcordanceKind, string> = {
+    shared: 'Same code in IPC',
+    refinement: 'CPC refinement',
+    indexing: 'CPC indexing code',
+    tagging: 'Y-section tag',
+}
+
+// CPC-only indexing schemes use main groups numbered from 2000 within a subclass
+function isIndexingCode(code: string): boolean {
+    return /^[A-H]\d{2}[A-Z]2\d{3}\//.test(code)
+}
+
+/**
+ * Maps each CPC code to its IPC parent by prefix: the code itself when IPC
+ * has it, otherwise the nearest ancestor with IPC records, otherwise the
+ * nearest ancestor IPC could have (CPC is an extension of IPC, so above the
+ * CPC-only subdivisions the codes are the same). Y-section codes have no IPC
+ * counterpart and are grouped on their own. IPC codes nothing maps to get a
+ * row with no CPC counts. Rows are ordered by the larger of the two counts.
+ */
+export function buildConcordance(ipcCounts: Map<string, number>, cpcCounts: Map<string, number>): ConcordanceRow[] {
+    const rows = new Map<string | null, ConcordanceRow>()
+    const rowFor = (ipcCode: string | null) => {
+        let row = rows.get(ipcCode)
+        if (!row) {
+            row = { ipcCode, ipcCount: ipcCode ? ipcCounts.get(ipcCode) ?? 0 : 0, cpcCount: 0, cpcCodes: [] }
+            rows.set(ipcCode, row)
+        }
+        return row
+    }
+
+    for (const [code, count] of cpcCounts) {
+        let ipcCode: string | null = null
+        let kind: ConcordanceKind
+        if (code.startsWith('Y')) {
+            kind = 'tagging'
+        } else if (ipcCounts.has(code)) {
+            ipcCode = code
+            kind = 'shared'
+        } else {
+            kind = isIndexingCode(code) ? 'indexing' : 'refinement'
+            let ancestor = parentClassification(code)
+            while (ancestor && !ipcCounts.has(ancestor)) ancestor = parentClassification(ancestor)
+            ipcCode = ancestor ?? structuralParent(code)
+        }
+
+        const row = rowFor(ipcCode)
+        row.cpcCount += count
+        row.cpcCodes.push({ code, count, kind })
+    }
+
+    for (const code of ipcCounts.keys()) rowFor(code)
+
+    for (const row of rows.values()) row.cpcCodes.sort((a, b) => b.count - a.count)
+    return Array.from(rows.values()).sort((a, b) => {
+        if ((a.ipcCode === null) !== (b.ipcCode === null)) return a.ipcCode === null ? 1 : -1
+        return Math.max(b.ipcCount, b.cpcCount) - Math.max(a.ipcCount, a.cpcCount)
+    })
+}
+
+// With no IPC records to anchor to, subgroups map to their main group and broader codes to themselves
+function structuralParent(code: string): string {
+    return levelOfClassification(code) === 'subgroup' ? parentClassification(code) ?? code : code
+}
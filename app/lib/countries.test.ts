@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+    createTerritoryResolver,
+    findCountry,
+    findPatentOffice,
+    findTerritory,
+    territoryName,
+    unknownCodeDiagnostic,
+} from './countries'
+
+describe('findCountry', () => {
+    it('finds countries by alpha-2, alpha-3 and common aliases', () => {
+        const norway = { iso2: 'NO', iso3: 'NOR', name: 'Norway' }
+
+        expect(findCountry('NO')).toEqual(norway)
+        expect(findCountry('nor')).toEqual(norway)
+        expect(findCountry(' no ')).toEqual(norway)
+        expect(findCountry('UK')?.iso2).toBe('GB')
+        expect(findCountry('EL')?.iso2).toBe('GR')
+    })
+
+    it('does not treat office codes as countries', () => {
+        expect(findCountry('EP')).toBeNull()
+        expect(findCountry('WO')).toBeNull()
+    })
+})
+
+describe('findPatentOffice', () => {
+    it('knows regional, international and former offices', () => {
+        expect(findPatentOffice('EP')).toEqual({ code: 'EP', name: 'European Patent Office', kind: 'regional' })
+        expect(findPatentOffice('PCT')?.code).toBe('WO')
+        expect(findPatentOffice('SU')?.kind).toBe('former')
+        expect(findPatentOffice('NO')).toBeNull()
+    })
+})
+
+describe('findTerritory', () => {
+    it('tags each code as a country or an office', () => {
+        expect(findTerritory('FI')).toEqual({ type: 'country', iso2: 'FI', iso3: 'FIN', name: 'Finland' })
+        expect(findTerritory('EA')).toMatchObject({ type: 'office', kind: 'regional' })
+        expect(findTerritory('XX')).toBeNull()
+    })
+
+    it('names unknown codes as they are written', () => {
+        expect(territoryName('DD')).toBe('German Democratic Republic')
+        expect(territoryName(' XX ')).toBe('XX')
+    })
+})
+
+describe('createTerritoryResolver', () => {
+    it('tallies the records of unknown codes, most records first', () => {
+        const resolver = createTerritoryResolver()
+
+        expect(resolver.resolve('NO', 5)?.name).toBe('Norway')
+        expect(resolver.resolve('XX', 2)).toBeNull()
+        expect(resolver.resolve('ZZ', 4)).toBeNull()
+        expect(resolver.resolve('xx ')).toBeNull()
+
+        expect(resolver.unknown()).toEqual([{ code: 'ZZ', records: 4 }, { code: 'XX', records: 3 }])
+    })
+})
+
+describe('unknownCodeDiagnostic', () => {
+    it('lists unknown codes in one warning', () => {
+        expect(unknownCodeDiagnostic([])).toBeNull()
+        expect(unknownCodeDiagnostic([{ code: 'ZZ', records: 4 }, { code: 'XX', records: 3 }])).toEqual({
+            level: 'warning',
+            message: '2 unrecognised country code(s), left off the map: ZZ (4), XX (3)',
+        })
+    })
+})
@@ -0,0 +1,388 @@
+// app/lib/countries.ts
+// Country and patent-office reference data shared by the geographic and entity routes and their components, so no Node imports here
+import type { ParseDiagnostic } from './datasets/types'
+
+// Interfaces
+export interface CountryInfo {
+    iso2: string
+    iso3: string
+    name: string
+}
+
+// Filing systems that appear where a country code is expected:
+//   regional       grants for a group of member states (EP, EA, AP, OA, GC...)
+//   international  applications not yet in any national phase (WO)
+//   former         codes of states that no longer exist, still found on old publications
+export type PatentOfficeKind = 'regional' | 'international' | 'former'
+
+export interface PatentOffice {
+    code: string
+    name: string
+    kind: PatentOfficeKind
+}
+
+export type Territory =
+    | ({ type: 'country' } & CountryInfo)
+    | ({ type: 'office' } & PatentOffice)
+
+export interface UnknownCode {
+    code: string
+    records: number
+}
+
+export interface TerritoryResolver {
+    // null for a code neither table knows, which is then tallied with its records
+    resolve(code: string, records?: number): Territory | null
+    // Unknown codes seen so far, most records first
+    unknown(): UnknownCode[]
+}
+
+// Constants
+// ISO 3166-1: alpha-2, alpha-3, short name
+const ISO_3166: Array<[string, string, string]> = [
+    ['AD', 'AND', 'Andorra'],
+    ['AE', 'ARE', 'United Arab Emirates'],
+    ['AF', 'AFG', 'Afghanistan'],
+    ['AG', 'ATG', 'Antigua and Barbuda'],
+    ['AI', 'AIA', 'Anguilla'],
+    ['AL', 'ALB', 'Albania'],
+    ['AM', 'ARM', 'Armenia'],
+    ['AO', 'AGO', 'Angola'],
+    ['AQ', 'ATA', 'Antarctica'],
+    ['AR', 'ARG', 'Argentina'],
+    ['AS', 'ASM', 'American Samoa'],
+    ['AT', 'AUT', 'Austria'],
+    ['AU', 'AUS', 'Australia'],
+    ['AW', 'ABW', 'Aruba'],
+    ['AX', 'ALA', 'Åland Islands'],
+    ['AZ', 'AZE', 'Azerbaijan'],
+    ['BA', 'BIH', 'Bosnia and Herzegovina'],
+    ['BB', 'BRB', 'Barbados'],
+    ['BD', 'BGD', 'Bangladesh'],
+    ['BE', 'BEL', 'Belgium'],
+    ['BF', 'BFA', 'Burkina Faso'],
+    ['BG', 'BGR', 'Bulgaria'],
+    ['BH', 'BHR', 'Bahrain'],
+    ['BI', 'BDI', 'Burundi'],
+    ['BJ', 'BEN', 'Benin'],
+    ['BL', 'BLM', 'Saint Barthélemy'],
+    ['BM', 'BMU', 'Bermuda'],
+    ['BN', 'BRN', 'Brunei'],
+    ['BO', 'BOL', 'Bolivia'],
+    ['BQ', 'BES', 'Caribbean Netherlands'],
+    ['BR', 'BRA', 'Brazil'],
+    ['BS', 'BHS', 'Bahamas'],
+    ['BT', 'BTN', 'Bhutan'],
+    ['BV', 'BVT', 'Bouvet Island'],
+    ['BW', 'BWA', 'Botswana'],
+    ['BY', 'BLR', 'Belarus'],
+    ['BZ', 'BLZ', 'Belize'],
+    ['CA', 'CAN', 'Canada'],
+    ['CC', 'CCK', 'Cocos (Keeling) Islands'],
+    ['CD', 'COD', 'DR Congo'],
+    ['CF', 'CAF', 'Central African Republic'],
+    ['CG', 'COG', 'Congo'],
+    ['CH', 'CHE', 'Switzerland'],
+    ['CI', 'CIV', "Côte d'Ivoire"],
+    ['CK', 'COK', 'Cook Islands'],
+    ['CL', 'CHL', 'Chile'],
+    ['CM', 'CMR', 'Cameroon'],
+    ['CN', 'CHN', 'China'],
+    ['CO', 'COL', 'Colombia'],
+    ['CR', 'CRI', 'Costa Rica'],
+    ['CU', 'CUB', 'Cuba'],
+    ['CV', 'CPV', 'Cabo Verde'],
+    ['CW', 'CUW', 'Curaçao'],
+    ['CX', 'CXR', 'Christmas Island'],
+    ['CY', 'CYP', 'Cyprus'],
+    ['CZ', 'CZE', 'Czechia'],
+    ['DE', 'DEU', 'Germany'],
+    ['DJ', 'DJI', 'Djibouti'],
+    ['DK', 'DNK', 'Denmark'],
+    ['DM', 'DMA', 'Dominica'],
+    ['DO', 'DOM', 'Dominican Republic'],
+    ['DZ', 'DZA', 'Algeria'],
+    ['EC', 'ECU', 'Ecuador'],
+    ['EE', 'EST', 'Estonia'],
+    ['EG', 'EGY', 'Egypt'],
+    ['EH', 'ESH', 'Western Sahara'],
+    ['ER', 'ERI', 'Eritrea'],
+    ['ES', 'ESP', 'Spain'],
+    ['ET', 'ETH', 'Ethiopia'],
+    ['FI', 'FIN', 'Finland'],
+    ['FJ', 'FJI', 'Fiji'],
+    ['FK', 'FLK', 'Falkland Islands'],
+    ['FM', 'FSM', 'Micronesia'],
+    ['FO', 'FRO', 'Faroe Islands'],
+    ['FR', 'FRA', 'France'],
+    ['GA', 'GAB', 'Gabon'],
+    ['GB', 'GBR', 'United Kingdom'],
+    ['GD', 'GRD', 'Grenada'],
+    ['GE', 'GEO', 'Georgia'],
+    ['GF', 'GUF', 'French Guiana'],
+    ['GG', 'GGY', 'Guernsey'],
+    ['GH', 'GHA', 'Ghana'],
+    ['GI', 'GIB', 'Gibraltar'],
+    ['GL', 'GRL', 'Greenland'],
+    ['GM', 'GMB', 'Gambia'],
+    ['GN', 'GIN', 'Guinea'],
+    ['GP', 'GLP', 'Guadeloupe'],
+    ['GQ', 'GNQ', 'Equatorial Guinea'],
+    ['GR', 'GRC', 'Greece'],
+    ['GS', 'SGS', 'South Georgia and the South Sandwich Islands'],
+    ['GT', 'GTM', 'Guatemala'],
+    ['GU', 'GUM', 'Guam'],
+    ['GW', 'GNB', 'Guinea-Bissau'],
+    ['GY', 'GUY', 'Guyana'],
+    ['HK', 'HKG', 'Hong Kong'],
+    ['HM', 'HMD', 'Heard Island and McDonald Islands'],
+    ['HN', 'HND', 'Honduras'],
+    ['HR', 'HRV', 'Croatia'],
+    ['HT', 'HTI', 'Haiti'],
+    ['HU', 'HUN', 'Hungary'],
+    ['ID', 'IDN', 'Indonesia'],
+    ['IE', 'IRL', 'Ireland'],
+    ['IL', 'ISR', 'Israel'],
+    ['IM', 'IMN', 'Isle of Man'],
+    ['IN', 'IND', 'India'],
+    ['IO', 'IOT', 'British Indian Ocean Territory'],
+    ['IQ', 'IRQ', 'Iraq'],
+    ['IR', 'IRN', 'Iran'],
+    ['IS', 'ISL', 'Iceland'],
+    ['IT', 'ITA', 'Italy'],
+    ['JE', 'JEY', 'Jersey'],
+    ['JM', 'JAM', 'Jamaica'],
+    ['JO', 'JOR', 'Jordan'],
+    ['JP', 'JPN', 'Japan'],
+    ['KE', 'KEN', 'Kenya'],
+    ['KG', 'KGZ', 'Kyrgyzstan'],
+    ['KH', 'KHM', 'Cambodia'],
+    ['KI', 'KIR', 'Kiribati'],
+    ['KM', 'COM', 'Comoros'],
+    ['KN', 'KNA', 'Saint Kitts and Nevis'],
+    ['KP', 'PRK', 'North Korea'],
+    ['KR', 'KOR', 'South Korea'],
+    ['KW', 'KWT', 'Kuwait'],
+    ['KY', 'CYM', 'Cayman Islands'],
+    ['KZ', 'KAZ', 'Kazakhstan'],
+    ['LA', 'LAO', 'Laos'],
+    ['LB', 'LBN', 'Lebanon'],
+    ['LC', 'LCA', 'Saint Lucia'],
+    ['LI', 'LIE', 'Liechtenstein'],
+    ['LK', 'LKA', 'Sri Lanka'],
+    ['LR', 'LBR', 'Liberia'],
+    ['LS', 'LSO', 'Lesotho'],
+    ['LT', 'LTU', 'Lithuania'],
+    ['LU', 'LUX', 'Luxembourg'],
+    ['LV', 'LVA', 'Latvia'],
+    ['LY', 'LBY', 'Libya'],
+    ['MA', 'MAR', 'Morocco'],
+    ['MC', 'MCO', 'Monaco'],
+    ['MD', 'MDA', 'Moldova'],
+    ['ME', 'MNE', 'Montenegro'],
+    ['MF', 'MAF', 'Saint Martin'],
+    ['MG', 'MDG', 'Madagascar'],
+    ['MH', 'MHL', 'Marshall Islands'],
+    ['MK', 'MKD', 'North Macedonia'],
+    ['ML', 'MLI', 'Mali'],
+    ['MM', 'MMR', 'Myanmar'],
+    ['MN', 'MNG', 'Mongolia'],
+    ['MO', 'MAC', 'Macao'],
+    ['MP', 'MNP', 'Northern Mariana Islands'],
+    ['MQ', 'MTQ', 'Martinique'],
+    ['MR', 'MRT', 'Mauritania'],
+    ['MS', 'MSR', 'Montserrat'],
+    ['MT', 'MLT', 'Malta'],
+    ['MU', 'MUS', 'Mauritius'],
+    ['MV', 'MDV', 'Maldives'],
+    ['MW', 'MWI', 'Malawi'],
+    ['MX', 'MEX', 'Mexico'],
+    ['MY', 'MYS', 'Malaysia'],
+    ['MZ', 'MOZ', 'Mozambique'],
+    ['NA', 'NAM', 'Namibia'],
+    ['NC', 'NCL', 'New Caledonia'],
+    ['NE', 'NER', 'Niger'],
+    ['NF', 'NFK', 'Norfolk Island'],
+    ['NG', 'NGA', 'Nigeria'],
+    ['NI', 'NIC', 'Nicaragua'],
+    ['NL', 'NLD', 'Netherlands'],
+    ['NO', 'NOR', 'Norway'],
+    ['NP', 'NPL', 'Nepal'],
+    ['NR', 'NRU', 'Nauru'],
+    ['NU', 'NIU', 'Niue'],
+    ['NZ', 'NZL', 'New Zealand'],
+    ['OM', 'OMN', 'Oman'],
+    ['PA', 'PAN', 'Panama'],
+    ['PE', 'PER', 'Peru'],
+    ['PF', 'PYF', 'French Polynesia'],
+    ['PG', 'PNG', 'Papua New Guinea'],
+    ['PH', 'PHL', 'Philippines'],
+    ['PK', 'PAK', 'Pakistan'],
+    ['PL', 'POL', 'Poland'],
+    ['PM', 'SPM', 'Saint Pierre and Miquelon'],
+    ['PN', 'PCN', 'Pitcairn Islands'],
+    ['PR', 'PRI', 'Puerto Rico'],
+    ['PS', 'PSE', 'Palestine'],
+    ['PT', 'PRT', 'Portugal'],
+    ['PW', 'PLW', 'Palau'],
+    ['PY', 'PRY', 'Paraguay'],
+    ['QA', 'QAT', 'Qatar'],
+    ['RE', 'REU', 'Réunion'],
+    ['RO', 'ROU', 'Romania'],
+    ['RS', 'SRB', 'Serbia'],
+    ['RU', 'RUS', 'Russia'],
+    ['RW', 'RWA', 'Rwanda'],
+    ['SA', 'SAU', 'Saudi Arabia'],
+    ['SB', 'SLB', 'Solomon Islands'],
+    ['SC', 'SYC', 'Seychelles'],
+    ['SD', 'SDN', 'Sudan'],
+    ['SE', 'SWE', 'Sweden'],
+    ['SG', 'SGP', 'Singapore'],
+    ['SH', 'SHN', 'Saint Helena, Ascension and Tristan da Cunha'],
+    ['SI', 'SVN', 'Slovenia'],
+    ['SJ', 'SJM', 'Svalbard and Jan Mayen'],
+    ['SK', 'SVK', 'Slovakia'],
+    ['SL', 'SLE', 'Sierra Leone'],
+    ['SM', 'SMR', 'San Marino'],
+    ['SN', 'SEN', 'Senegal'],
+    ['SO', 'SOM', 'Somalia'],
+    ['SR', 'SUR', 'Suriname'],
+    ['SS', 'SSD', 'South Sudan'],
+    ['ST', 'STP', 'São Tomé and Príncipe'],
+    ['SV', 'SLV', 'El Salvador'],
+    ['SX', 'SXM', 'Sint Maarten'],
+    ['SY', 'SYR', 'Syria'],
+    ['SZ', 'SWZ', 'Eswatini'],
+    ['TC', 'TCA', 'Turks and Caicos Islands'],
+    ['TD', 'TCD', 'Chad'],
+    ['TF', 'ATF', 'French Southern Territories'],
+    ['TG', 'TGO', 'Togo'],
+    ['TH', 'THA', 'Thailand'],
+    ['TJ', 'TJK', 'Tajikistan'],
+    ['TK', 'TKL', 'Tokelau'],
+    ['TL', 'TLS', 'Timor-Leste'],
+    ['TM', 'TKM', 'Turkmenistan'],
+    ['TN', 'TUN', 'Tunisia'],
+    ['TO', 'TON', 'Tonga'],
+    ['TR', 'TUR', 'Turkey'],
+    ['TT', 'TTO', 'Trinidad and Tobago'],
+    ['TV', 'TUV', 'Tuvalu'],
+    ['TW', 'TWN', 'Taiwan'],
+    ['TZ', 'TZA', 'Tanzania'],
+    ['UA', 'UKR', 'Ukraine'],
+    ['UG', 'UGA', 'Uganda'],
+    ['UM', 'UMI', 'United States Minor Outlying Islands'],
+    ['US', 'USA', 'United States'],
+    ['UY', 'URY', 'Uruguay'],
+    ['UZ', 'UZB', 'Uzbekistan'],
+    ['VA', 'VAT', 'Vatican City'],
+    ['VC', 'VCT', 'Saint Vincent and the Grenadines'],
+    ['VE', 'VEN', 'Venezuela'],
+    ['VG', 'VGB', 'British Virgin Islands'],
+    ['VI', 'VIR', 'U.S. Virgin Islands'],
+    ['VN', 'VNM', 'Vietnam'],
+    ['VU', 'VUT', 'Vanuatu'],
+    ['WF', 'WLF', 'Wallis and Futuna'],
+    ['WS', 'WSM', 'Samoa'],
+    ['YE', 'YEM', 'Yemen'],
+    ['YT', 'MYT', 'Mayotte'],
+    ['ZA', 'ZAF', 'South Africa'],
+    ['ZM', 'ZMB', 'Zambia'],
+    ['ZW', 'ZWE', 'Zimbabwe'],
+]
+
+// WIPO ST.3 codes for offices and organisations rather than states
+const PATENT_OFFICES: PatentOffice[] = [
+    { code: 'EP', name: 'European Patent Office', kind: 'regional' },
+    { code: 'WO', name: 'International (PCT)', kind: 'international' },
+    { code: 'IB', name: 'International Bureau of WIPO', kind: 'international' },
+    { code: 'EA', name: 'Eurasian Patent Organization', kind: 'regional' },
+    { code: 'AP', name: 'African Regional Intellectual Property Organization', kind: 'regional' },
+    { code: 'OA', name: 'African Intellectual Property Organization', kind: 'regional' },
+    { code: 'GC', name: 'GCC Patent Office', kind: 'regional' },
+    { code: 'EM', name: 'EU Intellectual Property Office', kind: 'regional' },
+    { code: 'EU', name: 'European Union', kind: 'regional' },
+    { code: 'XN', name: 'Nordic Patent Institute', kind: 'regional' },
+    { code: 'XV', name: 'Visegrad Patent Institute', kind: 'regional' },
+    { code: 'SU', name: 'Soviet Union', kind: 'former' },
+    { code: 'DD', name: 'German Democratic Republic', kind: 'former' },
+    { code: 'CS', name: 'Czechoslovakia', kind: 'former' },
+    { code: 'YU', name: 'Yugoslavia', kind: 'former' },
+]
+
+// Spellings exports use besides the ISO/ST.3 ones
+const CODE_ALIASES: Record<string, string> = {
+    UK: 'GB',
+    EL: 'GR',
+    PCT: 'WO',
+}
+
+const COUNTRIES_BY_CODE = new Map<string, CountryInfo>()
+for (const [iso2, iso3, name] of ISO_3166) {
+    const info = { iso2, iso3, name }
+    COUNTRIES_BY_CODE.set(iso2, info)
+    COUNTRIES_BY_CODE.set(iso3, info)
+}
+
+const OFFICES_BY_CODE = new Map(PATENT_OFFICES.map(office => [office.code, office]))
+
+function canonicalCode(code: string): string {
+    const upper = code.trim().toUpperCase()
+    return CODE_ALIASES[upper] ?? upper
+}
+
+// Country by ISO alpha-2 or alpha-3 code, or a common alias of one
+export function findCountry(code: string): CountryInfo | null {
+    return COUNTRIES_BY_CODE.get(canonicalCode(code)) ?? null
+}
+
+export function findPatentOffice(code: string): PatentOffice | null {
+    return OFFICES_BY_CODE.get(canonicalCode(code)) ?? null
+}
+
+// An office or a country; ST.3 office codes are never assigned to states, so the lists do not overlap
+export function findTerritory(code: string): Territory | null {
+    const office = findPatentOffice(code)
+    if (office) return { type: 'office', ...office }
+    const country = findCountry(code)
+    return country ? { type: 'country', ...country } : null
+}
+
+// Display name for a country or office code; unknown codes are shown as they are
+export function territoryName(code: string): string {
+    return findTerritory(code)?.name ?? code.trim()
+}
+
+/**
+ * Resolves codes while keeping a tally of the ones neither table knows, so
+ * the route can report them instead of letting them drop off the map.
+ */
+export function createTerritoryResolver(): TerritoryResolver {
+    const unknown = new Map<string, number>()
+
+    return {
+        resolve(code, records = 1) {
+            const territory = findTerritory(code)
+            if (!territory) {
+                const key = code.trim().toUpperCase()
+                unknown.set(key, (unknown.get(key) || 0) + records)
+            }
+            return territory
+        },
+        unknown() {
+            return Array.from(unknown.entries())
+                .map(([code, records]) => ({ code, records }))
+                .sort((a, b) => b.records - a.records)
+        },
+    }
+}
+
+// Data-quality warning for a dataset's unrecognised country codes, or null when there are none
+export function unknownCodeDiagnostic(unknown: UnknownCode[]): ParseDiagnostic | null {
+    if (unknown.length === 0) return null
+    const listed = unknown.map(({ code, records }) => `${code} (${records.toLocaleString()})`).join(', ')
+    return {
+        level: 'warning',
+        message: `${unknown.length} unrecognised country code(s), left off the map: ${listed}`,
+    }
+}
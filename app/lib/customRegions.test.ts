@@ -0,0 +1,68 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadCustomRegions, setCustomRegion } from './customRegions'
+
+let cwd: string
+
+function regionFile(): string {
+    return path.join(cwd, 'data', 'custom_regions.json')
+}
+
+beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-regions-'))
+    fs.mkdirSync(path.join(cwd, 'data'))
+    vi.spyOn(process, 'cwd').mockReturnValue(cwd)
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(cwd, { recursive: true, force: true })
+})
+
+describe('loadCustomRegions', () => {
+    it('is empty without a region file', () => {
+        expect(loadCustomRegions()).toEqual({})
+    })
+
+    it('keeps unreadable codes for the definitions to skip', () => {
+        fs.writeFileSync(regionFile(), JSON.stringify({ 'Nordic+': ['NO', 'SE', 'XX'] }))
+
+        expect(loadCustomRegions()).toEqual({ 'Nordic+': ['NO', 'SE', 'XX'] })
+    })
+
+    it('rejects files that are not a map of code lists', () => {
+        fs.writeFileSync(regionFile(), '{ "Nordic+": ')
+        expect(() => loadCustomRegions()).toThrow('Could not read data/custom_regions.json')
+
+        fs.writeFileSync(regionFile(), '["NO", "SE"]')
+        expect(() => loadCustomRegions()).toThrow('must map each region name')
+
+        fs.writeFileSync(regionFile(), '{ "Nordic+": "NO, SE" }')
+        expect(() => loadCustomRegions()).toThrow('Region "Nordic+"')
+    })
+})
+
+describe('setCustomRegion', () => {
+    it('saves regions sorted by name', () => {
+        setCustomRegion('Quantum hubs', ['US', 'FI'])
+        setCustomRegion('Nordic+', ['NO', 'SE', 'DE'])
+
+        expect(Object.keys(JSON.parse(fs.readFileSync(regionFile(), 'utf-8')))).toEqual(['Nordic+', 'Quantum hubs'])
+    })
+
+    it('replaces a region whose name differs only in case', () => {
+        setCustomRegion('nordic+', ['NO'])
+
+        expect(setCustomRegion(' Nordic+ ', ['NO', 'SE'])).toEqual({ 'Nordic+': ['NO', 'SE'] })
+        expect(loadCustomRegions()).toEqual({ 'Nordic+': ['NO', 'SE'] })
+    })
+
+    it('removes a region set to no members', () => {
+        setCustomRegion('Nordic+', ['NO', 'SE'])
+        setCustomRegion('Quantum hubs', ['US'])
+
+        expect(setCustomRegion('NORDIC+', [])).toEqual({ 'Quantum hubs': ['US'] })
+    })
+})
@@ -0,0 +1,63 @@
+// app/lib/customRegions.ts
+import fs from 'fs'
+import path from 'path'
+import type { CustomRegions } from './regions'
+
+// Constants
+// Client-specific groupings, shared by every category; edited through /api/geographic/regions
+const REGION_FILE = 'custom_regions.json'
+
+function regionFilePath(): string {
+    return path.join(process.cwd(), 'data', REGION_FILE)
+}
+
+/**
+ * Reads the custom regions, a map of region name to country codes. Codes
+ * are not resolved here; customRegionDefinitions skips the unreadable ones,
+ * so a hand-edited file only fails on a broken shape.
+ */
+export function loadCustomRegions(): CustomRegions {
+    const filePath = regionFilePath()
+    if (!fs.existsSync(filePath)) return {}
+
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Could not read data/${REGION_FILE}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`data/${REGION_FILE} must map each region name to a list of country codes, e.g. { "Nordic+": ["NO", "SE", "DE"] }`)
+    }
+
+    const regions: CustomRegions = {}
+    for (const [label, codes] of Object.entries(parsed as Record<string, unknown>)) {
+        if (!Array.isArray(codes) || codes.some(code => typeof code !== 'string')) {
+            throw new Error(`Region "${label}" in data/${REGION_FILE} must list its members as country codes, e.g. ["NO", "SE"]`)
+        }
+        regions[label] = codes
+    }
+    return regions
+}
+
+function saveCustomRegions(regions: CustomRegions): void {
+    const sorted = Object.fromEntries(
+        Object.entries(regions).sort(([a], [b]) => a.localeCompare(b))
+    )
+    fs.writeFileSync(regionFilePath(), JSON.stringify(sorted, null, 2) + '\n')
+}
+
+// Sets one region's members (alpha-2 codes); an empty list removes the region
+export function setCustomRegion(label: string, members: string[]): CustomRegions {
+    const regions = loadCustomRegions()
+    const name = label.trim()
+    // Labels are matched without case, so renaming "nordic+" to "Nordic+" replaces it
+    for (const existing of Object.keys(regions)) {
+        if (existing.toLowerCase() === name.toLowerCase()) delete regions[existing]
+    }
+    if (members.length > 0) regions[name] = members
+
+    saveCustomRegions(regions)
+    return regions
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { parseCrossTab } from './crossTab'
+import { parseCsvContent } from './csv'
+
+describe('parseCrossTab', () => {
+    it('reads the dimensions, totals and counts of a PatSeer cross-tab', () => {
+        const crossTab = parseCrossTab(parseCsvContent(
+            '"CPC Full ","Total","G06N10/40 : Physical realisations","G06N10/20 : Models"\n' +
+            '"Current Owner "\n' +
+            '"IQM FINLAND OY",12,10,"1,2"\n' +
+            '"-----------"\n' +
+            '"GOOGLE LLC",5,,5\n'
+        ))
+
+        expect(crossTab.rowDimension).toBe('Current Owner')
+        expect(crossTab.columnDimension).toBe('CPC Full')
+        expect(crossTab.rowLabels).toEqual(['IQM FINLAND OY', 'GOOGLE LLC'])
+        expect(crossTab.columnLabels).toEqual(['G06N10/40 : Physical realisations', 'G06N10/20 : Models'])
+        expect(crossTab.totals).toEqual([12, 5])
+        expect(crossTab.counts).toEqual([[10, 12], [0, 5]])
+        expect(crossTab.diagnostics).toEqual([])
+    })
+
+    it('takes the row dimension from the header of a plain table', () => {
+        const crossTab = parseCrossTab(parseCsvContent('Application Year,2023,2024\nG06N10/40,3,4\n'))
+
+        expect(crossTab.rowDimension).toBe('Application Year')
+        expect(crossTab.columnDimension).toBeNull()
+        expect(crossTab.totals).toBeNull()
+        expect(crossTab.counts).toEqual([[3, 4]])
+    })
+
+    it('reads non-numeric cells as 0 with a warning', () => {
+        const crossTab = parseCrossTab(parseCsvContent('Current Owner,Total,G06N10/40\nIQM FINLAND OY,2,n/a\n'))
+
+        expect(crossTab.counts).toEqual([[0]])
+        expect(crossTab.diagnostics).toEqual([
+            { level: 'warning', message: '1 non-numeric cell(s) read as 0, e.g. IQM FINLAND OY / G06N10/40' },
+        ])
+    })
+})
@@ -0,0 +1,94 @@
+// app/lib/datasets/crossTab.ts
+import type { DataRow, LoadedDataset, ParseDiagnostic } from './types'
+
+// Interfaces
+// A PatSeer cross-tab export: counts for each row value x column value
+export interface CrossTab {
+    // e.g. "Current Owner" or "Application Year"
+    rowDimension: string
+    // e.g. "CPC Full"; null when the export is a plain table whose first header cell names the rows
+    columnDimension: string | null
+    rowLabels: string[]
+    columnLabels: string[]
+    // The export's Total column, one entry per row; null when it has none
+    totals: number[] | null
+    // counts[row][column], blank cells read as 0
+    counts: number[][]
+    diagnostics: ParseDiagnostic[]
+}
+
+// Rows PatSeer writes between sections rather than as data
+function isSeparator(label: string): boolean {
+    return label === '' || /^-{3,}/.test(label)
+}
+
+function parseCount(value: string | undefined): number | null {
+    const text = (value ?? '').replace(/[,"']/g, '').trim()
+    if (text === '') return 0
+    const num = Number(text)
+    return Number.isFinite(num) ? num : null
+}
+
+/**
+ * Reads a cross-tab export into a matrix. PatSeer puts the column dimension
+ * in the first header cell and repeats the row dimension alone on the line
+ * below the header (`"CPC Full ","Total",...` then `"Application Year "`);
+ * that line is recognised by position and shape rather than by name, so any
+ * pair of dimensions works. Labels are trimmed, a "Total" column is kept
+ * apart from the counts, separator rows are skipped and cells that are not
+ * numbers count as 0 with a warning.
+ */
+export function parseCrossTab(dataset: Pick<LoadedDataset<DataRow>, 'columns' | 'records'>): CrossTab {
+    const [first = '', ...rest] = dataset.columns
+    const totalIndex = rest.findIndex(column => column.trim().toLowerCase() === 'total')
+    const columnLabels = rest.filter((_, i) => i !== totalIndex)
+    const totalColumn = totalIndex === -1 ? null : rest[totalIndex]
+
+    let rowDimension: string | null = null
+    const rowLabels: string[] = []
+    const totals: number[] = []
+    const counts: number[][] = []
+    const invalid: string[] = []
+
+    for (const record of dataset.records) {
+        const label = (record[first] ?? '').trim()
+        if (isSeparator(label)) continue
+
+        // The dimension line only counts before the first data row
+        if (rowDimension === null && rowLabels.length === 0 && rest.every(column => !(record[column] ?? '').trim())) {
+            rowDimension = label
+            continue
+        }
+
+        const read = (column: string) => {
+            const count = parseCount(record[column])
+            if (count === null) {
+                invalid.push(`${label} / ${column}`)
+                return 0
+            }
+            return count
+        }
+
+        rowLabels.push(label)
+        if (totalColumn !== null) totals.push(read(totalColumn))
+        counts.push(columnLabels.map(read))
+    }
+
+    const diagnostics: ParseDiagnostic[] = []
+    if (invalid.length > 0) {
+        diagnostics.push({
+            level: 'warning',
+            message: `${invalid.length} non-numeric cell(s) read as 0, e.g. ${invalid.slice(0, 3).join(', ')}`,
+        })
+    }
+
+    return {
+        rowDimension: rowDimension ?? first.trim(),
+        columnDimension: rowDimension === null ? null : first.trim(),
+        rowLabels,
+        columnLabels,
+        totals: totalColumn === null ? null : totals,
+        counts,
+        diagnostics,
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsvContent } from './csv'
+
+describe('parseCsvContent', () => {
+    it('reads quoted PatSeer exports into header-keyed rows', () => {
+        const table = parseCsvContent('\uFEFF"Inventor","Total"\n"LAHTEENMAKI PASI",20\n"MOTTONEN MIKKO",20\n')
+
+        expect(table.columns).toEqual(['Inventor', 'Total'])
+        expect(table.records).toEqual([
+            { Inventor: 'LAHTEENMAKI PASI', Total: '20' },
+            { Inventor: 'MOTTONEN MIKKO', Total: '20' },
+        ])
+        expect(table.lines).toEqual([2, 3])
+        expect(table.diagnostics).toEqual([])
+    })
+
+    it('pads short rows so every record carries every column', () => {
+        const table = parseCsvContent('Country,Assignee,Count\nFI,IQM FINLAND OY\n')
+
+        expect(table.records).toEqual([{ Country: 'FI', Assignee: 'IQM FINLAND OY', Count: '' }])
+    })
+
+    it('falls back to the tolerant tokenizer for unescaped quotes in titles', () => {
+        const table = parseCsvContent(
+            '"CPC Full","Total"\n' +
+            '"G06N10/40 : using "golden references", e.g. standards",12\n' +
+            '"G06N10/20 : Models of quantum computing, e.g. quantum circuits",86\n'
+        )
+
+        expect(table.records).toEqual([
+            { 'CPC Full': 'G06N10/40 : using "golden references", e.g. standards', Total: '12' },
+            { 'CPC Full': 'G06N10/20 : Models of quantum computing, e.g. quantum circuits', Total: '86' },
+        ])
+        expect(table.diagnostics.map(d => d.level)).toEqual(['warning'])
+        expect(table.diagnostics[0].message).toContain('tolerant PatSeer tokenizer')
+    })
+
+    it('reports an empty file', () => {
+        const table = parseCsvContent('')
+
+        expect(table.records).toEqual([])
+        expect(table.diagnostics).toEqual([{ level: 'warning', message: 'File is empty' }])
+    })
+})
@@ -0,0 +1,174 @@
+// app/lib/datasets/csv.ts
+import { parse } from 'csv-parse/sync'
+import type { DataRow, ParseDiagnostic } from './types'
+
+// Per-row diagnostics beyond this are summarised in a single entry
+export const MAX_ROW_DIAGNOSTICS = 20
+
+// Interfaces
+export interface ParsedTable {
+    columns: string[]
+    records: DataRow[]
+    // Source line (1-based) of each record, for row-level problem reports
+    lines: number[]
+    diagnostics: ParseDiagnostic[]
+}
+
+export interface RawRow {
+    cells: string[]
+    line: number
+}
+
+interface CsvRecordWithInfo {
+    record: string[]
+    info: { lines: number }
+}
+
+export function removeBOM(content: string): string {
+    return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content
+}
+
+// A count cell as PatSeer writes it ("1,234", quoted or blank); unreadable cells count as 0
+export function parseNumber(value: unknown): number {
+    const num = parseInt(String(value ?? '').replace(/[,"']/g, '').trim(), 10)
+    return isNaN(num) ? 0 : num
+}
+
+function isClosingQuote(line: string, idx: number): boolean {
+    if (line[idx] !== '"') return false
+    if (idx + 1 === line.length) return true
+    // `"classical methods", carried out` is prose, not a field boundary
+    return line[idx + 1] === ',' && line[idx + 2] !== ' '
+}
+
+/**
+ * Splits one line written by PatSeer, whose classification titles contain
+ * unescaped quotes (`"... standards, "golden references"",`). A quoted field
+ * only closes on a quote followed by the end of the line or by a comma that
+ * starts a new field; doubled quotes inside it are collapsed afterwards.
+ */
+function splitTolerantLine(line: string): string[] {
+    const cells: string[] = []
+    let i = 0
+
+    while (i <= line.length) {
+        if (line[i] === '"') {
+            let j = i + 1
+            while (j < line.length && !isClosingQuote(line, j)) {
+                j++
+            }
+            cells.push(line.slice(i + 1, j).replace(/""/g, '"'))
+            i = j + 2
+        } else {
+            const end = line.indexOf(',', i)
+            const stop = end === -1 ? line.length : end
+            cells.push(line.slice(i, stop))
+            i = stop + 1
+        }
+    }
+
+    return cells
+}
+
+function readRowsStrict(content: string): RawRow[] {
+    const rows = parse(content, {
+        skip_empty_lines: true,
+        relax_column_count: true,
+        info: true,
+    }) as unknown as CsvRecordWithInfo[]
+
+    return rows.map(r => ({ cells: r.record, line: r.info.lines }))
+}
+
+function readRowsTolerant(content: string): RawRow[] {
+    return content
+        .split(/\r?\n/)
+        .map((text, idx) => ({ text, line: idx + 1 }))
+        .filter(({ text }) => text.trim() !== '')
+        .map(({ text, line }) => ({ cells: splitTolerantLine(text), line }))
+}
+
+/**
+ * Turns raw CSV text into header-keyed rows.
+ *
+ * Files that are not valid CSV because of stray quotes are re-read line by
+ * line with the tolerant PatSeer tokenizer, and the fallback is reported as a
+ * diagnostic. Rows shorter than the header are padded with empty strings so
+ * every record carries every column.
+ */
+export function parseCsvContent(content: string): ParsedTable {
+    const diagnostics: ParseDiagnostic[] = []
+    const text = removeBOM(content)
+
+    let rows: RawRow[]
+    try {
+        rows = readRowsStrict(text)
+    } catch (error) {
+        const code = (error as { code?: string }).code || ''
+        if (!code.includes('QUOTE')) {
+            throw error
+        }
+        diagnostics.push({
+            level: 'warning',
+            message: `Malformed quoting (${error instanceof Error ? error.message : code}); read with the tolerant PatSeer tokenizer`
+        })
+        rows = readRowsTolerant(text)
+    }
+
+    if (rows.length === 0) {
+        diagnostics.push({ level: 'warning', message: 'File is empty' })
+        return { columns: [], records: [], lines: [], diagnostics }
+    }
+
+    const [header, ...body] = rows.map(r => ({ ...r, cells: r.cells.map(cell => cell.trim()) }))
+    return buildRecords(header.cells, body, diagnostics)
+}
+
+export function buildRecords(
+    columns: string[],
+    rows: RawRow[],
+    diagnostics: ParseDiagnostic[] = []
+): ParsedTable {
+    const records: DataRow[] = []
+    const lines: number[] = []
+    let rowIssues = 0
+
+    const reportRow = (diagnostic: ParseDiagnostic) => {
+        rowIssues++
+        if (rowIssues <= MAX_ROW_DIAGNOSTICS) {
+            diagnostics.push(diagnostic)
+        }
+    }
+
+    for (const { cells, line } of rows) {
+        if (cells.length > columns.length) {
+            reportRow({
+                level: 'warning',
+                line,
+                message: `Row has ${cells.length} fields but the header has ${columns.length}; extra fields ignored`
+            })
+        } else if (cells.length < columns.length) {
+            reportRow({
+                level: 'info',
+                line,
+                message: `Row has ${cells.length} of ${columns.length} fields; missing fields treated as empty`
+            })
+        }
+
+        const record: DataRow = {}
+        columns.forEach((column, idx) => {
+            record[column] = cells[idx] ?? ''
+        })
+        records.push(record)
+        lines.push(line)
+    }
+
+    if (rowIssues > MAX_ROW_DIAGNOSTICS) {
+        diagnostics.push({
+            level: 'info',
+            message: `${rowIssues - MAX_ROW_DIAGNOSTICS} further row diagnostics omitted`
+        })
+    }
+
+    return { columns, records, lines, diagnostics }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadYearTable } from './derived'
+import type { DataSource } from './types'
+
+let source: DataSource
+
+function writeExport(dir: string, fileName: string, content: string) {
+    fs.mkdirSync(path.join(source.root, dir), { recursive: true })
+    fs.writeFileSync(path.join(source.root, dir, fileName), content)
+}
+
+beforeEach(() => {
+    source = { id: 'test', root: fs.mkdtempSync(path.join(os.tmpdir(), 'derived-')) }
+})
+
+afterEach(() => {
+    fs.rmSync(source.root, { recursive: true, force: true })
+})
+
+describe('loadYearTable', () => {
+    it('derives one row per year from the raw cross-tab, oldest first', () => {
+        writeExport('raw', 'Application-Year _IPC-Full.csv', [
+            'IPC Full,G06N10/00,H01L39/22,Total',
+            'Application Year,,,',
+            '2022,4,1,5',
+            '2020,"1,200",,1200',
+            '----------,,,',
+            'Unknown,1,1,2',
+        ].join('\n'))
+
+        const table = loadYearTable('ipc', source)
+
+        expect(table.id).toBe('ipcByYear')
+        expect(table.fileName).toBe('Application-Year _IPC-Full.csv')
+        expect(table.columns).toEqual(['Application Year', 'G06N10/00', 'H01L39/22'])
+        expect(table.records).toEqual([
+            { 'Application Year': '2020', 'G06N10/00': '1200', 'H01L39/22': '0' },
+            { 'Application Year': '2022', 'G06N10/00': '4', 'H01L39/22': '1' },
+        ])
+        expect(table.diagnostics.at(-1)).toEqual({
+            level: 'info',
+            message: 'Derived 2 year rows x 2 codes from Application-Year _IPC-Full.csv',
+        })
+    })
+
+    it('prefers the raw cross-tab over the processed table', () => {
+        writeExport('raw', 'Application-Year _CPC-Full.csv', 'CPC Full,G06N10/40,Total\nApplication Year,,\n2021,3,3\n')
+        writeExport('processed', 'CPC_Classifications_vs_Year.csv', 'Application Year,G06N10/40\n2021,99\n')
+
+        expect(loadYearTable('cpc', source).records).toEqual([{ 'Application Year': '2021', 'G06N10/40': '3' }])
+    })
+
+    it('falls back to the processed table and keeps the missing cross-tab as info', () => {
+        writeExport('processed', 'IPC_Classifications_vs_Year.csv', 'Application Year,G06N10/00\n2021,7\n')
+
+        const table = loadYearTable('ipc', source)
+
+        expect(table.fileName).toBe('IPC_Classifications_vs_Year.csv')
+        expect(table.records).toEqual([{ 'Application Year': '2021', 'G06N10/00': '7' }])
+        expect(table.diagnostics.length).toBeGreaterThan(0)
+        expect(table.diagnostics.every(d => d.level === 'info')).toBe(true)
+    })
+})
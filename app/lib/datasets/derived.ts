@@ -0,0 +1,76 @@
+// app/lib/datasets/derived.ts
+import { DATASETS } from './registry'
+import { loadDataset } from './loader'
+import { parseCrossTab } from './crossTab'
+import type {
+    ClassificationCrossTabRow,
+    ClassificationYearRow,
+    DataSource,
+    LoadedDataset,
+} from './types'
+
+// Constants
+const YEAR_COLUMN = 'Application Year'
+
+const YEAR_TABLES = {
+    ipc: { crossTab: DATASETS.ipcYearCrossTab, processed: DATASETS.ipcByYear },
+    cpc: { crossTab: DATASETS.cpcYearCrossTab, processed: DATASETS.cpcByYear },
+}
+
+/**
+ * Turns an "Application Year x <scheme> Full" cross-tab into the by-year
+ * table shape: "Application Year" followed by one column per code, one row
+ * per year in ascending order. Rows whose label is not a year are dropped.
+ */
+export function deriveYearTable(
+    crossTab: LoadedDataset<ClassificationCrossTabRow>,
+    id: string
+): LoadedDataset<ClassificationYearRow> {
+    const matrix = parseCrossTab(crossTab)
+    const codes = matrix.columnLabels
+
+    const records = matrix.rowLabels
+        .map((label, i) => ({ label, counts: matrix.counts[i] }))
+        .filter(row => /^\d{4}$/.test(row.label))
+        .sort((a, b) => Number(a.label) - Number(b.label))
+        .map(row => {
+            const derived: ClassificationYearRow = { [YEAR_COLUMN]: row.label }
+            codes.forEach((code, i) => {
+                derived[code] = String(row.counts[i])
+            })
+            return derived
+        })
+
+    return {
+        id,
+        filePath: crossTab.filePath,
+        fileName: crossTab.fileName,
+        columns: crossTab.columns.length > 0 ? [YEAR_COLUMN, ...codes] : [],
+        records,
+        diagnostics: [
+            ...crossTab.diagnostics,
+            ...matrix.diagnostics,
+            { level: 'info', message: `Derived ${records.length} year rows x ${codes.length} codes from ${crossTab.fileName}` },
+        ],
+    }
+}
+
+/**
+ * The by-year table for a scheme, derived from the raw PatSeer cross-tab when
+ * the source has one and read from the hand-prepared processed file otherwise.
+ */
+export function loadYearTable(scheme: keyof typeof YEAR_TABLES, source: DataSource): LoadedDataset<ClassificationYearRow> {
+    const { crossTab, processed } = YEAR_TABLES[scheme]
+
+    const raw = loadDataset(crossTab, source)
+    if (raw.records.length > 0) return deriveYearTable(raw, processed.id)
+
+    const fallback = loadDataset(processed, source)
+    return {
+        ...fallback,
+        diagnostics: [
+            ...raw.diagnostics.map(d => ({ ...d, level: 'info' as const })),
+            ...fallback.diagnostics,
+        ],
+    }
+}
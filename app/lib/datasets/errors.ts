@@ -0,0 +1,30 @@
+// app/lib/datasets/errors.ts
+
+export class DatasetError extends Error {
+    constructor(message: string, public readonly datasetId: string) {
+        super(message)
+        this.name = 'DatasetError'
+    }
+}
+
+export class DatasetNotFoundError extends DatasetError {
+    constructor(datasetId: string, filename: string) {
+        super(`Required file not found: ${filename}`, datasetId)
+        this.name = 'DatasetNotFoundError'
+    }
+}
+
+export class DatasetParseError extends DatasetError {
+    constructor(datasetId: string, filename: string, reason: string) {
+        super(`Could not parse ${filename}: ${reason}`, datasetId)
+        this.name = 'DatasetParseError'
+    }
+}
+
+// Creating or resolving a dated snapshot of a data source failed
+export class SnapshotError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SnapshotError'
+    }
+}
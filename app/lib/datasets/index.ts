@@ -0,0 +1,19 @@
+// app/lib/datasets/index.ts
+export * from './types'
+export * from './errors'
+export { DATASETS } from './registry'
+export type { DatasetId } from './registry'
+export { removeBOM, parseNumber, parseCsvContent } from './csv'
+export type { ParsedTable } from './csv'
+export { parseWorkbook, detectHeaderRow } from './xlsx'
+export type { WorkbookOptions } from './xlsx'
+export { isWorkbook, getDataDirectory, findDataFile, loadDataset, summarizeDataset, getExportYear } from './loader'
+export { parseCrossTab } from './crossTab'
+export type { CrossTab } from './crossTab'
+export { deriveYearTable, loadYearTable } from './derived'
+export { DEFAULT_DATA_SOURCE, getCategorySource, validateDataSource, getYearExtent, getCategoryStatuses } from './sources'
+export type { SourceValidation, CategoryStatus } from './sources'
+export { identifyDataset, validateUpload, checkUpload, installUpload } from './upload'
+export type { DatasetMatch, UploadReport, InstallResult } from './upload'
+export { isSnapshotLabel, listSnapshots, getSnapshotSource, createSnapshot } from './snapshots'
+export type { SnapshotInfo } from './snapshots'
@@ -0,0 +1,155 @@
+// app/lib/datasets/loader.ts
+import fs from 'fs'
+import path from 'path'
+import { parseCsvContent } from './csv'
+import type { ParsedTable } from './csv'
+import { parseWorkbook } from './xlsx'
+import { DatasetNotFoundError, DatasetParseError } from './errors'
+import type {
+    DataDirectory,
+    DataRow,
+    DataSource,
+    DatasetDefinition,
+    DatasetSummary,
+    LoadedDataset,
+    ParseDiagnostic,
+} from './types'
+
+// Constants
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx']
+
+// Utility Functions
+export function isWorkbook(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.xlsx'
+}
+
+// "Foo.csv" -> ["Foo.csv", "Foo.xlsx"]
+function withExtensionVariants(filename: string): string[] {
+    const ext = path.extname(filename)
+    const base = filename.slice(0, filename.length - ext.length)
+    return [filename, ...SUPPORTED_EXTENSIONS.filter(e => e !== ext.toLowerCase()).map(e => base + e)]
+}
+
+export function getDataDirectory(source: DataSource, dir: DataDirectory): string {
+    return path.join(source.root, dir)
+}
+
+export function findDataFile(
+    source: DataSource,
+    filename: string,
+    dir: DataDirectory,
+    alternates: string[] = []
+): string | null {
+    const baseDir = getDataDirectory(source, dir)
+
+    if (!fs.existsSync(baseDir)) {
+        console.warn(`Directory does not exist: ${baseDir}`)
+        return null
+    }
+
+    for (const candidate of [filename, ...alternates].flatMap(withExtensionVariants)) {
+        const fullPath = path.join(baseDir, candidate)
+        if (fs.existsSync(fullPath)) {
+            return fullPath
+        }
+    }
+
+    return null
+}
+
+function emptyDataset<Row extends DataRow>(
+    definition: DatasetDefinition<Row>,
+    filePath: string | null,
+    diagnostics: ParseDiagnostic[]
+): LoadedDataset<Row> {
+    return {
+        id: definition.id,
+        filePath,
+        fileName: filePath ? path.basename(filePath) : null,
+        columns: [],
+        records: [],
+        diagnostics,
+    }
+}
+
+/**
+ * Loads a registered dataset from the given source folder.
+ *
+ * Missing or unparseable files return an empty dataset with an error
+ * diagnostic, unless the definition is marked `required`, in which case a
+ * DatasetNotFoundError or DatasetParseError is thrown.
+ */
+export function loadDataset<Row extends DataRow>(
+    definition: DatasetDefinition<Row>,
+    source: DataSource
+): LoadedDataset<Row> {
+    const filePath = findDataFile(source, definition.filename, definition.dir, definition.alternates)
+
+    if (!filePath) {
+        if (definition.required) {
+            throw new DatasetNotFoundError(definition.id, definition.filename)
+        }
+        console.warn(`No file found for ${definition.label}`)
+        return emptyDataset(definition, null, [
+            { level: 'error', message: `File not found: ${definition.filename}` }
+        ])
+    }
+
+    const fileName = path.basename(filePath)
+    console.log(`Loading ${isWorkbook(filePath) ? 'XLSX' : 'CSV'}: ${filePath}`)
+
+    let table: ParsedTable
+    try {
+        table = isWorkbook(filePath)
+            ? parseWorkbook(fs.readFileSync(filePath), { sheet: definition.sheet, headerRow: definition.headerRow })
+            : parseCsvContent(fs.readFileSync(filePath, 'utf-8'))
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        if (definition.required) {
+            throw new DatasetParseError(definition.id, fileName, reason)
+        }
+        console.error(`Error loading ${fileName}:`, error)
+        return emptyDataset(definition, filePath, [{ level: 'error', message: reason }])
+    }
+
+    const missingColumns = (definition.requiredColumns || []).filter(c => !table.columns.includes(c))
+    if (missingColumns.length > 0) {
+        const reason = `missing column(s) ${missingColumns.map(c => `"${c}"`).join(', ')}`
+        if (definition.required) {
+            throw new DatasetParseError(definition.id, fileName, reason)
+        }
+        console.warn(`${fileName} does not match the ${definition.label} schema: ${reason}`)
+        return emptyDataset(definition, filePath, [...table.diagnostics, { level: 'error', message: reason }])
+    }
+
+    console.log(`✓ Loaded ${table.records.length} records from ${fileName}`)
+
+    return {
+        id: definition.id,
+        filePath,
+        fileName,
+        columns: table.columns,
+        records: table.records as Row[],
+        diagnostics: table.diagnostics,
+    }
+}
+
+export function summarizeDataset(dataset: LoadedDataset<DataRow>): DatasetSummary {
+    return {
+        id: dataset.id,
+        fileName: dataset.fileName,
+        rowCount: dataset.records.length,
+        diagnostics: dataset.diagnostics,
+    }
+}
+
+/**
+ * Calendar year the export was taken, whose counts are still incomplete: the
+ * snapshot's date for frozen data, the file's modification time otherwise.
+ * Null when no file was loaded.
+ */
+export function getExportYear(dataset: LoadedDataset<DataRow>, source: DataSource): number | null {
+    if (source.snapshot) return Number(source.snapshot.slice(0, 4))
+    if (!dataset.filePath || !fs.existsSync(dataset.filePath)) return null
+    return fs.statSync(dataset.filePath).mtime.getFullYear()
+}
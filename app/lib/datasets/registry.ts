@@ -0,0 +1,220 @@
+// app/lib/datasets/registry.ts
+import type {
+    AssigneeCountRow,
+    AssigneeCountryCountRow,
+    AssigneeCountryRow,
+    AssigneeInventorCountryRow,
+    ClassificationCrossTabRow,
+    ClassificationTotalRow,
+    ClassificationYearRow,
+    DataRow,
+    DatasetDefinition,
+    FamilyCountryRow,
+    InventorCountRow,
+    InventorCountryRow,
+    NorwayRecordRow,
+    PatentingTrendRow,
+    PriorityCountryRow,
+    PublicationCountryRow,
+    PublicationYearRow,
+    ResultTableRow,
+    TimelineOwnerRow,
+} from './types'
+
+function defineDataset<Row extends DataRow>(definition: DatasetDefinition<Row>): DatasetDefinition<Row> {
+    return definition
+}
+
+// Every PatSeer export the routes read, with the filenames it has been saved under
+export const DATASETS = {
+    // Timeline
+    timelineOwner: defineDataset<TimelineOwnerRow>({
+        id: 'timelineOwner',
+        label: 'Timeline Current Owner Count',
+        filename: 'Timeline_Current_Owner_Count.csv',
+        dir: 'raw',
+        required: true,
+        signature: { firstColumn: /^current owner$/, otherColumns: /^\d{4}$/, numericColumns: '*' },
+    }),
+    publicationYear: defineDataset<PublicationYearRow>({
+        id: 'publicationYear',
+        label: 'Publication Year',
+        filename: 'Publication_Year.csv',
+        alternates: ['Publication_Year_old.csv'],
+        dir: 'raw',
+        requiredColumns: ['Publication Year', 'Total'],
+        signature: { columns: ['Publication Year', 'Total'], numericColumns: ['Total'] },
+    }),
+
+    // Geographic
+    familyCountry: defineDataset<FamilyCountryRow>({
+        id: 'familyCountry',
+        label: 'All Family Country',
+        filename: 'All_Family_Country_Map.csv',
+        dir: 'raw',
+        required: true,
+        requiredColumns: ['All Family Country', 'Total'],
+        signature: { columns: ['All Family Country', 'Total'], numericColumns: ['Total'] },
+    }),
+    priorityCountry: defineDataset<PriorityCountryRow>({
+        id: 'priorityCountry',
+        label: 'Priority Country',
+        filename: 'Priority_Country_Map.csv',
+        dir: 'raw',
+        required: true,
+        requiredColumns: ['Priority Country', 'Total'],
+        signature: { columns: ['Priority Country', 'Total'], numericColumns: ['Total'] },
+    }),
+    publicationCountry: defineDataset<PublicationCountryRow>({
+        id: 'publicationCountry',
+        label: 'Publication Country',
+        filename: 'Publication_Country_Map.csv',
+        alternates: ['Publication_Country_Map_old.csv'],
+        dir: 'raw',
+        requiredColumns: ['Publication Country', 'Total'],
+        signature: { columns: ['Publication Country', 'Total'], numericColumns: ['Total'] },
+    }),
+    patentingTrends: defineDataset<PatentingTrendRow>({
+        id: 'patentingTrends',
+        label: 'Patenting Trends',
+        filename: 'Patenting_Trends.csv',
+        dir: 'raw',
+        signature: {
+            columns: ['Patenting Trends', 'Applications Filed'],
+            numericColumns: ['Applications Filed', 'Grant Published'],
+        },
+    }),
+    // Entity (column names are matched case-insensitively by the route)
+    assigneeCount: defineDataset<AssigneeCountRow>({
+        id: 'assigneeCount',
+        label: 'Assignee Count',
+        filename: 'Assignee_Count.csv',
+        dir: 'raw',
+        signature: { columns: ['Assignee', 'Count'], numericColumns: ['Count'] },
+    }),
+    assigneeCountry: defineDataset<AssigneeCountryRow>({
+        id: 'assigneeCountry',
+        label: 'Assignee Country',
+        filename: 'Assignee_Country.csv',
+        dir: 'raw',
+        signature: { columns: ['Assignee', 'Country'] },
+    }),
+    inventorCount: defineDataset<InventorCountRow>({
+        id: 'inventorCount',
+        label: 'Inventor Count',
+        filename: 'Inventor_Count.csv',
+        dir: 'raw',
+        signature: { columns: ['Inventor', 'Total'], numericColumns: ['Total'] },
+    }),
+    inventorCountry: defineDataset<InventorCountryRow>({
+        id: 'inventorCountry',
+        label: 'Inventor Country',
+        filename: 'Inventor_Country.csv',
+        dir: 'raw',
+        signature: { columns: ['Inventor', 'Country'] },
+    }),
+    assigneeCountryProcessed: defineDataset<AssigneeCountryCountRow>({
+        id: 'assigneeCountryProcessed',
+        label: 'Assignee Country Processed',
+        filename: 'Assignee_Country_Count_Updated.csv',
+        dir: 'processed',
+        alternates: ['Assignee_Country_Count.csv'],
+        signature: { columns: ['Country', 'Assignee', 'Count'], numericColumns: ['Count'] },
+    }),
+
+    // Classification
+    ipcFull: defineDataset<ClassificationTotalRow>({
+        id: 'ipcFull',
+        label: 'IPC Full',
+        filename: 'IPC_Full.csv',
+        dir: 'raw',
+        alternates: ['ipc_full.csv', 'IPC_full.csv'],
+        signature: { columns: ['IPC Full', 'Total'], maxColumns: 2, numericColumns: ['Total'] },
+    }),
+    cpcFull: defineDataset<ClassificationTotalRow>({
+        id: 'cpcFull',
+        label: 'CPC Full',
+        filename: 'CPC_Full.csv',
+        dir: 'raw',
+        alternates: ['cpc_full.csv', 'CPC_full.csv'],
+        signature: { columns: ['CPC Full', 'Total'], maxColumns: 2, numericColumns: ['Total'] },
+    }),
+    ipcByOwner: defineDataset<ClassificationCrossTabRow>({
+        id: 'ipcByOwner',
+        label: 'Current Owner x IPC Full',
+        filename: 'Current-Owner_IPC-Full.csv',
+        dir: 'raw',
+        alternates: ['current_owner_ipc_full.csv', 'Current-Owner_IPC_Full.csv', 'IPC_Assignee.csv'],
+        signature: { columns: ['IPC Full', 'Total'], rowLabel: 'Current Owner', numericColumns: '*' },
+    }),
+    cpcByOwner: defineDataset<ClassificationCrossTabRow>({
+        id: 'cpcByOwner',
+        label: 'Current Owner x CPC Full',
+        filename: 'Current-Owner_CPC-Full.csv',
+        dir: 'raw',
+        alternates: ['current_owner_cpc_full.csv', 'Current-Owner_CPC_Full.csv', 'CPC_Assignee.csv'],
+        signature: { columns: ['CPC Full', 'Total'], rowLabel: 'Current Owner', numericColumns: '*' },
+    }),
+    cpcByYear: defineDataset<ClassificationYearRow>({
+        id: 'cpcByYear',
+        label: 'CPC Classifications vs Year',
+        filename: 'CPC_Classifications_vs_Year.csv',
+        dir: 'processed',
+        signature: { firstColumn: /^application year$/, numericColumns: '*' },
+    }),
+    ipcByYear: defineDataset<ClassificationYearRow>({
+        id: 'ipcByYear',
+        label: 'IPC Classifications vs Year',
+        filename: 'IPC_Classifications_vs_Year.csv',
+        dir: 'processed',
+        signature: { firstColumn: /^application year$/, numericColumns: '*' },
+    }),
+    // Raw Application Year x CPC/IPC Full cross-tabs the by-year tables are derived from
+    cpcYearCrossTab: defineDataset<ClassificationCrossTabRow>({
+        id: 'cpcYearCrossTab',
+        label: 'Application Year x CPC Full',
+        filename: 'Application-Year _CPC-Full.csv',
+        dir: 'raw',
+        alternates: ['Application-Year_CPC-Full.csv', 'application_year_cpc_full.csv'],
+        signature: { columns: ['CPC Full', 'Total'], rowLabel: 'Application Year', numericColumns: '*' },
+    }),
+    ipcYearCrossTab: defineDataset<ClassificationCrossTabRow>({
+        id: 'ipcYearCrossTab',
+        label: 'Application Year x IPC Full',
+        filename: 'Application-Year _IPC-Full.csv',
+        dir: 'raw',
+        alternates: ['Application-Year_IPC-Full.csv', 'application_year_ipc_full.csv'],
+        signature: { columns: ['IPC Full', 'Total'], rowLabel: 'Application Year', numericColumns: '*' },
+    }),
+
+    // Record-level workbooks
+    norwayRecords: defineDataset<NorwayRecordRow>({
+        id: 'norwayRecords',
+        label: 'Norwegian Records',
+        filename: 'Norsk_data.xlsx',
+        dir: 'raw',
+        requiredColumns: ['Record Number', 'Current Owner'],
+        signature: { columns: ['Record Number', 'Assignee', 'Current Owner', 'Filing/Application Date'] },
+    }),
+    resultTable: defineDataset<ResultTableRow>({
+        id: 'resultTable',
+        label: 'Result Table',
+        filename: 'G06N10_result_table.xlsx',
+        dir: 'raw',
+        alternates: ['Result_Table.xlsx'],
+        requiredColumns: ['Record Number', 'Current Owner'],
+        signature: {
+            columns: ['Record Number', 'Application No.', 'Title', 'Inventors', 'Current Assignee', 'Current Owner'],
+        },
+    }),
+    assigneeInventorCountry: defineDataset<AssigneeInventorCountryRow>({
+        id: 'assigneeInventorCountry',
+        label: 'Assignee Inventor Country',
+        filename: 'Assignee_Inventor_Country_Main.xlsx',
+        dir: 'raw',
+        requiredColumns: ['Record Number', 'Inventors', 'Current Assignee'],
+        signature: { columns: ['Record Number', 'Inventors', 'Current Assignee', 'Current Owner'] },
+    }),
+} as const
+
+export type DatasetId = keyof typeof DATASETS
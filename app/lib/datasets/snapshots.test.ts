@@ -0,0 +1,81 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createSnapshot, getSnapshotSource, isSnapshotLabel, listSnapshots } from './snapshots'
+import type { DataSource } from './types'
+
+let source: DataSource
+
+function writeExport(root: string, dir: string, fileName: string, content: string) {
+    fs.mkdirSync(path.join(root, dir), { recursive: true })
+    fs.writeFileSync(path.join(root, dir, fileName), content)
+}
+
+beforeEach(() => {
+    source = { id: 'test', root: fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-')) }
+    writeExport(source.root, 'raw', 'All_Family_Country_Map.csv', 'All Family Country,Total\nNO,4\n')
+    writeExport(source.root, 'raw', 'Assignee_Count.csv', 'Assignee,Count\nIBM,3\n')
+})
+
+afterEach(() => {
+    fs.rmSync(source.root, { recursive: true, force: true })
+})
+
+describe('isSnapshotLabel', () => {
+    it('accepts only real calendar dates', () => {
+        expect(isSnapshotLabel('2025-02-28')).toBe(true)
+        expect(isSnapshotLabel('2025-02-30')).toBe(false)
+        expect(isSnapshotLabel('latest')).toBe(false)
+    })
+})
+
+describe('createSnapshot', () => {
+    it('copies the registered exports under the date label', () => {
+        fs.writeFileSync(path.join(source.root, 'raw', 'notes.txt'), 'not an export')
+
+        const snapshot = createSnapshot(source, '2025-01-15')
+
+        expect(snapshot).toEqual({ label: '2025-01-15', datasets: ['familyCountry', 'assigneeCount'] })
+        expect(fs.readdirSync(path.join(source.root, 'snapshots', '2025-01-15', 'raw')).sort())
+            .toEqual(['All_Family_Country_Map.csv', 'Assignee_Count.csv'])
+    })
+
+    it('refuses labels that are not dates and existing snapshots', () => {
+        expect(() => createSnapshot(source, 'before-cleanup')).toThrow('Snapshot labels are dates')
+        createSnapshot(source, '2025-01-15')
+        expect(() => createSnapshot(source, '2025-01-15')).toThrow('already exists')
+    })
+})
+
+describe('listSnapshots', () => {
+    it('lists dated snapshots oldest first with the exports each holds', () => {
+        createSnapshot(source, '2025-03-01')
+        fs.rmSync(path.join(source.root, 'raw', 'Assignee_Count.csv'))
+        createSnapshot(source, '2024-11-20')
+        fs.mkdirSync(path.join(source.root, 'snapshots', 'scratch'))
+
+        expect(listSnapshots(source)).toEqual([
+            { label: '2024-11-20', datasets: ['familyCountry'] },
+            { label: '2025-03-01', datasets: ['familyCountry', 'assigneeCount'] },
+        ])
+    })
+
+    it('is empty before the first snapshot', () => {
+        expect(listSnapshots(source)).toEqual([])
+    })
+})
+
+describe('getSnapshotSource', () => {
+    it('resolves existing snapshots and falls back to the live source without a label', () => {
+        createSnapshot(source, '2025-01-15')
+
+        expect(getSnapshotSource(source, null)).toBe(source)
+        expect(getSnapshotSource(source, '2025-01-15')).toEqual({
+            id: 'test',
+            root: path.join(source.root, 'snapshots', '2025-01-15'),
+            snapshot: '2025-01-15',
+        })
+        expect(getSnapshotSource(source, '2025-01-16')).toBeNull()
+    })
+})
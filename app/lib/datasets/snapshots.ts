@@ -0,0 +1,92 @@
+// app/lib/datasets/snapshots.ts
+import fs from 'fs'
+import path from 'path'
+import { SnapshotError } from './errors'
+import { findDataFile } from './loader'
+import { DATASETS } from './registry'
+import type { DataSource, DatasetDefinition } from './types'
+
+// Constants
+// Each snapshot is a dated copy of the source's raw/ and processed/ folders
+const SNAPSHOT_DIR = 'snapshots'
+const SNAPSHOT_LABEL = /^\d{4}-\d{2}-\d{2}$/
+
+// Interfaces
+export interface SnapshotInfo {
+    label: string
+    // Registered datasets present in the snapshot
+    datasets: string[]
+}
+
+export function isSnapshotLabel(label: string): boolean {
+    if (!SNAPSHOT_LABEL.test(label)) return false
+    const date = new Date(`${label}T00:00:00Z`)
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === label
+}
+
+function snapshotRoot(source: DataSource): string {
+    return path.join(source.root, SNAPSHOT_DIR)
+}
+
+function presentDatasets(source: DataSource): string[] {
+    return (Object.values(DATASETS) as DatasetDefinition[])
+        .filter(definition => findDataFile(source, definition.filename, definition.dir, definition.alternates) !== null)
+        .map(definition => definition.id)
+}
+
+// Snapshots of a live source, oldest first
+export function listSnapshots(source: DataSource): SnapshotInfo[] {
+    const root = snapshotRoot(source)
+    if (!fs.existsSync(root)) return []
+
+    return fs.readdirSync(root, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && isSnapshotLabel(entry.name))
+        .map(entry => entry.name)
+        .sort()
+        .map(label => ({ label, datasets: presentDatasets(getSnapshotSource(source, label) as DataSource) }))
+}
+
+// The live source when no label is given; null when the snapshot does not exist
+export function getSnapshotSource(source: DataSource, label: string | null | undefined): DataSource | null {
+    if (!label) return source
+    if (!isSnapshotLabel(label)) return null
+
+    const root = path.join(snapshotRoot(source), label)
+    if (!fs.existsSync(root)) return null
+
+    return { id: source.id, root, snapshot: label }
+}
+
+/**
+ * Freezes the live exports under a date label (today by default). Only the
+ * registered datasets are copied, each keeping the file name it was found
+ * under, so the snapshot loads exactly like the live folder did.
+ */
+export function createSnapshot(source: DataSource, label: string = new Date().toISOString().slice(0, 10)): SnapshotInfo {
+    if (!isSnapshotLabel(label)) {
+        throw new SnapshotError(`Snapshot labels are dates (YYYY-MM-DD), got "${label}"`)
+    }
+
+    const target = path.join(snapshotRoot(source), label)
+    if (fs.existsSync(target)) {
+        throw new SnapshotError(`Snapshot ${label} already exists for "${source.id}"`)
+    }
+
+    const copied: string[] = []
+    for (const definition of Object.values(DATASETS) as DatasetDefinition[]) {
+        const filePath = findDataFile(source, definition.filename, definition.dir, definition.alternates)
+        if (!filePath) continue
+
+        const dir = path.join(target, definition.dir)
+        fs.mkdirSync(dir, { recursive: true })
+        fs.copyFileSync(filePath, path.join(dir, path.basename(filePath)))
+        copied.push(definition.id)
+    }
+
+    if (copied.length === 0) {
+        throw new SnapshotError(`No datasets found for "${source.id}", nothing to snapshot`)
+    }
+
+    console.log(`✓ Snapshot ${label} of "${source.id}": ${copied.length} datasets`)
+    return { label, datasets: copied }
+}
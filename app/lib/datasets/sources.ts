@@ -0,0 +1,134 @@
+// app/lib/datasets/sources.ts
+import fs from 'fs'
+import path from 'path'
+import { DEFAULT_CATEGORY, QUANTUM_CATEGORIES, findCategory } from '../categories'
+import type { YearExtent } from '../yearRange'
+import { DatasetError } from './errors'
+import { findDataFile, loadDataset } from './loader'
+import { DATASETS } from './registry'
+import { listSnapshots } from './snapshots'
+import type { DataSource, DatasetDefinition, ParseDiagnostic } from './types'
+
+// Constants
+const DATA_ROOT = 'data'
+
+// Validations by source folder, reused until a dataset file is added, removed or modified
+const validationCache = new Map<string, { fingerprint: string, validation: SourceValidation }>()
+
+// Interfaces
+export interface SourceValidation {
+    valid: boolean
+    // Problems with required datasets (these make the source unavailable)
+    errors: string[]
+    // Optional datasets that are missing or failed to parse
+    warnings: string[]
+}
+
+export interface CategoryStatus {
+    id: string
+    label: string
+    class: string
+    available: boolean
+    validation: SourceValidation
+    // Years covered by the timeline export; bounds the UI's year-range slider
+    years: YearExtent | null
+    // Date labels of the frozen snapshots, oldest first
+    snapshots: string[]
+}
+
+// Unknown categories resolve to null; an empty id resolves to the default category
+export function getCategorySource(categoryId: string | null | undefined): DataSource | null {
+    const category = findCategory(categoryId)
+    if (!category) return null
+
+    return {
+        id: category.id,
+        root: path.join(process.cwd(), DATA_ROOT, category.dataDir),
+    }
+}
+
+export const DEFAULT_DATA_SOURCE = getCategorySource(DEFAULT_CATEGORY) as DataSource
+
+// The file each dataset resolves to with its modification time, so uploads and edits show up
+function sourceFingerprint(source: DataSource): string {
+    return (Object.values(DATASETS) as DatasetDefinition[])
+        .map(definition => {
+            const filePath = findDataFile(source, definition.filename, definition.dir, definition.alternates)
+            return filePath ? `${filePath}@${fs.statSync(filePath).mtimeMs}` : `${definition.id}@missing`
+        })
+        .join('|')
+}
+
+/**
+ * Checks that a source folder contains every required dataset in a readable,
+ * schema-conforming form. A category whose folder validates is served by the
+ * routes and offered in the UI without any code change. Parsing every export
+ * is slow, so the result is kept until one of the files changes.
+ */
+export function validateDataSource(source: DataSource): SourceValidation {
+    if (!fs.existsSync(source.root)) {
+        return {
+            valid: false,
+            errors: [`Data folder not found: ${path.relative(process.cwd(), source.root)}`],
+            warnings: [],
+        }
+    }
+
+    const fingerprint = sourceFingerprint(source)
+    const cached = validationCache.get(source.root)
+    if (cached?.fingerprint === fingerprint) return cached.validation
+
+    const validation = parseDataSource(source)
+    validationCache.set(source.root, { fingerprint, validation })
+    return validation
+}
+
+function parseDataSource(source: DataSource): SourceValidation {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const describe = (diagnostics: ParseDiagnostic[]) =>
+        diagnostics.filter(d => d.level === 'error').map(d => d.message).join('; ')
+
+    for (const definition of Object.values(DATASETS) as DatasetDefinition[]) {
+        try {
+            const dataset = loadDataset(definition, source)
+            if (definition.required && dataset.records.length === 0) {
+                errors.push(`${definition.label}: no rows`)
+            }
+            const problems = describe(dataset.diagnostics)
+            if (!definition.required && problems) {
+                warnings.push(`${definition.label}: ${problems}`)
+            }
+        } catch (error) {
+            errors.push(error instanceof DatasetError ? error.message : `${definition.label}: ${String(error)}`)
+        }
+    }
+
+    return { valid: errors.length === 0, errors, warnings }
+}
+
+// Timeline columns after the owner are application years
+export function getYearExtent(source: DataSource): YearExtent | null {
+    const years = loadDataset(DATASETS.timelineOwner, source).columns
+        .filter(column => /^\d{4}$/.test(column))
+        .map(column => parseInt(column, 10))
+
+    return years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null
+}
+
+export function getCategoryStatuses(): CategoryStatus[] {
+    return QUANTUM_CATEGORIES.map(category => {
+        const source = getCategorySource(category.id) as DataSource
+        const validation = validateDataSource(source)
+        return {
+            id: category.id,
+            label: category.label,
+            class: category.class,
+            available: validation.valid,
+            validation,
+            years: validation.valid ? getYearExtent(source) : null,
+            snapshots: listSnapshots(source).map(snapshot => snapshot.label),
+        }
+    })
+}
@@ -0,0 +1,175 @@
+// app/lib/datasets/types.ts
+
+export type DataDirectory = 'raw' | 'processed'
+
+// A folder holding raw/ and processed/ exports, e.g. one quantum category
+export interface DataSource {
+    id: string
+    root: string
+    // Date label when the folder is a frozen snapshot rather than the live exports
+    snapshot?: string
+}
+
+// A parsed row, keyed by the (trimmed) header of the export
+export type DataRow = Record<string, string>
+
+// Row schemas for the PatSeer exports we know about
+export interface FamilyCountryRow extends DataRow {
+    'All Family Country': string
+    Total: string
+}
+
+export interface PriorityCountryRow extends DataRow {
+    'Priority Country': string
+    Total: string
+}
+
+export interface PublicationCountryRow extends DataRow {
+    'Publication Country': string
+    Total: string
+}
+
+export interface PublicationYearRow extends DataRow {
+    'Publication Year': string
+    Total: string
+}
+
+export interface PatentingTrendRow extends DataRow {
+    'Patenting Trends': string
+    'Applications Filed': string
+    'Grant Published': string
+}
+
+// Owner column followed by one column per year
+export interface TimelineOwnerRow extends DataRow {
+    'Current Owner': string
+}
+
+export interface AssigneeCountRow extends DataRow {
+    Assignee: string
+    Count: string
+}
+
+export interface AssigneeCountryRow extends DataRow {
+    Assignee: string
+    Country: string
+}
+
+export interface AssigneeCountryCountRow extends DataRow {
+    Country: string
+    Assignee: string
+    Count: string
+}
+
+export interface InventorCountRow extends DataRow {
+    Inventor: string
+    Total: string
+}
+
+export interface InventorCountryRow extends DataRow {
+    Inventor: string
+    Country: string
+}
+
+// "<Dimension> Full", "Total"
+export interface ClassificationTotalRow extends DataRow {
+    Total: string
+}
+
+// Row label, "Total", then one column per classification code
+export interface ClassificationCrossTabRow extends DataRow {
+    Total: string
+}
+
+// "Application Year" followed by one column per classification code
+export type ClassificationYearRow = DataRow
+
+// Record-level exports (one row per publication), usually delivered as XLSX
+export interface PatentRecordRow extends DataRow {
+    'Record Number': string
+    'Current Owner': string
+}
+
+export interface NorwayRecordRow extends PatentRecordRow {
+    Title: string
+    Assignee: string
+    'Publication/Issue Date': string
+    'Filing/Application Date': string
+}
+
+export interface ResultTableRow extends PatentRecordRow {
+    'Application No.': string
+    Title: string
+    'Publication/Issue Date': string
+    'Priority Dates (All)': string
+    Inventors: string
+    'Current Assignee': string
+}
+
+export interface AssigneeInventorCountryRow extends PatentRecordRow {
+    Inventors: string
+    'Current Assignee': string
+}
+
+// How an uploaded export is recognised from its header. Names are compared
+// trimmed and case-insensitively; every given constraint must hold
+export interface DatasetSignature {
+    // Header cells that must all be present
+    columns?: string[]
+    // Pattern for the first header cell (the row dimension)
+    firstColumn?: RegExp
+    // Pattern every header cell after the first must match, e.g. years
+    otherColumns?: RegExp
+    // Upper bound on header width, to tell totals apart from cross-tabs
+    maxColumns?: number
+    // Cross-tab exports repeat the row dimension alone on the line below the header
+    rowLabel?: string
+    // Columns whose non-empty cells must be numbers; '*' means every column after the first
+    numericColumns?: string[] | '*'
+}
+
+export interface DatasetDefinition<Row extends DataRow = DataRow> {
+    id: string
+    label: string
+    filename: string
+    dir: DataDirectory
+    // Other names the same export has been saved under. Every name is also
+    // tried with the other supported extension (.csv <-> .xlsx)
+    alternates?: string[]
+    // Workbook sheet (name or zero-based index) and zero-based header row for
+    // XLSX files; the first sheet and a detected header row by default
+    sheet?: string | number
+    headerRow?: number
+    // Missing or unreadable required datasets throw instead of returning no rows
+    required?: boolean
+    // Columns that must be present in the header for the rows to match the schema
+    requiredColumns?: Array<keyof Row & string>
+    // Header fingerprint used to identify uploads; unsigned datasets can only
+    // be uploaded by naming them explicitly
+    signature?: DatasetSignature
+}
+
+export type DiagnosticLevel = 'info' | 'warning' | 'error'
+
+export interface ParseDiagnostic {
+    level: DiagnosticLevel
+    message: string
+    line?: number
+}
+
+export interface LoadedDataset<Row extends DataRow = DataRow> {
+    id: string
+    filePath: string | null
+    fileName: string | null
+    columns: string[]
+    records: Row[]
+    diagnostics: ParseDiagnostic[]
+}
+
+// Serializable summary of a load, returned by the API routes
+export interface DatasetSummary {
+    id: string
+    fileName: string | null
+    rowCount: number
+    diagnostics: ParseDiagnostic[]
+}
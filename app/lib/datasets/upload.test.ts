@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsvContent } from './csv'
+import { DATASETS } from './registry'
+import type { DatasetDefinition } from './types'
+import { checkUpload, identifyDataset, validateUpload } from './upload'
+
+describe('identifyDataset', () => {
+    it('prefers the export whose signature the header satisfies most fully', () => {
+        const matches = identifyDataset(parseCsvContent('Country,Assignee,Count\nFI,IQM FINLAND OY,12\n'))
+
+        expect(matches[0].id).toBe('assigneeCountryProcessed')
+        expect(matches.map(m => m.id)).toContain('assigneeCount')
+        expect(matches.map(m => m.id)).toContain('assigneeCountry')
+    })
+
+    it('tells owner and year cross-tabs apart by their label row', () => {
+        const owners = identifyDataset(parseCsvContent('CPC Full,G06N10/00,Total\nCurrent Owner,,\nIBM,3,3\n'))
+        const years = identifyDataset(parseCsvContent('CPC Full,G06N10/00,Total\nApplication Year,,\n2021,3,3\n'))
+
+        expect(owners[0].id).toBe('cpcByOwner')
+        expect(years[0].id).toBe('cpcYearCrossTab')
+    })
+
+    it('matches nothing for an unknown header', () => {
+        expect(identifyDataset(parseCsvContent('Foo,Bar\n1,2\n'))).toEqual([])
+    })
+})
+
+describe('validateUpload', () => {
+    it('flags text in numeric columns and accepts blank counts', () => {
+        const table = parseCsvContent('Inventor,Total\nMOTTONEN MIKKO,20\nLAHTEENMAKI PASI,\nHASSLER SIMON,n/a\n')
+        const diagnostics = validateUpload(DATASETS.inventorCount as DatasetDefinition, table)
+
+        expect(diagnostics).toEqual([
+            { level: 'error', line: 4, message: '"n/a" in column "Total" is not a number' },
+        ])
+    })
+
+    it('warns about rows without a key value', () => {
+        const table = parseCsvContent('Inventor,Total\n,4\n')
+        const diagnostics = validateUpload(DATASETS.inventorCount as DatasetDefinition, table)
+
+        expect(diagnostics.map(d => d.level)).toEqual(['warning'])
+        expect(diagnostics[0].message).toContain('"Inventor"')
+    })
+
+    it('reports missing columns and empty tables', () => {
+        const diagnostics = validateUpload(DATASETS.assigneeCountryProcessed as DatasetDefinition, parseCsvContent('Assignee,Count\n'))
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            'Missing column(s) for Assignee Country Processed: "Country"',
+            'The file has a header but no data rows',
+        ])
+    })
+})
+
+describe('checkUpload', () => {
+    it('identifies and validates a CSV export', () => {
+        const report = checkUpload('export.csv', Buffer.from('Priority Country,Total\nNO,4\nFI,"1,204"\n'))
+
+        expect(report.datasetId).toBe('priorityCountry')
+        expect(report.rowCount).toBe(2)
+        expect(report.valid).toBe(true)
+    })
+
+    it('asks for a dataset when the header matches several equally well', () => {
+        const report = checkUpload('classes.csv', Buffer.from('Application Year,G06N10/00\n2021,3\n'))
+
+        expect(report.datasetId).toBeNull()
+        expect(report.valid).toBe(false)
+        expect(report.diagnostics[0].message).toContain('matches several datasets')
+    })
+
+    it('uses the dataset the caller names', () => {
+        const report = checkUpload('classes.csv', Buffer.from('Application Year,G06N10/00\n2021,3\n'), 'ipcByYear')
+
+        expect(report.datasetId).toBe('ipcByYear')
+        expect(report.valid).toBe(true)
+    })
+
+    it('rejects unsupported files and unknown datasets', () => {
+        expect(checkUpload('export.pdf', Buffer.from('')).diagnostics[0].message).toContain('Unsupported file type ".pdf"')
+        expect(checkUpload('export.csv', Buffer.from('A,B\n'), 'toString').diagnostics[0].message).toBe('Unknown dataset: toString')
+    })
+})
@@ -0,0 +1,256 @@
+// app/lib/datasets/upload.ts
+import fs from 'fs'
+import path from 'path'
+import { MAX_ROW_DIAGNOSTICS, parseCsvContent } from './csv'
+import type { ParsedTable } from './csv'
+import { parseWorkbook } from './xlsx'
+import { getDataDirectory, isWorkbook } from './loader'
+import { DATASETS } from './registry'
+import type { DatasetId } from './registry'
+import type { DataSource, DatasetDefinition, DatasetSignature, ParseDiagnostic } from './types'
+
+// Constants
+const SUPPORTED_UPLOADS = ['.csv', '.xlsx']
+
+// Interfaces
+export interface DatasetMatch {
+    id: DatasetId
+    label: string
+    // Number of signature constraints the header satisfied
+    score: number
+}
+
+export interface UploadReport {
+    fileName: string
+    datasetId: DatasetId | null
+    datasetLabel: string | null
+    // Every registered dataset whose signature matches, best first
+    candidates: DatasetMatch[]
+    columns: string[]
+    rowCount: number
+    diagnostics: ParseDiagnostic[]
+    // True when nothing at 'error' level was found and the file can be installed
+    valid: boolean
+}
+
+export interface InstallResult {
+    datasetId: DatasetId
+    fileName: string
+    // Other copies of the same export that the upload supersedes
+    replaced: string[]
+}
+
+// Utility Functions
+function normalize(value: string): string {
+    return value.trim().toLowerCase()
+}
+
+function isNumeric(value: string): boolean {
+    return value !== '' && !isNaN(Number(value.replace(/,/g, '')))
+}
+
+function signatureScore(signature: DatasetSignature, table: ParsedTable): number {
+    const columns = table.columns.map(normalize)
+    let score = 0
+
+    if (signature.columns) {
+        if (!signature.columns.every(c => columns.includes(normalize(c)))) return 0
+        score += signature.columns.length
+    }
+    if (signature.firstColumn) {
+        if (!signature.firstColumn.test(columns[0] ?? '')) return 0
+        score++
+    }
+    if (signature.otherColumns) {
+        const others = columns.slice(1)
+        if (others.length === 0 || !others.every(c => signature.otherColumns!.test(c))) return 0
+        score++
+    }
+    if (signature.maxColumns !== undefined) {
+        if (columns.length > signature.maxColumns) return 0
+        score++
+    }
+    if (signature.rowLabel) {
+        const first = table.records[0]
+        const cells = first ? table.columns.map(c => first[c]) : []
+        if (normalize(cells[0] ?? '') !== normalize(signature.rowLabel) || cells.slice(1).some(Boolean)) return 0
+        // The label row pins the export down more than any single column
+        score += 2
+    }
+
+    return score
+}
+
+/**
+ * Matches an uploaded table against every registered signature. Candidates
+ * are sorted best first; a tie at the top means the header alone cannot tell
+ * the datasets apart.
+ */
+export function identifyDataset(table: ParsedTable): DatasetMatch[] {
+    return (Object.entries(DATASETS) as Array<[DatasetId, DatasetDefinition]>)
+        .filter(([, definition]) => definition.signature)
+        .map(([id, definition]) => ({ id, label: definition.label, score: signatureScore(definition.signature!, table) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Row-level checks for a table about to be installed as the given dataset:
+ * required columns, a value in the first column and numbers where the
+ * signature expects them. PatSeer leaves zero counts blank, so empty numeric
+ * cells are accepted.
+ */
+export function validateUpload(definition: DatasetDefinition, table: ParsedTable): ParseDiagnostic[] {
+    const diagnostics: ParseDiagnostic[] = []
+    const columns = table.columns.map(normalize)
+
+    const missing = [...(definition.requiredColumns || []), ...(definition.signature?.columns || [])]
+        .filter((c, idx, all) => all.indexOf(c) === idx && !columns.includes(normalize(c)))
+    if (missing.length > 0) {
+        diagnostics.push({
+            level: 'error',
+            message: `Missing column(s) for ${definition.label}: ${missing.map(c => `"${c}"`).join(', ')}`
+        })
+    }
+
+    if (table.records.length === 0) {
+        diagnostics.push({ level: 'error', message: 'The file has a header but no data rows' })
+        return diagnostics
+    }
+
+    const numeric = definition.signature?.numericColumns
+    const numericColumns = numeric === '*'
+        ? table.columns.slice(1)
+        : table.columns.filter(c => (numeric || []).some(n => normalize(n) === normalize(c)))
+    const keyColumn = table.columns[0]
+
+    let rowIssues = 0
+    const reportRow = (diagnostic: ParseDiagnostic) => {
+        rowIssues++
+        if (rowIssues <= MAX_ROW_DIAGNOSTICS) {
+            diagnostics.push(diagnostic)
+        }
+    }
+
+    table.records.forEach((record, idx) => {
+        const line = table.lines[idx]
+        if (!record[keyColumn]) {
+            reportRow({ level: 'warning', line, message: `No "${keyColumn}" value; the row will be ignored` })
+        }
+        for (const column of numericColumns) {
+            const value = record[column]
+            if (value && !isNumeric(value)) {
+                reportRow({ level: 'error', line, message: `"${value}" in column "${column}" is not a number` })
+            }
+        }
+    })
+
+    if (rowIssues > MAX_ROW_DIAGNOSTICS) {
+        diagnostics.push({
+            level: 'info',
+            message: `${rowIssues - MAX_ROW_DIAGNOSTICS} further row problems omitted`
+        })
+    }
+
+    return diagnostics
+}
+
+/**
+ * Parses an uploaded export, identifies which dataset it is (unless the
+ * caller names one) and validates it. Nothing is written to disk.
+ */
+export function checkUpload(fileName: string, content: Buffer, datasetId?: string | null): UploadReport {
+    const report: UploadReport = {
+        fileName,
+        datasetId: null,
+        datasetLabel: null,
+        candidates: [],
+        columns: [],
+        rowCount: 0,
+        diagnostics: [],
+        valid: false,
+    }
+    const fail = (message: string) => {
+        report.diagnostics.push({ level: 'error', message })
+        return report
+    }
+
+    const ext = path.extname(fileName).toLowerCase()
+    if (!SUPPORTED_UPLOADS.includes(ext)) {
+        return fail(`Unsupported file type "${ext || fileName}"; upload a PatSeer CSV or XLSX export`)
+    }
+    if (datasetId && !Object.prototype.hasOwnProperty.call(DATASETS, datasetId)) {
+        return fail(`Unknown dataset: ${datasetId}`)
+    }
+
+    let table: ParsedTable
+    try {
+        const definition = datasetId ? DATASETS[datasetId as DatasetId] as DatasetDefinition : undefined
+        table = isWorkbook(fileName)
+            ? parseWorkbook(content, { sheet: definition?.sheet, headerRow: definition?.headerRow })
+            : parseCsvContent(content.toString('utf-8'))
+    } catch (error) {
+        return fail(`Could not parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    report.columns = table.columns
+    report.rowCount = table.records.length
+    report.diagnostics.push(...table.diagnostics)
+    report.candidates = identifyDataset(table)
+
+    let resolvedId = datasetId as DatasetId | null | undefined
+    if (!resolvedId) {
+        const [best, next] = report.candidates
+        if (!best) {
+            return fail('The header does not match any known PatSeer export; choose the dataset explicitly')
+        }
+        if (next && next.score === best.score) {
+            const tied = report.candidates.filter(c => c.score === best.score).map(c => c.label)
+            return fail(`The header matches several datasets (${tied.join(', ')}); choose one explicitly`)
+        }
+        resolvedId = best.id
+    }
+
+    const definition = DATASETS[resolvedId] as DatasetDefinition
+    report.datasetId = resolvedId
+    report.datasetLabel = definition.label
+    report.diagnostics.push(...validateUpload(definition, table))
+    report.valid = !report.diagnostics.some(d => d.level === 'error')
+
+    return report
+}
+
+/**
+ * Writes a validated upload into the source folder under the dataset's
+ * canonical filename, keeping the uploaded extension. A copy of the same
+ * export in the other format is removed so the loader cannot pick it first.
+ */
+export function installUpload(
+    datasetId: DatasetId,
+    fileName: string,
+    content: Buffer,
+    source: DataSource
+): InstallResult {
+    const definition = DATASETS[datasetId] as DatasetDefinition
+    const dir = getDataDirectory(source, definition.dir)
+    const base = path.basename(definition.filename, path.extname(definition.filename))
+    const target = base + path.extname(fileName).toLowerCase()
+
+    fs.mkdirSync(dir, { recursive: true })
+
+    const replaced = SUPPORTED_UPLOADS
+        .map(ext => base + ext)
+        .filter(name => fs.existsSync(path.join(dir, name)))
+    for (const name of replaced.filter(name => name !== target)) {
+        fs.unlinkSync(path.join(dir, name))
+    }
+    fs.writeFileSync(path.join(dir, target), content)
+
+    console.log(`✓ Installed ${fileName} as ${path.join(dir, target)}`)
+
+    return {
+        datasetId,
+        fileName: path.join(definition.dir, target),
+        replaced,
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import { detectHeaderRow, parseWorkbook } from './xlsx'
+
+function workbookBuffer(rows: unknown[][], sheetName = 'Sheet1'): Buffer {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), sheetName)
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
+describe('parseWorkbook', () => {
+    it('reads date cells as the calendar date shown in Excel', () => {
+        const table = parseWorkbook(workbookBuffer([
+            ['Record Number', 'Publication/Issue Date'],
+            ['NO20240001A1', new Date(2025, 7, 27)],
+            ['NO20240002A1', new Date(2024, 0, 1)],
+        ]))
+
+        expect(table.records.map(r => r['Publication/Issue Date'])).toEqual(['2025-08-27', '2024-01-01'])
+    })
+
+    it('skips title rows above the header', () => {
+        const table = parseWorkbook(workbookBuffer([
+            ['G06N10 landscape'],
+            [],
+            ['Record Number', 'Title', 'Current Owner'],
+            ['FI20225123A', 'Qubit coupler', 'IQM FINLAND OY'],
+        ]))
+
+        expect(table.columns).toEqual(['Record Number', 'Title', 'Current Owner'])
+        expect(table.records).toEqual([{ 'Record Number': 'FI20225123A', Title: 'Qubit coupler', 'Current Owner': 'IQM FINLAND OY' }])
+        expect(table.diagnostics.some(d => d.message.startsWith('Header found on row 3'))).toBe(true)
+    })
+
+    it('throws for a missing sheet', () => {
+        expect(() => parseWorkbook(workbookBuffer([['A', 'B']]), { sheet: 'Results' })).toThrow('Sheet "Results" not found')
+    })
+})
+
+describe('detectHeaderRow', () => {
+    it('accepts numeric year headers after a text label', () => {
+        expect(detectHeaderRow([
+            ['Report', '', ''],
+            ['Current Owner', '2023', '2024'],
+            ['IQM FINLAND OY', '5', '18'],
+        ])).toBe(1)
+    })
+})
@@ -0,0 +1,115 @@
+// app/lib/datasets/xlsx.ts
+import * as XLSX from 'xlsx'
+import { buildRecords } from './csv'
+import type { ParsedTable, RawRow } from './csv'
+import type { ParseDiagnostic } from './types'
+
+// Constants
+// PatSeer puts report titles and filter summaries above the table in some exports
+const HEADER_SCAN_ROWS = 10
+
+// Interfaces
+export interface WorkbookOptions {
+    // Sheet name or zero-based index; defaults to the first sheet
+    sheet?: string | number
+    // Zero-based header row; detected when omitted
+    headerRow?: number
+}
+
+// SheetJS builds date cells at local midnight, so the calendar date is read in local
+// time; toISOString would shift it back a day on servers ahead of UTC
+function formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function cellToString(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    if (value instanceof Date) return formatDate(value)
+    return String(value).trim()
+}
+
+// Number of cells up to and including the last non-empty one
+function filledWidth(cells: string[]): number {
+    let width = cells.length
+    while (width > 0 && cells[width - 1] === '') width--
+    return width
+}
+
+function selectSheet(workbook: XLSX.WorkBook, sheet: string | number | undefined): string | null {
+    if (sheet === undefined) return workbook.SheetNames[0] ?? null
+    if (typeof sheet === 'number') return workbook.SheetNames[sheet] ?? null
+
+    // Exports get renamed by hand, so match sheet names case-insensitively
+    return workbook.SheetNames.find(name => name.trim().toLowerCase() === sheet.trim().toLowerCase()) ?? null
+}
+
+/**
+ * Picks the first row that looks like a header: at least half as many
+ * filled cells as the widest row near the top, starting with a text label.
+ * Year headers are numeric, so only the first cell is required to be text.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+    const candidates = rows.slice(0, HEADER_SCAN_ROWS)
+    const widest = Math.max(0, ...candidates.map(row => row.filter(Boolean).length))
+
+    const index = candidates.findIndex(row => {
+        const filled = row.filter(Boolean)
+        return filled.length >= Math.max(2, Math.ceil(widest / 2)) &&
+            row[0] !== '' && isNaN(Number(row[0]))
+    })
+
+    return index === -1 ? 0 : index
+}
+
+/**
+ * Reads one sheet of an Excel workbook into the same header-keyed rows as a
+ * CSV export. Dates become ISO `YYYY-MM-DD` strings.
+ */
+export function parseWorkbook(content: Buffer, options: WorkbookOptions = {}): ParsedTable {
+    const diagnostics: ParseDiagnostic[] = []
+    const workbook = XLSX.read(content, { type: 'buffer', cellDates: true })
+
+    const sheetName = selectSheet(workbook, options.sheet)
+    if (!sheetName) {
+        throw new Error(`Sheet "${options.sheet}" not found (available: ${workbook.SheetNames.join(', ')})`)
+    }
+    if (workbook.SheetNames.length > 1) {
+        diagnostics.push({
+            level: 'info',
+            message: `Read sheet "${sheetName}" of ${workbook.SheetNames.length}`
+        })
+    }
+
+    const grid: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+        header: 1,
+        defval: '',
+        blankrows: true,
+    })
+    const rows = grid.map(row => row.map(cellToString))
+
+    if (rows.every(row => row.every(cell => cell === ''))) {
+        diagnostics.push({ level: 'warning', message: `Sheet "${sheetName}" is empty` })
+        return { columns: [], records: [], lines: [], diagnostics }
+    }
+
+    const headerIndex = options.headerRow ?? detectHeaderRow(rows)
+    if (headerIndex > 0) {
+        diagnostics.push({
+            level: 'info',
+            line: headerIndex + 1,
+            message: `Header found on row ${headerIndex + 1}; ${headerIndex} row(s) above it skipped`
+        })
+    }
+
+    // Trailing empty header cells come from formatting, not data
+    const width = filledWidth(rows[headerIndex])
+    const columns = rows[headerIndex].slice(0, width)
+
+    const body: RawRow[] = rows
+        .map((cells, idx) => ({ cells: cells.slice(0, Math.max(width, filledWidth(cells))), line: idx + 1 }))
+        .slice(headerIndex + 1)
+        .filter(row => row.cells.some(Boolean))
+
+    return buildRecords(columns, body, diagnostics)
+}
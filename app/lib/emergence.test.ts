@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { detectEmergence } from './emergence'
+import type { YearCounts } from './emergence'
+
+// One row per year from `from`, each code's series read in order
+function years(counts: Record<string, number[]>, from = 2019): YearCounts[] {
+    const length = Math.max(...Object.values(counts).map(c => c.length))
+    return Array.from({ length }, (_, i) => {
+        const row: YearCounts = { year: from + i }
+        for (const [code, series] of Object.entries(counts)) row[code] = series[i] ?? 0
+        return row
+    })
+}
+
+const OPTIONS = { window: 4, endYear: 2024, minRecords: 2 }
+
+describe('detectEmergence', () => {
+    it('flags an established code that gains share quickly', () => {
+        const result = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10],
+            'G06N10/70': [1, 1, 1, 2, 4, 8],
+        }), OPTIONS)
+
+        expect(result.map(r => r.code)).toEqual(['G06N10/70'])
+        expect(result[0]).toMatchObject({ startYear: 2021, growthFrom: 2021, startCount: 1, endCount: 8, isNew: false, isReemerging: false })
+        expect(result[0].cagr).toBeCloseTo(1, 5)
+    })
+
+    it('measures a new code from its first year and does not flag it when declining', () => {
+        const result = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10],
+            'H03K17/92': [0, 0, 0, 5, 3, 1],
+            'H04B10/70': [0, 0, 0, 0, 2, 2],
+        }), OPTIONS)
+
+        expect(result).toEqual([])
+    })
+
+    it('flags a new code that keeps growing after its first year', () => {
+        const [code] = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10],
+            'G16C10/00': [0, 0, 0, 1, 2, 4],
+        }), OPTIONS)
+
+        expect(code).toMatchObject({ code: 'G16C10/00', firstYear: 2022, growthFrom: 2022, isNew: true })
+        expect(code.cagr).toBeCloseTo(1, 5)
+    })
+
+    it('measures an older code without records at the window start from its return', () => {
+        const [code] = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10],
+            'G06N10/50': [3, 2, 0, 1, 3, 6],
+        }), OPTIONS)
+
+        expect(code).toMatchObject({
+            code: 'G06N10/50',
+            firstYear: 2019,
+            growthFrom: 2022,
+            startCount: 1,
+            endCount: 6,
+            isNew: false,
+            isReemerging: true,
+        })
+        expect(code.cagr).toBeCloseTo(Math.sqrt(6) - 1, 5)
+    })
+
+    it('ignores codes first seen in the end year and years after it', () => {
+        const result = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10, 10],
+            'G06N10/80': [0, 0, 0, 0, 0, 6, 9],
+        }), OPTIONS)
+
+        expect(result).toEqual([])
+    })
+
+    it('leaves out codes below the record threshold', () => {
+        const result = detectEmergence(years({
+            'G06N10/40': [10, 10, 10, 10, 10, 10],
+            'G06N10/20': [0, 0, 1, 0, 0, 1],
+        }), { ...OPTIONS, minRecords: 3 })
+
+        expect(result).toEqual([])
+    })
+})
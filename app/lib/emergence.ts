@@ -0,0 +1,118 @@
+// app/lib/emergence.ts
+// Emergence metrics over code-by-year counts, shared by the classification route and its component, so no Node imports here
+
+// Constants
+// Growth per year a code must sustain over the window to count as accelerating
+export const MIN_EMERGING_CAGR = 0.2
+
+// Interfaces
+export interface YearCounts {
+    year: number
+    [code: string]: number
+}
+
+export interface EmergenceOptions {
+    // Years the growth is measured over, ending at endYear
+    window: number
+    endYear: number
+    // Records a code needs inside the window before it is considered at all
+    minRecords: number
+}
+
+export interface EmergingCode {
+    code: string
+    // First year with any record, looking at every year available
+    firstYear: number
+    startYear: number
+    endYear: number
+    // Year growth is measured from: the first year inside the window with any record
+    growthFrom: number
+    startCount: number
+    endCount: number
+    windowTotal: number
+    // Compound annual growth from growthFrom to endYear
+    cagr: number
+    // Share of all classification counts in growthFrom and endYear, and the difference
+    startShare: number
+    endShare: number
+    shareGain: number
+    // First appeared inside the window
+    isNew: boolean
+    // Had records before the window but none in its first year
+    isReemerging: boolean
+}
+
+/**
+ * Flags codes that are rising, both in absolute terms and relative to the
+ * rest of the landscape: a code qualifies when it has at least `minRecords`
+ * records in the window, and between the start of its growth and endYear it
+ * gained share and grew by `MIN_EMERGING_CAGR` a year or more. Growth starts
+ * at the code's first year with records inside the window: the window's first
+ * year for most codes, later for codes that are new or returning after a gap,
+ * so a code first seen in endYear has no growth to measure yet. Ranked by
+ * share gain, then growth.
+ */
+export function detectEmergence(rows: YearCounts[], options: EmergenceOptions): EmergingCode[] {
+    const endYear = options.endYear
+    const startYear = endYear - options.window + 1
+    const years = [...rows].sort((a, b) => a.year - b.year)
+
+    const codes = new Set<string>()
+    for (const row of years) {
+        for (const key of Object.keys(row)) if (key !== 'year') codes.add(key)
+    }
+
+    const yearTotal = (year: number) => {
+        const row = years.find(r => r.year === year)
+        if (!row) return 0
+        return Object.entries(row).reduce((sum, [key, value]) => key === 'year' ? sum : sum + (value || 0), 0)
+    }
+    const endTotal = yearTotal(endYear)
+
+    const emerging: EmergingCode[] = []
+    for (const code of codes) {
+        const countIn = (year: number) => years.find(r => r.year === year)?.[code] || 0
+        const firstYear = years.find(r => (r[code] || 0) > 0)?.year
+        if (firstYear === undefined || firstYear > endYear) continue
+
+        const windowTotal = years
+            .filter(r => r.year >= startYear && r.year <= endYear)
+            .reduce((sum, r) => sum + (r[code] || 0), 0)
+        if (windowTotal < options.minRecords) continue
+
+        const growthFrom = years.find(r => r.year >= startYear && (r[code] || 0) > 0)?.year
+        if (growthFrom === undefined || growthFrom >= endYear) continue
+        const isNew = firstYear >= startYear
+        const isReemerging = !isNew && growthFrom > startYear
+
+        const startCount = countIn(growthFrom)
+        const endCount = countIn(endYear)
+
+        const cagr = Math.pow(endCount / startCount, 1 / (endYear - growthFrom)) - 1
+        const startTotal = yearTotal(growthFrom)
+        const startShare = startTotal > 0 ? startCount / startTotal : 0
+        const endShare = endTotal > 0 ? endCount / endTotal : 0
+
+        if (endShare - startShare <= 0) continue
+        if (cagr < MIN_EMERGING_CAGR) continue
+
+        emerging.push({
+            code,
+            firstYear,
+            startYear,
+            endYear,
+            growthFrom,
+            startCount,
+            endCount,
+            windowTotal,
+            cagr,
+            startShare,
+            endShare,
+            shareGain: endShare - startShare,
+            isNew,
+            isReemerging,
+        })
+    }
+
+    return emerging.sort((a, b) => b.shareGain - a.shareGain || b.cagr - a.cagr)
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { buildFamilyFlows, groupMinorOffices, parseFamilyMembers, unconfirmedOrigins } from './familyFlows'
+import type { FamilyRecord } from './familyFlows'
+
+function record(members: string, dates: string, extra: Partial<FamilyRecord> = {}): FamilyRecord {
+    return { recordNumber: members.split(/\s|\//)[0], applicationNumber: '', members, dates, ...extra }
+}
+
+describe('parseFamilyMembers', () => {
+    it('pairs each publication with its date, line by line', () => {
+        expect(parseFamilyMembers('FI20225123A / FI130000B\nUS2024123456A1', '01-Feb-2023 / 15-Mar-2024\n02-Oct-2024')).toEqual([
+            { publication: 'FI20225123A', office: 'FI', published: Date.UTC(2023, 1, 1) },
+            { publication: 'FI130000B', office: 'FI', published: Date.UTC(2024, 2, 15) },
+            { publication: 'US2024123456A1', office: 'US', published: Date.UTC(2024, 9, 2) },
+        ])
+    })
+
+    it('reads "None" as no members', () => {
+        expect(parseFamilyMembers('None', 'None')).toEqual([])
+    })
+})
+
+describe('buildFamilyFlows', () => {
+    const records = [
+        record('FI20225123A\nUS2024123456A1\nCN118000000A', '01-Feb-2023\n02-Oct-2024\n05-Jan-2023', { priorityDates: '10-Jan-2022' }),
+        // Another record of the same family
+        record('US2024123456A1\nFI20225123A\nCN118000000A', '02-Oct-2024\n01-Feb-2023\n05-Jan-2023', { priorityDates: '10-Jan-2022' }),
+        record('EP4200000A1\nWO2024000001A1', '01-Jun-2024\n01-Jan-2024', { priorityDates: '20-Jun-2023' }),
+        record('None', 'None', { recordNumber: '' }),
+    ]
+
+    it('counts each family once, from its earliest national publication', () => {
+        const flows = buildFamilyFlows(records)
+
+        expect(flows.families).toBe(2)
+        expect(flows.skipped).toBe(1)
+        expect(flows.originSources).toEqual({ priorityNumbers: 0, earliestPublication: 2 })
+        expect(flows.origins).toEqual([{ office: 'CN', families: 1 }, { office: 'EP', families: 1 }])
+        expect(flows.flows).toContainEqual({ origin: 'CN', destination: 'FI', families: 1 })
+        expect(flows.flows).toContainEqual({ origin: 'EP', destination: 'WO', families: 1 })
+    })
+
+    it('skips families with no office of first filing and leaves them out of the count', () => {
+        const flows = buildFamilyFlows([
+            ...records,
+            record('WO2024000002A1', '01-Mar-2024', { applicationNumber: 'IB2023000001W' }),
+        ])
+
+        expect(flows.skipped).toBe(2)
+        expect(flows.families).toBe(2)
+        expect(flows.families).toBe(flows.origins.reduce((sum, origin) => sum + origin.families, 0))
+        expect(flows.flows.map(flow => flow.origin)).not.toContain('WO')
+    })
+
+    it('prefers the office of the first priority number', () => {
+        const flows = buildFamilyFlows([{ ...records[0], priorityNumbers: 'FI20225123' }])
+
+        expect(flows.origins).toEqual([{ office: 'FI', families: 1 }])
+        expect(flows.originSources).toEqual({ priorityNumbers: 1, earliestPublication: 0 })
+    })
+
+    it('keeps only families whose earliest priority date is in the year range', () => {
+        const flows = buildFamilyFlows(records, { from: 2023, to: null })
+
+        expect(flows.families).toBe(1)
+        expect(flows.outOfRange).toBe(1)
+        expect(flows.origins).toEqual([{ office: 'EP', families: 1 }])
+    })
+})
+
+describe('unconfirmedOrigins', () => {
+    it('lists origins without filings in the priority-country export', () => {
+        const origins = [{ office: 'FI', families: 40 }, { office: 'CN', families: 27 }]
+
+        expect(unconfirmedOrigins(origins, new Map([['FI', 85], ['EP', 63]]))).toEqual([{ office: 'CN', families: 27 }])
+        expect(unconfirmedOrigins(origins, new Map())).toEqual([])
+    })
+})
+
+describe('groupMinorOffices', () => {
+    it('sums offices beyond the limits into Other', () => {
+        const grouped = groupMinorOffices([
+            { origin: 'FI', destination: 'US', families: 5 },
+            { origin: 'SE', destination: 'US', families: 2 },
+            { origin: 'DK', destination: 'JP', families: 1 },
+        ], 1, 1)
+
+        expect(grouped).toEqual([
+            { origin: 'FI', destination: 'US', families: 5 },
+            { origin: 'Other', destination: 'US', families: 2 },
+            { origin: 'Other', destination: 'Other', families: 1 },
+        ])
+    })
+})
@@ -0,0 +1,234 @@
+// app/lib/familyFlows.ts
+// Priority-to-family flows from record-level exports; plain data in and out, so no Node imports here
+import { ALL_YEARS, isInYearRange } from './yearRange'
+import type { YearRange } from './yearRange'
+
+// Interfaces
+export interface FamilyMember {
+    publication: string
+    // Publishing office, from the publication number's two-letter prefix
+    office: string
+    // Milliseconds since the epoch; null when the date cell is missing or unreadable
+    published: number | null
+}
+
+// One row of a result-table export, reduced to the columns the flows need
+export interface FamilyRecord {
+    recordNumber: string
+    // "Application No."; for PCT applications its prefix is the receiving office
+    applicationNumber: string
+    // "Simple Family Members" and the matching "Simple Family Publication Dates"
+    members: string
+    dates: string
+    // "Priority Numbers (All)" when the export has it
+    priorityNumbers?: string
+    // "Priority Dates (All)", dating the family for a year range
+    priorityDates?: string
+}
+
+export interface FamilyFlow {
+    // Office of first filing
+    origin: string
+    // Office the family was extended to (or kept at, when it is the origin)
+    destination: string
+    families: number
+}
+
+export interface FamilyFlows {
+    flows: FamilyFlow[]
+    // Families per origin office, largest first
+    origins: Array<{ office: string, families: number }>
+    // Families with an origin, so the sum over origins
+    families: number
+    // How the origin was determined, per family: from priority numbers or from the publications
+    originSources: { priorityNumbers: number, earliestPublication: number }
+    // Records without any family member or publication number to read an office from,
+    // and families with no office of first filing (PCT publications only, no receiving office)
+    skipped: number
+    // Families left out by the year range, undated ones included
+    outOfRange: number
+}
+
+// Constants
+// Label the offices beyond the top N are grouped under
+export const OTHER_OFFICES = 'Other'
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+// Offices that take filings from many countries and so say nothing about where an invention came from
+const NON_ORIGIN_OFFICES = ['WO', 'IB']
+
+const PUBLICATION_PATTERN = /^([A-Z]{2})[A-Z0-9]+$/
+
+// "02-Oct-2025" -> timestamp
+function parsePublicationDate(value: string | undefined): number | null {
+    const match = value?.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/)
+    if (!match) return null
+    const month = MONTHS.indexOf(match[2].toLowerCase())
+    return month === -1 ? null : Date.UTC(Number(match[3]), month, Number(match[1]))
+}
+
+function splitCell(value: string | undefined): string[] {
+    if (!value || value.trim() === 'None') return []
+    return value.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+}
+
+/**
+ * Reads PatSeer's family columns: one line per application, with the
+ * application's publications on that line separated by " / ", and the
+ * publication dates laid out the same way in the dates column.
+ */
+export function parseFamilyMembers(members: string | undefined, dates: string | undefined): FamilyMember[] {
+    const dateLines = splitCell(dates)
+    return splitCell(members).flatMap((line, i) => {
+        const lineDates = (dateLines[i] ?? '').split('/')
+        return line.split('/').map((publication, j) => {
+            const number = publication.trim().toUpperCase()
+            const match = number.match(PUBLICATION_PATTERN)
+            return match ? { publication: number, office: match[1], published: parsePublicationDate(lineDates[j]) } : null
+        })
+    }).filter((member): member is FamilyMember => member !== null)
+}
+
+// Year of the earliest priority date, or of the earliest publication when the record has none
+function familyYear(members: FamilyMember[], priorityDates: string | undefined): number | null {
+    const dates = splitCell(priorityDates)
+        .flatMap(line => line.split(/[;/]/))
+        .map(parsePublicationDate)
+        .filter((date): date is number => date !== null)
+    if (dates.length === 0) {
+        dates.push(...members.map(m => m.published).filter((date): date is number => date !== null))
+    }
+    return dates.length > 0 ? new Date(Math.min(...dates)).getUTCFullYear() : null
+}
+
+// Office of the first priority number ("FI20225123 / US63/123,456" -> FI)
+function priorityOffice(priorityNumbers: string | undefined): string | null {
+    for (const number of splitCell(priorityNumbers).flatMap(line => line.split(/[;/]/))) {
+        const match = number.trim().toUpperCase().match(/^([A-Z]{2})\d/)
+        if (match) return match[1]
+    }
+    return null
+}
+
+// The member published first, passing over PCT publications; a PCT-only family
+// falls back to the office the application was filed at ("EP2024064941W" -> EP)
+// and has no origin when that is not a national or regional office either
+function earliestOrigin(members: FamilyMember[], applicationNumber: string): string | null {
+    const national = members
+        .filter(m => !NON_ORIGIN_OFFICES.includes(m.office))
+        .sort((a, b) => (a.published ?? Infinity) - (b.published ?? Infinity))
+    if (national.length > 0) return national[0].office
+
+    const receivingOffice = applicationNumber.trim().toUpperCase().match(/^([A-Z]{2})\d/)?.[1]
+    if (receivingOffice && !NON_ORIGIN_OFFICES.includes(receivingOffice)) return receivingOffice
+    return null
+}
+
+/**
+ * Links each family's office of first filing to every office the family is
+ * published in. The origin is the first priority number's office when the
+ * export carries priority numbers, and otherwise the office of the earliest
+ * national publication, which misses priority filings that were never
+ * published themselves. Records of the same family are counted once, and a
+ * family is kept when its year (see familyYear) is in the range.
+ */
+export function buildFamilyFlows(records: FamilyRecord[], yearRange: YearRange = ALL_YEARS): FamilyFlows {
+    const seen = new Set<string>()
+    const counts = new Map<string, FamilyFlow>()
+    const origins = new Map<string, number>()
+    const originSources = { priorityNumbers: 0, earliestPublication: 0 }
+    let families = 0
+    let skipped = 0
+    let outOfRange = 0
+
+    for (const record of records) {
+        let members = parseFamilyMembers(record.members, record.dates)
+        if (members.length === 0) {
+            // Single-member families are exported as "None"; the record itself is the member
+            members = parseFamilyMembers(record.recordNumber, '')
+        }
+        if (members.length === 0) {
+            skipped++
+            continue
+        }
+
+        const key = members.map(m => m.publication).sort().join('|')
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        if (yearRange.from !== null || yearRange.to !== null) {
+            const year = familyYear(members, record.priorityDates)
+            if (year === null || !isInYearRange(year, yearRange)) {
+                outOfRange++
+                continue
+            }
+        }
+
+        const fromPriority = priorityOffice(record.priorityNumbers)
+        const origin = fromPriority ?? earliestOrigin(members, record.applicationNumber)
+        if (!origin) {
+            skipped++
+            continue
+        }
+        if (fromPriority) originSources.priorityNumbers++
+        else originSources.earliestPublication++
+        families++
+
+        origins.set(origin, (origins.get(origin) || 0) + 1)
+        for (const destination of new Set(members.map(m => m.office))) {
+            const flowKey = `${origin}>${destination}`
+            const flow = counts.get(flowKey) ?? { origin, destination, families: 0 }
+            flow.families++
+            counts.set(flowKey, flow)
+        }
+    }
+
+    return {
+        flows: Array.from(counts.values()).sort((a, b) => b.families - a.families),
+        origins: Array.from(origins.entries())
+            .map(([office, families]) => ({ office, families }))
+            .sort((a, b) => b.families - a.families),
+        families,
+        originSources,
+        skipped,
+        outOfRange,
+    }
+}
+
+/**
+ * Origins the priority-country export never lists as a country of first
+ * filing. Without priority numbers an origin is only the earliest publication
+ * office, and for these offices it is known to be wrong: their families were
+ * first filed elsewhere and published here before the priority application.
+ */
+export function unconfirmedOrigins(
+    origins: FamilyFlows['origins'],
+    priorityTotals: Map<string, number>
+): FamilyFlows['origins'] {
+    if (priorityTotals.size === 0) return []
+    return origins.filter(origin => !priorityTotals.get(origin.office))
+}
+
+/**
+ * Keeps the largest origin and destination offices and sums the rest into
+ * OTHER_OFFICES on either side, so the diagram stays readable.
+ */
+export function groupMinorOffices(flows: FamilyFlow[], originLimit: number, destinationLimit: number): FamilyFlow[] {
+    const top = (side: 'origin' | 'destination', limit: number) => {
+        const totals = new Map<string, number>()
+        for (const flow of flows) totals.set(flow[side], (totals.get(flow[side]) || 0) + flow.families)
+        return new Set(Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([office]) => office))
+    }
+    const origins = top('origin', originLimit)
+    const destinations = top('destination', destinationLimit)
+
+    const grouped = new Map<string, FamilyFlow>()
+    for (const flow of flows) {
+        const origin = origins.has(flow.origin) ? flow.origin : OTHER_OFFICES
+        const destination = destinations.has(flow.destination) ? flow.destination : OTHER_OFFICES
+        const key = `${origin}>${destination}`
+        const entry = grouped.get(key) ?? { origin, destination, families: 0 }
+        entry.families += flow.families
+        grouped.set(key, entry)
+    }
+    return Array.from(grouped.values()).sort((a, b) => b.families - a.families)
+}
@@ -0,0 +1,18 @@
+// app/lib/inventors/aliases.ts
+import { loadAliasFile, setAlias } from '../aliases'
+import type { AliasDictionary } from '../aliases'
+import { inventorKey } from './normalize'
+
+// Constants
+// Merges confirmed on the inventor review screen, shared by every category
+const ALIAS_FILE = 'inventor_aliases.json'
+
+export type InventorAliases = AliasDictionary
+
+export function loadInventorAliases(): InventorAliases {
+    return loadAliasFile(ALIAS_FILE)
+}
+
+export function setInventorAlias(canonical: string, variants: string[]): InventorAliases {
+    return setAlias(ALIAS_FILE, inventorKey, canonical, variants)
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { createInventorResolver, findInventorMergeCandidates } from './disambiguate'
+import type { InventorNameCount } from './disambiguate'
+
+function candidatesFor(...names: Array<[string, number]>) {
+    const counts: InventorNameCount[] = names.map(([name, count]) => ({ name, count, countries: [] }))
+    return findInventorMergeCandidates(counts, createInventorResolver({}))
+        .map(({ canonical, variant, reason, score }) => ({ canonical, variant, reason, score }))
+}
+
+describe('findInventorMergeCandidates', () => {
+    it('merges diacritics and word order without review', () => {
+        expect(candidatesFor(['LÄHTEENMÄKI PASI', 3], ['Pasi Lahteenmaki', 2])).toEqual([])
+    })
+
+    it('reports an umlaut spelled out as a transliteration', () => {
+        expect(candidatesFor(['LÄHTEENMÄKI PASI', 5], ['LAEHTEENMAEKI PASI', 1])).toEqual([
+            { canonical: 'LÄHTEENMÄKI PASI', variant: 'LAEHTEENMAEKI PASI', reason: 'transliteration', score: 0.95 },
+        ])
+        expect(candidatesFor(['OESTERGAARD JENS', 1], ['ØSTERGÅRD JENS', 4])).toEqual([
+            { canonical: 'ØSTERGÅRD JENS', variant: 'OESTERGAARD JENS', reason: 'transliteration', score: 0.95 },
+        ])
+    })
+
+    it('scores vowel pairs without an umlaut as spellings', () => {
+        const candidates = candidatesFor(
+            ['FREEDMAN MICHAEL', 4], ['FREEDMAN MICHAL', 1],
+            ['SMITH JOEL', 4], ['SMITH JOL', 1],
+            ['ROSSI RAFAEL', 4], ['ROSSI RAFAL', 1],
+            ['COHEN AARON', 4], ['COHEN ARON', 1],
+        )
+
+        expect(candidates).toHaveLength(4)
+        for (const candidate of candidates) {
+            expect(candidate.reason).toBe('spelling')
+            expect(candidate.score).toBeLessThan(0.95)
+        }
+    })
+
+    it('reads initials and middle names as the same person', () => {
+        expect(candidatesFor(['FREEDMAN MICHAEL HARTLEY', 3], ['FREEDMAN MICHAEL H', 2])).toEqual([
+            { canonical: 'FREEDMAN MICHAEL HARTLEY', variant: 'FREEDMAN MICHAEL H', reason: 'initials', score: 0.9 },
+        ])
+    })
+
+    it('keeps people with different initials apart', () => {
+        expect(candidatesFor(['BARNHILL STEPHEN D', 3], ['BARNHILL STEPHEN M', 2])).toEqual([])
+    })
+})
@@ -0,0 +1,144 @@
+// app/lib/inventors/disambiguate.ts
+import { createNameResolver } from '../aliases'
+import type { NameResolver } from '../aliases'
+import { levenshtein } from '../owners/normalize'
+import { loadInventorAliases } from './aliases'
+import type { InventorAliases } from './aliases'
+import { hasConflictingInitials, inventorKey, inventorTokens, isAbbreviationOf, spelledUmlautKey, transliterationKey } from './normalize'
+
+// Constants
+const SPELLING_THRESHOLD = 0.9
+const MAX_CANDIDATES = 100
+
+// Interfaces
+export interface InventorNameCount {
+    name: string
+    count: number
+    countries: string[]
+}
+
+export type MergeReason = 'transliteration' | 'initials' | 'spelling'
+
+export interface InventorMergeCandidate {
+    // The spelling with more records, proposed as the canonical name
+    canonical: string
+    variant: string
+    reason: MergeReason
+    score: number
+    canonicalCountries: string[]
+    variantCountries: string[]
+}
+
+interface InventorGroup {
+    key: string
+    name: string
+    count: number
+    countries: Set<string>
+    tokens: string[]
+    // Raw spellings merged into the group, which may still carry umlauts
+    spellings: Set<string>
+}
+
+// Diacritics and word order merge automatically; everything else needs review
+export function createInventorResolver(aliases: InventorAliases = loadInventorAliases()): NameResolver {
+    return createNameResolver(aliases, inventorKey)
+}
+
+function spellingScore(a: InventorGroup, b: InventorGroup): number {
+    const compactA = a.key.replace(/ /g, '')
+    const compactB = b.key.replace(/ /g, '')
+    return Math.round((1 - levenshtein(compactA, compactB) / Math.max(compactA.length, compactB.length)) * 100) / 100
+}
+
+// Whether a spelling of one group, with its umlauts written out, is the other group's name
+function spellsOutUmlauts(a: InventorGroup, b: InventorGroup): boolean {
+    return Array.from(a.spellings).some(spelling => spelledUmlautKey(spelling) === b.key)
+}
+
+function compareGroups(a: InventorGroup, b: InventorGroup): { reason: MergeReason, score: number } | null {
+    if (transliterationKey(a.key) === transliterationKey(b.key)) {
+        // Only an umlaut at the differing letters makes it a transliteration;
+        // MICHAEL / MICHAL or AARON / ARON are left to review as spellings
+        if (spellsOutUmlauts(a, b) || spellsOutUmlauts(b, a)) {
+            return { reason: 'transliteration', score: 0.95 }
+        }
+        return { reason: 'spelling', score: spellingScore(a, b) }
+    }
+
+    const [shorter, longer] = a.tokens.length <= b.tokens.length ? [a.tokens, b.tokens] : [b.tokens, a.tokens]
+    if (isAbbreviationOf(shorter, longer)) {
+        return { reason: 'initials', score: Math.round((0.8 + 0.1 * shorter.length / longer.length) * 100) / 100 }
+    }
+
+    if (hasConflictingInitials(a.tokens, b.tokens)) return null
+
+    const score = spellingScore(a, b)
+    if (score >= SPELLING_THRESHOLD) {
+        return { reason: 'spelling', score }
+    }
+
+    return null
+}
+
+/**
+ * Pairs of inventor names that probably belong to one person but do not yet
+ * resolve to the same key. Only compared within the same surname initial,
+ * which keeps the pairwise pass small on large landscapes.
+ */
+export function findInventorMergeCandidates(
+    names: InventorNameCount[],
+    resolver: NameResolver
+): InventorMergeCandidate[] {
+    const groups = new Map<string, InventorGroup>()
+    for (const { name, count, countries } of names) {
+        const key = resolver.key(name)
+        if (!key) continue
+        const existing = groups.get(key)
+        if (existing) {
+            existing.count += count
+            existing.spellings.add(name)
+            countries.forEach(c => existing.countries.add(c))
+        } else {
+            const label = resolver.label(name)
+            groups.set(key, {
+                key,
+                name: label,
+                count,
+                countries: new Set(countries),
+                tokens: inventorTokens(label),
+                spellings: new Set([name, label]),
+            })
+        }
+    }
+
+    const buckets = new Map<string, InventorGroup[]>()
+    for (const group of groups.values()) {
+        const initial = group.tokens[0]?.[0] || ''
+        if (!buckets.has(initial)) buckets.set(initial, [])
+        buckets.get(initial)!.push(group)
+    }
+
+    const candidates: InventorMergeCandidate[] = []
+    for (const bucket of buckets.values()) {
+        for (let i = 0; i < bucket.length; i++) {
+            for (let j = i + 1; j < bucket.length; j++) {
+                const match = compareGroups(bucket[i], bucket[j])
+                if (!match) continue
+
+                const [canonical, variant] = bucket[i].count >= bucket[j].count ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]]
+                candidates.push({
+                    canonical: canonical.name,
+                    variant: variant.name,
+                    reason: match.reason,
+                    score: match.score,
+                    canonicalCountries: Array.from(canonical.countries).sort(),
+                    variantCountries: Array.from(variant.countries).sort(),
+                })
+            }
+        }
+    }
+
+    return candidates
+        .sort((a, b) => b.score - a.score || a.canonical.localeCompare(b.canonical))
+        .slice(0, MAX_CANDIDATES)
+}
@@ -0,0 +1,6 @@
+// app/lib/inventors/index.ts
+export { inventorKey, inventorTokens } from './normalize'
+export { loadInventorAliases, setInventorAlias } from './aliases'
+export type { InventorAliases } from './aliases'
+export { createInventorResolver, findInventorMergeCandidates } from './disambiguate'
+export type { InventorNameCount, InventorMergeCandidate, MergeReason } from './disambiguate'
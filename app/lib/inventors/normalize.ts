@@ -0,0 +1,82 @@
+// app/lib/inventors/normalize.ts
+
+// Constants
+// ASCII transliterations of umlauts PatSeer sometimes emits instead of
+// dropping the accent: LÄHTEENMÄKI -> LAEHTEENMAEKI rather than LAHTEENMAKI
+const TRANSLITERATIONS: Array<[RegExp, string]> = [
+    [/AE/g, 'A'],
+    [/OE/g, 'O'],
+    [/UE/g, 'U'],
+    [/AA/g, 'A'],
+]
+
+// Letters NFD does not decompose into a base letter plus accent
+const UNDECOMPOSABLE: Record<string, string> = { 'Ø': 'O', 'Æ': 'AE', 'Ł': 'L', 'Đ': 'D' }
+
+// How those exports spell out each umlaut, the inverse of TRANSLITERATIONS
+const UMLAUT_SPELLINGS: Record<string, string> = { 'Ä': 'AE', 'Ö': 'OE', 'Ø': 'OE', 'Ü': 'UE', 'Å': 'AA' }
+
+/**
+ * Name tokens in export order (surname first), upper-cased, without
+ * diacritics or punctuation: `"Lähteenmäki, Pasi"` -> `['LAHTEENMAKI', 'PASI']`.
+ */
+export function inventorTokens(name: string | null | undefined): string[] {
+    if (!name) return []
+    return String(name)
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/[ØÆŁĐ]/g, letter => UNDECOMPOSABLE[letter])
+        .replace(/["'`.,()\-]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+}
+
+// Matching key: tokens in sorted order, so "PASI LAHTEENMAKI" and "LAHTEENMAKI PASI" merge
+export function inventorKey(name: string | null | undefined): string {
+    return inventorTokens(name).sort().join(' ')
+}
+
+// Loose key with every AE/OE/UE/AA collapsed, which also hits names without umlauts (MICHAEL / MICHAL)
+export function transliterationKey(key: string): string {
+    return TRANSLITERATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), key)
+}
+
+// Key of the name with its umlauts spelled out: "Lähteenmäki Pasi" -> "LAEHTEENMAEKI PASI"
+export function spelledUmlautKey(name: string | null | undefined): string {
+    if (!name) return ''
+    return inventorKey(String(name).toUpperCase().replace(/[ÄÖØÜÅ]/g, letter => UMLAUT_SPELLINGS[letter]))
+}
+
+function tokenMatches(short: string, long: string): 'exact' | 'initial' | null {
+    if (short === long) return 'exact'
+    if (short.length === 1 && long.startsWith(short)) return 'initial'
+    if (long.length === 1 && short.startsWith(long)) return 'initial'
+    return null
+}
+
+/**
+ * Whether the shorter name can be read as an abbreviation of the longer:
+ * same surname, every other token present in order either in full or as its
+ * initial. Covers "FREEDMAN MICHAEL H" / "FREEDMAN MICHAEL HARTLEY" and
+ * "FOX RICHARD" / "FOX RICHARD JOHN", but not "BARNHILL STEPHEN D" / "... M".
+ */
+export function isAbbreviationOf(shorter: string[], longer: string[]): boolean {
+    if (shorter.length < 2 || shorter.length > longer.length) return false
+    if (shorter[0] !== longer[0]) return false
+
+    let position = 1
+    for (const token of shorter.slice(1)) {
+        while (position < longer.length && !tokenMatches(token, longer[position])) position++
+        if (position === longer.length) return false
+        position++
+    }
+    return true
+}
+
+// Same-length names that differ only in single-letter initials ("STEPHEN D" / "STEPHEN M") are different people
+export function hasConflictingInitials(a: string[], b: string[]): boolean {
+    if (a.length !== b.length) return false
+    const differing = a.map((token, idx) => [token, b[idx]]).filter(([x, y]) => x !== y)
+    return differing.length > 0 && differing.every(([x, y]) => x.length === 1 && y.length === 1)
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { TIMELINE_LIMITS, clampLimit, defaultLimits, parseLimits, withLimits } from './limits'
+
+describe('parseLimits', () => {
+    it('falls back to the defaults for absent or blank parameters', () => {
+        const { values, errors } = parseLimits(new URLSearchParams('rows='), TIMELINE_LIMITS)
+
+        expect(values).toEqual({ topOwners: 8, displayRows: 10 })
+        expect(errors).toEqual([])
+    })
+
+    it('reads whole numbers within bounds', () => {
+        const { values, errors } = parseLimits(new URLSearchParams('topOwners=50&rows=1'), TIMELINE_LIMITS)
+
+        expect(values).toEqual({ topOwners: 50, displayRows: 1 })
+        expect(errors).toEqual([])
+    })
+
+    it('reports fractions, text and out-of-range values instead of guessing', () => {
+        const { values, errors } = parseLimits(new URLSearchParams('topOwners=2.5&rows=201'), TIMELINE_LIMITS)
+
+        expect(values).toEqual(defaultLimits(TIMELINE_LIMITS))
+        expect(errors).toEqual([
+            '"topOwners" must be a whole number between 1 and 50',
+            '"rows" must be a whole number between 1 and 200',
+        ])
+        expect(parseLimits(new URLSearchParams('topOwners=ten'), TIMELINE_LIMITS).errors).toHaveLength(1)
+    })
+})
+
+describe('clampLimit', () => {
+    it('rounds into bounds and resets non-numbers to the default', () => {
+        expect(clampLimit(0, TIMELINE_LIMITS.topOwners)).toBe(1)
+        expect(clampLimit(80, TIMELINE_LIMITS.topOwners)).toBe(50)
+        expect(clampLimit(4.6, TIMELINE_LIMITS.topOwners)).toBe(5)
+        expect(clampLimit(NaN, TIMELINE_LIMITS.topOwners)).toBe(8)
+    })
+})
+
+describe('withLimits', () => {
+    it('appends only the limits that differ from their defaults', () => {
+        expect(withLimits('category=qc', TIMELINE_LIMITS, { topOwners: 8, displayRows: 25 })).toBe('category=qc&rows=25')
+        expect(withLimits('category=qc', TIMELINE_LIMITS, defaultLimits(TIMELINE_LIMITS))).toBe('category=qc')
+    })
+})
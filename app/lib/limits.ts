@@ -0,0 +1,116 @@
+// app/lib/limits.ts
+// Top-N limits shared by the API routes and the client components, so no Node imports here
+
+// Interfaces
+export interface LimitSpec {
+    // Query parameter name
+    param: string
+    label: string
+    defaultValue: number
+    min: number
+    max: number
+}
+
+export type LimitSpecs = Record<string, LimitSpec>
+
+export type LimitValues<Specs extends LimitSpecs> = { [Key in keyof Specs]: number }
+
+function defineLimits<Specs extends LimitSpecs>(specs: Specs): Specs {
+    return specs
+}
+
+// Computed by the routes, so these travel as query parameters
+export const TIMELINE_LIMITS = defineLimits({
+    topOwners: { param: 'topOwners', label: 'Top owners', defaultValue: 8, min: 1, max: 50 },
+    displayRows: { param: 'rows', label: 'Table rows', defaultValue: 10, min: 1, max: 200 },
+})
+
+export const CLASSIFICATION_LIMITS = defineLimits({
+    fullRecords: { param: 'codes', label: 'Top codes', defaultValue: 10, min: 1, max: 100 },
+    topOwners: { param: 'owners', label: 'Owners', defaultValue: 15, min: 1, max: 100 },
+    topClassifications: { param: 'ownerCodes', label: 'Codes per owner chart', defaultValue: 5, min: 1, max: 30 },
+})
+
+// Emergence window and thresholds, read by the classification route alongside its limits
+export const EMERGENCE_LIMITS = defineLimits({
+    window: { param: 'window', label: 'Growth window (years)', defaultValue: 5, min: 2, max: 15 },
+    minRecords: { param: 'minRecords', label: 'Min records in window', defaultValue: 5, min: 1, max: 500 },
+    topEmerging: { param: 'emerging', label: 'Emerging codes', defaultValue: 10, min: 1, max: 50 },
+})
+
+export const SPECIALISATION_LIMITS = defineLimits({
+    topOwners: { param: 'owners', label: 'Owners', defaultValue: 15, min: 1, max: 100 },
+    topCodes: { param: 'codes', label: 'Codes', defaultValue: 10, min: 1, max: 50 },
+})
+
+export const SIMILARITY_LIMITS = defineLimits({
+    clusterOwners: { param: 'owners', label: 'Owners clustered', defaultValue: 40, min: 2, max: 100 },
+    similarOwners: { param: 'similar', label: 'Similar owners', defaultValue: 10, min: 1, max: 50 },
+})
+
+export const FLOW_LIMITS = defineLimits({
+    topOrigins: { param: 'origins', label: 'Priority offices', defaultValue: 8, min: 1, max: 30 },
+    topDestinations: { param: 'destinations', label: 'Family offices', defaultValue: 12, min: 1, max: 50 },
+})
+
+// Applied in the components to data the routes have already returned
+export const ENTITY_CHART_LIMIT: LimitSpec = { param: 'top', label: 'Chart entries', defaultValue: 20, min: 1, max: 100 }
+export const GROUPED_CHART_LIMIT: LimitSpec = { param: 'chartOwners', label: 'Owners in chart', defaultValue: 8, min: 1, max: 30 }
+export const COUNTRY_CHART_LIMIT: LimitSpec = { param: 'countries', label: 'Countries in chart', defaultValue: 15, min: 1, max: 100 }
+export const MATRIX_COLUMN_LIMIT: LimitSpec = { param: 'columns', label: 'Codes in matrix', defaultValue: 60, min: 1, max: 1000 }
+
+export function defaultLimits<Specs extends LimitSpecs>(specs: Specs): LimitValues<Specs> {
+    const values = {} as LimitValues<Specs>
+    for (const key of Object.keys(specs) as Array<keyof Specs>) {
+        values[key] = specs[key].defaultValue
+    }
+    return values
+}
+
+export function clampLimit(value: number, spec: LimitSpec): number {
+    if (!Number.isFinite(value)) return spec.defaultValue
+    return Math.min(spec.max, Math.max(spec.min, Math.round(value)))
+}
+
+/**
+ * Reads each limit from its query parameter, falling back to the default when
+ * absent. Values that are not whole numbers within bounds are reported in
+ * `errors` so routes can answer 400 rather than guess.
+ */
+export function parseLimits<Specs extends LimitSpecs>(
+    params: URLSearchParams,
+    specs: Specs
+): { values: LimitValues<Specs>, errors: string[] } {
+    const values = defaultLimits(specs)
+    const errors: string[] = []
+
+    for (const key of Object.keys(specs) as Array<keyof Specs>) {
+        const spec = specs[key]
+        const raw = params.get(spec.param)
+        if (raw === null || raw.trim() === '') continue
+
+        const value = Number(raw)
+        if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+            errors.push(`"${spec.param}" must be a whole number between ${spec.min} and ${spec.max}`)
+            continue
+        }
+        values[key] = value
+    }
+
+    return { values, errors }
+}
+
+// Appends non-default limits to an existing query string
+export function withLimits<Specs extends LimitSpecs>(
+    query: string,
+    specs: Specs,
+    values: LimitValues<Specs>
+): string {
+    const params = new URLSearchParams()
+    for (const key of Object.keys(specs) as Array<keyof Specs>) {
+        if (values[key] !== specs[key].defaultValue) {
+            params.set(specs[key].param, String(values[key]))
+        }
+    }
+    return [query, params.toString()].filter(Boolean).join('&')
+}
@@ -0,0 +1,23 @@
+// app/lib/owners/aliases.ts
+import { loadAliasFile, saveAliasFile, setAlias } from '../aliases'
+import type { AliasDictionary } from '../aliases'
+import { ownerKey } from './normalize'
+
+// Constants
+// Shared by every category; analysts edit it by hand or through /api/owners
+const ALIAS_FILE = 'owner_aliases.json'
+
+// Canonical owner name -> other names the same owner appears under
+export type OwnerAliases = AliasDictionary
+
+export function loadOwnerAliases(): OwnerAliases {
+    return loadAliasFile(ALIAS_FILE)
+}
+
+export function saveOwnerAliases(aliases: OwnerAliases): void {
+    saveAliasFile(ALIAS_FILE, aliases)
+}
+
+export function setOwnerAlias(canonical: string, variants: string[]): OwnerAliases {
+    return setAlias(ALIAS_FILE, ownerKey, canonical, variants)
+}
@@ -0,0 +1,103 @@
+// app/lib/owners/codeMatrix.ts
+import { rollUpClassification, splitClassificationLabel } from '../classification'
+import type { ClassificationDescriptions, ClassificationHierarchy } from '../classification'
+import { DATASETS } from '../datasets'
+import type { CrossTab } from '../datasets'
+import type { OwnerHarmonizer } from './harmonizer'
+
+// Constants
+// Owner cross-tab export for each classification scheme
+export const OWNER_CODE_DATASETS = {
+    ipc: DATASETS.ipcByOwner,
+    cpc: DATASETS.cpcByOwner,
+}
+
+export type ClassificationScheme = keyof typeof OWNER_CODE_DATASETS
+
+export function isClassificationScheme(value: string | null | undefined): value is ClassificationScheme {
+    return !!value && Object.prototype.hasOwnProperty.call(OWNER_CODE_DATASETS, value)
+}
+
+// Interfaces
+export interface OwnerCodeRow {
+    owner: string
+    // The export's Total column: the owner's records, not the sum of its codes
+    total: number
+    // Non-zero counts only, keyed by code at the hierarchy's level
+    counts: Record<string, number>
+}
+
+export interface OwnerCodeMatrix {
+    // Largest owners first
+    rows: OwnerCodeRow[]
+    // Codes by total across all owners, largest first
+    codes: string[]
+    codeTotals: Record<string, number>
+    // Titles from the column headers, for codes at the level the export spells out
+    descriptions: ClassificationDescriptions
+}
+
+function summarize(rows: OwnerCodeRow[], descriptions: ClassificationDescriptions): OwnerCodeMatrix {
+    const codeTotals: Record<string, number> = {}
+    for (const row of rows) {
+        for (const [code, count] of Object.entries(row.counts)) {
+            codeTotals[code] = (codeTotals[code] || 0) + count
+        }
+    }
+    const codes = Object.keys(codeTotals).sort((a, b) => codeTotals[b] - codeTotals[a])
+
+    return { rows, codes, codeTotals, descriptions }
+}
+
+/**
+ * Builds owner rows from a parsed Current Owner x IPC/CPC cross-tab: spelling
+ * variants of one owner are summed and code columns are rolled up to the
+ * hierarchy's level.
+ */
+export function buildOwnerCodeMatrix(
+    crossTab: CrossTab,
+    owners: OwnerHarmonizer,
+    hierarchy: ClassificationHierarchy
+): OwnerCodeMatrix {
+    if (crossTab.rowLabels.length === 0) return { rows: [], codes: [], codeTotals: {}, descriptions: {} }
+
+    const columnCodes = crossTab.columnLabels.map(label => rollUpClassification(label, hierarchy))
+
+    const descriptions: ClassificationDescriptions = {}
+    for (const label of crossTab.columnLabels) {
+        const { code, description } = splitClassificationLabel(label)
+        if (description && !descriptions[code]) descriptions[code] = description
+    }
+
+    const rowsByOwner = new Map<string, OwnerCodeRow>()
+    crossTab.rowLabels.forEach((name, r) => {
+        const ownerId = owners.key(name)
+        if (!ownerId) return
+
+        let row = rowsByOwner.get(ownerId)
+        if (!row) {
+            row = { owner: owners.label(name), total: 0, counts: {} }
+            rowsByOwner.set(ownerId, row)
+        }
+        row.total += crossTab.totals?.[r] ?? crossTab.counts[r].reduce((sum, count) => sum + count, 0)
+
+        columnCodes.forEach((code, i) => {
+            const count = crossTab.counts[r][i]
+            if (code && count > 0) row!.counts[code] = (row!.counts[code] || 0) + count
+        })
+    })
+
+    return summarize(Array.from(rowsByOwner.values()).sort((a, b) => b.total - a.total), descriptions)
+}
+
+// Keeps only the codes that pass, dropping owners left with none of them
+export function filterOwnerCodeMatrix(matrix: OwnerCodeMatrix, keep: (code: string) => boolean): OwnerCodeMatrix {
+    const rows = matrix.rows
+        .map(row => ({
+            ...row,
+            counts: Object.fromEntries(Object.entries(row.counts).filter(([code]) => keep(code))),
+        }))
+        .filter(row => Object.keys(row.counts).length > 0)
+
+    return summarize(rows, matrix.descriptions)
+}
@@ -0,0 +1,13 @@
+// app/lib/owners/harmonizer.ts
+import { createNameResolver } from '../aliases'
+import type { NameResolver } from '../aliases'
+import { ownerKey } from './normalize'
+import { loadOwnerAliases } from './aliases'
+import type { OwnerAliases } from './aliases'
+
+export type OwnerHarmonizer = NameResolver
+
+// Owner keys ignore punctuation, accents and trailing legal forms; aliases merge the rest
+export function createOwnerHarmonizer(aliases: OwnerAliases = loadOwnerAliases()): OwnerHarmonizer {
+    return createNameResolver(aliases, ownerKey)
+}
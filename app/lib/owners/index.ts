@@ -0,0 +1,14 @@
+// app/lib/owners/index.ts
+export { normalizeOwnerName, ownerKey, ownerSimilarity } from './normalize'
+export { loadOwnerAliases, saveOwnerAliases, setOwnerAlias } from './aliases'
+export type { OwnerAliases } from './aliases'
+export { createOwnerHarmonizer } from './harmonizer'
+export type { OwnerHarmonizer } from './harmonizer'
+export { suggestOwnerAliases } from './suggestions'
+export type { OwnerNameCount, AliasSuggestion } from './suggestions'
+export { OWNER_CODE_DATASETS, buildOwnerCodeMatrix, filterOwnerCodeMatrix, isClassificationScheme } from './codeMatrix'
+export type { ClassificationScheme, OwnerCodeMatrix, OwnerCodeRow } from './codeMatrix'
+export { computeSpecialisation } from './specialisation'
+export type { Specialisation, SpecialisationRow } from './specialisation'
+export { clusterOwners, findOwnerRow, findSimilarOwners } from './profiles'
+export type { OwnerCluster, OwnerClustering, ProfileCode, SimilarOwner } from './profiles'
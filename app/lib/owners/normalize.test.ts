@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeOwnerName, ownerKey, ownerSimilarity } from './normalize'
+
+describe('normalizeOwnerName', () => {
+    it('upper-cases and drops accents, quotes and punctuation', () => {
+        expect(normalizeOwnerName('"Iqm Finland Oy."')).toBe('IQM FINLAND OY')
+        expect(normalizeOwnerName('Bosch & Siemens  Hausgeräte')).toBe('BOSCH AND SIEMENS HAUSGERATE')
+        expect(normalizeOwnerName(null)).toBe('')
+    })
+})
+
+describe('ownerKey', () => {
+    it('strips every trailing legal form', () => {
+        expect(ownerKey('Horizon Quantum Computing Pte. Ltd.')).toBe('HORIZON QUANTUM COMPUTING')
+        expect(ownerKey('IQM FINLAND OY')).toBe(ownerKey('Iqm Finland'))
+    })
+
+    it('never strips a name down to nothing', () => {
+        expect(ownerKey('AB')).toBe('AB')
+    })
+})
+
+describe('ownerSimilarity', () => {
+    it('scores spelling variants by edit distance', () => {
+        expect(ownerSimilarity('RIGETTI COMPUTING', 'RIGETTI COMPUTNG')).toBeGreaterThan(0.9)
+        expect(ownerSimilarity('IBM', 'INTEL')).toBeLessThan(0.5)
+    })
+
+    it('scores a name contained in a longer one as a likely alias', () => {
+        expect(ownerSimilarity(ownerKey('TELEFON AB ET LM ERICSSON'), ownerKey('Ericsson'))).toBe(0.9)
+    })
+
+    it('does not tie owners together on generic words alone', () => {
+        expect(ownerSimilarity('QUANTUM MACHINES', 'QUANTUM SYSTEMS')).toBeLessThan(0.85)
+    })
+})
@@ -0,0 +1,92 @@
+// app/lib/owners/normalize.ts
+
+// Constants
+// Legal-form tokens PatSeer leaves at the end of owner names. Stripped
+// repeatedly, so "HORIZON QUANTUM COMPUTING PTE LTD" loses both
+const LEGAL_SUFFIXES = new Set([
+    'AB', 'ABP', 'AG', 'APS', 'AS', 'ASA', 'BV', 'CO', 'COMPANY', 'CORP', 'CORPORATION',
+    'GMBH', 'INC', 'INCORPORATED', 'KG', 'KK', 'LIMITED', 'LLC', 'LLP', 'LP', 'LTD', 'NV',
+    'NVSA', 'OY', 'OYJ', 'PLC', 'PTE', 'PTY', 'SA', 'SARL', 'SAS', 'SPA', 'SR', 'SRL',
+])
+
+// Words too common to tie two owners together on their own
+const GENERIC_TOKENS = new Set([
+    'AND', 'CENTRE', 'CENTER', 'ET', 'FOUNDATION', 'GLOBAL', 'GROUP', 'HOLDING', 'HOLDINGS',
+    'INST', 'INSTITUTE', 'INTERNAT', 'INTERNATIONAL', 'IP', 'LM', 'OF', 'QUANTUM', 'RES',
+    'RESEARCH', 'SYSTEM', 'SYSTEMS', 'TECH', 'TECHNOLOGIES', 'TECHNOLOGY', 'THE', 'UNIV',
+    'UNIVERSITY', 'UNIVERSITET',
+])
+
+/**
+ * Upper-cases, removes diacritics, quotes and punctuation and collapses
+ * whitespace: `"Iqm Finland Oy."` -> `IQM FINLAND OY`.
+ */
+export function normalizeOwnerName(name: string | null | undefined): string {
+    if (!name) return ''
+    return String(name)
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/&/g, ' AND ')
+        .replace(/["'`.,()]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function stripLegalSuffixes(tokens: string[]): string[] {
+    const result = [...tokens]
+    // Never strip a name down to nothing ("AB" stays "AB")
+    while (result.length > 1 && LEGAL_SUFFIXES.has(result[result.length - 1])) {
+        result.pop()
+    }
+    return result
+}
+
+// Matching key: normalised name without trailing legal forms
+export function ownerKey(name: string | null | undefined): string {
+    const normalized = normalizeOwnerName(name)
+    if (!normalized) return ''
+    return stripLegalSuffixes(normalized.split(' ')).join(' ')
+}
+
+function distinctiveTokens(key: string): string[] {
+    return key.split(' ').filter(token => token.length > 1 && !GENERIC_TOKENS.has(token) && !LEGAL_SUFFIXES.has(token))
+}
+
+export function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            )
+        }
+        previous = current
+    }
+    return previous[b.length]
+}
+
+/**
+ * Similarity in [0, 1] between two owner keys. Spelling variants score by
+ * edit distance; a name whose distinctive words all appear in the other
+ * ("ERICSSON" in "TELEFON AB ET LM ERICSSON") scores as a likely alias.
+ */
+export function ownerSimilarity(a: string, b: string): number {
+    if (!a || !b) return 0
+    if (a === b) return 1
+
+    const compactA = a.replace(/ /g, '')
+    const compactB = b.replace(/ /g, '')
+    const editScore = 1 - levenshtein(compactA, compactB) / Math.max(compactA.length, compactB.length)
+
+    const tokensA = distinctiveTokens(a)
+    const tokensB = distinctiveTokens(b)
+    const [smaller, larger] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA]
+    const contained = smaller.length > 0 && smaller.every(token => larger.includes(token))
+    const containmentScore = contained ? 0.8 + 0.2 * (smaller.length / larger.length) : 0
+
+    return Math.max(editScore, containmentScore)
+}
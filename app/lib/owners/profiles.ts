@@ -0,0 +1,111 @@
+// app/lib/owners/profiles.ts
+import { buildDendrogram, cosineSimilarity, cutDendrogram, dendrogramOrder } from '../similarity'
+import type { OwnerCodeMatrix, OwnerCodeRow } from './codeMatrix'
+import type { OwnerHarmonizer } from './harmonizer'
+
+// Constants
+// Codes listed per cluster and per pair of similar owners
+const PROFILE_CODE_COUNT = 5
+
+// Interfaces
+export interface ProfileCode {
+    code: string
+    count: number
+}
+
+export interface SimilarOwner {
+    owner: string
+    total: number
+    similarity: number
+    // Codes both owners have records in, by the smaller of the two counts
+    sharedCodes: ProfileCode[]
+}
+
+export interface OwnerCluster {
+    id: number
+    owners: string[]
+    total: number
+    // Codes the cluster's owners have most records in together
+    topCodes: ProfileCode[]
+}
+
+export interface OwnerClustering {
+    threshold: number
+    clusters: OwnerCluster[]
+    // Owners in dendrogram order, with their pairwise cosine similarity in the same order
+    order: string[]
+    similarity: number[][]
+}
+
+function topCodes(counts: Record<string, number>): ProfileCode[] {
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, PROFILE_CODE_COUNT)
+        .map(([code, count]) => ({ code, count }))
+}
+
+// The matrix row of an owner, matched through the same harmonisation the rows were built with
+export function findOwnerRow(matrix: OwnerCodeMatrix, owners: OwnerHarmonizer, name: string): OwnerCodeRow | null {
+    const key = owners.key(name)
+    if (!key) return null
+    return matrix.rows.find(row => owners.key(row.owner) === key) ?? null
+}
+
+/**
+ * Owners whose classification profile points the same way as the target's,
+ * by cosine similarity over code counts. Every owner in the matrix is a
+ * candidate, not only the top N, so smaller competitors surface too.
+ */
+export function findSimilarOwners(matrix: OwnerCodeMatrix, target: OwnerCodeRow, limit: number): SimilarOwner[] {
+    return matrix.rows
+        .filter(row => row !== target)
+        .map(row => {
+            const shared: Record<string, number> = {}
+            for (const [code, count] of Object.entries(row.counts)) {
+                if (target.counts[code]) shared[code] = Math.min(count, target.counts[code])
+            }
+            return {
+                owner: row.owner,
+                total: row.total,
+                similarity: cosineSimilarity(target.counts, row.counts),
+                sharedCodes: topCodes(shared),
+            }
+        })
+        .filter(similar => similar.similarity > 0)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit)
+}
+
+/**
+ * Groups the largest owners into technology clusters: average-linkage
+ * clustering on cosine similarity, cut where the owners joined become less
+ * than `threshold` similar. Owners that join nobody form single-owner clusters.
+ */
+export function clusterOwners(matrix: OwnerCodeMatrix, ownerLimit: number, threshold: number): OwnerClustering {
+    const rows = matrix.rows.slice(0, ownerLimit)
+    const vectors = rows.map(row => row.counts)
+    const merges = buildDendrogram(vectors)
+    const labels = cutDendrogram(merges, rows.length, threshold)
+
+    const clusters: OwnerCluster[] = []
+    labels.forEach((label, i) => {
+        const cluster = clusters[label] ?? (clusters[label] = { id: label, owners: [], total: 0, topCodes: [] })
+        cluster.owners.push(rows[i].owner)
+        cluster.total += rows[i].total
+    })
+    for (const cluster of clusters) {
+        const counts: Record<string, number> = {}
+        for (const row of rows.filter(r => cluster.owners.includes(r.owner))) {
+            for (const [code, count] of Object.entries(row.counts)) counts[code] = (counts[code] || 0) + count
+        }
+        cluster.topCodes = topCodes(counts)
+    }
+
+    const order = dendrogramOrder(merges, rows.length)
+    return {
+        threshold,
+        clusters,
+        order: order.map(i => rows[i].owner),
+        similarity: order.map(i => order.map(j => (i === j ? 1 : cosineSimilarity(vectors[i], vectors[j])))),
+    }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import type { OwnerCodeMatrix } from './codeMatrix'
+import { computeSpecialisation } from './specialisation'
+
+// 16 assignments: G06N 8, H01L 6, B82Y 2
+const matrix: OwnerCodeMatrix = {
+    rows: [
+        { owner: 'IBM', total: 7, counts: { G06N: 6, H01L: 2 } },
+        { owner: 'IQM FINLAND OY', total: 6, counts: { G06N: 2, H01L: 4, B82Y: 2 } },
+        { owner: 'UNCLASSIFIED OY', total: 1, counts: {} },
+    ],
+    codes: ['G06N', 'H01L', 'B82Y'],
+    codeTotals: { G06N: 8, H01L: 6, B82Y: 2 },
+    descriptions: {},
+}
+
+describe('computeSpecialisation', () => {
+    it('divides the owner share of each code by the landscape share', () => {
+        const { codes, landscapeShares, rows } = computeSpecialisation(matrix, 10, 10)
+
+        expect(codes).toEqual(['G06N', 'H01L', 'B82Y'])
+        expect(landscapeShares).toEqual({ G06N: 0.5, H01L: 0.375, B82Y: 0.125 })
+        expect(rows[0].assignments).toBe(8)
+        expect(rows[0].rta.G06N).toBeCloseTo(1.5)
+        expect(rows[0].rta.H01L).toBeCloseTo(2 / 3)
+        expect(rows[0].rta.B82Y).toBe(0)
+        expect(rows[1].rta.B82Y).toBeCloseTo(2)
+    })
+
+    it('maps RTA onto -1..1 with the landscape average at 0', () => {
+        const [ibm] = computeSpecialisation(matrix, 10, 10).rows
+
+        expect(ibm.symmetric.G06N).toBeCloseTo(0.2)
+        expect(ibm.symmetric.H01L).toBeCloseTo(-0.2)
+        expect(ibm.symmetric.B82Y).toBe(-1)
+    })
+
+    it('picks the strongest code among those the owner has records in', () => {
+        const rows = computeSpecialisation(matrix, 10, 10).rows
+
+        expect(rows.map(row => row.strongest)).toEqual(['G06N', 'B82Y', null])
+        expect(rows[2].rta).toEqual({ G06N: 0, H01L: 0, B82Y: 0 })
+    })
+
+    it('keeps landscape shares over every owner and code when limiting the output', () => {
+        const { codes, landscapeShares, rows } = computeSpecialisation(matrix, 1, 2)
+
+        expect(codes).toEqual(['G06N', 'H01L'])
+        expect(landscapeShares).toEqual({ G06N: 0.5, H01L: 0.375 })
+        expect(rows).toHaveLength(1)
+        expect(rows[0].assignments).toBe(8)
+        expect(rows[0].counts).toEqual({ G06N: 6, H01L: 2 })
+        expect(rows[0].rta.G06N).toBeCloseTo(1.5)
+    })
+})
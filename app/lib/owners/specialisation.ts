@@ -0,0 +1,66 @@
+// app/lib/owners/specialisation.ts
+import type { OwnerCodeMatrix } from './codeMatrix'
+
+// Interfaces
+export interface SpecialisationRow {
+    owner: string
+    total: number
+    // Classification assignments across all codes, the denominator of the owner's shares
+    assignments: number
+    counts: Record<string, number>
+    // RTA per code: 1 is the landscape average, 0 means no records in the code
+    rta: Record<string, number>
+    // RTA mapped onto -1..1 with 0 at the average, so over- and under-specialisation plot symmetrically
+    symmetric: Record<string, number>
+    // The code with the highest RTA among those the owner has records in
+    strongest: string | null
+}
+
+export interface Specialisation {
+    codes: string[]
+    // Share of all assignments in each code
+    landscapeShares: Record<string, number>
+    rows: SpecialisationRow[]
+}
+
+function symmetricRta(rta: number): number {
+    return (rta - 1) / (rta + 1)
+}
+
+/**
+ * Revealed technological advantage (Balassa index) of each owner in each code:
+ * the owner's share of its own assignments in the code, divided by the code's
+ * share of all assignments in the landscape. Shares are taken over every
+ * owner and code in the matrix; only the top owners and codes are returned.
+ */
+export function computeSpecialisation(matrix: OwnerCodeMatrix, ownerLimit: number, codeLimit: number): Specialisation {
+    const landscapeTotal = Object.values(matrix.codeTotals).reduce((sum, count) => sum + count, 0)
+    const codes = matrix.codes.slice(0, codeLimit)
+
+    const landscapeShares: Record<string, number> = {}
+    for (const code of codes) {
+        landscapeShares[code] = landscapeTotal > 0 ? matrix.codeTotals[code] / landscapeTotal : 0
+    }
+
+    const rows = matrix.rows.slice(0, ownerLimit).map(row => {
+        const assignments = Object.values(row.counts).reduce((sum, count) => sum + count, 0)
+        const counts: Record<string, number> = {}
+        const rta: Record<string, number> = {}
+        const symmetric: Record<string, number> = {}
+        let strongest: string | null = null
+
+        for (const code of codes) {
+            const count = row.counts[code] || 0
+            counts[code] = count
+            rta[code] = assignments > 0 && landscapeShares[code] > 0
+                ? (count / assignments) / landscapeShares[code]
+                : 0
+            symmetric[code] = symmetricRta(rta[code])
+            if (count > 0 && (strongest === null || rta[code] > rta[strongest])) strongest = code
+        }
+
+        return { owner: row.owner, total: row.total, assignments, counts, rta, symmetric, strongest }
+    })
+
+    return { codes, landscapeShares, rows }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { createOwnerHarmonizer } from './harmonizer'
+import { suggestOwnerAliases } from './suggestions'
+
+describe('suggestOwnerAliases', () => {
+    it('proposes the better-represented spelling as the canonical name', () => {
+        const suggestions = suggestOwnerAliases(
+            [
+                { name: 'TELEFON AB ET LM ERICSSON', count: 3 },
+                { name: 'ERICSSON', count: 12 },
+                { name: 'IBM', count: 40 },
+            ],
+            createOwnerHarmonizer({})
+        )
+
+        expect(suggestions).toEqual([{ canonical: 'ERICSSON', variant: 'TELEFON AB ET LM ERICSSON', score: 0.9 }])
+    })
+
+    it('skips names that already share a key or an alias', () => {
+        const harmonizer = createOwnerHarmonizer({ 'ERICSSON': ['TELEFON AB ET LM ERICSSON'] })
+        const suggestions = suggestOwnerAliases(
+            [
+                { name: 'IQM FINLAND OY', count: 5 },
+                { name: 'Iqm Finland', count: 2 },
+                { name: 'TELEFON AB ET LM ERICSSON', count: 3 },
+                { name: 'ERICSSON', count: 12 },
+            ],
+            harmonizer
+        )
+
+        expect(suggestions).toEqual([])
+    })
+
+    it('sums the counts of merged spellings before picking the canonical name', () => {
+        const suggestions = suggestOwnerAliases(
+            [
+                { name: 'RIGETTI COMPUTING', count: 2 },
+                { name: 'Rigetti Computing Inc', count: 2 },
+                { name: 'RIGETTI COMPUTNG', count: 3 },
+            ],
+            createOwnerHarmonizer({})
+        )
+
+        expect(suggestions.map(s => [s.canonical, s.variant])).toEqual([['RIGETTI COMPUTING', 'RIGETTI COMPUTNG']])
+    })
+})
@@ -0,0 +1,67 @@
+// app/lib/owners/suggestions.ts
+import { ownerSimilarity } from './normalize'
+import type { OwnerHarmonizer } from './harmonizer'
+
+// Constants
+const DEFAULT_THRESHOLD = 0.85
+const MAX_SUGGESTIONS = 50
+
+// Interfaces
+export interface OwnerNameCount {
+    name: string
+    count: number
+}
+
+export interface AliasSuggestion {
+    // The better-represented spelling, proposed as the canonical name
+    canonical: string
+    variant: string
+    score: number
+}
+
+/**
+ * Pairs of owner names that are probably the same company but do not yet
+ * share a key. Only suggestions: nothing is merged until an analyst accepts
+ * one into the alias dictionary.
+ */
+export function suggestOwnerAliases(
+    names: OwnerNameCount[],
+    harmonizer: OwnerHarmonizer,
+    threshold: number = DEFAULT_THRESHOLD
+): AliasSuggestion[] {
+    // Collapse names that already harmonise together, keeping the most frequent spelling
+    const groups = new Map<string, OwnerNameCount>()
+    for (const { name, count } of names) {
+        const key = harmonizer.key(name)
+        if (!key) continue
+        const existing = groups.get(key)
+        if (!existing) {
+            groups.set(key, { name: harmonizer.label(name), count })
+        } else {
+            existing.count += count
+        }
+    }
+
+    const entries = Array.from(groups.entries())
+    const suggestions: AliasSuggestion[] = []
+
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            const [keyA, a] = entries[i]
+            const [keyB, b] = entries[j]
+            const score = ownerSimilarity(keyA, keyB)
+            if (score < threshold) continue
+
+            const [canonical, variant] = a.count >= b.count ? [a, b] : [b, a]
+            suggestions.push({
+                canonical: canonical.name,
+                variant: variant.name,
+                score: Math.round(score * 100) / 100,
+            })
+        }
+    }
+
+    return suggestions
+        .sort((a, b) => b.score - a.score || a.canonical.localeCompare(b.canonical))
+        .slice(0, MAX_SUGGESTIONS)
+}
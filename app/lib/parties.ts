@@ -0,0 +1,30 @@
+// app/lib/parties.ts
+
+export interface Party {
+    name: string
+    country: string | null
+}
+
+// "IQM FINLAND OY  ( FI )" -> name + country
+const PARTY_PATTERN = /^(.*?)\s*\(\s*([A-Z]{2})\s*\)\s*$/
+
+export function parseParty(value: string): Party {
+    const match = value.trim().match(PARTY_PATTERN)
+    if (!match) {
+        return { name: value.trim(), country: null }
+    }
+    return { name: match[1].trim(), country: match[2] }
+}
+
+/**
+ * Splits a PatSeer applicant/inventor cell such as
+ * "BLICK ROBERT  (DE); MASSEL FRANCESCO  (NO)" into its parties.
+ */
+export function parsePartyList(value: string | null | undefined): Party[] {
+    if (!value) return []
+    return value
+        .split(/;|\r?\n/)
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(parseParty)
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { allocateDesignations, buildRegionalOverlays, findDesignationColumn } from './regionalFilings'
+
+describe('allocateDesignations', () => {
+    it('counts each EP family once per designated member state', () => {
+        const allocation = allocateDesignations([
+            { recordNumber: 'EP4200000A1', members: 'EP4200000A1\nFI20225123A', dates: '', designations: 'DE, FR, FI, US' },
+            // The same family again
+            { recordNumber: 'FI20225123A', members: 'FI20225123A\nEP4200000A1', dates: '', designations: 'DE, FR, FI' },
+            { recordNumber: 'EP4300000A1', members: 'None', dates: 'None', designations: 'de;gb' },
+            // Not an EP family
+            { recordNumber: 'US2024123456A1', members: 'None', dates: 'None', designations: 'DE' },
+        ], 'Designated States')
+
+        expect(allocation.families).toBe(2)
+        // FI already has a national member, and US is not an EPC state
+        expect(Object.fromEntries(allocation.states)).toEqual({ DE: 2, FR: 1, GB: 1 })
+    })
+})
+
+describe('findDesignationColumn', () => {
+    it('finds designated or validated state columns', () => {
+        expect(findDesignationColumn(['Record Number', 'EP Validated States'])).toBe('EP Validated States')
+        expect(findDesignationColumn(['Record Number', 'Title'])).toBeNull()
+    })
+})
+
+describe('buildRegionalOverlays', () => {
+    it('skips offices without known member states', () => {
+        const overlays = buildRegionalOverlays([
+            { code: 'EA', name: 'Eurasian Patent Organization', total: 3 },
+            { code: 'WO', name: 'WIPO', total: 40 },
+        ])
+
+        expect(overlays.map(o => o.office)).toEqual(['EA'])
+        expect(overlays[0].members).toContain('RUS')
+    })
+})
@@ -0,0 +1,121 @@
+// app/lib/regionalFilings.ts
+// Regional-office filings on the country map, shared by the geographic route and its component, so no Node imports here
+import { findCountry } from './countries'
+import { parseFamilyMembers } from './familyFlows'
+import type { FamilyRecord } from './familyFlows'
+import { EPO_STATES } from './regions'
+
+// Interfaces
+// How filings at regional offices (EP, EA, ...) appear on the map:
+//   separate    listed apart from the countries, as the exports count them
+//   overlay     drawn over the office's member states, country totals unchanged
+//   designated  EP families allocated to the states they designate, read from the result table
+export type RegionalMode = 'separate' | 'overlay' | 'designated'
+
+export interface RegionalOverlay {
+    office: string
+    name: string
+    total: number
+    // ISO 3166 alpha-3 codes, as the map locates countries by them
+    members: string[]
+}
+
+export interface DesignationAllocation {
+    office: string
+    // Result-table column the states were read from
+    column: string
+    // Families whose designations were read; their filings leave the office's own total
+    families: number
+    // Families per designated state, by alpha-2 code
+    states: Map<string, number>
+}
+
+// Constants
+export const REGIONAL_MODES: RegionalMode[] = ['separate', 'overlay', 'designated']
+
+export const REGIONAL_MODE_LABELS: Record<RegionalMode, string> = {
+    separate: 'Listed separately',
+    overlay: 'Overlay on member states',
+    designated: 'Allocated to designated states',
+}
+
+// Member states of the regional offices whose filings can cover countries. WO is
+// left out: a PCT filing designates every contracting state but protects none
+// until it enters the national phase, which the exports already list as national filings
+const OFFICE_MEMBER_STATES: Record<string, string[]> = {
+    EP: EPO_STATES,
+    EA: ['AM', 'AZ', 'BY', 'KG', 'KZ', 'RU', 'TJ', 'TM'],
+    AP: [
+        'BW', 'CV', 'GH', 'GM', 'KE', 'LR', 'LS', 'MW', 'MZ', 'NA', 'RW',
+        'SC', 'SD', 'SL', 'SO', 'ST', 'SZ', 'TZ', 'UG', 'ZM', 'ZW',
+    ],
+    OA: ['BF', 'BJ', 'CF', 'CG', 'CI', 'CM', 'GA', 'GN', 'GQ', 'GW', 'KM', 'ML', 'MR', 'NE', 'SN', 'TD', 'TG'],
+    GC: ['AE', 'BH', 'KW', 'OM', 'QA', 'SA'],
+}
+
+// PatSeer column names for EP designated or validated states
+const DESIGNATION_COLUMN_PATTERN = /designat|validat/i
+
+export function isRegionalMode(value: string | null | undefined): value is RegionalMode {
+    return REGIONAL_MODES.includes(value as RegionalMode)
+}
+
+// Overlays for the regional offices among the special regions; offices without known member states are skipped
+export function buildRegionalOverlays(offices: Array<{ code: string; name: string; total: number }>): RegionalOverlay[] {
+    return offices
+        .filter(office => office.total > 0 && OFFICE_MEMBER_STATES[office.code])
+        .map(office => ({
+            office: office.code,
+            name: office.name,
+            total: office.total,
+            members: OFFICE_MEMBER_STATES[office.code]
+                .map(code => findCountry(code)?.iso3)
+                .filter((iso3): iso3 is string => Boolean(iso3)),
+        }))
+}
+
+export function findDesignationColumn(columns: string[]): string | null {
+    return columns.find(column => DESIGNATION_COLUMN_PATTERN.test(column)) ?? null
+}
+
+/**
+ * Counts, per state, the EP families that designate or validate it. A family
+ * is counted once however many of its records are in the table, and a state
+ * where the family already has a national member is skipped, as the country
+ * export counts that family there already.
+ */
+export function allocateDesignations(
+    records: Array<Pick<FamilyRecord, 'recordNumber' | 'members' | 'dates'> & { designations: string }>,
+    column: string
+): DesignationAllocation {
+    const seen = new Set<string>()
+    const states = new Map<string, number>()
+    const memberStates = new Set(OFFICE_MEMBER_STATES.EP)
+    let families = 0
+
+    for (const record of records) {
+        let members = parseFamilyMembers(record.members, record.dates)
+        if (members.length === 0) members = parseFamilyMembers(record.recordNumber, '')
+        if (!members.some(m => m.office === 'EP')) continue
+
+        const key = members.map(m => m.publication).sort().join('|')
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const designated = new Set(
+            (record.designations.toUpperCase().match(/\b[A-Z]{2}\b/g) || [])
+                .map(code => findCountry(code)?.iso2)
+                .filter((iso2): iso2 is string => Boolean(iso2) && memberStates.has(iso2!))
+        )
+        if (designated.size === 0) continue
+        families++
+
+        const national = new Set(members.map(m => m.office))
+        for (const state of designated) {
+            if (national.has(state)) continue
+            states.set(state, (states.get(state) || 0) + 1)
+        }
+    }
+
+    return { office: 'EP', column, families, states }
+}
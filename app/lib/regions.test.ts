@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { aggregateRegions, customRegionDefinitions, normalizeRegionMembers, regionScope } from './regions'
+
+describe('normalizeRegionMembers', () => {
+    it('resolves codes to alpha-2 and drops duplicates', () => {
+        expect(normalizeRegionMembers(['NO', 'swe', ' UK ', 'NOR', ''])).toEqual({ members: ['NO', 'SE', 'GB'], errors: [] })
+    })
+
+    it('rejects patent offices and unknown codes', () => {
+        expect(normalizeRegionMembers(['DE', 'EP', 'XX'])).toEqual({
+            members: ['DE'],
+            errors: ['EP is not an ISO 3166 country code', 'XX is not an ISO 3166 country code'],
+        })
+    })
+})
+
+describe('regionScope', () => {
+    it('zooms to Europe only when every member is European', () => {
+        expect(regionScope(['NO', 'UA', 'CH'])).toBe('europe')
+        expect(regionScope(['NO', 'US'])).toBe('world')
+        expect(regionScope([])).toBe('world')
+    })
+})
+
+describe('customRegionDefinitions', () => {
+    it('builds definitions from the readable codes and drops empty regions', () => {
+        expect(customRegionDefinitions({ 'Nordic+': ['NO', 'SE', 'DE', 'XX'], 'Broken': ['XX'], 'Quantum hubs': ['US', 'FI'] })).toEqual([
+            { id: 'custom:nordic+', label: 'Nordic+', members: ['NO', 'SE', 'DE'], scope: 'europe', custom: true },
+            { id: 'custom:quantum hubs', label: 'Quantum hubs', members: ['US', 'FI'], scope: 'world', custom: true },
+        ])
+    })
+})
+
+describe('aggregateRegions', () => {
+    it('sums member totals and lists every member, largest first', () => {
+        const [region] = aggregateRegions(
+            new Map([['NO', 12], ['SE', 30], ['US', 100]]),
+            customRegionDefinitions({ 'Nordic+': ['NO', 'SE', 'IS'] })
+        )
+
+        expect(region.total).toBe(42)
+        expect(region.countries).toEqual([
+            { code: 'SE', iso3: 'SWE', name: 'Sweden', total: 30 },
+            { code: 'NO', iso3: 'NOR', name: 'Norway', total: 12 },
+            { code: 'IS', iso3: 'ISL', name: 'Iceland', total: 0 },
+        ])
+    })
+})
@@ -0,0 +1,133 @@
+// app/lib/regions.ts
+// Region groupings shared by the geographic route and its component, so no Node imports here
+import { findCountry } from './countries'
+
+// Interfaces
+// Plotly geo scopes the region map can zoom to
+export type MapScope = 'world' | 'europe'
+
+export interface RegionDefinition {
+    id: string
+    label: string
+    // ISO 3166 alpha-2 codes
+    members: string[]
+    scope: MapScope
+    // Defined by an analyst in data/custom_regions.json rather than built in
+    custom: boolean
+}
+
+export interface RegionMemberTotal {
+    code: string
+    iso3: string
+    name: string
+    total: number
+}
+
+export interface RegionTotal extends RegionDefinition {
+    total: number
+    // Every member, including those without filings, largest first
+    countries: RegionMemberTotal[]
+}
+
+// Custom region label -> member country codes
+export type CustomRegions = Record<string, string[]>
+
+// Constants
+const NORDICS = ['DK', 'FI', 'IS', 'NO', 'SE']
+
+const EU27 = [
+    'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+    'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+]
+
+// Contracting states of the European Patent Convention
+export const EPO_STATES = [
+    ...EU27,
+    'AL', 'CH', 'GB', 'IS', 'LI', 'MC', 'ME', 'MK', 'NO', 'RS', 'SM', 'TR',
+].sort()
+
+const APAC = [
+    'AU', 'BD', 'BN', 'CN', 'HK', 'ID', 'IN', 'JP', 'KH', 'KR', 'LA', 'LK',
+    'MM', 'MN', 'MO', 'MY', 'NZ', 'PH', 'PK', 'SG', 'TH', 'TW', 'VN',
+]
+
+// European countries outside the EPC, so custom regions of them still get the Europe map
+const OTHER_EUROPE = ['AD', 'AX', 'BA', 'BY', 'FO', 'GG', 'GI', 'IM', 'JE', 'MD', 'SJ', 'UA', 'VA']
+const EUROPE = new Set([...EPO_STATES, ...OTHER_EUROPE])
+
+export const BUILT_IN_REGIONS: RegionDefinition[] = [
+    { id: 'nordics', label: 'Nordics', members: NORDICS, scope: 'europe', custom: false },
+    { id: 'eu27', label: 'EU27', members: EU27, scope: 'europe', custom: false },
+    { id: 'epo', label: 'EPO member states', members: EPO_STATES, scope: 'europe', custom: false },
+    // Plotly's asia scope cuts off Australia and New Zealand
+    { id: 'apac', label: 'Asia-Pacific', members: APAC, scope: 'world', custom: false },
+]
+
+export const DEFAULT_REGION = 'nordics'
+
+export function customRegionId(label: string): string {
+    return `custom:${label.trim().toLowerCase()}`
+}
+
+// The Europe map when every member is European, the world map otherwise
+export function regionScope(members: string[]): MapScope {
+    return members.length > 0 && members.every(code => EUROPE.has(code)) ? 'europe' : 'world'
+}
+
+/**
+ * Resolves member codes (alpha-2, alpha-3 or an alias such as UK) to alpha-2
+ * codes, dropping duplicates. Codes that are not ISO 3166 countries, patent
+ * offices included, are returned as errors.
+ */
+export function normalizeRegionMembers(codes: string[]): { members: string[]; errors: string[] } {
+    const members: string[] = []
+    const errors: string[] = []
+
+    for (const code of codes.map(c => c.trim()).filter(Boolean)) {
+        const country = findCountry(code)
+        if (!country) {
+            errors.push(`${code} is not an ISO 3166 country code`)
+        } else if (!members.includes(country.iso2)) {
+            members.push(country.iso2)
+        }
+    }
+
+    return { members, errors }
+}
+
+// Custom regions as definitions; unreadable member codes in a hand-edited file are skipped
+export function customRegionDefinitions(custom: CustomRegions): RegionDefinition[] {
+    return Object.entries(custom)
+        .map(([label, codes]) => {
+            const { members } = normalizeRegionMembers(codes)
+            return { id: customRegionId(label), label, members, scope: regionScope(members), custom: true }
+        })
+        .filter(region => region.members.length > 0)
+}
+
+/**
+ * Sums per-country totals (keyed by alpha-2 code) into each region. A country
+ * counts in full towards every region it belongs to, so overlapping regions
+ * such as EU27 and the EPO states cannot be added together.
+ */
+export function aggregateRegions(totals: Map<string, number>, regions: RegionDefinition[]): RegionTotal[] {
+    return regions.map(region => {
+        const countries = region.members
+            .map(code => {
+                const country = findCountry(code)
+                return {
+                    code,
+                    iso3: country?.iso3 ?? code,
+                    name: country?.name ?? code,
+                    total: totals.get(code) ?? 0,
+                }
+            })
+            .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+
+        return {
+            ...region,
+            total: countries.reduce((sum, country) => sum + country.total, 0),
+            countries,
+        }
+    })
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { buildDendrogram, cosineSimilarity, cutDendrogram, dendrogramOrder, similarityMatrix } from './similarity'
+import type { SparseVector } from './similarity'
+
+// Two G06N profiles that differ only in scale, and two H01L-heavy ones
+const profiles: SparseVector[] = [
+    { G06N: 1 },
+    { G06N: 2 },
+    { H01L: 3 },
+    { H01L: 1, B82Y: 1 },
+]
+
+describe('cosineSimilarity', () => {
+    it('compares the mix of codes, not the volume', () => {
+        expect(cosineSimilarity({ G06N: 1, H01L: 2 }, { G06N: 3, H01L: 6 })).toBeCloseTo(1)
+        expect(cosineSimilarity({ G06N: 1 }, { H01L: 1 })).toBe(0)
+        expect(cosineSimilarity({ H01L: 3 }, { H01L: 1, B82Y: 1 })).toBeCloseTo(Math.SQRT1_2)
+    })
+
+    it('is 0 for an empty profile', () => {
+        expect(cosineSimilarity({}, { G06N: 1 })).toBe(0)
+        expect(cosineSimilarity({ G06N: 0 }, { G06N: 1 })).toBe(0)
+    })
+})
+
+describe('similarityMatrix', () => {
+    it('is symmetric with ones on the diagonal', () => {
+        const matrix = similarityMatrix([{ G06N: 1 }, { G06N: 1, H01L: 1 }, {}])
+
+        expect(matrix[0][0]).toBe(1)
+        expect(matrix[2][2]).toBe(1)
+        expect(matrix[0][1]).toBeCloseTo(Math.SQRT1_2)
+        expect(matrix[1][0]).toBe(matrix[0][1])
+        expect(matrix[0][2]).toBe(0)
+    })
+})
+
+describe('buildDendrogram', () => {
+    it('joins the most similar clusters first and numbers merges after the leaves', () => {
+        const merges = buildDendrogram(profiles)
+
+        expect(merges.map(({ left, right }) => [left, right])).toEqual([[0, 1], [2, 3], [4, 5]])
+        expect(merges[0].similarity).toBeCloseTo(1)
+        expect(merges[1].similarity).toBeCloseTo(Math.SQRT1_2)
+        expect(merges[2].similarity).toBe(0)
+    })
+
+    it('links clusters at their average similarity', () => {
+        const merges = buildDendrogram([{ G06N: 1 }, { G06N: 1, H01L: 1 }, { H01L: 1 }])
+
+        expect(merges[0]).toMatchObject({ left: 0, right: 1 })
+        // (0 + 0.707) / 2, where single linkage would give 0.707
+        expect(merges[1]).toMatchObject({ left: 3, right: 2 })
+        expect(merges[1].similarity).toBeCloseTo(Math.SQRT1_2 / 2)
+    })
+
+    it('has no merges for a single profile', () => {
+        expect(buildDendrogram([{ G06N: 1 }])).toEqual([])
+        expect(dendrogramOrder([], 1)).toEqual([0])
+        expect(dendrogramOrder([], 0)).toEqual([])
+    })
+})
+
+describe('dendrogramOrder', () => {
+    it('lists the leaves of each merge next to each other', () => {
+        const merges = buildDendrogram([profiles[2], profiles[0], profiles[3], profiles[1]])
+
+        expect(dendrogramOrder(merges, 4)).toEqual([0, 2, 1, 3])
+    })
+})
+
+describe('cutDendrogram', () => {
+    const merges = buildDendrogram(profiles)
+
+    it('keeps profiles together while their merge is above the threshold', () => {
+        expect(cutDendrogram(merges, 4, 0.8)).toEqual([0, 0, 1, 2])
+        expect(cutDendrogram(merges, 4, 0.5)).toEqual([0, 0, 1, 1])
+        expect(cutDendrogram(merges, 4, 0)).toEqual([0, 0, 0, 0])
+    })
+
+    it('numbers clusters by size, largest first', () => {
+        const merges = buildDendrogram([{ Y10S: 1 }, ...profiles])
+
+        expect(cutDendrogram(merges, 5, 0.5)).toEqual([2, 0, 0, 1, 1])
+        expect(cutDendrogram(merges, 5, 1.01)).toEqual([0, 1, 2, 3, 4])
+    })
+})
@@ -0,0 +1,126 @@
+// app/lib/similarity.ts
+// Profile similarity and clustering shared by the API routes and the client components, so no Node imports here
+
+// Interfaces
+// Counts keyed by code; absent keys are zero
+export type SparseVector = Record<string, number>
+
+// Two clusters joined at the given average similarity; ids >= n are earlier merges
+export interface DendrogramMerge {
+    left: number
+    right: number
+    similarity: number
+}
+
+function norm(vector: SparseVector): number {
+    let sum = 0
+    for (const value of Object.values(vector)) sum += value * value
+    return Math.sqrt(sum)
+}
+
+// Cosine of the angle between two count profiles: 1 for the same mix, 0 for nothing in common
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+    const normA = norm(a)
+    const normB = norm(b)
+    if (normA === 0 || normB === 0) return 0
+
+    const [small, large] = Object.keys(a).length <= Object.keys(b).length ? [a, b] : [b, a]
+    let dot = 0
+    for (const [key, value] of Object.entries(small)) {
+        if (large[key]) dot += value * large[key]
+    }
+    return dot / (normA * normB)
+}
+
+export function similarityMatrix(vectors: SparseVector[]): number[][] {
+    return vectors.map((a, i) => vectors.map((b, j) => (i === j ? 1 : cosineSimilarity(a, b))))
+}
+
+/**
+ * Average-linkage agglomerative clustering over cosine similarity. Returns the
+ * n - 1 merges in the order they happen; cluster i < n is vector i and cluster
+ * n + k is the result of merge k. Cubic in n, meant for up to a few hundred profiles.
+ */
+export function buildDendrogram(vectors: SparseVector[]): DendrogramMerge[] {
+    const n = vectors.length
+    const similarity = similarityMatrix(vectors)
+    // Active clusters: id, size and row in the similarity matrix
+    const active = vectors.map((_, i) => ({ id: i, size: 1, row: i }))
+    const merges: DendrogramMerge[] = []
+
+    while (active.length > 1) {
+        let best = { a: 0, b: 1, value: -Infinity }
+        for (let a = 0; a < active.length; a++) {
+            for (let b = a + 1; b < active.length; b++) {
+                const value = similarity[active[a].row][active[b].row]
+                if (value > best.value) best = { a, b, value }
+            }
+        }
+
+        const left = active[best.a]
+        const right = active[best.b]
+        merges.push({ left: left.id, right: right.id, similarity: best.value })
+
+        // Lance-Williams update for average linkage, stored in the left cluster's row
+        for (const other of active) {
+            if (other === left || other === right) continue
+            const value = (similarity[left.row][other.row] * left.size + similarity[right.row][other.row] * right.size) /
+                (left.size + right.size)
+            similarity[left.row][other.row] = value
+            similarity[other.row][left.row] = value
+        }
+
+        active.splice(best.b, 1)
+        active[best.a] = { id: n + merges.length - 1, size: left.size + right.size, row: left.row }
+    }
+
+    return merges
+}
+
+// Leaf order of a dendrogram, so similar profiles end up next to each other
+export function dendrogramOrder(merges: DendrogramMerge[], n: number): number[] {
+    if (n === 0) return []
+    if (merges.length === 0) return [0]
+
+    const order: number[] = []
+    const stack = [n + merges.length - 1]
+    while (stack.length > 0) {
+        const id = stack.pop()!
+        if (id < n) {
+            order.push(id)
+        } else {
+            const merge = merges[id - n]
+            stack.push(merge.right, merge.left)
+        }
+    }
+    return order
+}
+
+/**
+ * Flat clusters from a dendrogram: profiles stay together while the merge that
+ * joins them is at least `threshold` similar. Returns a cluster number per
+ * profile, numbered from 0 by cluster size, largest first.
+ */
+export function cutDendrogram(merges: DendrogramMerge[], n: number, threshold: number): number[] {
+    const groups: Array<number[] | null> = Array.from({ length: n }, (_, i) => [i])
+
+    merges.forEach((merge, k) => {
+        const left = groups[merge.left]
+        const right = groups[merge.right]
+        if (merge.similarity >= threshold && left && right) {
+            groups[n + k] = [...left, ...right]
+            groups[merge.left] = null
+            groups[merge.right] = null
+        } else {
+            // Below the cut: both sides stay as they are and nothing above them joins
+            groups[n + k] = null
+        }
+    })
+
+    const labels = new Array<number>(n).fill(0)
+    groups
+        .filter((group): group is number[] => group !== null)
+        .sort((a, b) => b.length - a.length)
+        .forEach((group, cluster) => group.forEach(i => { labels[i] = cluster }))
+    return labels
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { describeYearRange, isInYearRange, parseYearRange, withYearRange } from './yearRange'
+
+describe('parseYearRange', () => {
+    it('reads both bounds, either bound or none', () => {
+        expect(parseYearRange(new URLSearchParams('from=2015&to=2020'))).toEqual({ from: 2015, to: 2020 })
+        expect(parseYearRange(new URLSearchParams('from=2015'))).toEqual({ from: 2015, to: null })
+        expect(parseYearRange(new URLSearchParams('to= 2020 '))).toEqual({ from: null, to: 2020 })
+        expect(parseYearRange(new URLSearchParams('from=&to='))).toEqual({ from: null, to: null })
+    })
+
+    it('rejects anything but four-digit years in order', () => {
+        expect(parseYearRange(new URLSearchParams('from=15'))).toBeNull()
+        expect(parseYearRange(new URLSearchParams('to=2020.5'))).toBeNull()
+        expect(parseYearRange(new URLSearchParams('from=2021&to=2020'))).toBeNull()
+    })
+})
+
+describe('isInYearRange', () => {
+    it('treats bounds as inclusive and null bounds as open', () => {
+        expect(isInYearRange(2015, { from: 2015, to: 2020 })).toBe(true)
+        expect(isInYearRange(2020, { from: 2015, to: 2020 })).toBe(true)
+        expect(isInYearRange(2021, { from: 2015, to: 2020 })).toBe(false)
+        expect(isInYearRange(1990, { from: null, to: 2020 })).toBe(true)
+    })
+})
+
+describe('withYearRange', () => {
+    it('appends only the bounds that are set', () => {
+        expect(withYearRange('category=qc', { from: 2015, to: null })).toBe('category=qc&from=2015')
+        expect(withYearRange('category=qc', { from: null, to: null })).toBe('category=qc')
+    })
+})
+
+describe('describeYearRange', () => {
+    it('labels open and closed ranges', () => {
+        expect(describeYearRange({ from: null, to: null })).toBe('All years')
+        expect(describeYearRange({ from: null, to: 2020 })).toBe('Up to 2020')
+        expect(describeYearRange({ from: 2015, to: 2020 })).toBe('2015 - 2020')
+    })
+})
@@ -0,0 +1,60 @@
+// app/lib/yearRange.ts
+// Shared by the API routes and the client components, so no Node imports here
+
+// Interfaces
+export interface YearRange {
+    // Inclusive bounds; null leaves that side open
+    from: number | null
+    to: number | null
+}
+
+export interface YearExtent {
+    min: number
+    max: number
+}
+
+export const ALL_YEARS: YearRange = { from: null, to: null }
+
+export const INVALID_YEAR_RANGE = 'Invalid year range: "from" and "to" must be four-digit years with from <= to'
+
+function parseYear(value: string | null): number | null | undefined {
+    if (value === null || value.trim() === '') return null
+    return /^\d{4}$/.test(value.trim()) ? parseInt(value, 10) : undefined
+}
+
+/**
+ * Reads `from`/`to` query parameters. Returns null when either is not a
+ * four-digit year or the range is reversed, so routes can answer 400.
+ */
+export function parseYearRange(params: URLSearchParams): YearRange | null {
+    const from = parseYear(params.get('from'))
+    const to = parseYear(params.get('to'))
+
+    if (from === undefined || to === undefined) return null
+    if (from !== null && to !== null && from > to) return null
+
+    return { from, to }
+}
+
+export function isInYearRange(year: number, range: YearRange): boolean {
+    return (range.from === null || year >= range.from) && (range.to === null || year <= range.to)
+}
+
+export function yearRangeQuery(range: YearRange): string {
+    const params = new URLSearchParams()
+    if (range.from !== null) params.set('from', String(range.from))
+    if (range.to !== null) params.set('to', String(range.to))
+    return params.toString()
+}
+
+// Appends the range to an existing query string, e.g. a category query
+export function withYearRange(query: string, range: YearRange): string {
+    return [query, yearRangeQuery(range)].filter(Boolean).join('&')
+}
+
+export function describeYearRange(range: YearRange): string {
+    if (range.from === null && range.to === null) return 'All years'
+    if (range.from === null) return `Up to ${range.to}`
+    if (range.to === null) return `From ${range.from}`
+    return `${range.from} - ${range.to}`
+}
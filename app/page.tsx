@@ -1,11 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import dynamic from 'next/dynamic'
+import { DEFAULT_CATEGORY, QUANTUM_CATEGORIES } from './lib/categories'
+import type { CategoryStatus } from './lib/datasets/sources'
+import { ALL_YEARS } from './lib/yearRange'
+import type { YearExtent, YearRange } from './lib/yearRange'
+import YearRangeSlider from './components/YearRangeSlider'
 
 // Constants
-const DEFAULT_CATEGORY = 'kvantealgoritmer'
 const DEFAULT_ANALYSIS = 'geographic'
+// Uploading is how a category gets its data, so it never requires an available category
+const UPLOAD_ANALYSIS = 'upload'
 
 // Loading component
 const LoadingSpinner = () => (
@@ -34,13 +40,51 @@ const ClassificationAnalysis = dynamic(() => import('./components/Classification
   ssr: false,
   loading: () => <LoadingSpinner />
 })
+const MatrixExplorer = dynamic(() => import('./components/MatrixExplorer'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const OwnerSimilarity = dynamic(() => import('./components/OwnerSimilarity'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const NorwayAnalysis = dynamic(() => import('./components/NorwayAnalysis'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const DatasetUpload = dynamic(() => import('./components/DatasetUpload'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const OwnerAliases = dynamic(() => import('./components/OwnerAliases'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const InventorReview = dynamic(() => import('./components/InventorReview'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
+const SnapshotDiff = dynamic(() => import('./components/SnapshotDiff'), {
+  ssr: false,
+  loading: () => <LoadingSpinner />
+})
 
 // Interfaces
 interface QuantumCategory {
   id: string
   label: string
   class: string
+  dataDir: string
   available: boolean
+  errors: string[]
+  years: YearExtent | null
+  snapshots: string[]
+}
+
+interface CategoriesResponse {
+  success: boolean
+  data?: CategoryStatus[]
+  error?: string
 }
 
 interface AnalysisMenuItem {
@@ -49,28 +93,64 @@ interface AnalysisMenuItem {
   icon: string
 }
 
-// Quantum category configurations
-const quantumCategories: QuantumCategory[] = [
-  { id: 'kvantedatamaskinvare', label: 'Kvantedatamaskinvare', class: 'G06N10/00', available: false },
-  { id: 'kvantealgoritmer', label: 'Kvantealgoritmer', class: 'G06N10/20', available: true },
-  { id: 'quantum-sensors', label: 'Quantum Sensors', class: 'G01N', available: false },
-  { id: 'quantum-materials', label: 'Quantum Materials', class: 'C01B', available: false },
-  { id: 'kvanteenheter', label: 'Kvanteenheter', class: 'G06N10/40', available: false },
-  { id: 'optiske-kvanteteknologier', label: 'Optiske kvanteteknologier', class: 'G02F', available: false },
-]
-
 // Analysis menu items for each category
 const analysisMenuItems: AnalysisMenuItem[] = [
   { id: 'geographic', label: 'Geographic Analysis', icon: '📍' },
   { id: 'entity', label: 'Entity Analysis', icon: '👥' },
   { id: 'timeline', label: 'Timeline Analysis', icon: '📈' },
   { id: 'classification', label: 'Classification: IPC/CPC Codes', icon: '🏷️' },
+  { id: 'matrix', label: 'Owner × Code Matrix', icon: '🧮' },
+  { id: 'similarity', label: 'Similar Owners', icon: '🧬' },
   { id: 'norway', label: 'Norway Analysis', icon: '🇳🇴' },
+  { id: 'owners', label: 'Owner Names', icon: '🏢' },
+  { id: 'inventors', label: 'Inventor Review', icon: '👨‍🔬' },
+  { id: 'snapshots', label: 'What Changed', icon: '🔄' },
+  { id: UPLOAD_ANALYSIS, label: 'Upload Data', icon: '📤' },
 ]
 
+// A category is available once the server has validated its data folder
+async function fetchCategoryStatuses(): Promise<CategoryStatus[]> {
+  try {
+    const response = await fetch('/api/categories')
+    const result: CategoriesResponse = await response.json()
+
+    if (result.success && result.data) {
+      return result.data
+    }
+    throw new Error(result.error || 'Failed to load categories')
+  } catch (err) {
+    console.error('Category fetch error:', err)
+    return []
+  }
+}
+
 export default function Home() {
   const [currentCategory, setCurrentCategory] = useState<string>(DEFAULT_CATEGORY)
   const [currentAnalysis, setCurrentAnalysis] = useState<string>(DEFAULT_ANALYSIS)
+  const [categoryStatuses, setCategoryStatuses] = useState<CategoryStatus[] | null>(null)
+  // One year range drives every analysis module
+  const [yearRange, setYearRange] = useState<YearRange>(ALL_YEARS)
+  // Date label of the snapshot the analysis modules read; null for the live exports
+  const [snapshot, setSnapshot] = useState<string | null>(null)
+
+  const refreshCategories = useCallback(() => {
+    fetchCategoryStatuses().then(setCategoryStatuses)
+  }, [])
+
+  useEffect(() => {
+    refreshCategories()
+  }, [refreshCategories])
+
+  const quantumCategories: QuantumCategory[] = QUANTUM_CATEGORIES.map(category => {
+    const status = categoryStatuses?.find(s => s.id === category.id)
+    return {
+      ...category,
+      available: status?.available ?? false,
+      errors: status?.validation.errors ?? [],
+      years: status?.years ?? null,
+      snapshots: status?.snapshots ?? [],
+    }
+  })
 
   // Get current category info
   const activeCategoryInfo = quantumCategories.find(cat => cat.id === currentCategory)
@@ -94,8 +174,12 @@ export default function Home() {
   }
 
   const renderContent = () => {
+    if (categoryStatuses === null) {
+      return <LoadingSpinner />
+    }
+
     // Only render content for available categories
-    if (!activeCategoryInfo?.available) {
+    if (!activeCategoryInfo?.available && currentAnalysis !== UPLOAD_ANALYSIS) {
       return (
         <div className="fade-in">
           <div className="card border-2 border-orange-500">
@@ -105,8 +189,16 @@ export default function Home() {
             </p>
             <div className="info-box-warning">
               <p className="text-orange-900 font-medium">
-                This quantum technology category will be available soon. Please check back later.
+                This category becomes available once its PatSeer exports are placed in{' '}
+                <code>{['data', activeCategoryInfo?.dataDir, 'raw'].filter(Boolean).join('/')}</code> and pass validation.
               </p>
+              {activeCategoryInfo && activeCategoryInfo.errors.length > 0 && (
+                <ul className="mt-3 text-sm text-orange-800 list-disc list-inside">
+                  {activeCategoryInfo.errors.map(error => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         </div>
@@ -118,37 +210,67 @@ export default function Home() {
       case 'geographic':
         return (
           <div className="fade-in">
-            <GeographicAnalysis />
+            <GeographicAnalysis category={currentCategory} snapshot={snapshot} yearRange={yearRange} />
           </div>
         )
       case 'entity':
         return (
           <div className="fade-in">
-            <EntityAnalysis />
+            <EntityAnalysis category={currentCategory} snapshot={snapshot} yearRange={yearRange} />
           </div>
         )
       case 'timeline':
         return (
           <div className="fade-in">
-            <TimelineAnalysis />
+            <TimelineAnalysis category={currentCategory} snapshot={snapshot} yearRange={yearRange} />
           </div>
         )
       case 'classification':
         return (
           <div className="fade-in">
-            <ClassificationAnalysis />
+            <ClassificationAnalysis category={currentCategory} snapshot={snapshot} yearRange={yearRange} />
+          </div>
+        )
+      case 'matrix':
+        return (
+          <div className="fade-in">
+            <MatrixExplorer category={currentCategory} snapshot={snapshot} />
+          </div>
+        )
+      case 'similarity':
+        return (
+          <div className="fade-in">
+            <OwnerSimilarity category={currentCategory} snapshot={snapshot} />
           </div>
         )
       case 'norway':
         return (
           <div className="fade-in">
-            <div className="card">
-              <h2 className="card-header">🇳🇴 Norway Analysis</h2>
-              <p className="text-gray-600 mb-6">Deep dive into Norwegian patent filings</p>
-              <div className="info-box-warning">
-                <p className="text-orange-900 font-medium">Norway analysis coming soon...</p>
-              </div>
-            </div>
+            <NorwayAnalysis category={currentCategory} snapshot={snapshot} yearRange={yearRange} />
+          </div>
+        )
+      case 'owners':
+        return (
+          <div className="fade-in">
+            <OwnerAliases category={currentCategory} />
+          </div>
+        )
+      case 'inventors':
+        return (
+          <div className="fade-in">
+            <InventorReview category={currentCategory} />
+          </div>
+        )
+      case 'snapshots':
+        return (
+          <div className="fade-in">
+            <SnapshotDiff category={currentCategory} onCreated={refreshCategories} />
+          </div>
+        )
+      case UPLOAD_ANALYSIS:
+        return (
+          <div className="fade-in">
+            <DatasetUpload category={currentCategory} onInstalled={refreshCategories} />
           </div>
         )
       default:
@@ -186,6 +308,8 @@ export default function Home() {
                   onClick={() => {
                     setCurrentCategory(category.id)
                     setCurrentAnalysis(DEFAULT_ANALYSIS)
+                    setYearRange(ALL_YEARS)
+                    setSnapshot(null)
                   }}
                   className={getCategoryButtonClass(category, isSelected)}
                   disabled={!category.available}
@@ -216,13 +340,41 @@ export default function Home() {
             </div>
           </div>
 
+          {activeCategoryInfo?.available && activeCategoryInfo.years && (
+            <div className="p-6 border-b border-gray-200">
+              <YearRangeSlider
+                extent={activeCategoryInfo.years}
+                value={yearRange}
+                onChange={setYearRange}
+              />
+            </div>
+          )}
+
+          {activeCategoryInfo?.available && activeCategoryInfo.snapshots.length > 0 && (
+            <div className="p-6 border-b border-gray-200">
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-700">Data Snapshot</span>
+                <select
+                  value={snapshot ?? ''}
+                  onChange={e => setSnapshot(e.target.value || null)}
+                  className="mt-2 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  <option value="">Current exports</option>
+                  {activeCategoryInfo.snapshots.map(label => (
+                    <option key={label} value={label}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
           <nav className="flex-1 overflow-y-auto p-4 space-y-2" aria-label="Analysis Modules">
             <h2 className="text-xs font-semibold text-gray-500 uppercase px-3 mb-4 tracking-wider">
               Analysis Modules
             </h2>
 
             {analysisMenuItems.map((item) => {
-              const isAvailable = activeCategoryInfo?.available
+              const isAvailable = activeCategoryInfo?.available || item.id === UPLOAD_ANALYSIS
               const isActive = currentAnalysis === item.id
               return (
                 <button
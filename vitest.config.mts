@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+    },
+    test: {
+        include: ['app/**/*.test.ts'],
+        environment: 'node',
+        // Ahead of UTC, where reading dates in UTC shifts them back a day
+        env: { TZ: 'Europe/Oslo' },
+    },
+})